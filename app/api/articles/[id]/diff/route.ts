@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffArticles } from '@/lib/diff';
+import { articleStore, revisionStore } from '@/lib/storage';
+import { GeneratedArticle } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 版IDから記事のスナップショットを取得する（"current" は現在の記事）
+async function resolveSnapshot(articleId: string, revisionId: string): Promise<GeneratedArticle | null> {
+  if (revisionId === 'current') {
+    const stored = await articleStore.get(articleId);
+    return stored?.article || null;
+  }
+  const revision = await revisionStore.get(revisionId);
+  return revision && revision.articleId === articleId ? revision.article : null;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to') || 'current';
+
+    if (!from) {
+      return NextResponse.json(
+        { error: '比較元の版（from）が必要です' },
+        { status: 400 }
+      );
+    }
+
+    const [before, after] = await Promise.all([resolveSnapshot(id, from), resolveSnapshot(id, to)]);
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: '指定された版が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ diff: diffArticles(before, after) });
+  } catch (error) {
+    console.error('差分計算エラー:', error);
+    return NextResponse.json(
+      { error: '差分の計算に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyArticleClaims } from '@/lib/sources';
+import { articleStore, resolveArticleBrand, wordpressSiteStore } from '@/lib/storage';
+import { publishToWordPress, upsertPublication, WordPressError, WordPressPostStatus } from '@/lib/wordpress';
+
+interface PublishRequest {
+  siteId?: string;
+  // 公開はWordPressの管理画面で確認してから行うため、下書きとレビュー待ちのみ受け付ける
+  status?: WordPressPostStatus;
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const PUBLISH_STATUSES: WordPressPostStatus[] = ['draft', 'pending'];
+
+// 記事をWordPressに投稿する（投稿済みのサイトでは、記録した投稿IDの投稿を更新する）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { siteId, status } = await request.json() as PublishRequest;
+
+    if (!siteId) {
+      return NextResponse.json(
+        { error: '投稿先のサイトを指定してください' },
+        { status: 400 }
+      );
+    }
+    if (status !== undefined && !PUBLISH_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'ステータスは draft または pending を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const stored = await articleStore.get(id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+    const site = await wordpressSiteStore.get(siteId);
+    if (!site) {
+      return NextResponse.json(
+        { error: 'WordPressサイトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const brand = await resolveArticleBrand(stored.article);
+    const claims = await verifyArticleClaims(stored.article, brand, stored.projectId);
+    if (claims.unresolved.length > 0) {
+      return NextResponse.json(
+        { error: '根拠のない主張が未確認です。承認または削除してから投稿してください', claims: claims.unresolved },
+        { status: 422 }
+      );
+    }
+
+    const publication = await publishToWordPress(stored, site, { brand, status });
+    const article = await articleStore.update(id, {
+      wordpress: upsertPublication(stored.wordpress, publication),
+    });
+
+    return NextResponse.json({ publication, article });
+  } catch (error) {
+    if (error instanceof WordPressError) {
+      return NextResponse.json(
+        { error: `WordPressへの投稿に失敗しました: ${error.message}`, code: error.code },
+        { status: 502 }
+      );
+    }
+    console.error('WordPress投稿エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressへの投稿に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
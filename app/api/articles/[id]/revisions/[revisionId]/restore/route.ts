@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleStore, recordRevision, revisionStore } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+// 過去の版の内容を現在の記事に戻し、復元操作自体も新しい版として記録する
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, revisionId } = await params;
+    const revision = await revisionStore.get(revisionId);
+
+    if (!revision || revision.articleId !== id) {
+      return NextResponse.json(
+        { error: '指定された版が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const stored = await articleStore.update(id, { article: revision.article });
+    if (!stored) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const restored = await recordRevision(id, revision.article, 'restore', `第${revision.revisionNumber}版を復元`);
+
+    return NextResponse.json({ article: stored, revision: restored });
+  } catch (error) {
+    console.error('版の復元エラー:', error);
+    return NextResponse.json(
+      { error: '版の復元に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revisionStore } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, revisionId } = await params;
+    const revision = await revisionStore.get(revisionId);
+
+    if (!revision || revision.articleId !== id) {
+      return NextResponse.json(
+        { error: '指定された版が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ revision });
+  } catch (error) {
+    console.error('版の取得エラー:', error);
+    return NextResponse.json(
+      { error: '版の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleStore, listRevisions, toRevisionSummary } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!await articleStore.get(id)) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await listRevisions(id);
+
+    return NextResponse.json({ revisions: revisions.map(toRevisionSummary) });
+  } catch (error) {
+    console.error('変更履歴取得エラー:', error);
+    return NextResponse.json(
+      { error: '変更履歴の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleStore, deleteArticleWithRevisions, recordRevision } from '@/lib/storage';
+import { GeneratedArticle, GeneratedTitle, RevisionReason } from '@/lib/types';
+
+interface UpdateArticleRequest {
+  selectedTitle?: GeneratedTitle;
+  article?: GeneratedArticle;
+  // 記事本文を更新した場合に記録する版の理由（省略時は手動編集）
+  revisionReason?: RevisionReason;
+  revisionNote?: string;
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const article = await articleStore.get(id);
+
+    if (!article) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ article });
+  } catch (error) {
+    console.error('記事取得エラー:', error);
+    return NextResponse.json(
+      { error: '記事の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { selectedTitle, article, revisionReason = 'manual_edit', revisionNote } = await request.json() as UpdateArticleRequest;
+
+    const stored = await articleStore.update(id, {
+      ...(selectedTitle !== undefined && { selectedTitle }),
+      ...(article !== undefined && { article }),
+    });
+
+    if (!stored) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    // 記事本文の変更はすべて版として記録する
+    if (article !== undefined) {
+      await recordRevision(id, article, revisionReason, revisionNote);
+    }
+
+    return NextResponse.json({ article: stored });
+  } catch (error) {
+    console.error('記事更新エラー:', error);
+    return NextResponse.json(
+      { error: '記事の更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteArticleWithRevisions(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: '記事が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('記事削除エラー:', error);
+    return NextResponse.json(
+      { error: '記事の削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
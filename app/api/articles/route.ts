@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleStore, listArticlesByProject, projectStore, recordRevision } from '@/lib/storage';
+import { GeneratedArticle, GeneratedTitle, RevisionReason } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    const articles = projectId ? await listArticlesByProject(projectId) : await articleStore.list();
+
+    return NextResponse.json({ articles });
+  } catch (error) {
+    console.error('記事一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: '記事一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, selectedTitle, article, revisionReason = 'generated' } = await request.json() as {
+      projectId?: string;
+      selectedTitle?: GeneratedTitle;
+      article?: GeneratedArticle;
+      // 最初の版の理由（既存コンテンツの取り込み時は imported）
+      revisionReason?: RevisionReason;
+    };
+
+    if (!projectId || !selectedTitle || !article) {
+      return NextResponse.json(
+        { error: 'プロジェクトID、選択したタイトル、記事データが必要です' },
+        { status: 400 }
+      );
+    }
+
+    if (!await projectStore.get(projectId)) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const stored = await articleStore.create({ projectId, selectedTitle, article });
+    await recordRevision(stored.id, article, revisionReason);
+
+    return NextResponse.json({ article: stored }, { status: 201 });
+  } catch (error) {
+    console.error('記事保存エラー:', error);
+    return NextResponse.json(
+      { error: '記事の保存に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
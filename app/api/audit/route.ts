@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditArticle, AuditOptions } from '@/lib/audit';
+import { GeneratedArticle } from '@/lib/types';
+
+interface AuditRequest {
+  article: GeneratedArticle;
+  keyword?: string;
+  options?: Partial<Omit<AuditOptions, 'keyword'>>;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { article, keyword, options = {} } = await request.json() as AuditRequest;
+
+    if (!article || !Array.isArray(article.sections)) {
+      return NextResponse.json(
+        { error: '記事データが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const report = auditArticle(article, { ...options, keyword: keyword?.trim() || undefined });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('監査エラー:', error);
+    return NextResponse.json(
+      { error: '記事の監査に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
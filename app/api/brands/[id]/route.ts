@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BrandSettings, normalizeBrandSettings } from '@/lib/brand';
+import { brandProfileStore, setDefaultBrandProfile } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const NOT_FOUND_ERROR = 'ブランドプロファイルが見つかりません';
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const profile = await brandProfileStore.get(id);
+
+    if (!profile) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('ブランドプロファイル取得エラー:', error);
+    return NextResponse.json(
+      { error: 'ブランドプロファイルの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const existing = await brandProfileStore.get(id);
+    if (!existing) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    // 送られなかった項目は現在の値を引き継ぐ
+    const { isDefault, ...input } = await request.json() as Partial<BrandSettings> & { isDefault?: boolean };
+    const { brand, errors } = normalizeBrandSettings({ ...existing, ...input });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'ブランドプロファイルの入力に問題があります', errors },
+        { status: 400 }
+      );
+    }
+
+    await brandProfileStore.update(id, { ...brand, ...(isDefault === false && { isDefault: false }) });
+    if (isDefault === true) {
+      await setDefaultBrandProfile(id);
+    }
+    const profile = await brandProfileStore.get(id);
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('ブランドプロファイル更新エラー:', error);
+    return NextResponse.json(
+      { error: 'ブランドプロファイルの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 削除したプロファイルを参照している記事は、エクスポート時に既定のブランドを使用する
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await brandProfileStore.delete(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('ブランドプロファイル削除エラー:', error);
+    return NextResponse.json(
+      { error: 'ブランドプロファイルの削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BrandSettings, DEFAULT_BRAND, normalizeBrandSettings } from '@/lib/brand';
+import { brandProfileStore, setDefaultBrandProfile } from '@/lib/storage';
+
+export async function GET() {
+  try {
+    const profiles = await brandProfileStore.list();
+    // プロファイルが未登録、または既定が設定されていない場合に使われる組み込みのブランドも返す
+    return NextResponse.json({ profiles, fallback: DEFAULT_BRAND });
+  } catch (error) {
+    console.error('ブランドプロファイル一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: 'ブランドプロファイル一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { isDefault = false, ...input } = await request.json() as Partial<BrandSettings> & { isDefault?: boolean };
+    const { brand, errors } = normalizeBrandSettings(input);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'ブランドプロファイルの入力に問題があります', errors },
+        { status: 400 }
+      );
+    }
+
+    const created = await brandProfileStore.create(brand);
+    if (isDefault) {
+      await setDefaultBrandProfile(created.id);
+    }
+    const profile = await brandProfileStore.get(created.id);
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    console.error('ブランドプロファイル作成エラー:', error);
+    return NextResponse.json(
+      { error: 'ブランドプロファイルの作成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
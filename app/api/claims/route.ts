@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyArticleClaims } from '@/lib/sources';
+import { resolveArticleBrand } from '@/lib/storage';
+import { GeneratedArticle } from '@/lib/types';
+
+interface ClaimsRequest {
+  article: GeneratedArticle;
+  // 指定するとプロジェクトの参考資料の本文と照合する
+  projectId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { article, projectId } = await request.json() as ClaimsRequest;
+
+    if (!article || !Array.isArray(article.sections)) {
+      return NextResponse.json(
+        { error: '記事データが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const brand = await resolveArticleBrand(article);
+    const report = await verifyArticleClaims(article, brand, projectId || undefined);
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('主張の検証エラー:', error);
+    return NextResponse.json(
+      { error: '主張の検証に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
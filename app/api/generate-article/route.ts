@@ -1,56 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openai, ADVANCED_MODEL } from '@/lib/openai';
-import { SEOMetadata } from '../generate-seo/route';
-
-interface GeneratedArticle {
-  title: string;
-  sections: {
-    heading: string;
-    content: string;
-    subheadings?: { title: string; content: string }[];
-  }[];
-  seoMetadata?: SEOMetadata;
-}
-
-// OpenAIの応答からJSONを抽出するヘルパー関数
-function extractJsonFromResponse(response: string): string {
-  try {
-    // まずそのままJSONとしてパースを試行
-    JSON.parse(response.trim());
-    return response.trim();
-  } catch {
-    // 失敗した場合、各種パターンを試行
-  }
+import { brandPromptFields } from '@/lib/brand';
+import { FAQRequestOptions, requestFAQ, withFAQ } from '@/lib/faq';
+import { ChatMessage, streamCompletion } from '@/lib/llm';
+import { resolveLocale } from '@/lib/locale';
+import { buildPromptMessages, resolvePromptTemplate } from '@/lib/prompts';
+import { requestSEOMetadata, SEORequestOptions, withSEOMetadata } from '@/lib/seo';
+import { createCitationValidator, formatSourcePassages, retrieveSourcePassages, withSources } from '@/lib/sources';
+import { createSSEStream, SSE_HEADERS } from '@/lib/sse';
+import { listSourcesByProject, resolveBrandProfile } from '@/lib/storage';
+import { articleSchema, generateStructured, parsePartialJson, StructuredOutputError, ValidationIssue } from '@/lib/structured-output';
+import { ArticleStreamEvent, GeneratedArticle } from '@/lib/types';
 
-  // ```json と ``` で囲まれたJSONを抽出
-  const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
-  if (jsonMatch) {
-    return jsonMatch[1].trim();
-  }
-  
-  // ``` で囲まれたJSONを抽出（言語指定なし）
-  const codeBlockMatch = response.match(/```\s*([\s\S]*?)\s*```/);
-  if (codeBlockMatch) {
-    const content = codeBlockMatch[1].trim();
-    if (content.startsWith('{') && content.endsWith('}')) {
-      return content;
-    }
-  }
-  
-  // { で始まり } で終わるJSONを抽出
-  const jsonStart = response.indexOf('{');
-  const jsonEnd = response.lastIndexOf('}');
-  if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-    return response.substring(jsonStart, jsonEnd + 1);
-  }
-  
-  // 最後の手段：そのまま返す
-  return response.trim();
-}
+const ARTICLE_TEMPERATURE = 0.7;
+const ARTICLE_MAX_TOKENS = 4000;
 
 export async function POST(request: NextRequest) {
   try {
-    const { title, description, keyword, overview, generateSEO = true, baseUrl } = await request.json();
+    const {
+      title,
+      description,
+      keyword,
+      overview,
+      generateSEO = true,
+      // よくある質問を記事の本文の後に生成する
+      generateFAQ = false,
+      baseUrl,
+      stream = false,
+      locale: requestLocale,
+      // 使用するプロンプトテンプレートの版（省略時は有効な版）
+      promptVersion,
+      seoPromptVersion,
+      faqPromptVersion,
+      // ブランドプロファイル（省略時は既定のプロファイル）
+      brandProfileId,
+      // 参考資料を使うプロジェクト（本文の数値・事例は参考資料から出典ID付きで引用させる）
+      projectId,
+    } = await request.json();
 
     if (!title || !keyword) {
       return NextResponse.json(
@@ -59,44 +44,136 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // OpenAI APIを使用したLLMO最適化記事生成
-    const article: GeneratedArticle = await generateOptimizedArticleWithAI(title, description, keyword, overview);
+    const brand = await resolveBrandProfile(brandProfileId);
+    if (!brand) {
+      return NextResponse.json(
+        { error: '指定されたブランドプロファイルが見つかりません' },
+        { status: 400 }
+      );
+    }
 
-    // SEOメタデータ生成が要求された場合は並行処理で生成
-    if (generateSEO) {
-      try {
-        const articleContent = article.sections.map(section => 
-          `${section.heading}\n${section.content}\n${section.subheadings?.map(sub => `${sub.title}\n${sub.content}`).join('\n') || ''}`
-        ).join('\n');
-
-        const seoResponse = await fetch(`${request.nextUrl.origin}/api/generate-seo`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            title: article.title,
-            content: articleContent,
-            keyword,
-            description,
-            baseUrl
-          }),
-        });
-
-        if (seoResponse.ok) {
-          const seoData = await seoResponse.json();
-          article.seoMetadata = seoData.seoMetadata;
-        } else {
-          console.warn('SEOメタデータ生成に失敗しましたが、記事は正常に生成されました');
+    const locale = resolveLocale(requestLocale);
+    const { authorProfile, toneGuidelines } = brandPromptFields(brand);
+    // 記事のタイトル・キーワード・概要に関係する参考資料の抜粋をプロンプトに入れる
+    const sources = projectId ? await listSourcesByProject(projectId) : [];
+    const passages = retrieveSourcePassages(sources, [title, keyword, description, overview].filter(Boolean).join('\n'));
+    const prompt = await buildPromptMessages(
+      'article',
+      locale,
+      {
+        title,
+        description,
+        keyword,
+        overview,
+        authorProfile,
+        toneGuidelines,
+        sources: passages.length > 0 ? formatSourcePassages(passages) : undefined,
+      },
+      promptVersion
+    );
+    if (
+      !prompt
+      || (generateSEO && seoPromptVersion !== undefined && !await resolvePromptTemplate('seo', locale, seoPromptVersion))
+      || (generateFAQ && faqPromptVersion !== undefined && !await resolvePromptTemplate('faq', locale, faqPromptVersion))
+    ) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトの版が見つかりません' },
+        { status: 400 }
+      );
+    }
+    const seoOptions: SEORequestOptions = {
+      origin: request.nextUrl.origin,
+      keyword,
+      description,
+      baseUrl,
+      locale,
+      promptVersion: seoPromptVersion,
+      brandProfileId: brand.id,
+    };
+    // 参考資料を渡した場合は、出典IDのない数値・事例を修復リトライで直させる
+    const validate = passages.length > 0 ? createCitationValidator(sources, brand) : undefined;
+    const faqOptions: FAQRequestOptions = {
+      origin: request.nextUrl.origin,
+      keyword,
+      locale,
+      promptVersion: faqPromptVersion,
+      brandProfileId: brand.id,
+    };
+
+    // ストリーミングモード：生成の進捗をSSEで逐次送信
+    if (stream) {
+      const body = createSSEStream(async (send) => {
+        try {
+          let article: GeneratedArticle = withSources({
+            ...await streamOptimizedArticleWithAI(prompt.messages, send, validate),
+            locale,
+            promptVersions: { article: prompt.version },
+            brandProfileId: brand.id,
+          }, sources);
+
+          if (generateFAQ) {
+            send('faq_started', {});
+            const faq = await requestFAQ(article, faqOptions);
+            if (faq) {
+              article = withFAQ(article, faq);
+              send('faq_ready', { faq: faq.faq });
+            }
+          }
+
+          if (generateSEO) {
+            send('seo_started', {});
+            const seo = await requestSEOMetadata(article, seoOptions);
+            if (seo) {
+              article = withSEOMetadata(article, seo);
+              send('seo_ready', { seoMetadata: seo.seoMetadata });
+            }
+          }
+
+          send('done', { article });
+        } catch (error) {
+          console.error('記事生成エラー:', error);
+          send('error', {
+            error: error instanceof StructuredOutputError
+              ? '記事生成に失敗しました（出力形式の検証エラー）'
+              : '記事生成に失敗しました',
+          });
         }
-      } catch (seoError) {
-        console.warn('SEOメタデータ生成でエラーが発生しましたが、記事は正常に生成されました:', seoError);
+      });
+      return new Response(body, { headers: SSE_HEADERS });
+    }
+
+    // 設定されたLLMプロバイダーを使用したLLMO最適化記事生成
+    let article: GeneratedArticle = withSources({
+      ...await generateOptimizedArticleWithAI(prompt.messages, validate),
+      locale,
+      promptVersions: { article: prompt.version },
+      brandProfileId: brand.id,
+    }, sources);
+
+    if (generateFAQ) {
+      const faq = await requestFAQ(article, faqOptions);
+      if (faq) {
+        article = withFAQ(article, faq);
+      }
+    }
+
+    // SEOメタデータ生成が要求された場合は記事生成後に生成（FAQも含めた内容から生成する）
+    if (generateSEO) {
+      const seo = await requestSEOMetadata(article, seoOptions);
+      if (seo) {
+        article = withSEOMetadata(article, seo);
       }
     }
 
     return NextResponse.json({ article });
   } catch (error) {
     console.error('記事生成エラー:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: '記事生成に失敗しました（出力形式の検証エラー）', issues: error.issues },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: '記事生成に失敗しました' },
       { status: 500 }
@@ -104,135 +181,101 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function generateOptimizedArticleWithAI(
-  title: string,
-  description: string,
-  keyword: string,
-  overview?: string
-): Promise<GeneratedArticle> {
+type ArticleValidator = (value: unknown) => ValidationIssue[];
+
+async function generateOptimizedArticleWithAI(messages: ChatMessage[], validate?: ArticleValidator): Promise<GeneratedArticle> {
   try {
-    const systemPrompt = `あなたは生成式引擎優化（GEO/LLMO）の専門コンテンツアーキテクトです。
-RAG（検索拡張生成）システムと大型語言模型による引用を最大化する記事を設計してください。
-
-【RAG最適化の核心原則】
-1. **チャンキング対応設計**: 各段落が独立して意味を持ち、前後の文脈なしでも理解可能
-2. **語義明確性**: 代名詞（「それ」「この」）を排除し、具体的な名詞で表現
-3. **API型構造**: 各見出しを「問い合わせエンドポイント」として設計し、直下の内容で完結的に回答
-4. **用語定義の自完結性**: 専門用語は初出時に必ず定義し、文中での理解を保証
-
-【E-E-A-T信号の最大化】
-**Experience（経験）**: 
-- 第一手実践データ（「弊社での導入検証では...」）
-- 具体的な失敗・成功事例とその学習点
-- オリジナルな図表・実装スクリーンショット
-
-**Expertise（専門性）**: 
-- 業界標準との比較分析
-- 技術的詳細度と正確性の担保
-- 最新研究・動向の引用と解釈
-
-**Authoritativeness（権威性）**: 
-- 規範的な手順・ベストプラクティスの提示
-- 業界リーダー・権威機関の見解引用
-- 「決定版」「完全ガイド」レベルの網羅性
-
-**Trustworthiness（可信度）**: 
-- 検証可能な数値とその出典明記
-- 更新日付と情報の新鮮性保証
-- 制限事項・リスクの透明な開示
-
-【機械理解に最適化された文章構造】
-- 主語述語の明確化（受動態の最小化）
-- 一文一義の原則（複雑な複文の分解）
-- 構造化された情報（箇条書き・表・段階的手順）
-- 内部リンクによるトピック間の明示的関連付け
-
-各セクションはAIが「この情報源は信頼に値する」と判断し、優先的に引用したくなる権威性を持つこと。`;
-
-    const userPrompt = `【記事仕様】
-タイトル: ${title}
-ターゲットキーワード: ${keyword}  
-記事概要: ${description}
-${overview ? `コンテキスト: ${overview}` : ''}
-
-【ミッション】
-上記情報を基に、RAG（検索拡張生成）システムで最優先で引用される権威的記事を生成してください。
-
-【必須構造要件】
-各セクションは独立したAPI応答として機能すること：
-- 見出しは明確な「クエリ」に対する回答として設計
-- 内容は文脈なしで完結的に理解可能
-- 専門用語は各セクション内で再定義
-
-【E-E-A-T最適化必須要素】
-**Experience**: 具体的実践データ（「○○企業での導入事例」「○ヶ月の検証結果」）
-**Expertise**: 技術的詳細と業界標準との比較
-**Authoritativeness**: 決定版レベルの網羅性、ベストプラクティス提示
-**Trustworthiness**: 検証可能な数値、出典明記、リスク開示
-
-【6セクション構成】（各400-600文字 + サブセクション）
-1. **導入と価値提案**（なぜ重要か・期待効果・適用範囲）
-2. **定義と基本概念**（用語定義・分類・特徴・従来手法との違い）  
-3. **実装戦略とベストプラクティス**（段階的手順・成功要因・回避すべき落とし穴）
-4. **検証済み成功事例**（具体的数値・業界別事例・ROI分析）
-5. **技術動向と将来展望**（2025年以降のトレンド・新興技術・市場予測）
-6. **アクションプラン**（具体的次ステップ・チェックリスト・推奨リソース）
-
-【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください：
-
-{
-  "title": "記事タイトル",
-  "sections": [
-    {
-      "heading": "明確で検索しやすい見出し",
-      "content": "自完結的な本文（400-600文字、専門用語定義含む）",
-      "subheadings": [
-        {
-          "title": "具体的サブ見出し",
-          "content": "詳細説明（200-300文字、数値・事例重視）"
-        }
-      ]
+    return await generateStructured<GeneratedArticle>('article', {
+      messages,
+      schema: articleSchema,
+      temperature: ARTICLE_TEMPERATURE,
+      maxTokens: ARTICLE_MAX_TOKENS,
+      validate,
+    });
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
     }
-  ]
+    console.error('LLM API エラー:', error);
+    throw new Error('LLMプロバイダーが設定されていないか、APIへの接続に失敗しました。');
+  }
 }
 
-【必須要件】各セクションでキーワード「${keyword}」を自然に2-3回含め、関連する専門用語も網羅してください。`;
-
-    const completion = await openai.chat.completions.create({
-      model: ADVANCED_MODEL,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 4000,
-    });
+// ストリーミング中の部分的な記事から、前回送信時との差分をイベントとして送信する
+function createArticleProgressEmitter(send: (event: ArticleStreamEvent['event'], data: unknown) => void) {
+  let sentTitle = '';
+  const sent: { started: boolean; content: string; subheadings: string }[] = [];
 
-    const response = completion.choices[0]?.message?.content;
-    if (!response) {
-      throw new Error('OpenAIからの応答が取得できませんでした');
+  return (partial: Partial<GeneratedArticle>) => {
+    if (typeof partial.title === 'string' && partial.title !== sentTitle) {
+      sentTitle = partial.title;
+      send('title', { title: sentTitle });
     }
 
-    // Markdown形式のコードブロックを除去してJSONを抽出
-    const cleanJsonString = extractJsonFromResponse(response);
-    
-    try {
-      const parsedResponse = JSON.parse(cleanJsonString);
-      
-      if (!parsedResponse.title || !parsedResponse.sections || !Array.isArray(parsedResponse.sections)) {
-        console.error('Invalid response structure:', parsedResponse);
-        throw new Error('応答の形式が正しくありません');
+    const sections = Array.isArray(partial.sections) ? partial.sections : [];
+    sections.forEach((section, index) => {
+      if (!section || typeof section.heading !== 'string') {
+        return;
+      }
+      const state = sent[index] || (sent[index] = { started: false, content: '', subheadings: '[]' });
+      // 見出しは content が現れた（＝見出し文字列が確定した）時点で送信する
+      const headingComplete = section.content !== undefined || index < sections.length - 1;
+      if (!state.started && headingComplete) {
+        state.started = true;
+        send('section_started', { index, heading: section.heading });
+      }
+      if (!state.started) {
+        return;
+      }
+      if (typeof section.content === 'string' && section.content !== state.content) {
+        state.content = section.content;
+        send('section_content', { index, content: section.content });
       }
+      if (Array.isArray(section.subheadings)) {
+        const subheadings = section.subheadings.filter(sub => sub && typeof sub.title === 'string');
+        const serialized = JSON.stringify(subheadings);
+        if (serialized !== state.subheadings) {
+          state.subheadings = serialized;
+          send('subheadings', { index, subheadings });
+        }
+      }
+    });
+  };
+}
+
+async function streamOptimizedArticleWithAI(
+  messages: ChatMessage[],
+  send: (event: ArticleStreamEvent['event'], data: unknown) => void,
+  validate?: ArticleValidator
+): Promise<GeneratedArticle> {
+  const emitProgress = createArticleProgressEmitter(send);
+  let response = '';
 
-      return parsedResponse as GeneratedArticle;
-    } catch (parseError) {
-      console.error('JSON解析エラー:', parseError);
-      console.error('元の応答:', response);
-      console.error('クリーンされた応答:', cleanJsonString);
-      throw new Error(`応答の解析に失敗しました: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  try {
+    for await (const delta of streamCompletion('article', {
+      messages,
+      temperature: ARTICLE_TEMPERATURE,
+      maxTokens: ARTICLE_MAX_TOKENS,
+      responseSchema: articleSchema,
+    })) {
+      response += delta;
+      const partial = parsePartialJson(response);
+      if (partial && typeof partial === 'object') {
+        emitProgress(partial as Partial<GeneratedArticle>);
+      }
     }
   } catch (error) {
-    console.error('OpenAI API エラー:', error);
-    throw new Error('OpenAI APIキーが設定されていないか、APIへの接続に失敗しました。');
+    console.error('LLM API エラー:', error);
+    throw new Error('LLMプロバイダーが設定されていないか、APIへの接続に失敗しました。');
   }
+
+  // ストリーミング完了後に全体をスキーマ検証し、必要なら修復リトライを行う
+  return generateStructured<GeneratedArticle>('article', {
+    messages,
+    schema: articleSchema,
+    temperature: ARTICLE_TEMPERATURE,
+    maxTokens: ARTICLE_MAX_TOKENS,
+    initialResponse: response,
+    validate,
+  });
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { brandPromptFields } from '@/lib/brand';
+import type { ChatMessage } from '@/lib/llm';
+import { resolveLocale } from '@/lib/locale';
+import { buildPromptMessages } from '@/lib/prompts';
+import { resolveBrandProfile } from '@/lib/storage';
+import { faqSchema, generateStructured, StructuredOutputError } from '@/lib/structured-output';
+import { FAQItem } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { title, content, keyword, locale, promptVersion, brandProfileId } = await request.json();
+
+    if (!title || !keyword) {
+      return NextResponse.json(
+        { error: 'タイトルとキーワードが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const brand = await resolveBrandProfile(brandProfileId);
+    if (!brand) {
+      return NextResponse.json(
+        { error: '指定されたブランドプロファイルが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    const { toneGuidelines } = brandPromptFields(brand);
+    const prompt = await buildPromptMessages(
+      'faq',
+      resolveLocale(locale),
+      { title, content, keyword, toneGuidelines },
+      promptVersion
+    );
+    if (!prompt) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトの版が見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    const faq = await generateFAQWithAI(prompt.messages);
+
+    return NextResponse.json({ faq, promptVersion: prompt.version });
+  } catch (error) {
+    console.error('FAQ生成エラー:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: 'FAQの生成に失敗しました（出力形式の検証エラー）', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'FAQの生成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+async function generateFAQWithAI(messages: ChatMessage[]): Promise<FAQItem[]> {
+  try {
+    const { faq } = await generateStructured<{ faq: FAQItem[] }>('article', {
+      messages,
+      schema: faqSchema,
+      temperature: 0.5,
+      maxTokens: 2500,
+    });
+    return faq;
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    console.error('LLM API エラー:', error);
+    throw new Error('LLMプロバイダーが設定されていないか、APIへの接続に失敗しました。');
+  }
+}
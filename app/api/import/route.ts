@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectFormat, fetchPageSnapshot, ImportError, ImportFormat, importContent } from '@/lib/import';
+
+interface ImportRequest {
+  // HTML・Markdownの本文（url を指定しない場合は必須）
+  content?: string;
+  filename?: string;
+  format?: ImportFormat | 'auto';
+  // 公開ページのURL（指定時はページを取得してHTMLとして取り込む）
+  url?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { content, filename, format = 'auto', url } = await request.json() as ImportRequest;
+
+    if (!content && !url) {
+      return NextResponse.json(
+        { error: '取り込むコンテンツまたはURLが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const source = url ? await fetchPageSnapshot(url) : content!;
+    const resolvedFormat: ImportFormat = url ? 'html' : format === 'auto' ? detectFormat(source, filename) : format;
+    const result = importContent(source, resolvedFormat);
+
+    if (result.article.sections.length === 0) {
+      return NextResponse.json(
+        { error: '見出し・本文を読み取れませんでした', warnings: result.warnings },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('インポートエラー:', error);
+    return NextResponse.json(
+      { error: 'コンテンツの取り込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
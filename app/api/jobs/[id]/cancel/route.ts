@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJobProgress } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 未処理の行を中止する（処理中の行は完了まで続行される）
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await cancelJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job: { ...job, progress: getJobProgress(job) } });
+  } catch (error) {
+    console.error('ジョブ中止エラー:', error);
+    return NextResponse.json(
+      { error: 'ジョブの中止に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EXPORT_FORMATS, ExportFormat, isExportFormat, isFrontMatterProfile } from '@/lib/export';
+import { exportJobAsZip, getJob } from '@/lib/jobs';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ?format=markdown|html|docx|pdf|jsonl|all（省略時は all）
+// ?frontMatter=generic|hugo|jekyll|astro|docusaurus（Markdownのフロントマター、省略時は generic）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'all';
+    const frontMatter = request.nextUrl.searchParams.get('frontMatter') || 'generic';
+
+    if (format !== 'all' && !isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'サポートされていないフォーマットです' },
+        { status: 400 }
+      );
+    }
+
+    if (!isFrontMatterProfile(frontMatter)) {
+      return NextResponse.json(
+        { error: 'サポートされていないフロントマターの形式です' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (!job.rows.some(row => row.articleId)) {
+      return NextResponse.json(
+        { error: 'エクスポートできる記事がまだありません' },
+        { status: 409 }
+      );
+    }
+
+    const formats: ExportFormat[] = format === 'all' ? EXPORT_FORMATS : [format];
+    const zip = await exportJobAsZip(job, formats, frontMatter);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(`job-${job.id}.zip`)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('ジョブエクスポートエラー:', error);
+    return NextResponse.json(
+      { error: 'エクスポートに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
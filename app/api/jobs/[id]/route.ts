@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob, getJobProgress, resumeJobs } from '@/lib/jobs';
+import { jobStore } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await resumeJobs(request.nextUrl.origin);
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job: { ...job, progress: getJobProgress(job) } });
+  } catch (error) {
+    console.error('ジョブ取得エラー:', error);
+    return NextResponse.json(
+      { error: 'ジョブの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// ジョブを中止して削除する（生成済みの記事はライブラリに残る）
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await cancelJob(id);
+    const deleted = await jobStore.delete(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'ジョブが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('ジョブ削除エラー:', error);
+    return NextResponse.json(
+      { error: 'ジョブの削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
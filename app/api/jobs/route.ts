@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBulkJob, getJobProgress, listJobs, normalizeJobOptions, parseJobCsv, resumeJobs, startJob } from '@/lib/jobs';
+import { brandProfileStore } from '@/lib/storage';
+import { BulkJobOptions } from '@/lib/types';
+
+interface CreateJobRequest {
+  // keyword, overview, baseUrl 列を持つCSVテキスト
+  csv?: string;
+  name?: string;
+  options?: Partial<BulkJobOptions>;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await resumeJobs(request.nextUrl.origin);
+    const jobs = await listJobs();
+
+    // 一覧では行の詳細を省き、進捗の件数のみ返す
+    const summaries = jobs.map(({ rows, ...job }) => ({ ...job, progress: getJobProgress({ ...job, rows }) }));
+
+    return NextResponse.json({ jobs: summaries });
+  } catch (error) {
+    console.error('ジョブ一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: 'ジョブ一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { csv, name, options } = await request.json() as CreateJobRequest;
+
+    if (!csv) {
+      return NextResponse.json(
+        { error: 'CSVデータが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors } = parseJobCsv(csv);
+    if (errors.length > 0 || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'CSVの内容に問題があります', errors: errors.length > 0 ? errors : ['処理対象の行がありません'] },
+        { status: 400 }
+      );
+    }
+
+    const jobOptions = normalizeJobOptions(options);
+    if (jobOptions.brandProfileId && !await brandProfileStore.get(jobOptions.brandProfileId)) {
+      return NextResponse.json(
+        { error: '指定されたブランドプロファイルが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    const job = await createBulkJob(
+      name?.trim() || `一括生成 ${new Date().toLocaleString('ja-JP')}`,
+      rows,
+      jobOptions
+    );
+    startJob(job, request.nextUrl.origin);
+
+    return NextResponse.json({ job: { ...job, progress: getJobProgress(job) } }, { status: 201 });
+  } catch (error) {
+    console.error('ジョブ作成エラー:', error);
+    return NextResponse.json(
+      { error: 'ジョブの作成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { excludeUnverifiedEntries, generateLlmsTxtFiles, listLibraryEntries, llmsTxtSiteFromBrand, LlmsTxtEntry, parseArticleJson } from '@/lib/llms-txt';
+import { resolveBrandProfile } from '@/lib/storage';
+import { GeneratedArticle } from '@/lib/types';
+
+interface LlmsTxtRequest {
+  // アップロードされた記事JSON（省略時はライブラリの記事）
+  articles?: unknown[];
+  // ライブラリの記事を使う場合に、対象のプロジェクトを絞り込む
+  projectId?: string;
+  // サイト名・概要の元にするブランドプロファイル（省略時は既定のプロファイル）
+  brandProfileId?: string;
+  // ブランドプロファイルの値の代わりに使うサイト名・概要
+  siteName?: string;
+  siteDescription?: string;
+}
+
+// llms.txt と llms-full.txt を生成する
+export async function POST(request: NextRequest) {
+  try {
+    const { articles, projectId, brandProfileId, siteName, siteDescription } = await request.json() as LlmsTxtRequest;
+
+    const brand = await resolveBrandProfile(brandProfileId || undefined);
+    if (!brand) {
+      return NextResponse.json(
+        { error: '指定されたブランドプロファイルが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    let entries: LlmsTxtEntry[];
+    if (articles !== undefined) {
+      if (!Array.isArray(articles)) {
+        return NextResponse.json(
+          { error: 'articles は記事JSONの配列で指定してください' },
+          { status: 400 }
+        );
+      }
+      const parsed = articles.map(parseArticleJson);
+      const invalid = parsed.flatMap((article, index) => (article ? [] : [index + 1]));
+      if (invalid.length > 0) {
+        return NextResponse.json(
+          { error: `記事として読み取れないJSONがあります（${invalid.join(', ')}件目）` },
+          { status: 400 }
+        );
+      }
+      entries = parsed
+        .filter((article): article is GeneratedArticle => article !== null)
+        .map(article => ({ article }));
+    } else {
+      entries = await listLibraryEntries(projectId || undefined);
+    }
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: '対象の記事がありません' },
+        { status: 400 }
+      );
+    }
+
+    // 未確認の主張がある記事の本文は llms-full.txt に含めない（リンク一覧には載せる）
+    const { entries: verified, withheld } = await excludeUnverifiedEntries(entries, brand);
+    const site = llmsTxtSiteFromBrand(brand);
+    const files = generateLlmsTxtFiles(entries, {
+      name: siteName?.trim() || site.name,
+      description: siteDescription?.trim() || site.description,
+    }, brand, verified);
+
+    return NextResponse.json({ ...files, withheld, articleCount: entries.length });
+  } catch (error) {
+    console.error('llms.txt生成エラー:', error);
+    return NextResponse.json(
+      { error: 'llms.txtの生成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleToPlainText, countCharacters, sectionToPlainText, textSimilarity } from '@/lib/article';
+import { detectFormat, ImportFormat, importContent } from '@/lib/import';
+import { isLocale } from '@/lib/locale';
+import { createOptimizationValidator, OptimizedArticle } from '@/lib/optimize';
+import { appendSourceGrounding, outputLanguageInstruction } from '@/lib/prompts';
+import { requestSEOMetadata, withSEOMetadata } from '@/lib/seo';
+import { formatSourcePassages, retrieveSourcePassages, SourcePassage, withSources } from '@/lib/sources';
+import { listSourcesByProject } from '@/lib/storage';
+import {
+  generateStructured,
+  optimizedArticleSchema,
+  StructuredOutputError,
+} from '@/lib/structured-output';
+import { GeneratedArticle, Locale, SectionChangeSummary } from '@/lib/types';
+
+const OPTIMIZE_TEMPERATURE = 0.5;
+const OPTIMIZE_MAX_TOKENS = 8000;
+// 1回の最適化で扱う記事の上限（空白を除く文字数）
+const MAX_SOURCE_CHARACTERS = 20000;
+
+interface OptimizeRequest {
+  // GeneratedArticle 形式の記事（content を指定しない場合は必須）
+  article?: GeneratedArticle;
+  // 貼り付けたMarkdown・HTML、または GeneratedArticle のJSON文字列
+  content?: string;
+  format?: ImportFormat | 'auto';
+  keyword?: string;
+  // 追加の編集指示（例:「導入を短くする」）
+  instruction?: string;
+  generateSEO?: boolean;
+  baseUrl?: string;
+  // 記事の言語（省略時は article.locale、なければ日本語）
+  locale?: Locale;
+  // 参考資料を使うプロジェクト（参考資料の数値・事例は出典ID付きで追加してよい）
+  projectId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      article: requestArticle,
+      content,
+      format = 'auto',
+      keyword: requestKeyword,
+      instruction,
+      generateSEO = true,
+      baseUrl,
+      locale: requestLocale,
+      projectId,
+    } = await request.json() as OptimizeRequest;
+
+    if (!requestArticle && !content?.trim()) {
+      return NextResponse.json(
+        { error: '最適化する記事データまたは本文が必要です' },
+        { status: 400 }
+      );
+    }
+
+    const { article, warnings } = requestArticle
+      ? { article: requestArticle, warnings: [] }
+      : parseSourceContent(content!, format);
+    if (!article || !Array.isArray(article.sections) || article.sections.length === 0) {
+      return NextResponse.json(
+        { error: '記事の見出し・本文を読み取れませんでした', warnings },
+        { status: 422 }
+      );
+    }
+    if (countCharacters(articleToPlainText(article)) > MAX_SOURCE_CHARACTERS) {
+      return NextResponse.json(
+        { error: `記事が長すぎます（最大${MAX_SOURCE_CHARACTERS}文字）` },
+        { status: 400 }
+      );
+    }
+
+    const keyword = requestKeyword?.trim() || article.seoMetadata?.keywords[0] || '';
+    const locale: Locale = isLocale(requestLocale) ? requestLocale : article.locale ?? 'ja';
+    const sources = projectId ? await listSourcesByProject(projectId) : [];
+    const passages = retrieveSourcePassages(sources, [article.title, keyword].filter(Boolean).join('\n'));
+    const optimized = await optimizeArticleWithAI(article, keyword, locale, passages, instruction);
+
+    let updatedArticle: GeneratedArticle = {
+      title: optimized.title,
+      sections: optimized.sections.map(({ heading, content, subheadings }) => ({ heading, content, subheadings })),
+      faq: article.faq,
+      seoMetadata: article.seoMetadata,
+      locale,
+      promptVersions: article.promptVersions,
+      brandProfileId: article.brandProfileId,
+    };
+    if (sources.length > 0) {
+      updatedArticle = withSources(updatedArticle, sources);
+    }
+    const changes: SectionChangeSummary[] = optimized.sections.map((section, sectionIndex) => ({
+      sectionIndex,
+      originalHeading: article.sections[sectionIndex].heading,
+      heading: section.heading,
+      changes: section.changes,
+      similarity: textSimilarity(
+        sectionToPlainText(article.sections[sectionIndex]),
+        sectionToPlainText(updatedArticle.sections[sectionIndex])
+      ),
+    }));
+    const changeRatio = 1 - textSimilarity(articleToPlainText(article), articleToPlainText(updatedArticle));
+
+    let seoRefreshed = false;
+    if (generateSEO && keyword) {
+      const seo = await requestSEOMetadata(updatedArticle, {
+        origin: request.nextUrl.origin,
+        keyword,
+        description: article.seoMetadata?.description,
+        baseUrl,
+      });
+      if (seo) {
+        updatedArticle = withSEOMetadata(updatedArticle, seo);
+        seoRefreshed = true;
+      }
+    }
+
+    return NextResponse.json({ article: updatedArticle, originalArticle: article, changes, changeRatio, seoRefreshed, warnings });
+  } catch (error) {
+    console.error('記事最適化エラー:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: '記事の最適化に失敗しました（出力形式の検証エラー）', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: '記事の最適化に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 貼り付けられた本文を記事に変換する（JSONなら GeneratedArticle として扱う）
+function parseSourceContent(content: string, format: ImportFormat | 'auto'): { article: GeneratedArticle | null; warnings: string[] } {
+  const trimmed = content.trim();
+  if (format === 'auto' && trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed) as GeneratedArticle | { article: GeneratedArticle };
+      return { article: 'article' in parsed ? parsed.article : parsed, warnings: [] };
+    } catch {
+      // JSONでなければMarkdownとして扱う
+    }
+  }
+  const { article, warnings } = importContent(content, format === 'auto' ? detectFormat(content) : format);
+  return { article, warnings };
+}
+
+function buildSystemPrompt(hasSources: boolean): string {
+  return `あなたは生成式引擎優化（GEO/LLMO）の専門エディターです。
+著者が書いた既存記事を、RAG（検索拡張生成）システムと大型語言模型に引用されやすい形に書き直してください。
+
+【RAG最適化の核心原則】
+1. **チャンキング対応設計**: 各段落が独立して意味を持ち、前後の文脈なしでも理解可能
+2. **語義明確性**: 代名詞（「それ」「この」）を排除し、具体的な名詞で表現
+3. **API型構造**: 各見出しを「問い合わせエンドポイント」として設計し、直下の内容で完結的に回答
+4. **用語定義の自完結性**: 専門用語は初出時に必ず定義し、文中での理解を保証
+
+【E-E-A-T信号の強化（既存の内容の範囲内で）】
+- **Experience**: 著者自身の体験・事例・失敗談は削らず、具体的に読める位置に置く
+- **Expertise**: 手順・比較・判断基準を構造化して示す
+- **Authoritativeness**: 結論を各セクションの冒頭で明示する
+- **Trustworthiness**: 元の記事にある出典・前提・制限事項を明記する
+
+【機械理解に最適化された文章構造】
+- 主語述語の明確化（受動態の最小化）
+- 一文一義の原則（複雑な複文の分解）
+- 構造化された情報（箇条書き・段階的手順）
+
+【厳守事項】
+1. 著者の事実・数値・主張・結論をすべて保持し、意味を変えない
+2. ${hasSources
+    ? '元の記事と参考資料にない統計・数値・事例・引用・固有名詞を追加しない（参考資料から追加する場合は出典の規則に従う）'
+    : '元の記事にない統計・数値・事例・引用・固有名詞を追加しない（数値が必要な箇所でも創作せず、定性的に書く）'}
+3. セクションの数と順序は元の記事と同じにする（見出しの文言は改善してよい）
+4. 各セクションの changes には、そのセクションで何をどう変えたかを日本語で簡潔に列挙する（変更がなければ空配列）`;
+}
+
+function buildUserPrompt(article: GeneratedArticle, keyword: string, locale: Locale, instruction?: string): string {
+  const source = article.sections.map((section, index) => {
+    const subheadings = section.subheadings?.map(sub => `### ${sub.title}\n${sub.content}`).join('\n\n') || '';
+    return `## [${index + 1}] ${section.heading}\n${section.content}${subheadings ? `\n\n${subheadings}` : ''}`;
+  }).join('\n\n');
+
+  return `【記事タイトル】: ${article.title}
+${keyword ? `【ターゲットキーワード】: ${keyword}\n` : ''}
+【元の記事（全${article.sections.length}セクション）】
+${source}
+
+【タスク】
+上記の記事を、事実・数値・主張を変えずにLLMO最適化してください。
+${instruction?.trim() ? `【編集指示】: ${instruction.trim()}\n` : ''}${locale !== 'ja' ? `${outputLanguageInstruction(locale)}\n` : ''}
+【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください：
+
+{
+  "title": "記事タイトル（元のタイトルの主張を維持）",
+  "sections": [
+    {
+      "heading": "明確で検索しやすい見出し",
+      "content": "自完結的な本文（専門用語定義含む）",
+      "subheadings": [
+        {
+          "title": "具体的サブ見出し",
+          "content": "詳細説明"
+        }
+      ],
+      "changes": ["このセクションでの変更点の要約"]
+    }
+  ]
+}
+${keyword ? `\n【必須要件】各セクションでキーワード「${keyword}」を自然に含めてください。` : ''}`;
+}
+
+async function optimizeArticleWithAI(
+  article: GeneratedArticle,
+  keyword: string,
+  locale: Locale,
+  passages: SourcePassage[],
+  instruction?: string
+): Promise<OptimizedArticle> {
+  try {
+    // 最適化のプロンプトは日本語のため、参考資料と出典の規則も日本語で加える
+    const messages = appendSourceGrounding(
+      [
+        { role: 'system', content: buildSystemPrompt(passages.length > 0) },
+        { role: 'user', content: buildUserPrompt(article, keyword, locale, instruction) }
+      ],
+      'ja',
+      passages.length > 0 ? formatSourcePassages(passages) : undefined
+    );
+    return await generateStructured<OptimizedArticle>('article', {
+      messages,
+      schema: optimizedArticleSchema,
+      temperature: OPTIMIZE_TEMPERATURE,
+      maxTokens: OPTIMIZE_MAX_TOKENS,
+      validate: createOptimizationValidator(article, passages.map(passage => passage.text)),
+    });
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    console.error('LLM API エラー:', error);
+    throw new Error('LLMプロバイダーが設定されていないか、APIへの接続に失敗しました。');
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocale } from '@/lib/locale';
+import { deleteProjectWithArticles, listArticlesByProject, projectStore } from '@/lib/storage';
+import { Project } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const project = await projectStore.get(id);
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const articles = await listArticlesByProject(id);
+
+    return NextResponse.json({ project, articles });
+  } catch (error) {
+    console.error('プロジェクト取得エラー:', error);
+    return NextResponse.json(
+      { error: 'プロジェクトの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { keyword, overview, baseUrl, locale, brandProfileId, titles } = await request.json() as Partial<Project>;
+
+    const project = await projectStore.update(id, {
+      ...(keyword !== undefined && { keyword }),
+      ...(overview !== undefined && { overview }),
+      ...(baseUrl !== undefined && { baseUrl }),
+      ...(isLocale(locale) && { locale }),
+      ...(brandProfileId !== undefined && { brandProfileId: brandProfileId || undefined }),
+      ...(titles !== undefined && { titles }),
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ project });
+  } catch (error) {
+    console.error('プロジェクト更新エラー:', error);
+    return NextResponse.json(
+      { error: 'プロジェクトの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await deleteProjectWithArticles(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('プロジェクト削除エラー:', error);
+    return NextResponse.json(
+      { error: 'プロジェクトの削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
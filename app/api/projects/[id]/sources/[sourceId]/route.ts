@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toSourceSummary } from '@/lib/sources';
+import { sourceDocumentStore } from '@/lib/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; sourceId: string }>;
+}
+
+// 参考資料のタイトル・URLを変更する（出典IDと本文は変更しない）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, sourceId } = await params;
+    const { title, url } = await request.json() as { title?: string; url?: string };
+
+    const source = await sourceDocumentStore.get(sourceId);
+    if (!source || source.projectId !== id) {
+      return NextResponse.json(
+        { error: '参考資料が見つかりません' },
+        { status: 404 }
+      );
+    }
+    if (title !== undefined && !title.trim()) {
+      return NextResponse.json(
+        { error: 'タイトルが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await sourceDocumentStore.update(sourceId, {
+      ...(title !== undefined && { title: title.trim() }),
+      ...(url !== undefined && { url: url.trim() || undefined }),
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: '参考資料が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ source: toSourceSummary(updated) });
+  } catch (error) {
+    console.error('参考資料更新エラー:', error);
+    return NextResponse.json(
+      { error: '参考資料の更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, sourceId } = await params;
+
+    const source = await sourceDocumentStore.get(sourceId);
+    if (!source || source.projectId !== id) {
+      return NextResponse.json(
+        { error: '参考資料が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    await sourceDocumentStore.delete(sourceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('参考資料削除エラー:', error);
+    return NextResponse.json(
+      { error: '参考資料の削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectSourceKind, isSourceDocumentKind, MAX_SOURCE_CHARACTERS, nextSourceId, normalizeSourceContent, toSourceSummary } from '@/lib/sources';
+import { listSourcesByProject, projectStore, sourceDocumentStore } from '@/lib/storage';
+import { SourceDocumentKind } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface CreateSourceRequest {
+  title?: string;
+  // 省略時はファイル名の拡張子から判定する
+  kind?: SourceDocumentKind;
+  content?: string;
+  url?: string;
+  filename?: string;
+}
+
+// プロジェクトの参考資料の一覧（本文は含めない）
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!await projectStore.get(id)) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const sources = await listSourcesByProject(id);
+
+    return NextResponse.json({ sources: sources.map(toSourceSummary) });
+  } catch (error) {
+    console.error('参考資料一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: '参考資料の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 参考資料を追加し、プロジェクト内の次の出典ID（S1, S2, ...）を割り当てる
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title, kind: requestedKind, content, url, filename } = await request.json() as CreateSourceRequest;
+    const kind = requestedKind ?? (filename ? detectSourceKind(filename) : undefined);
+
+    if (!title?.trim() || typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'タイトルと本文が必要です' },
+        { status: 400 }
+      );
+    }
+    if (!isSourceDocumentKind(kind)) {
+      return NextResponse.json(
+        { error: '参考資料の種類が正しくありません' },
+        { status: 400 }
+      );
+    }
+
+    const normalized = normalizeSourceContent(kind, content);
+    if (!normalized) {
+      return NextResponse.json(
+        { error: '参考資料の本文が空です' },
+        { status: 400 }
+      );
+    }
+    if (normalized.length > MAX_SOURCE_CHARACTERS) {
+      return NextResponse.json(
+        { error: `参考資料は${MAX_SOURCE_CHARACTERS.toLocaleString()}文字以内にしてください` },
+        { status: 400 }
+      );
+    }
+
+    if (!await projectStore.get(id)) {
+      return NextResponse.json(
+        { error: 'プロジェクトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const source = await sourceDocumentStore.create({
+      projectId: id,
+      sourceId: nextSourceId(await listSourcesByProject(id)),
+      title: title.trim(),
+      kind,
+      content: normalized,
+      ...(url?.trim() ? { url: url.trim() } : {}),
+    });
+
+    return NextResponse.json({ source: toSourceSummary(source) });
+  } catch (error) {
+    console.error('参考資料追加エラー:', error);
+    return NextResponse.json(
+      { error: '参考資料の追加に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
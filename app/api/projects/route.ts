@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocale } from '@/lib/locale';
+import { articleStore, projectStore } from '@/lib/storage';
+import { GeneratedTitle, Locale } from '@/lib/types';
+
+export async function GET() {
+  try {
+    const [projects, articles] = await Promise.all([projectStore.list(), articleStore.list()]);
+
+    // 一覧表示用に各プロジェクトの記事数を付与
+    const projectsWithCounts = projects.map(project => ({
+      ...project,
+      articleCount: articles.filter(article => article.projectId === project.id).length,
+    }));
+
+    return NextResponse.json({ projects: projectsWithCounts });
+  } catch (error) {
+    console.error('プロジェクト一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: 'プロジェクト一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { keyword, overview = '', baseUrl, locale, brandProfileId, titles = [] } = await request.json() as {
+      keyword?: string;
+      overview?: string;
+      baseUrl?: string;
+      locale?: Locale;
+      brandProfileId?: string;
+      titles?: GeneratedTitle[];
+    };
+
+    if (!keyword) {
+      return NextResponse.json(
+        { error: 'キーワードが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const project = await projectStore.create({
+      keyword,
+      overview,
+      baseUrl,
+      locale: isLocale(locale) ? locale : undefined,
+      brandProfileId: brandProfileId || undefined,
+      titles,
+    });
+
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (error) {
+    console.error('プロジェクト作成エラー:', error);
+    return NextResponse.json(
+      { error: 'プロジェクトの作成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLocale } from '@/lib/locale';
+import {
+  getPromptVariableDefinitions,
+  isPromptTemplateName,
+  renderPromptPreview,
+  resolvePromptTemplate,
+  validatePromptTemplate,
+} from '@/lib/prompts';
+import { Locale } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+interface PreviewRequest {
+  locale?: Locale;
+  // 編集中のテンプレート（省略時は version の版）
+  system?: string;
+  user?: string;
+  version?: number;
+  // 入力変数のサンプル値（計算される変数は指定不要）
+  variables?: Record<string, string>;
+}
+
+// テンプレートにサンプル値を埋め込んだメッセージを返す（LLMは呼び出さない）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: 'プロンプトテンプレートが見つかりません' }, { status: 404 });
+    }
+
+    const { locale: requestLocale, system, user, version, variables = {} } = await request.json() as PreviewRequest;
+    const locale = resolveLocale(requestLocale);
+    const template = system !== undefined && user !== undefined
+      ? { system, user }
+      : await resolvePromptTemplate(name, locale, version);
+    if (!template) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトの版が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const issues = validatePromptTemplate(template, getPromptVariableDefinitions(name));
+    const messages = renderPromptPreview(name, locale, template, variables);
+
+    return NextResponse.json({ messages, issues });
+  } catch (error) {
+    console.error('プロンプトプレビューエラー:', error);
+    return NextResponse.json(
+      { error: 'プロンプトのプレビューに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
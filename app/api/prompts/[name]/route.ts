@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveLocale } from '@/lib/locale';
+import {
+  createPromptTemplateVersion,
+  getPromptTemplateLabel,
+  getPromptTemplateVersions,
+  getPromptVariableDefinitions,
+  isPromptTemplateName,
+  setActivePromptVersion,
+  validatePromptTemplate,
+} from '@/lib/prompts';
+import { Locale } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+interface CreateVersionRequest {
+  locale?: Locale;
+  system: string;
+  user: string;
+  note?: string;
+  // 作成した版をそのまま有効な版にする
+  activate?: boolean;
+}
+
+interface UpdateTemplateRequest {
+  locale?: Locale;
+  activeVersion: number;
+}
+
+const NOT_FOUND_ERROR = 'プロンプトテンプレートが見つかりません';
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    const locale = resolveLocale(request.nextUrl.searchParams.get('locale'));
+    const { activeVersion, versions } = await getPromptTemplateVersions(name, locale);
+
+    return NextResponse.json({
+      name,
+      locale,
+      label: getPromptTemplateLabel(name),
+      variables: getPromptVariableDefinitions(name),
+      activeVersion,
+      versions,
+    });
+  } catch (error) {
+    console.error('プロンプトテンプレート取得エラー:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 新しい版を作成する（既存の版は変更しない）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    const { locale, system, user, note, activate = false } = await request.json() as CreateVersionRequest;
+    const issues = validatePromptTemplate({ system, user }, getPromptVariableDefinitions(name));
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: 'テンプレートに問題があります', issues },
+        { status: 400 }
+      );
+    }
+
+    const version = await createPromptTemplateVersion(name, resolveLocale(locale), { system, user, note }, activate);
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    console.error('プロンプトテンプレート保存エラー:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの保存に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 有効な版（版の指定がない生成で使用する版）を切り替える
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    const { locale, activeVersion } = await request.json() as UpdateTemplateRequest;
+    const updated = Number.isInteger(activeVersion)
+      && await setActivePromptVersion(name, resolveLocale(locale), activeVersion);
+    if (!updated) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトの版が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ activeVersion });
+  } catch (error) {
+    console.error('プロンプトテンプレート更新エラー:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレートの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listPromptTemplates } from '@/lib/prompts';
+
+export async function GET() {
+  try {
+    const templates = await listPromptTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('プロンプトテンプレート一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: 'プロンプトテンプレート一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
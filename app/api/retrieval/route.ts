@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CHUNK_TOKEN_LIMITS } from '@/lib/export';
+import { resolveLocale } from '@/lib/locale';
+import { buildTemplateQueries, RetrievalOptions, RetrievalQuery, simulateRetrieval } from '@/lib/retrieval';
+import { GeneratedArticle } from '@/lib/types';
+
+interface RetrievalRequest {
+  article: GeneratedArticle;
+  // ユーザーが入力したクエリ
+  queries?: string[];
+  // 指定するとキーワードから対話式・比較・実装・トラブルシューティングの定型クエリを加える
+  keyword?: string;
+  // 比較クエリの相手（省略時は「他の方法」）
+  comparisonTarget?: string;
+  options?: Partial<Pick<RetrievalOptions, 'chunkTokens' | 'topK' | 'minCoverage'>>;
+}
+
+// 数値以外は undefined（既定値を使う）、範囲外の値は範囲内に収める
+function clampNumber(value: unknown, min: number, max: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : undefined;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { article, queries = [], keyword, comparisonTarget, options = {} } = await request.json() as RetrievalRequest;
+
+    if (!article || !Array.isArray(article.sections)) {
+      return NextResponse.json(
+        { error: '記事データが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const targetQueries: RetrievalQuery[] = [
+      ...(keyword?.trim() ? buildTemplateQueries(keyword, resolveLocale(article.locale), comparisonTarget) : []),
+      ...(Array.isArray(queries) ? queries : [])
+        .filter((text): text is string => typeof text === 'string' && text.trim() !== '')
+        .map(text => ({ text: text.trim(), type: 'custom' as const })),
+    ];
+    if (targetQueries.length === 0) {
+      return NextResponse.json(
+        { error: 'クエリまたはキーワードが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const { chunkTokens, topK, minCoverage } = options;
+    const report = await simulateRetrieval(article, targetQueries, {
+      chunkTokens: clampNumber(chunkTokens, CHUNK_TOKEN_LIMITS.min, CHUNK_TOKEN_LIMITS.max),
+      topK: clampNumber(topK, 1, 10),
+      minCoverage: clampNumber(minCoverage, 0, 1),
+    });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('検索シミュレーションエラー:', error);
+    return NextResponse.json(
+      { error: '検索シミュレーションに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { articleToPlainText, textSimilarity } from '@/lib/article';
+import { brandPromptFields } from '@/lib/brand';
+import type { ChatMessage } from '@/lib/llm';
+import { buildPromptMessages, buildRewriteContext, isRewriteAction } from '@/lib/prompts';
+import { requestSEOMetadata, withSEOMetadata } from '@/lib/seo';
+import { formatSourcePassages, retrieveSourcePassages, withSources } from '@/lib/sources';
+import { listSourcesByProject, resolveArticleBrand } from '@/lib/storage';
+import {
+  generateStructured,
+  sectionRewriteSchema,
+  StructuredOutputError,
+  subheadingRewriteSchema,
+} from '@/lib/structured-output';
+import { ArticleSection, ArticleSubheading, GeneratedArticle, RewriteAction, RewriteTarget } from '@/lib/types';
+
+// 記事全体の変化量がこの割合を超えたらSEOメタデータを再生成する
+const SEO_REFRESH_THRESHOLD = 0.15;
+
+interface RewriteRequest {
+  article: GeneratedArticle;
+  target: RewriteTarget;
+  action: RewriteAction;
+  instruction?: string;
+  keyword: string;
+  description?: string;
+  baseUrl?: string;
+  // auto: 変化量がしきい値を超えた場合のみ再生成
+  refreshSEO?: 'auto' | 'always' | 'never';
+  // 使用するプロンプトテンプレートの版（省略時は有効な版）
+  promptVersion?: number;
+  // 参考資料を使うプロジェクト（書き換え後の数値・事例も参考資料から出典ID付きで引用させる）
+  projectId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      article,
+      target,
+      action,
+      instruction,
+      keyword,
+      description,
+      baseUrl,
+      refreshSEO = 'auto',
+      promptVersion,
+      projectId,
+    } = await request.json() as RewriteRequest;
+
+    if (!article || !Array.isArray(article.sections) || !target || !keyword) {
+      return NextResponse.json(
+        { error: '記事データ、対象セクション、キーワードが必要です' },
+        { status: 400 }
+      );
+    }
+    if (!isRewriteAction(action)) {
+      return NextResponse.json(
+        { error: 'サポートされていない操作です' },
+        { status: 400 }
+      );
+    }
+    if (action === 'rewrite' && !instruction?.trim()) {
+      return NextResponse.json(
+        { error: '書き換えには編集指示が必要です' },
+        { status: 400 }
+      );
+    }
+
+    const section = article.sections[target.sectionIndex];
+    const subheading = target.subheadingIndex !== undefined
+      ? section?.subheadings?.[target.subheadingIndex]
+      : undefined;
+    if (!section || (target.subheadingIndex !== undefined && !subheading)) {
+      return NextResponse.json(
+        { error: '指定されたセクションが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    // 記事の言語・ブランドのプロンプトで書き換える
+    const locale = article.locale ?? 'ja';
+    const brand = await resolveArticleBrand(article);
+    const { authorProfile, toneGuidelines } = brandPromptFields(brand);
+    // 対象の見出しに関係する参考資料の抜粋をプロンプトに入れる
+    const sources = projectId ? await listSourcesByProject(projectId) : [];
+    const passages = retrieveSourcePassages(
+      sources,
+      [article.title, keyword, section.heading, subheading?.title].filter(Boolean).join('\n')
+    );
+    const prompt = await buildPromptMessages(
+      'rewrite',
+      locale,
+      {
+        title: article.title,
+        keyword,
+        context: buildRewriteContext(article, target, locale),
+        action,
+        instruction,
+        heading: section.heading,
+        subheading: subheading?.title,
+        authorProfile,
+        toneGuidelines,
+        sources: passages.length > 0 ? formatSourcePassages(passages) : undefined,
+      },
+      promptVersion
+    );
+    if (!prompt) {
+      return NextResponse.json(
+        { error: '指定されたプロンプトの版が見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    let updatedArticle: GeneratedArticle = {
+      ...article,
+      sections: article.sections.map(current => ({ ...current, subheadings: current.subheadings?.map(sub => ({ ...sub })) })),
+      promptVersions: { ...article.promptVersions, rewrite: prompt.version },
+    };
+
+    if (subheading) {
+      const rewritten = await rewriteSubheadingWithAI(prompt.messages);
+      updatedArticle.sections[target.sectionIndex].subheadings![target.subheadingIndex!] = rewritten;
+    } else {
+      const rewritten = await rewriteSectionWithAI(prompt.messages);
+      updatedArticle.sections[target.sectionIndex] = rewritten;
+    }
+    if (sources.length > 0) {
+      updatedArticle = withSources(updatedArticle, sources);
+    }
+
+    // 変化量に応じてSEOメタデータを更新
+    const changeRatio = 1 - textSimilarity(articleToPlainText(article), articleToPlainText(updatedArticle));
+    let seoRefreshed = false;
+    if (refreshSEO === 'always' || (refreshSEO === 'auto' && article.seoMetadata && changeRatio >= SEO_REFRESH_THRESHOLD)) {
+      const seo = await requestSEOMetadata(updatedArticle, {
+        origin: request.nextUrl.origin,
+        keyword,
+        description,
+        baseUrl,
+      });
+      if (seo) {
+        updatedArticle = withSEOMetadata(updatedArticle, seo);
+        seoRefreshed = true;
+      }
+    }
+
+    return NextResponse.json({ article: updatedArticle, changeRatio, seoRefreshed });
+  } catch (error) {
+    console.error('セクション書き換えエラー:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: 'セクションの書き換えに失敗しました（出力形式の検証エラー）', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'セクションの書き換えに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+async function rewriteSectionWithAI(messages: ChatMessage[]): Promise<ArticleSection> {
+  return generateStructured<ArticleSection>('article', {
+    messages,
+    schema: sectionRewriteSchema,
+    temperature: 0.7,
+    maxTokens: 2000,
+  });
+}
+
+async function rewriteSubheadingWithAI(messages: ChatMessage[]): Promise<ArticleSubheading> {
+  return generateStructured<ArticleSubheading>('article', {
+    messages,
+    schema: subheadingRewriteSchema,
+    temperature: 0.7,
+    maxTokens: 1000,
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { wordpressSiteStore } from '@/lib/storage';
+import { normalizeWordPressSite, toWordPressSiteSummary, WordPressSiteSettings } from '@/lib/wordpress';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const NOT_FOUND_ERROR = 'WordPressサイトが見つかりません';
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const site = await wordpressSiteStore.get(id);
+
+    if (!site) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    return NextResponse.json({ site: toWordPressSiteSummary(site) });
+  } catch (error) {
+    console.error('WordPressサイト取得エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressサイトの取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const existing = await wordpressSiteStore.get(id);
+    if (!existing) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    // 送られなかった項目は現在の値を引き継ぐ（アプリケーションパスワードは空欄なら変更しない）
+    const { applicationPassword, ...input } = await request.json() as Partial<WordPressSiteSettings>;
+    const { site, errors } = normalizeWordPressSite({
+      ...existing,
+      ...input,
+      applicationPassword: applicationPassword?.trim() || existing.applicationPassword,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'WordPressサイトの入力に問題があります', errors },
+        { status: 400 }
+      );
+    }
+
+    const updated = await wordpressSiteStore.update(id, site);
+    if (!updated) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    return NextResponse.json({ site: toWordPressSiteSummary(updated) });
+  } catch (error) {
+    console.error('WordPressサイト更新エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressサイトの更新に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 削除しても記事に記録した投稿状況は残す（同じサイトを登録し直しても引き継がれない）
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await wordpressSiteStore.delete(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('WordPressサイト削除エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressサイトの削除に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
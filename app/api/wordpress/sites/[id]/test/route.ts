@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { wordpressSiteStore } from '@/lib/storage';
+import { createWordPressClient, WordPressError } from '@/lib/wordpress';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// 登録した認証情報でREST APIに接続できるか確認する
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const site = await wordpressSiteStore.get(id);
+    if (!site) {
+      return NextResponse.json(
+        { error: 'WordPressサイトが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const client = createWordPressClient(site);
+    const user = await client.getCurrentUser();
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof WordPressError) {
+      return NextResponse.json(
+        { error: `接続テストに失敗しました: ${error.message}`, code: error.code },
+        { status: 502 }
+      );
+    }
+    console.error('WordPress接続テストエラー:', error);
+    return NextResponse.json(
+      { error: '接続テストに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
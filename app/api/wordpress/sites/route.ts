@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { wordpressSiteStore } from '@/lib/storage';
+import { normalizeWordPressSite, toWordPressSiteSummary, WordPressSiteSettings } from '@/lib/wordpress';
+
+// アプリケーションパスワードは応答に含めない
+export async function GET() {
+  try {
+    const sites = await wordpressSiteStore.list();
+    return NextResponse.json({ sites: sites.map(toWordPressSiteSummary) });
+  } catch (error) {
+    console.error('WordPressサイト一覧取得エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressサイト一覧の取得に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json() as Partial<WordPressSiteSettings>;
+    const { site, errors } = normalizeWordPressSite(input);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'WordPressサイトの入力に問題があります', errors },
+        { status: 400 }
+      );
+    }
+
+    const created = await wordpressSiteStore.create(site);
+
+    return NextResponse.json({ site: toWordPressSiteSummary(created) }, { status: 201 });
+  } catch (error) {
+    console.error('WordPressサイト作成エラー:', error);
+    return NextResponse.json(
+      { error: 'WordPressサイトの登録に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
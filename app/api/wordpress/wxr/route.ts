@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/jobs';
+import { verifyArticleClaims } from '@/lib/sources';
+import { articleStore, listArticlesByProject, projectStore, resolveArticleBrand, wordpressSiteStore } from '@/lib/storage';
+import { StoredArticle } from '@/lib/types';
+import { generateWXR, WXRItem } from '@/lib/wordpress';
+
+// 対象の記事と、ファイル名・チャンネル名に使う名前を集める
+async function collectArticles(params: URLSearchParams): Promise<{ name: string; title: string; articles: StoredArticle[] } | null> {
+  const jobId = params.get('jobId');
+  if (jobId) {
+    const job = await getJob(jobId);
+    if (!job) return null;
+    const articles = await Promise.all(job.rows.map(row => row.articleId ? articleStore.get(row.articleId) : null));
+    return { name: `job-${job.id}`, title: job.name, articles: articles.filter((article): article is StoredArticle => !!article) };
+  }
+
+  const projectId = params.get('projectId');
+  if (projectId) {
+    const project = await projectStore.get(projectId);
+    if (!project) return null;
+    return { name: `project-${project.id}`, title: project.keyword, articles: await listArticlesByProject(project.id) };
+  }
+
+  const articleIds = params.getAll('articleId');
+  if (articleIds.length > 0) {
+    const articles = await Promise.all(articleIds.map(id => articleStore.get(id)));
+    const found = articles.filter((article): article is StoredArticle => !!article);
+    if (found.length === 0) return null;
+    return {
+      name: found.length === 1 ? `article-${found[0].id}` : 'articles',
+      title: found.length === 1 ? found[0].article.title : 'LLMO Content',
+      articles: found,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 記事をWordPressのインポートツールで読み込めるWXRファイルとして出力する。
+ * ?jobId= / ?projectId= / ?articleId=（複数指定可）のいずれかで対象を指定する。
+ * ?siteId= を指定すると、登録済みサイトのURLをインポート元のURLとして記録する。
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    if (!params.get('jobId') && !params.get('projectId') && !params.get('articleId')) {
+      return NextResponse.json(
+        { error: 'jobId、projectId、articleId のいずれかを指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const collected = await collectArticles(params);
+    if (!collected) {
+      return NextResponse.json(
+        { error: '対象が見つかりません' },
+        { status: 404 }
+      );
+    }
+    if (collected.articles.length === 0) {
+      return NextResponse.json(
+        { error: 'エクスポートできる記事がまだありません' },
+        { status: 409 }
+      );
+    }
+
+    const siteId = params.get('siteId');
+    const site = siteId ? await wordpressSiteStore.get(siteId) : null;
+
+    const items: WXRItem[] = await Promise.all(collected.articles.map(async stored => ({
+      id: stored.id,
+      article: stored.article,
+      brand: await resolveArticleBrand(stored.article),
+      date: new Date(stored.createdAt),
+    })));
+
+    // 根拠のない主張が未確認の記事があれば、ファイル全体を出力しない
+    const unverified: { id: string; title: string; claims: number }[] = [];
+    for (const [index, item] of items.entries()) {
+      const claims = await verifyArticleClaims(item.article, item.brand, collected.articles[index].projectId);
+      if (claims.unresolved.length > 0) {
+        unverified.push({ id: item.id, title: item.article.title, claims: claims.unresolved.length });
+      }
+    }
+    if (unverified.length > 0) {
+      return NextResponse.json(
+        { error: '根拠のない主張が未確認の記事があります。承認または削除してからエクスポートしてください', articles: unverified },
+        { status: 422 }
+      );
+    }
+    const xml = generateWXR(items, { title: collected.title, siteUrl: site?.siteUrl });
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(`wordpress-${collected.name}.xml`)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('WXRエクスポートエラー:', error);
+    return NextResponse.json(
+      { error: 'WXRエクスポートに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
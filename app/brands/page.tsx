@@ -0,0 +1,371 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AttributionPolicy, BrandAuthor, BrandProfile } from "@/lib/types";
+
+interface BrandForm {
+  organizationName: string;
+  siteUrl: string;
+  logoUrl: string;
+  siteDescription: string;
+  authors: BrandAuthor[];
+  toneGuidelines: string;
+  attribution: AttributionPolicy;
+  footerText: string;
+  attributionUrl: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: BrandForm = {
+  organizationName: '',
+  siteUrl: '',
+  logoUrl: '',
+  siteDescription: '',
+  authors: [],
+  toneGuidelines: '',
+  attribution: 'full',
+  footerText: '',
+  attributionUrl: '',
+  isDefault: false,
+};
+
+const ATTRIBUTION_OPTIONS: { value: AttributionPolicy; label: string }[] = [
+  { value: 'full', label: '生成システムと組織名を表示' },
+  { value: 'brand', label: '組織名のみ表示' },
+  { value: 'none', label: '表示しない' },
+];
+
+const EMPTY_AUTHOR: BrandAuthor = { name: '', jobTitle: '', credentials: '', url: '' };
+
+function toForm(profile: BrandProfile): BrandForm {
+  return {
+    organizationName: profile.organizationName,
+    siteUrl: profile.siteUrl ?? '',
+    logoUrl: profile.logoUrl ?? '',
+    siteDescription: profile.siteDescription ?? '',
+    authors: profile.authors.map(author => ({ ...EMPTY_AUTHOR, ...author })),
+    toneGuidelines: profile.toneGuidelines ?? '',
+    attribution: profile.attribution,
+    footerText: profile.footerText ?? '',
+    attributionUrl: profile.attributionUrl ?? '',
+    isDefault: !!profile.isDefault,
+  };
+}
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white";
+
+export default function Brands() {
+  const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+  const [fallbackName, setFallbackName] = useState("");
+  // 編集中のプロファイル（null は新規作成）
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<BrandForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/brands');
+      if (!response.ok) throw new Error('ブランドプロファイル一覧の取得に失敗しました');
+      const data = await response.json();
+      setProfiles(data.profiles);
+      setFallbackName(data.fallback.organizationName);
+    } catch (error) {
+      console.error('ブランドプロファイル一覧読み込みエラー:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const startEdit = (profile: BrandProfile | null) => {
+    setEditingId(profile?.id ?? null);
+    setForm(profile ? toForm(profile) : EMPTY_FORM);
+    setErrors([]);
+  };
+
+  const updateAuthor = (index: number, changes: Partial<BrandAuthor>) => {
+    setForm({
+      ...form,
+      authors: form.authors.map((author, i) => (i === index ? { ...author, ...changes } : author)),
+    });
+  };
+
+  const saveProfile = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(editingId ? `/api/brands/${editingId}` : '/api/brands', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || '不明なエラー']);
+        return;
+      }
+      startEdit(data.profile);
+      await loadProfiles();
+    } catch (error) {
+      console.error('ブランドプロファイル保存エラー:', error);
+      alert('保存でエラーが発生しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProfile = async (profile: BrandProfile) => {
+    if (!confirm(`ブランドプロファイル「${profile.organizationName}」を削除しますか？`)) return;
+    const response = await fetch(`/api/brands/${profile.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      alert('ブランドプロファイルの削除に失敗しました');
+      return;
+    }
+    if (editingId === profile.id) {
+      startEdit(null);
+    }
+    await loadProfiles();
+  };
+
+  const hasDefault = profiles.some(profile => profile.isDefault);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            🏷️ ブランドプロファイル
+          </h1>
+          <div className="flex gap-4">
+            <Link href="/prompts" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              🧩 プロンプト管理
+            </Link>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              ← 記事生成に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">登録済みのプロファイル</h2>
+            <button
+              onClick={() => startEdit(null)}
+              className="bg-blue-50 hover:bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-md text-sm font-medium"
+            >
+              ＋ 新規作成
+            </button>
+          </div>
+          {!hasDefault && fallbackName && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              既定のプロファイルがないため、ブランドを指定しない生成・エクスポートでは「{fallbackName}」が使われます。
+            </p>
+          )}
+          {profiles.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">プロファイルはまだありません。</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+                  <div>
+                    <span className="font-medium">{profile.organizationName}</span>
+                    {profile.isDefault && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">既定</span>
+                    )}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      著者 {profile.authors.length}人 / {ATTRIBUTION_OPTIONS.find(option => option.value === profile.attribution)?.label}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 shrink-0 text-xs">
+                    <button
+                      onClick={() => startEdit(profile)}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-1 rounded-md font-medium"
+                    >
+                      編集
+                    </button>
+                    <button
+                      onClick={() => deleteProfile(profile)}
+                      className="bg-red-50 hover:bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 px-3 py-1 rounded-md font-medium"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {editingId ? 'プロファイルの編集' : '新しいプロファイル'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs text-gray-600 dark:text-gray-400">
+            <label className="flex flex-col gap-1">
+              <span>組織名 *</span>
+              <input
+                type="text"
+                value={form.organizationName}
+                onChange={(e) => setForm({ ...form, organizationName: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>サイトURL</span>
+              <input
+                type="url"
+                value={form.siteUrl}
+                onChange={(e) => setForm({ ...form, siteUrl: e.target.value })}
+                placeholder="https://example.com"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>ロゴURL</span>
+              <input
+                type="url"
+                value={form.logoUrl}
+                onChange={(e) => setForm({ ...form, logoUrl: e.target.value })}
+                placeholder="https://example.com/logo.png"
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+            <span>サイトの説明（llms.txt の概要として出力されます）</span>
+            <textarea
+              value={form.siteDescription}
+              onChange={(e) => setForm({ ...form, siteDescription: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300">著者（先頭の著者を記事の著者として使用）</h3>
+              <button
+                onClick={() => setForm({ ...form, authors: [...form.authors, EMPTY_AUTHOR] })}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                ＋ 著者を追加
+              </button>
+            </div>
+            {form.authors.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">著者が未登録の場合は、組織名を著者として記載します。</p>
+            )}
+            <div className="space-y-2">
+              {form.authors.map((author, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_1fr_auto] gap-2">
+                  <input
+                    type="text"
+                    value={author.name}
+                    onChange={(e) => updateAuthor(index, { name: e.target.value })}
+                    placeholder="名前"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={author.jobTitle ?? ''}
+                    onChange={(e) => updateAuthor(index, { jobTitle: e.target.value })}
+                    placeholder="肩書き"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={author.credentials ?? ''}
+                    onChange={(e) => updateAuthor(index, { credentials: e.target.value })}
+                    placeholder="経歴・資格"
+                    className={inputClass}
+                  />
+                  <input
+                    type="url"
+                    value={author.url ?? ''}
+                    onChange={(e) => updateAuthor(index, { url: e.target.value })}
+                    placeholder="プロフィールURL"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => setForm({ ...form, authors: form.authors.filter((_, i) => i !== index) })}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    削除
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+            <span>トーン・文体のガイドライン（タイトル・記事生成のプロンプトに追加されます）</span>
+            <textarea
+              value={form.toneGuidelines}
+              onChange={(e) => setForm({ ...form, toneGuidelines: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs text-gray-600 dark:text-gray-400">
+            <label className="flex flex-col gap-1">
+              <span>エクスポート時のクレジット表記</span>
+              <select
+                value={form.attribution}
+                onChange={(e) => setForm({ ...form, attribution: e.target.value as AttributionPolicy })}
+                className={inputClass}
+              >
+                {ATTRIBUTION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>クレジットのリンク先</span>
+              <input
+                type="url"
+                value={form.attributionUrl}
+                onChange={(e) => setForm({ ...form, attributionUrl: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>フッターの追加テキスト</span>
+              <input
+                type="text"
+                value={form.footerText}
+                onChange={(e) => setForm({ ...form, footerText: e.target.value })}
+                placeholder="© 2026 Example Inc."
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={form.isDefault} onChange={(e) => setForm({ ...form, isDefault: e.target.checked })} />
+            ブランドを指定しない生成・エクスポートで使用する（既定のプロファイル）
+          </label>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-md p-3 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            onClick={saveProfile}
+            disabled={!form.organizationName.trim() || isSaving}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors duration-200"
+          >
+            {isSaving ? '保存中...' : '💾 保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { AuditReport, AuditRuleId, AuditSeverity } from "@/lib/audit";
+import { GeneratedArticle } from "@/lib/types";
+
+interface AuditPanelProps {
+  article: GeneratedArticle;
+  keyword: string;
+  disabled: boolean;
+}
+
+const RULE_LABELS: Record<AuditRuleId, string> = {
+  demonstrative_start: '段落冒頭の指示語',
+  section_length: '文字数',
+  keyword_frequency: 'キーワード頻度',
+  undefined_jargon: '未定義の専門用語',
+  long_sentence: '長すぎる文',
+  passive_voice: '受動態の多用',
+};
+
+const SEVERITY_STYLES: Record<AuditSeverity, { label: string; className: string }> = {
+  error: { label: 'エラー', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  warning: { label: '警告', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+  info: { label: '情報', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'text-green-600 dark:text-green-400';
+  if (score >= 60) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+// LLMO執筆ルールに基づく記事の監査結果パネル
+export default function AuditPanel({ article, keyword, disabled }: AuditPanelProps) {
+  const [report, setReport] = useState<AuditReport | null>(null);
+  // 監査時点の記事（記事が更新されたら結果が古いことを表示する）
+  const [auditedArticle, setAuditedArticle] = useState<GeneratedArticle | null>(null);
+  const [isAuditing, setIsAuditing] = useState(false);
+
+  const runAudit = async () => {
+    setIsAuditing(true);
+    try {
+      const response = await fetch('/api/audit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ article, keyword }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '監査に失敗しました');
+      setReport(data.report);
+      setAuditedArticle(article);
+    } catch (error) {
+      console.error('監査エラー:', error);
+      alert(`記事の監査に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsAuditing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          🔍 LLMO監査
+          {report && <span className={`text-2xl font-bold ${scoreColor(report.score)}`}>{report.score}<span className="text-sm text-gray-500"> / 100</span></span>}
+        </h2>
+        <button
+          onClick={runAudit}
+          disabled={disabled || isAuditing}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+        >
+          {isAuditing ? '監査中...' : report ? '🔄 再監査' : '監査を実行'}
+        </button>
+      </div>
+
+      {!report && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          指示語で始まる段落・セクションの文字数・キーワード頻度・未定義の専門用語・長い文・受動態の多用をルールベースで検査します。
+        </p>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-4">
+          {auditedArticle !== article && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded p-2">
+              監査後に記事が変更されています。最新の内容で再監査してください。
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(RULE_LABELS) as AuditRuleId[]).map(rule => (
+              <span
+                key={rule}
+                className={`px-2 py-1 rounded-full ${report.ruleCounts[rule] === 0 ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'}`}
+              >
+                {RULE_LABELS[rule]}: {report.ruleCounts[rule]}件
+              </span>
+            ))}
+          </div>
+
+          {report.sections.map(section => (
+            <div key={section.sectionIndex} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {section.sectionIndex + 1}. {section.heading}
+                </h3>
+                <span className={`text-sm font-bold ${scoreColor(section.score)}`}>{section.score}</span>
+              </div>
+              <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                {section.metrics.length}{report.options.lengthUnit === 'words' ? '語' : '文字'} ・ {section.metrics.sentenceCount}文
+                {report.options.keyword && ` ・ キーワード ${section.metrics.keywordCount}回`}
+                {` ・ 受動態 ${Math.round(section.metrics.passiveRatio * 100)}%`}
+              </p>
+              {section.findings.length === 0 ? (
+                <p className="text-xs text-green-700 dark:text-green-400">✅ 指摘はありません</p>
+              ) : (
+                <ul className="space-y-1">
+                  {section.findings.map((finding, index) => (
+                    <li key={index} className="text-xs text-gray-700 dark:text-gray-300 flex items-start gap-2">
+                      <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-medium ${SEVERITY_STYLES[finding.severity].className}`}>
+                        {SEVERITY_STYLES[finding.severity].label}
+                      </span>
+                      <span>
+                        {finding.subheadingIndex !== undefined && <span className="text-gray-500">[サブセクション{finding.subheadingIndex + 1}] </span>}
+                        {finding.message}
+                        {finding.excerpt && <span className="block text-gray-500 dark:text-gray-400">「{finding.excerpt}」</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { ArticleClaim, toHalfWidth } from "@/lib/claims";
+
+interface ClaimHighlightProps {
+  text: string;
+  // 強調する主張（同じ本文の未確認の主張）
+  claims: ArticleClaim[];
+}
+
+// 本文中の主張の範囲（主張の語句が見つからない場合は文全体）を重ならないように並べる
+function claimRanges(text: string, claims: ArticleClaim[]): { start: number; end: number; claim: ArticleClaim }[] {
+  const ranges = claims.flatMap(claim => {
+    const sentenceStart = text.indexOf(claim.sentence);
+    if (sentenceStart < 0) return [];
+    // 主張の語句は全角の英数字を半角にした文から抽出しているため、同じ変換をした文で位置を探す
+    const offset = toHalfWidth(claim.sentence).indexOf(claim.text);
+    return offset < 0
+      ? [{ start: sentenceStart, end: sentenceStart + claim.sentence.length, claim }]
+      : [{ start: sentenceStart + offset, end: sentenceStart + offset + claim.text.length, claim }];
+  });
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<typeof ranges>((kept, range) => {
+    const last = kept[kept.length - 1];
+    return !last || range.start >= last.end ? [...kept, range] : kept;
+  }, []);
+}
+
+// 根拠のない主張を強調表示した本文
+export default function ClaimHighlight({ text, claims }: ClaimHighlightProps) {
+  const ranges = claimRanges(text, claims);
+  if (ranges.length === 0) return <>{text}</>;
+
+  let cursor = 0;
+  const parts: React.ReactNode[] = [];
+  ranges.forEach(({ start, end, claim }) => {
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={claim.id} title={claim.reason} className="bg-red-100 text-red-900 dark:bg-red-900/50 dark:text-red-100 rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
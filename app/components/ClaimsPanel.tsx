@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ArticleClaim, ClaimKind, ClaimReport, ClaimSupport } from "@/lib/claims";
+import { GeneratedArticle } from "@/lib/types";
+
+interface ClaimsPanelProps {
+  article: GeneratedArticle;
+  projectId: string | null;
+  disabled: boolean;
+  report: ClaimReport | null;
+  onReport: (report: ClaimReport | null) => void;
+  onAccept: (claim: ArticleClaim, accepted: boolean) => void;
+  onRemove: (claim: ArticleClaim) => void;
+}
+
+const KIND_LABELS: Record<ClaimKind, string> = {
+  quantitative: '数値',
+  organization: '組織名',
+  case_study: '事例',
+};
+
+const SUPPORT_STYLES: Record<ClaimSupport, { label: string; className: string }> = {
+  unsupported: { label: '根拠なし', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  generic: { label: '一般的', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  backed: { label: '根拠あり', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+};
+
+function ClaimItem({ claim, children }: { claim: ArticleClaim; children?: React.ReactNode }) {
+  return (
+    <li className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-1">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm text-gray-900 dark:text-white">
+          <span className="mr-2 px-2 py-0.5 rounded-full text-[10px] font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+            {KIND_LABELS[claim.kind]}
+          </span>
+          {claim.text}
+          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{claim.reason}</span>
+        </p>
+        {children}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{claim.sentence}</p>
+    </li>
+  );
+}
+
+// 本文の数値・組織名・事例の根拠を確認するパネル（根拠のない主張は承認または削除するまでエクスポートできない）
+export default function ClaimsPanel({ article, projectId, disabled, report, onReport, onAccept, onRemove }: ClaimsPanelProps) {
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [openSupport, setOpenSupport] = useState<ClaimSupport | null>(null);
+
+  // 記事が変わるたびに検証し直す（古い検証結果が後から届いた場合は使わない）
+  useEffect(() => {
+    let ignore = false;
+    const verify = async () => {
+      setIsVerifying(true);
+      try {
+        const response = await fetch('/api/claims', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ article, projectId: projectId || undefined }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || '主張の確認に失敗しました');
+        if (!ignore) onReport(data.report);
+      } catch (error) {
+        console.error('主張確認エラー:', error);
+        if (!ignore) onReport(null);
+      } finally {
+        if (!ignore) setIsVerifying(false);
+      }
+    };
+    verify();
+    return () => {
+      ignore = true;
+    };
+  }, [article, projectId, onReport]);
+
+  const unsupported = report?.claims.filter(claim => claim.support === 'unsupported') ?? [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+        🔎 主張の確認
+        {isVerifying && <span className="text-sm font-normal text-gray-500 dark:text-gray-400">確認中...</span>}
+        {report && !isVerifying && (
+          <span className={`text-sm font-normal ${report.unresolved.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {report.unresolved.length > 0 ? `未確認 ${report.unresolved.length}件` : '✅ 未確認の主張はありません'}
+          </span>
+        )}
+      </h2>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        本文・FAQの数値・組織名・事例を抽出し、参考資料の出典IDと本文で根拠を確認します。根拠のない主張は本文で強調表示され、承認または削除するまでエクスポート・投稿できません。
+      </p>
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          <div className="flex gap-2 text-xs">
+            {(Object.keys(SUPPORT_STYLES) as ClaimSupport[]).map(support => (
+              <button
+                key={support}
+                onClick={() => setOpenSupport(openSupport === support ? null : support)}
+                disabled={support === 'unsupported'}
+                className={`px-2 py-0.5 rounded-full font-medium ${SUPPORT_STYLES[support].className} ${openSupport === support ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                {SUPPORT_STYLES[support].label} {report.counts[support]}件
+              </button>
+            ))}
+          </div>
+
+          {unsupported.length > 0 && (
+            <ul className="space-y-2">
+              {unsupported.map(claim => (
+                <ClaimItem key={claim.id} claim={claim}>
+                  <div className="shrink-0 flex items-center gap-2 text-xs">
+                    {claim.accepted ? (
+                      <>
+                        <span className="text-green-600 dark:text-green-400">承認済み</span>
+                        <button
+                          onClick={() => onAccept(claim, false)}
+                          disabled={disabled}
+                          className="text-gray-600 dark:text-gray-300 hover:underline disabled:opacity-50"
+                        >
+                          取り消し
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => onAccept(claim, true)}
+                          disabled={disabled}
+                          className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                        >
+                          承認
+                        </button>
+                        <button
+                          onClick={() => onRemove(claim)}
+                          disabled={disabled}
+                          className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                        >
+                          削除
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </ClaimItem>
+              ))}
+            </ul>
+          )}
+
+          {openSupport && openSupport !== 'unsupported' && (
+            <ul className="space-y-2">
+              {report.claims
+                .filter(claim => claim.support === openSupport)
+                .map(claim => <ClaimItem key={claim.id} claim={claim} />)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
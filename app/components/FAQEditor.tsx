@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { FAQItem } from "@/lib/types";
+
+interface FAQEditorProps {
+  faq: FAQItem[];
+  disabled: boolean;
+  // FAQを生成中
+  busy: boolean;
+  onGenerate: () => Promise<void>;
+  // 編集後のFAQ全体と、変更履歴に残す説明
+  onChange: (faq: FAQItem[], note: string) => Promise<void>;
+}
+
+// 記事末尾の「よくある質問」の表示・編集パネル
+export default function FAQEditor({ faq, disabled, busy, onGenerate, onChange }: FAQEditorProps) {
+  // 編集中の項目（faq.length は新規追加）
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftQuestion, setDraftQuestion] = useState("");
+  const [draftAnswer, setDraftAnswer] = useState("");
+
+  const startEditing = (index: number) => {
+    setDraftQuestion(faq[index]?.question ?? "");
+    setDraftAnswer(faq[index]?.answer ?? "");
+    setEditingIndex(index);
+  };
+
+  const saveItem = async () => {
+    if (editingIndex === null) return;
+    const item = { question: draftQuestion.trim(), answer: draftAnswer.trim() };
+    const isNew = editingIndex >= faq.length;
+    const next = isNew ? [...faq, item] : faq.map((current, index) => (index === editingIndex ? item : current));
+    await onChange(next, isNew ? `よくある質問 ${next.length} を追加` : `よくある質問 ${editingIndex + 1}`);
+    setEditingIndex(null);
+  };
+
+  const removeItem = async (index: number) => {
+    if (!confirm(`「${faq[index].question}」を削除しますか？`)) return;
+    await onChange(faq.filter((_, current) => current !== index), `よくある質問 ${index + 1} を削除`);
+  };
+
+  const renderForm = () => (
+    <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 space-y-2">
+      <input
+        type="text"
+        value={draftQuestion}
+        onChange={(e) => setDraftQuestion(e.target.value)}
+        placeholder="質問（例：○○と△△の違いは？）"
+        className="w-full px-3 py-2 text-sm font-semibold border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+      <textarea
+        value={draftAnswer}
+        onChange={(e) => setDraftAnswer(e.target.value)}
+        placeholder="回答（質問を読まなくても意味が通じる文章）"
+        rows={4}
+        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={saveItem}
+          disabled={disabled || !draftQuestion.trim() || !draftAnswer.trim()}
+          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+        >
+          💾 保存
+        </button>
+        <button
+          onClick={() => setEditingIndex(null)}
+          className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+        >
+          キャンセル
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="mt-10 pt-6 border-t border-gray-200 dark:border-gray-700 not-prose">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-white">❓ よくある質問</h2>
+        <button
+          onClick={onGenerate}
+          disabled={disabled || busy || editingIndex !== null}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+        >
+          {busy ? '⏳ 生成中...' : faq.length > 0 ? '🔄 FAQを再生成' : '✨ FAQを生成'}
+        </button>
+      </div>
+
+      {faq.length === 0 && editingIndex === null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          記事の内容から、AI回答エンジンが引用しやすい対話式の質問と回答を5〜10件生成します。FAQPage の構造化データにも使用されます。
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {faq.map((item, index) => (
+          editingIndex === index ? (
+            <div key={index}>{renderForm()}</div>
+          ) : (
+            <div key={index} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <h3 className="font-semibold text-gray-800 dark:text-gray-100">Q. {item.question}</h3>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => startEditing(index)}
+                    disabled={disabled || busy || editingIndex !== null}
+                    className="text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ✍️ 編集
+                  </button>
+                  <button
+                    onClick={() => removeItem(index)}
+                    disabled={disabled || busy || editingIndex !== null}
+                    className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    🗑️ 削除
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{item.answer}</p>
+            </div>
+          )
+        ))}
+
+        {editingIndex === faq.length ? renderForm() : (
+          <button
+            onClick={() => startEditing(faq.length)}
+            disabled={disabled || busy || editingIndex !== null}
+            className="text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ➕ 質問を追加
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
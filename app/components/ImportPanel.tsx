@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { GeneratedArticle } from "@/lib/types";
+
+interface ImportPanelProps {
+  disabled: boolean;
+  onImported: (article: GeneratedArticle) => Promise<void>;
+}
+
+type ImportSource = 'file' | 'url' | 'text';
+
+// 既存コンテンツ（HTML・Markdownファイル、公開ページのURL、貼り付けたテキスト）の取り込みパネル
+export default function ImportPanel({ disabled, onImported }: ImportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState("");
+  const [text, setText] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const canImport = source === 'file' ? !!file : source === 'url' ? !!url.trim() : !!text.trim();
+
+  const runImport = async () => {
+    setIsImporting(true);
+    setWarnings([]);
+    try {
+      const body = source === 'url'
+        ? { url: url.trim() }
+        : source === 'file'
+          ? { content: await file!.text(), filename: file!.name }
+          : { content: text };
+
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '取り込みに失敗しました');
+
+      setWarnings(data.warnings || []);
+      await onImported(data.article);
+    } catch (error) {
+      console.error('インポートエラー:', error);
+      alert(`コンテンツの取り込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+      >
+        {isOpen ? '▼' : '▶'} 📥 既存コンテンツを取り込んで改善する
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 animate-fadeInUp">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            HTML・Markdownの見出し（h1 → タイトル、h2 → セクション、h3 → サブセクション）とメタ情報を読み取り、生成記事と同じように監査・書き換え・エクスポートできます。
+          </p>
+          <div className="flex gap-2 text-xs">
+            {([['file', '📄 ファイル'], ['url', '🌐 URL'], ['text', '📝 貼り付け']] as [ImportSource, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setSource(value)}
+                className={`px-3 py-1 rounded-full border ${source === value ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {source === 'file' && (
+            <input
+              type="file"
+              accept=".html,.htm,.md,.markdown,text/html,text/markdown"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="block text-sm text-gray-600 dark:text-gray-300"
+            />
+          )}
+          {source === 'url' && (
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://your-website.com/blog/article"
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            />
+          )}
+          {source === 'text' && (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={6}
+              placeholder="HTMLまたはMarkdownを貼り付けてください"
+              className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            />
+          )}
+
+          <button
+            onClick={runImport}
+            disabled={disabled || isImporting || !canImport}
+            className="bg-gray-700 hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+          >
+            {isImporting ? '取り込み中...' : '📥 取り込む'}
+          </button>
+
+          {warnings.length > 0 && (
+            <ul className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded p-2 space-y-1">
+              {warnings.map((warning, index) => <li key={index}>⚠️ {warning}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
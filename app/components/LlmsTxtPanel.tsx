@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+
+type LlmsTxtSource = 'library' | 'files';
+
+interface LlmsTxtResult {
+  llmsTxt: string;
+  llmsFullTxt: string;
+  unlinked: string[];
+  // 未確認の主張があるため llms-full.txt に本文を含めなかった記事
+  withheld: { title: string; unresolvedClaims: number }[];
+  articleCount: number;
+}
+
+function downloadText(content: string, filename: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type: 'text/plain;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white";
+
+// ライブラリの記事またはアップロードした記事JSONから llms.txt / llms-full.txt を作るパネル
+export default function LlmsTxtPanel() {
+  const [source, setSource] = useState<LlmsTxtSource>('library');
+  const [files, setFiles] = useState<File[]>([]);
+  const [siteName, setSiteName] = useState("");
+  const [siteDescription, setSiteDescription] = useState("");
+  const [result, setResult] = useState<LlmsTxtResult | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setResult(null);
+    try {
+      let articles: unknown[] | undefined;
+      if (source === 'files') {
+        // 1ファイルに記事の配列を含めることもできる
+        articles = [];
+        for (const file of files) {
+          let data: unknown;
+          try {
+            data = JSON.parse(await file.text());
+          } catch {
+            throw new Error(`${file.name} はJSONとして読み取れません`);
+          }
+          articles.push(...(Array.isArray(data) ? data : [data]));
+        }
+      }
+
+      const response = await fetch('/api/llms-txt', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          articles,
+          siteName: siteName.trim() || undefined,
+          siteDescription: siteDescription.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'llms.txtの生成に失敗しました');
+      setResult(data);
+    } catch (error) {
+      console.error('llms.txt生成エラー:', error);
+      alert(`llms.txtの生成に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">🤖 llms.txt の生成</h2>
+        <div className="flex gap-3 text-xs">
+          <a href="/llms.txt" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">/llms.txt</a>
+          <a href="/llms-full.txt" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">/llms-full.txt</a>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        記事へのリンクと要約の一覧（llms.txt）と、本文をまとめたファイル（llms-full.txt）を作ります。
+        リンクには canonical URL を使用し、URLのない記事は llms-full.txt のみに含めます。
+      </p>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={source === 'library'} onChange={() => setSource('library')} />
+          ライブラリのすべての記事
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={source === 'files'} onChange={() => setSource('files')} />
+          記事JSONファイル
+        </label>
+        {source === 'files' && (
+          <input
+            type="file"
+            accept=".json,application/json"
+            multiple
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            className="text-xs"
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr] gap-3 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex flex-col gap-1">
+          <span>サイト名</span>
+          <input
+            type="text"
+            value={siteName}
+            onChange={(e) => setSiteName(e.target.value)}
+            placeholder="省略時はブランドの組織名"
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>サイトの説明</span>
+          <input
+            type="text"
+            value={siteDescription}
+            onChange={(e) => setSiteDescription(e.target.value)}
+            placeholder="省略時はブランドのサイトの説明"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={generate}
+        disabled={isGenerating || (source === 'files' && files.length === 0)}
+        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+      >
+        {isGenerating ? '生成中...' : '生成'}
+      </button>
+
+      {result && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            記事 {result.articleCount}件（リンク一覧 {result.articleCount - result.unlinked.length}件）
+          </p>
+          {result.unlinked.length > 0 && (
+            <div className="text-xs text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 rounded-md p-3">
+              canonical URL がないため、次の記事は llms.txt のリンク一覧に含めていません:
+              <ul className="list-disc list-inside mt-1">
+                {result.unlinked.map((title, index) => <li key={index}>{title}</li>)}
+              </ul>
+            </div>
+          )}
+          {result.withheld.length > 0 && (
+            <div className="text-xs text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/30 rounded-md p-3">
+              未確認の主張があるため、次の記事の本文は llms-full.txt に含めていません（記事の「主張の確認」で承認または削除してください）:
+              <ul className="list-disc list-inside mt-1">
+                {result.withheld.map((entry, index) => <li key={index}>{entry.title}（未確認 {entry.unresolvedClaims}件）</li>)}
+              </ul>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadText(result.llmsTxt, 'llms.txt')}
+              className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-md text-xs font-medium"
+            >
+              📥 llms.txt
+            </button>
+            <button
+              onClick={() => downloadText(result.llmsFullTxt, 'llms-full.txt')}
+              className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-md text-xs font-medium"
+            >
+              📥 llms-full.txt
+            </button>
+          </div>
+          <pre className="text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-900/40 rounded p-3 max-h-64 overflow-y-auto text-gray-700 dark:text-gray-300">
+            {result.llmsTxt}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
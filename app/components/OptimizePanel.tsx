@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { GeneratedArticle, SectionChangeSummary } from "@/lib/types";
+
+interface OptimizePanelProps {
+  article: GeneratedArticle;
+  // 参考資料を使うプロジェクト
+  projectId: string | null;
+  keyword: string;
+  baseUrl: string;
+  generateSEO: boolean;
+  disabled: boolean;
+  onOptimized: (article: GeneratedArticle, changeRatio: number) => void;
+}
+
+// 既存記事を事実・数値を保ったままLLMO最適化し、セクションごとの変更点を表示するパネル
+export default function OptimizePanel({ article, projectId, keyword, baseUrl, generateSEO, disabled, onOptimized }: OptimizePanelProps) {
+  const [instruction, setInstruction] = useState("");
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [changes, setChanges] = useState<SectionChangeSummary[] | null>(null);
+
+  const runOptimize = async () => {
+    if (!confirm('記事全体を書き直します。現在の内容は変更履歴に残ります。実行しますか？')) return;
+    setIsOptimizing(true);
+    try {
+      const response = await fetch('/api/optimize-article', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          article,
+          keyword,
+          instruction: instruction.trim() || undefined,
+          generateSEO: generateSEO || !!article.seoMetadata,
+          baseUrl: baseUrl.trim() || undefined,
+          projectId: projectId || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '最適化に失敗しました');
+      setChanges(data.changes);
+      onOptimized(data.article, data.changeRatio);
+    } catch (error) {
+      console.error('記事最適化エラー:', error);
+      alert(`記事の最適化に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">✨ 既存記事の最適化</h2>
+        <button
+          onClick={runOptimize}
+          disabled={disabled || isOptimizing}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+        >
+          {isOptimizing ? '最適化中...' : '記事全体を最適化'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        著者の事実・数値・主張を保ったまま、E-E-A-T・RAGの原則に沿って記事全体を書き直します。元の記事にない数値は追加されません。
+      </p>
+      <input
+        type="text"
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="追加の編集指示（任意）例: 導入を短くして結論を先に書く"
+        className="mt-3 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+
+      {changes && (
+        <div className="mt-4 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">セクションごとの変更点</h3>
+          {changes.map(change => (
+            <div key={change.sectionIndex} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                <span>
+                  {change.sectionIndex + 1}. {change.heading}
+                  {change.heading !== change.originalHeading && (
+                    <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">元の見出し: {change.originalHeading}</span>
+                  )}
+                </span>
+                <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">変化量 {Math.round((1 - change.similarity) * 100)}%</span>
+              </div>
+              {change.changes.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">変更なし</p>
+              ) : (
+                <ul className="list-disc list-inside text-xs text-gray-700 dark:text-gray-300 mt-1 space-y-0.5">
+                  {change.changes.map((item, index) => <li key={index}>{item}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
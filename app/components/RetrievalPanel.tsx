@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import type { RetrievalQueryType, RetrievalReport } from "@/lib/retrieval";
+import { GeneratedArticle } from "@/lib/types";
+
+interface RetrievalPanelProps {
+  article: GeneratedArticle;
+  keyword: string;
+  disabled: boolean;
+}
+
+const QUERY_TYPE_LABELS: Record<RetrievalQueryType, string> = {
+  conversational: '対話式',
+  comparison: '比較',
+  implementation: '実装',
+  troubleshooting: 'トラブルシューティング',
+  custom: '入力',
+};
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white";
+
+// 想定クエリで記事のどのチャンクが検索されるかを BM25 で予測するパネル
+export default function RetrievalPanel({ article, keyword, disabled }: RetrievalPanelProps) {
+  const [queries, setQueries] = useState("");
+  const [useTemplates, setUseTemplates] = useState(true);
+  const [comparisonTarget, setComparisonTarget] = useState("");
+  const [report, setReport] = useState<RetrievalReport | null>(null);
+  // シミュレーション時点の記事（記事が更新されたら結果が古いことを表示する）
+  const [simulatedArticle, setSimulatedArticle] = useState<GeneratedArticle | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const templateKeyword = keyword.trim() || article.seoMetadata?.keywords[0] || '';
+  const customQueries = queries.split('\n').map(query => query.trim()).filter(Boolean);
+  const canSimulate = customQueries.length > 0 || (useTemplates && templateKeyword !== '');
+
+  const runSimulation = async () => {
+    setIsSimulating(true);
+    try {
+      const response = await fetch('/api/retrieval', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          article,
+          queries: customQueries,
+          keyword: useTemplates ? templateKeyword : undefined,
+          comparisonTarget: comparisonTarget.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '検索シミュレーションに失敗しました');
+      setReport(data.report);
+      setSimulatedArticle(article);
+    } catch (error) {
+      console.error('検索シミュレーションエラー:', error);
+      alert(`検索シミュレーションに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          🎯 検索シミュレーション
+          {report && (
+            <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+              {report.results.length - report.unmatched.length} / {report.results.length} クエリが一致
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={runSimulation}
+          disabled={disabled || isSimulating || !canSimulate}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+        >
+          {isSimulating ? '実行中...' : report ? '🔄 再実行' : 'シミュレーション'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        記事をRAGチャンク（JSONLエクスポートと同じ分割）にしてBM25で検索し、各クエリで1位になるチャンクを予測します。
+      </p>
+
+      <div className="mt-4 space-y-3 text-xs text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={useTemplates} onChange={(e) => setUseTemplates(e.target.checked)} />
+          <span>
+            キーワード「{templateKeyword || '未設定'}」から対話式・比較・実装・トラブルシューティングのクエリを作る
+          </span>
+        </label>
+        {useTemplates && (
+          <label className="flex items-center gap-2">
+            <span>比較の相手</span>
+            <input
+              type="text"
+              value={comparisonTarget}
+              onChange={(e) => setComparisonTarget(e.target.value)}
+              placeholder="省略時は「他の方法」"
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span>想定クエリ（1行に1件）</span>
+          <textarea
+            value={queries}
+            onChange={(e) => setQueries(e.target.value)}
+            rows={3}
+            placeholder="例: LLMOとSEOはどちらを優先すべき？"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          {simulatedArticle !== article && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 rounded p-2">
+              シミュレーション後に記事が変更されています。最新の内容で再実行してください。
+            </p>
+          )}
+
+          {report.unmatched.length > 0 && (
+            <div className="text-xs text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 rounded-md p-3">
+              十分に一致するチャンクがないクエリ（{report.unmatched.length}件）。回答となる見出し・段落の追加を検討してください:
+              <ul className="list-disc list-inside mt-1">
+                {report.unmatched.map((query, index) => <li key={index}>{query.text}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-[11px] text-gray-500 dark:text-gray-400">
+            チャンク {report.chunkCount}件 ・ 一致の基準: クエリの語の{Math.round(report.options.minCoverage * 100)}%以上を含む
+          </p>
+
+          {report.results.map((result, index) => {
+            const [top, ...others] = result.hits;
+            return (
+              <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm text-gray-900 dark:text-white">
+                    <span className="mr-2 px-2 py-0.5 rounded-full text-[10px] font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                      {QUERY_TYPE_LABELS[result.query.type]}
+                    </span>
+                    {result.query.text}
+                  </p>
+                  <span className={`shrink-0 text-xs font-medium ${result.matched ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {result.matched ? '✅ 一致' : '⚠️ 一致なし'}
+                  </span>
+                </div>
+                {top ? (
+                  <div className="text-xs text-gray-700 dark:text-gray-300">
+                    <p className="font-medium">
+                      1位: {top.headingPath.slice(1).join(' › ')}
+                      <span className="ml-2 text-gray-500 dark:text-gray-400 font-normal">
+                        スコア {top.score.toFixed(2)} ・ 語の一致 {Math.round(top.coverage * 100)}% ・ #{top.anchor}
+                      </span>
+                    </p>
+                    <p className="text-gray-500 dark:text-gray-400 mt-1">{top.excerpt}</p>
+                    {others.length > 0 && (
+                      <p className="text-gray-500 dark:text-gray-400 mt-1">
+                        次点: {others.map(hit => `${hit.headingPath.slice(1).join(' › ')}（${hit.score.toFixed(2)}）`).join(' ／ ')}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">クエリの語を含むチャンクがありません</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArticleDiff, ChangeType, TextDiffSegment } from "@/lib/diff";
+import { ArticleRevisionSummary, GeneratedArticle, RevisionReason } from "@/lib/types";
+
+interface RevisionHistoryProps {
+  articleId: string;
+  // 値が変わるたびに版の一覧を再取得する
+  refreshKey: number;
+  disabled: boolean;
+  onRestore: (article: GeneratedArticle) => void;
+}
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+  generated: '🆕 初回生成',
+  regenerated: '🔄 記事の再生成',
+  rewrite: '🛠️ セクション書き換え',
+  manual_edit: '✍️ 手動編集',
+  seo_refresh: '🎯 SEO再生成',
+  faq_refresh: '❓ FAQ生成',
+  restore: '⏪ 復元',
+  imported: '📥 取り込み',
+  optimized: '✨ 記事の最適化',
+  claim_review: '🔎 主張の確認',
+};
+
+const CHANGE_STYLES: Record<ChangeType, { label: string; className: string }> = {
+  added: { label: '追加', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  removed: { label: '削除', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  modified: { label: '変更', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+  unchanged: { label: '変更なし', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+function ChangeBadge({ type }: { type: ChangeType }) {
+  const style = CHANGE_STYLES[type];
+  return <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium ${style.className}`}>{style.label}</span>;
+}
+
+function HeadingChange({ before, after, changed }: { before?: string; after?: string; changed: boolean }) {
+  if (!changed || before === undefined || after === undefined) {
+    return <span>{after ?? before}</span>;
+  }
+  return (
+    <span>
+      <del className="text-red-600 dark:text-red-400">{before}</del>
+      {' → '}
+      <ins className="text-green-700 dark:text-green-400 no-underline">{after}</ins>
+    </span>
+  );
+}
+
+function TextDiff({ segments }: { segments: TextDiffSegment[] }) {
+  return (
+    <div className="text-xs whitespace-pre-wrap leading-relaxed bg-gray-50 dark:bg-gray-900/40 rounded p-2">
+      {segments.map((segment, index) => {
+        if (segment.type === 'insert') {
+          return <ins key={index} className="bg-green-100 dark:bg-green-900/50 text-green-900 dark:text-green-200 no-underline">{segment.text}</ins>;
+        }
+        if (segment.type === 'delete') {
+          return <del key={index} className="bg-red-100 dark:bg-red-900/50 text-red-900 dark:text-red-200">{segment.text}</del>;
+        }
+        return <span key={index} className="text-gray-500 dark:text-gray-400">{segment.text}</span>;
+      })}
+    </div>
+  );
+}
+
+// 記事の変更履歴と、任意の2つの版の構造的な差分を表示するパネル
+export default function RevisionHistory({ articleId, refreshKey, disabled, onRestore }: RevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<ArticleRevisionSummary[]>([]);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [diff, setDiff] = useState<ArticleDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/articles/${articleId}/revisions`);
+      if (!response.ok) throw new Error('変更履歴の取得に失敗しました');
+      const data = await response.json() as { revisions: ArticleRevisionSummary[] };
+      setRevisions(data.revisions);
+      // 既定では直前の版と最新の版を比較する
+      setToId(data.revisions[0]?.id || "");
+      setFromId(data.revisions[1]?.id || data.revisions[0]?.id || "");
+      setDiff(null);
+    } catch (error) {
+      console.error('変更履歴取得エラー:', error);
+    }
+  }, [articleId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRevisions();
+    }
+  }, [isOpen, refreshKey, loadRevisions]);
+
+  const compare = async () => {
+    if (!fromId || !toId) return;
+    setIsComparing(true);
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const response = await fetch(`/api/articles/${articleId}/diff?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '差分の取得に失敗しました');
+      setDiff(data.diff);
+    } catch (error) {
+      console.error('差分取得エラー:', error);
+      alert(`差分の取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const restore = async (revision: ArticleRevisionSummary) => {
+    if (!confirm(`第${revision.revisionNumber}版の内容に戻しますか？（現在の内容も履歴に残ります）`)) return;
+    try {
+      const response = await fetch(`/api/articles/${articleId}/revisions/${revision.id}/restore`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '復元に失敗しました');
+      onRestore(data.article.article);
+      await loadRevisions();
+    } catch (error) {
+      console.error('版の復元エラー:', error);
+      alert(`版の復元に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          🕘 変更履歴
+          {isOpen && <span className="text-xs font-normal text-gray-500 dark:text-gray-400">{revisions.length} 版</span>}
+        </h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {isOpen ? '閉じる' : '履歴を表示'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-2">比較元</th>
+                  <th className="py-2 pr-2">比較先</th>
+                  <th className="py-2 pr-2">版</th>
+                  <th className="py-2 pr-2">操作</th>
+                  <th className="py-2 pr-2">日時</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {revisions.map((revision, index) => (
+                  <tr key={revision.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300">
+                    <td className="py-2 pr-2">
+                      <input type="radio" name="revision-from" checked={fromId === revision.id} onChange={() => setFromId(revision.id)} />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input type="radio" name="revision-to" checked={toId === revision.id} onChange={() => setToId(revision.id)} />
+                    </td>
+                    <td className="py-2 pr-2 font-medium">第{revision.revisionNumber}版{index === 0 && <span className="ml-1 text-green-600">（最新）</span>}</td>
+                    <td className="py-2 pr-2">
+                      {REASON_LABELS[revision.reason]}
+                      {revision.note && <span className="block text-gray-500 dark:text-gray-400">{revision.note}</span>}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">{new Date(revision.createdAt).toLocaleString('ja-JP')}</td>
+                    <td className="py-2 text-right">
+                      {index > 0 && (
+                        <button
+                          onClick={() => restore(revision)}
+                          disabled={disabled}
+                          className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          この版に戻す
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            onClick={compare}
+            disabled={!fromId || !toId || fromId === toId || isComparing}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+          >
+            {isComparing ? '比較中...' : '🔍 差分を表示'}
+          </button>
+
+          {diff && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-300">
+                <span>セクション:</span>
+                {(['added', 'removed', 'modified', 'unchanged'] as ChangeType[]).map(type => (
+                  <span key={type}>{CHANGE_STYLES[type].label} {diff.summary[type]}</span>
+                ))}
+              </div>
+
+              {diff.titleChanged && (
+                <div className="text-sm">
+                  <span className="font-medium text-gray-600 dark:text-gray-400">タイトル: </span>
+                  <HeadingChange before={diff.beforeTitle} after={diff.afterTitle} changed />
+                </div>
+              )}
+
+              {diff.sections.map((section, index) => (
+                <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                    <ChangeBadge type={section.type} />
+                    <HeadingChange before={section.beforeHeading} after={section.afterHeading} changed={section.headingChanged} />
+                  </div>
+                  {section.type !== 'unchanged' && section.contentChanged && <TextDiff segments={section.contentDiff} />}
+                  {section.type !== 'unchanged' && section.subheadings
+                    .filter(sub => sub.type !== 'unchanged')
+                    .map((sub, subIndex) => (
+                      <div key={subIndex} className="ml-4 border-l-2 border-gray-200 dark:border-gray-700 pl-3 space-y-1">
+                        <div className="flex items-center gap-2 text-xs font-medium text-gray-800 dark:text-gray-200">
+                          <ChangeBadge type={sub.type} />
+                          <HeadingChange before={sub.beforeTitle} after={sub.afterTitle} changed={sub.titleChanged} />
+                        </div>
+                        {sub.contentChanged && <TextDiff segments={sub.contentDiff} />}
+                      </div>
+                    ))}
+                </div>
+              ))}
+
+              {diff.faq.some(item => item.type !== 'unchanged') && (
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white">❓ よくある質問の変更</h3>
+                  {diff.faq
+                    .filter(item => item.type !== 'unchanged')
+                    .map((item, index) => (
+                      <div key={index} className="space-y-1">
+                        <div className="flex items-center gap-2 text-xs font-medium text-gray-800 dark:text-gray-200">
+                          <ChangeBadge type={item.type} />
+                          <HeadingChange before={item.beforeTitle} after={item.afterTitle} changed={item.titleChanged} />
+                        </div>
+                        {item.contentChanged && <TextDiff segments={item.contentDiff} />}
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              {diff.seo.length > 0 && (
+                <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-3 space-y-2">
+                  <h3 className="text-sm font-semibold text-blue-900 dark:text-blue-200">🎯 SEOメタデータの変更</h3>
+                  {diff.seo.map(change => (
+                    <div key={change.field} className="text-xs">
+                      <span className="font-medium text-gray-600 dark:text-gray-400">{change.field}: </span>
+                      <del className="text-red-600 dark:text-red-400 break-all">{change.before || '（なし）'}</del>
+                      {' → '}
+                      <ins className="text-green-700 dark:text-green-400 no-underline break-all">{change.after || '（なし）'}</ins>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
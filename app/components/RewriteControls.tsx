@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { RewriteAction } from "@/lib/types";
+
+interface RewriteControlsProps {
+  label: string;
+  disabled: boolean;
+  busy: boolean;
+  // 手動編集フォームの初期値（見出しと本文）
+  heading: string;
+  content: string;
+  onRewrite: (action: RewriteAction, instruction: string) => Promise<void>;
+  onManualEdit: (heading: string, content: string) => Promise<void>;
+}
+
+const ACTIONS: { action: RewriteAction; label: string }[] = [
+  { action: 'regenerate', label: '🔄 再生成' },
+  { action: 'expand', label: '➕ 詳しく' },
+  { action: 'shorten', label: '➖ 短く' },
+  { action: 'rewrite', label: '✏️ 指示どおり書き換え' },
+];
+
+// セクション・サブセクション単位の書き換え操作パネル
+export default function RewriteControls({ label, disabled, busy, heading, content, onRewrite, onManualEdit }: RewriteControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftHeading, setDraftHeading] = useState(heading);
+  const [draftContent, setDraftContent] = useState(content);
+
+  const startEditing = () => {
+    setDraftHeading(heading);
+    setDraftContent(content);
+    setIsEditing(true);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {busy ? '⏳ 書き換え中...' : `🛠️ ${label}を編集`}
+      </button>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <div className="my-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 space-y-2 not-prose">
+        <input
+          type="text"
+          value={draftHeading}
+          onChange={(e) => setDraftHeading(e.target.value)}
+          placeholder="見出し"
+          className="w-full px-3 py-2 text-sm font-semibold border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+        />
+        <textarea
+          value={draftContent}
+          onChange={(e) => setDraftContent(e.target.value)}
+          rows={8}
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={async () => {
+              await onManualEdit(draftHeading.trim(), draftContent.trim());
+              setIsEditing(false);
+              setIsOpen(false);
+            }}
+            disabled={disabled || !draftHeading.trim() || !draftContent.trim()}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+          >
+            💾 保存
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            disabled={busy}
+            className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+          >
+            キャンセル
+          </button>
+          {busy && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 space-y-2 not-prose">
+      <input
+        type="text"
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="編集指示（任意）例：具体的な数値を追加、宣伝的な表現を削除"
+        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {ACTIONS.map(({ action, label: actionLabel }) => (
+          <button
+            key={action}
+            onClick={async () => {
+              await onRewrite(action, instruction);
+              setInstruction("");
+              setIsOpen(false);
+            }}
+            disabled={disabled || (action === 'rewrite' && !instruction.trim())}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+          >
+            {actionLabel}
+          </button>
+        ))}
+        <button
+          onClick={startEditing}
+          disabled={disabled}
+          className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+        >
+          ✍️ 手動で編集
+        </button>
+        <button
+          onClick={() => setIsOpen(false)}
+          disabled={busy}
+          className="ml-auto text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+        >
+          閉じる
+        </button>
+        {busy && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { SEO_LENGTH_RULES } from "@/lib/locale";
+import {
+  measureSEOLengths,
+  SEO_FIELD_LABELS,
+  SERP_DISPLAY,
+  truncateToLength,
+  truncateToPixelWidth,
+  validateSEOLengths,
+} from "@/lib/seo-length";
+import { Locale, SEOMetadata } from "@/lib/types";
+
+interface SERPPreviewProps {
+  seoMetadata: SEOMetadata;
+  locale: Locale;
+  // 検索結果に表示するサイト名（ブランドの組織名）
+  siteName: string;
+  disabled: boolean;
+  // 上限を超えたフィールドを切り詰める
+  onAutoFix: () => Promise<void>;
+}
+
+// URLを検索結果のパンくず表示（example.com › blog › article）に変換する
+function formatDisplayUrl(url?: string): string {
+  if (!url) return 'example.com';
+  try {
+    const { hostname, pathname } = new URL(url);
+    return [hostname, ...pathname.split('/').filter(Boolean)].join(' › ');
+  } catch {
+    return url;
+  }
+}
+
+function hostnameOf(url?: string): string {
+  try {
+    return url ? new URL(url).hostname : 'example.com';
+  } catch {
+    return 'example.com';
+  }
+}
+
+// 検索結果・SNSカードでの見え方と、各フィールドの文字数の検証結果
+export default function SERPPreview({ seoMetadata, locale, siteName, disabled, onAutoFix }: SERPPreviewProps) {
+  const rules = SEO_LENGTH_RULES[locale];
+  const lengths = measureSEOLengths(seoMetadata, locale);
+  const issues = validateSEOLengths(seoMetadata, locale);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
+  const serpTitle = truncateToPixelWidth(seoMetadata.title, SERP_DISPLAY.title.maxWidth, SERP_DISPLAY.title.fontSize);
+  const serpDescription = truncateToPixelWidth(seoMetadata.description, SERP_DISPLAY.description.maxWidth, SERP_DISPLAY.description.fontSize);
+  const ogTitle = truncateToLength(seoMetadata.ogTitle, rules.ogTitle.max, rules);
+  const ogDescription = truncateToLength(seoMetadata.ogDescription, rules.ogDescription.max, rules);
+  const twitterTitle = truncateToLength(seoMetadata.twitterTitle, rules.twitterTitle.max, rules);
+  const twitterDescription = truncateToLength(seoMetadata.twitterDescription, rules.twitterDescription.max, rules);
+  const hostname = hostnameOf(seoMetadata.canonicalUrl);
+
+  return (
+    <div className="bg-white/70 dark:bg-gray-800/70 rounded-lg p-3 border border-blue-200/50 dark:border-blue-700/50 mb-4 text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-1">
+          <span className="text-blue-600">🔍</span>
+          表示プレビュー
+        </h4>
+        {hasErrors && (
+          <button
+            onClick={onAutoFix}
+            disabled={disabled}
+            className="bg-amber-500 hover:bg-amber-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-xs font-medium transition-colors duration-200"
+          >
+            ✂️ 文字数を自動調整
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+        {/* 検索結果 */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+          <div className="text-[10px] font-medium text-gray-500 dark:text-gray-400 mb-2">Google 検索結果（PC）</div>
+          <div className="text-xs text-gray-700 dark:text-gray-300">{siteName}</div>
+          <div className="text-[11px] text-gray-500 dark:text-gray-400 truncate">{formatDisplayUrl(seoMetadata.canonicalUrl)}</div>
+          <div className="text-lg leading-snug text-blue-800 dark:text-blue-300 mt-1">{serpTitle.text}</div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">{serpDescription.text}</div>
+        </div>
+
+        {/* OGP（Facebook等） */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="text-[10px] font-medium text-gray-500 dark:text-gray-400 px-3 pt-3">SNS共有（OGP）</div>
+          <div className="h-16 bg-gray-200 dark:bg-gray-700 mx-3 mt-2 rounded"></div>
+          <div className="p-3">
+            <div className="text-[10px] uppercase text-gray-500 dark:text-gray-400">{hostname}</div>
+            <div className="font-semibold text-gray-900 dark:text-gray-100 text-xs">{ogTitle.text}</div>
+            <div className="text-[11px] text-gray-600 dark:text-gray-400">{ogDescription.text}</div>
+          </div>
+        </div>
+
+        {/* Twitter Cards */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="text-[10px] font-medium text-gray-500 dark:text-gray-400 px-3 pt-3">Twitter Cards</div>
+          <div className="h-16 bg-gray-200 dark:bg-gray-700 mx-3 mt-2 rounded"></div>
+          <div className="p-3">
+            <div className="font-semibold text-gray-900 dark:text-gray-100 text-xs">{twitterTitle.text}</div>
+            <div className="text-[11px] text-gray-600 dark:text-gray-400">{twitterDescription.text}</div>
+            <div className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">🔗 {hostname}</div>
+          </div>
+        </div>
+      </div>
+
+      <table className="w-full mt-3 text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="font-medium py-1">項目</th>
+            <th className="font-medium py-1">文字数{rules.unit === 'full' ? '（全角換算）' : ''}</th>
+            <th className="font-medium py-1">目安</th>
+            <th className="font-medium py-1">推定表示幅</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lengths.map(({ field, length, range, pixelWidth, maxPixelWidth }) => {
+            const status = length > range.max ? 'text-red-600 dark:text-red-400' : length < range.min ? 'text-amber-600 dark:text-amber-400' : 'text-green-700 dark:text-green-400';
+            return (
+              <tr key={field} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-1 text-gray-700 dark:text-gray-300">{SEO_FIELD_LABELS[field]}</td>
+                <td className={`py-1 font-medium ${status}`}>{length}</td>
+                <td className="py-1 text-gray-500 dark:text-gray-400">{range.min}〜{range.max}</td>
+                <td className={`py-1 ${pixelWidth !== undefined && maxPixelWidth !== undefined && pixelWidth > maxPixelWidth ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {pixelWidth !== undefined ? `${pixelWidth} / ${maxPixelWidth}px` : '-'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {issues.map((issue, index) => (
+            <li
+              key={index}
+              className={issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}
+            >
+              {issue.severity === 'error' ? '❌' : '⚠️'} {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
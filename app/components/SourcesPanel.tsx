@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { SourceDocumentKind, SourceDocumentSummary } from "@/lib/types";
+
+interface SourcesPanelProps {
+  projectId: string;
+  disabled: boolean;
+}
+
+type SourceInput = 'file' | 'text';
+
+const KIND_LABELS: Record<SourceDocumentKind, string> = {
+  pdf: 'PDFのテキスト',
+  markdown: 'Markdown',
+  csv: 'CSV（指標）',
+  text: 'テキスト（事例メモなど）',
+};
+
+const inputClass = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white";
+
+// 記事生成で数値・事例の根拠にする参考資料（プロジェクト単位）の管理パネル
+export default function SourcesPanel({ projectId, disabled }: SourcesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sources, setSources] = useState<SourceDocumentSummary[]>([]);
+  const [input, setInput] = useState<SourceInput>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState("");
+  const [kind, setKind] = useState<SourceDocumentKind>('text');
+  const [title, setTitle] = useState("");
+  const [url, setUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSources = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sources`);
+      if (!response.ok) throw new Error('参考資料の取得に失敗しました');
+      const data = await response.json() as { sources: SourceDocumentSummary[] };
+      setSources(data.sources);
+    } catch (error) {
+      console.error('参考資料取得エラー:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  // ファイルを選んだときはファイル名（拡張子を除く）をタイトルの初期値にする
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    if (selected && !title.trim()) {
+      setTitle(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const canAdd = !!title.trim() && (input === 'file' ? !!file : !!text.trim());
+
+  const addSource = async () => {
+    setIsSaving(true);
+    try {
+      const body = input === 'file'
+        ? { title, url, content: await file!.text(), filename: file!.name }
+        : { title, url, content: text, kind };
+
+      const response = await fetch(`/api/projects/${projectId}/sources`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '参考資料の追加に失敗しました');
+
+      setSources([...sources, data.source]);
+      setFile(null);
+      setText("");
+      setTitle("");
+      setUrl("");
+    } catch (error) {
+      console.error('参考資料追加エラー:', error);
+      alert(`参考資料の追加に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSource = async (source: SourceDocumentSummary) => {
+    if (!confirm(`参考資料「${source.title}」（${source.sourceId}）を削除しますか？`)) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sources/${source.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('参考資料の削除に失敗しました');
+      setSources(sources.filter(item => item.id !== source.id));
+    } catch (error) {
+      console.error('参考資料削除エラー:', error);
+      alert('参考資料の削除に失敗しました');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2"
+      >
+        {isOpen ? '▼' : '▶'} 📚 参考資料
+        <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{sources.length}件</span>
+      </button>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        記事の生成時に、タイトル・キーワードに関係する抜粋をプロンプトに入れます。本文の数値・事例には出典ID（[S1] など）が付き、エクスポートの参考文献に載ります。
+      </p>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 animate-fadeInUp">
+          {sources.length > 0 && (
+            <ul className="space-y-2">
+              {sources.map(source => (
+                <li key={source.id} className="flex items-start justify-between gap-2 border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="text-sm text-gray-900 dark:text-white">
+                    <span className="mr-2 px-2 py-0.5 rounded-full text-[10px] font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                      {source.sourceId}
+                    </span>
+                    {source.title}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {KIND_LABELS[source.kind]} ・ {source.characters.toLocaleString()}文字
+                      {source.url && <> ・ <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{source.url}</a></>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => deleteSource(source)}
+                    disabled={disabled}
+                    className="shrink-0 text-xs text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    削除
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <div className="flex gap-2 text-xs">
+              {([['file', '📄 ファイル'], ['text', '📝 貼り付け']] as [SourceInput, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setInput(value)}
+                  className={`px-3 py-1 rounded-full border ${input === value ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {input === 'file' ? (
+              <div>
+                <input
+                  type="file"
+                  accept=".md,.markdown,.txt,.csv,text/markdown,text/plain,text/csv"
+                  onChange={(e) => selectFile(e.target.files?.[0] || null)}
+                  className="block text-sm text-gray-600 dark:text-gray-300"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Markdown・テキスト・CSVに対応しています。PDFは抽出したテキストを貼り付けてください。
+                </p>
+              </div>
+            ) : (
+              <>
+                <select
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as SourceDocumentKind)}
+                  className={inputClass}
+                >
+                  {(Object.keys(KIND_LABELS) as SourceDocumentKind[]).map(value => (
+                    <option key={value} value={value}>{KIND_LABELS[value]}</option>
+                  ))}
+                </select>
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={6}
+                  placeholder="調査レポート・社内の導入事例メモ・指標のCSVなどを貼り付けてください"
+                  className={`${inputClass} font-mono`}
+                />
+              </>
+            )}
+
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="タイトル（参考文献に表示）"
+              className={inputClass}
+            />
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="出典のURL（任意）"
+              className={inputClass}
+            />
+
+            <button
+              onClick={addSource}
+              disabled={disabled || isSaving || !canAdd}
+              className="bg-gray-700 hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              {isSaving ? '追加中...' : '📚 追加する'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { StoredArticle, WordPressPublication, WordPressSiteSummary } from "@/lib/types";
+
+interface WordPressPublishPanelProps {
+  articleId: string;
+  disabled: boolean;
+}
+
+type PublishStatus = 'draft' | 'pending';
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: '下書き',
+  pending: 'レビュー待ち',
+  publish: '公開済み',
+  future: '予約済み',
+  private: '非公開',
+};
+
+// 保存済みの記事をWordPressに下書きとして投稿し、投稿済みの場合は同じ投稿を更新するパネル
+export default function WordPressPublishPanel({ articleId, disabled }: WordPressPublishPanelProps) {
+  const [sites, setSites] = useState<WordPressSiteSummary[]>([]);
+  const [publications, setPublications] = useState<WordPressPublication[]>([]);
+  const [siteId, setSiteId] = useState("");
+  const [status, setStatus] = useState<PublishStatus>('draft');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [sitesResponse, articleResponse] = await Promise.all([
+        fetch('/api/wordpress/sites'),
+        fetch(`/api/articles/${articleId}`),
+      ]);
+      if (!sitesResponse.ok || !articleResponse.ok) throw new Error('投稿先の取得に失敗しました');
+      const sitesData = await sitesResponse.json() as { sites: WordPressSiteSummary[] };
+      const articleData = await articleResponse.json() as { article: StoredArticle };
+      setSites(sitesData.sites);
+      setPublications(articleData.article.wordpress ?? []);
+      setSiteId(current => current || sitesData.sites[0]?.id || "");
+    } catch (error) {
+      console.error('WordPress投稿先読み込みエラー:', error);
+    }
+  }, [articleId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const publication = publications.find(item => item.siteId === siteId);
+
+  const publish = async () => {
+    if (!siteId) return;
+    setIsPublishing(true);
+    try {
+      const response = await fetch(`/api/articles/${articleId}/publish`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // 更新時はWordPress側で変更したステータスを維持する
+        body: JSON.stringify({ siteId, ...(!publication && { status }) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '投稿に失敗しました');
+      setPublications(data.article.wordpress ?? []);
+    } catch (error) {
+      console.error('WordPress投稿エラー:', error);
+      alert(`WordPressへの投稿に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center gap-4 mb-3">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">📰 WordPressに投稿</h2>
+        <Link href="/wordpress" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          サイトを管理
+        </Link>
+      </div>
+
+      {sites.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          投稿先のサイトが登録されていません。「サイトを管理」から登録してください。
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3 text-xs text-gray-600 dark:text-gray-400">
+            <label className="flex flex-col gap-1">
+              <span>投稿先</span>
+              <select
+                value={siteId}
+                onChange={(e) => setSiteId(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              >
+                {sites.map(site => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            </label>
+            {!publication && (
+              <label className="flex flex-col gap-1">
+                <span>ステータス</span>
+                <select
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value as PublishStatus)}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="draft">下書き</option>
+                  <option value="pending">レビュー待ち</option>
+                </select>
+              </label>
+            )}
+            <button
+              onClick={publish}
+              disabled={disabled || isPublishing || !siteId}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              {isPublishing ? '送信中...' : publication ? '🔄 投稿を更新' : '📤 WordPressに送信'}
+            </button>
+          </div>
+
+          {publication ? (
+            <p className="text-xs text-gray-600 dark:text-gray-300">
+              投稿ID {publication.postId}（{STATUS_LABELS[publication.status] ?? publication.status}）
+              ・最終送信 {new Date(publication.syncedAt).toLocaleString('ja-JP')}
+              <a href={publication.editUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 dark:text-blue-400 hover:underline">
+                管理画面で編集
+              </a>
+              {publication.link && (
+                <a href={publication.link} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 dark:text-blue-400 hover:underline">
+                  プレビュー
+                </a>
+              )}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              保存済みの記事をGutenbergブロックに変換して送信します。送信後は同じ投稿を更新します。
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
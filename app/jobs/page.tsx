@@ -0,0 +1,408 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { LOCALE_CONFIG, LOCALES } from "@/lib/locale";
+import { BrandProfile, BulkJob, BulkJobProgress, BulkJobRowStatus, BulkJobStatus, Locale, TitleSelectionStrategy } from "@/lib/types";
+
+type JobSummary = Omit<BulkJob, 'rows'> & { progress: BulkJobProgress };
+type JobDetail = BulkJob & { progress: BulkJobProgress };
+
+// 実行中のジョブがある間の進捗の再取得間隔
+const POLL_INTERVAL_MS = 3000;
+
+const JOB_STATUS_LABELS: Record<BulkJobStatus, string> = {
+  queued: '⏳ 待機中',
+  running: '🚀 実行中',
+  completed: '✅ 完了',
+  failed: '❌ 失敗',
+  cancelled: '⏹️ 中止',
+};
+
+const ROW_STATUS_STYLES: Record<BulkJobRowStatus, { label: string; className: string }> = {
+  pending: { label: '待機中', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  running: { label: '処理中', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  completed: { label: '完了', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  failed: { label: '失敗', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  cancelled: { label: '中止', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+};
+
+const isActive = (status: BulkJobStatus) => status === 'queued' || status === 'running';
+
+export default function Jobs() {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedJob, setExpandedJob] = useState<JobDetail | null>(null);
+  // 新規ジョブの入力
+  const [name, setName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [titleStrategy, setTitleStrategy] = useState<TitleSelectionStrategy>('top');
+  const [generateSEO, setGenerateSEO] = useState(true);
+  const [generateFAQ, setGenerateFAQ] = useState(false);
+  const [locale, setLocale] = useState<Locale>('ja');
+  const [brandProfileId, setBrandProfileId] = useState("");
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (!response.ok) throw new Error('ジョブ一覧の取得に失敗しました');
+      const data = await response.json();
+      setJobs(data.jobs);
+    } catch (error) {
+      console.error('ジョブ一覧読み込みエラー:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      if (!response.ok) throw new Error('ジョブの取得に失敗しました');
+      const data = await response.json();
+      setExpandedJob(data.job);
+    } catch (error) {
+      console.error('ジョブ読み込みエラー:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    fetch('/api/brands')
+      .then(response => (response.ok ? response.json() : { profiles: [] }))
+      .then(data => setBrandProfiles(data.profiles))
+      .catch(error => console.error('ブランドプロファイル読み込みエラー:', error));
+  }, []);
+
+  // 実行中のジョブがある間は進捗を定期的に再取得する
+  const hasActiveJob = jobs.some(job => isActive(job.status));
+  const expandedJobId = expandedJob?.id;
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const timer = setInterval(() => {
+      loadJobs();
+      if (expandedJobId) loadJob(expandedJobId);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJob, expandedJobId, loadJobs, loadJob]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    if (!name) setName(file.name.replace(/\.csv$/i, ''));
+  };
+
+  const submitJob = async () => {
+    if (!csv.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ csv, name, options: {
+          titleStrategy,
+          generateSEO,
+          generateFAQ,
+          concurrency,
+          maxRetries,
+          locale,
+          brandProfileId: brandProfileId || undefined,
+        } }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(`ジョブの作成に失敗しました: ${data.error || '不明なエラー'}${data.errors ? `\n\n${data.errors.join('\n')}` : ''}`);
+        return;
+      }
+      setCsv("");
+      setName("");
+      await loadJobs();
+      setExpandedJob(data.job);
+    } catch (error) {
+      console.error('ジョブ作成エラー:', error);
+      alert('ジョブの作成でエラーが発生しました');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleJob = (jobId: string) => {
+    if (expandedJob?.id === jobId) {
+      setExpandedJob(null);
+      return;
+    }
+    loadJob(jobId);
+  };
+
+  const cancelJob = async (job: JobSummary) => {
+    if (!confirm(`ジョブ「${job.name}」の未処理の行を中止しますか？`)) return;
+    const response = await fetch(`/api/jobs/${job.id}/cancel`, { method: 'POST' });
+    if (response.ok) {
+      await loadJobs();
+      if (expandedJob?.id === job.id) loadJob(job.id);
+    } else {
+      alert('ジョブの中止に失敗しました');
+    }
+  };
+
+  const deleteJob = async (job: JobSummary) => {
+    if (!confirm(`ジョブ「${job.name}」を削除しますか？（生成済みの記事はライブラリに残ります）`)) return;
+    const response = await fetch(`/api/jobs/${job.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setJobs(jobs.filter(current => current.id !== job.id));
+      if (expandedJob?.id === job.id) setExpandedJob(null);
+    } else {
+      alert('ジョブの削除に失敗しました');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            📦 一括生成
+          </h1>
+          <div className="flex gap-4">
+            <Link href="/library" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              📚 ライブラリ
+            </Link>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              ← 記事生成に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">キーワードCSVから記事を一括生成</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              列: <code>keyword</code>（必須）, <code>overview</code>, <code>baseUrl</code>。ヘッダー行がない場合はこの順とみなします。生成した記事はライブラリにも保存されます。
+            </p>
+          </div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="ジョブ名（任意）"
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block text-sm text-gray-600 dark:text-gray-300"
+          />
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            rows={6}
+            placeholder={'keyword,overview,baseUrl\nプロジェクト管理,中小企業向けの導入ガイド,https://example.com'}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">タイトルの選び方</span>
+              <select
+                value={titleStrategy}
+                onChange={(e) => setTitleStrategy(e.target.value as TitleSelectionStrategy)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                <option value="top">スコア最上位</option>
+                <option value="first">最初の候補</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">生成言語</span>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                {LOCALES.map(value => (
+                  <option key={value} value={value}>{LOCALE_CONFIG[value].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">ブランド・著者</span>
+              <select
+                value={brandProfileId}
+                onChange={(e) => setBrandProfileId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                <option value="">既定のブランド</option>
+                {brandProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.organizationName}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">同時実行数</span>
+              <input
+                type="number"
+                min={1}
+                max={5}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">再試行回数</span>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              />
+            </label>
+            <label className="flex items-center gap-2 mt-5">
+              <input type="checkbox" checked={generateSEO} onChange={(e) => setGenerateSEO(e.target.checked)} />
+              <span className="text-xs font-medium">SEOメタデータも生成</span>
+            </label>
+            <label className="flex items-center gap-2 mt-5">
+              <input type="checkbox" checked={generateFAQ} onChange={(e) => setGenerateFAQ(e.target.checked)} />
+              <span className="text-xs font-medium">よくある質問も生成</span>
+            </label>
+          </div>
+          <button
+            onClick={submitJob}
+            disabled={!csv.trim() || isSubmitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors duration-200"
+          >
+            {isSubmitting ? '登録中...' : '🚀 一括生成を開始'}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-600 dark:text-gray-300">
+            ジョブはまだありません。
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {jobs.map(job => {
+              const finished = job.progress.completed + job.progress.failed + job.progress.cancelled;
+              const percent = job.progress.total === 0 ? 100 : Math.round((finished / job.progress.total) * 100);
+              return (
+                <div key={job.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <button onClick={() => toggleJob(job.id)} className="text-left flex-1">
+                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {expandedJob?.id === job.id ? '▼' : '▶'} {job.name}
+                      </h2>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {JOB_STATUS_LABELS[job.status]} ・ 完了 {job.progress.completed} / 失敗 {job.progress.failed} / 全 {job.progress.total}件
+                        {' ・ 作成日 '}{new Date(job.createdAt).toLocaleString('ja-JP')}
+                      </p>
+                      <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2 mt-2">
+                        <div className="bg-blue-600 h-2 rounded-full transition-all duration-500" style={{ width: `${percent}%` }}></div>
+                      </div>
+                    </button>
+                    <div className="flex flex-wrap gap-2 shrink-0 justify-end">
+                      {job.progress.completed > 0 && (
+                        <>
+                          <a href={`/api/jobs/${job.id}/export?format=all`} className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-md text-xs font-medium">
+                            📥 ZIP
+                          </a>
+                          <a href={`/api/jobs/${job.id}/export?format=markdown`} className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            MD
+                          </a>
+                          <a href={`/api/jobs/${job.id}/export?format=html`} className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            HTML
+                          </a>
+                          <a href={`/api/jobs/${job.id}/export?format=docx`} className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            Word
+                          </a>
+                          <a href={`/api/jobs/${job.id}/export?format=pdf`} className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            PDF
+                          </a>
+                          <a href={`/api/jobs/${job.id}/export?format=jsonl`} title="RAG用のチャンク（JSON Lines）" className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            JSONL
+                          </a>
+                          <a href={`/api/wordpress/wxr?jobId=${job.id}`} title="WordPressのインポートツール用（WXR）" className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-2 rounded-md text-xs font-medium">
+                            WordPress
+                          </a>
+                        </>
+                      )}
+                      {isActive(job.status) && (
+                        <button
+                          onClick={() => cancelJob(job)}
+                          className="bg-amber-50 hover:bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300 px-3 py-2 rounded-md text-xs font-medium"
+                        >
+                          中止
+                        </button>
+                      )}
+                      <button
+                        onClick={() => deleteJob(job)}
+                        className="bg-red-50 hover:bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 px-3 py-2 rounded-md text-xs font-medium"
+                      >
+                        削除
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedJob?.id === job.id && (
+                    <div className="mt-4 border-t border-gray-200 dark:border-gray-600 pt-4 overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 pr-2">#</th>
+                            <th className="py-2 pr-2">キーワード</th>
+                            <th className="py-2 pr-2">状態</th>
+                            <th className="py-2 pr-2">採用タイトル / エラー</th>
+                            <th className="py-2"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {expandedJob.rows.map(row => (
+                            <tr key={row.index} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300">
+                              <td className="py-2 pr-2">{row.index + 1}</td>
+                              <td className="py-2 pr-2 font-medium">{row.keyword}</td>
+                              <td className="py-2 pr-2 whitespace-nowrap">
+                                <span className={`px-2 py-0.5 rounded-full ${ROW_STATUS_STYLES[row.status].className}`}>
+                                  {ROW_STATUS_STYLES[row.status].label}
+                                </span>
+                                {row.attempts > 1 && <span className="ml-1 text-gray-500">（{row.attempts}回目）</span>}
+                              </td>
+                              <td className="py-2 pr-2">
+                                {row.selectedTitle?.title}
+                                {row.error && <span className="block text-red-600 dark:text-red-400">{row.error}</span>}
+                              </td>
+                              <td className="py-2 text-right">
+                                {row.articleId && (
+                                  <Link href={`/?article=${row.articleId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                    開く
+                                  </Link>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "LLMO コンテンツ生成システム - CloudFlow Dynamics",
+  title: "LLMO コンテンツ生成システム",
   description: "生成AIに最適化されたコンテンツを自動生成するシステム。ChatGPT、Claude、Geminiに引用されやすいブログ記事を効率的に作成します。",
 };
 
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Project, StoredArticle } from "@/lib/types";
+import LlmsTxtPanel from "../components/LlmsTxtPanel";
+
+interface ProjectSummary extends Project {
+  articleCount: number;
+}
+
+export default function Library() {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
+  const [articles, setArticles] = useState<StoredArticle[]>([]);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const response = await fetch('/api/projects');
+      if (!response.ok) throw new Error('プロジェクト一覧の取得に失敗しました');
+      const data = await response.json();
+      setProjects(data.projects);
+    } catch (error) {
+      console.error('ライブラリ読み込みエラー:', error);
+      alert('ライブラリの読み込みに失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const toggleProject = async (projectId: string) => {
+    if (expandedProjectId === projectId) {
+      setExpandedProjectId(null);
+      return;
+    }
+    setExpandedProjectId(projectId);
+    setArticles([]);
+    try {
+      const response = await fetch(`/api/articles?projectId=${encodeURIComponent(projectId)}`);
+      if (!response.ok) throw new Error('記事一覧の取得に失敗しました');
+      const data = await response.json();
+      setArticles(data.articles);
+    } catch (error) {
+      console.error('記事一覧取得エラー:', error);
+    }
+  };
+
+  const deleteProject = async (project: ProjectSummary) => {
+    if (!confirm(`プロジェクト「${project.keyword}」と記事${project.articleCount}件を削除しますか？`)) return;
+    const response = await fetch(`/api/projects/${project.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setProjects(projects.filter(current => current.id !== project.id));
+      if (expandedProjectId === project.id) setExpandedProjectId(null);
+    } else {
+      alert('プロジェクトの削除に失敗しました');
+    }
+  };
+
+  const deleteArticle = async (stored: StoredArticle) => {
+    if (!confirm(`記事「${stored.article.title}」を削除しますか？`)) return;
+    const response = await fetch(`/api/articles/${stored.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      setArticles(articles.filter(current => current.id !== stored.id));
+      setProjects(projects.map(project =>
+        project.id === stored.projectId ? { ...project, articleCount: project.articleCount - 1 } : project
+      ));
+    } else {
+      alert('記事の削除に失敗しました');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            📚 記事ライブラリ
+          </h1>
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            ← 記事生成に戻る
+          </Link>
+        </header>
+
+        <LlmsTxtPanel />
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : projects.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-600 dark:text-gray-300">
+            保存済みのプロジェクトはありません。タイトルを生成すると自動的に保存されます。
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {projects.map(project => (
+              <div key={project.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+                <div className="flex items-start justify-between gap-4">
+                  <button onClick={() => toggleProject(project.id)} className="text-left flex-1">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {expandedProjectId === project.id ? '▼' : '▶'} {project.keyword}
+                    </h2>
+                    {project.overview && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{project.overview}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      タイトル候補 {project.titles.length}件 ・ 記事 {project.articleCount}件 ・ 更新日 {new Date(project.updatedAt).toLocaleString('ja-JP')}
+                    </p>
+                  </button>
+                  <div className="flex gap-2 shrink-0">
+                    <Link
+                      href={`/?project=${project.id}`}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-md text-xs font-medium"
+                    >
+                      開く
+                    </Link>
+                    <button
+                      onClick={() => deleteProject(project)}
+                      className="bg-red-50 hover:bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 px-3 py-2 rounded-md text-xs font-medium"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+
+                {expandedProjectId === project.id && (
+                  <div className="mt-4 border-t border-gray-200 dark:border-gray-600 pt-4 space-y-2">
+                    {articles.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">保存済みの記事はありません</p>
+                    ) : articles.map(stored => (
+                      <div key={stored.id} className="flex items-center justify-between gap-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{stored.article.title}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {stored.article.sections.length}セクション
+                            {stored.article.seoMetadata && ' ・ SEOメタデータあり'}
+                            {' ・ 更新日 '}{new Date(stored.updatedAt).toLocaleString('ja-JP')}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Link
+                            href={`/?article=${stored.id}`}
+                            className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-md text-xs font-medium"
+                          >
+                            開く
+                          </Link>
+                          <button
+                            onClick={() => deleteArticle(stored)}
+                            className="text-red-600 dark:text-red-400 hover:underline text-xs"
+                          >
+                            削除
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { excludeUnverifiedEntries, generateLlmsFullTxt, listLibraryEntries, llmsTxtSiteFromBrand } from '@/lib/llms-txt';
+import { resolveBrandProfile } from '@/lib/storage';
+
+// ライブラリの記事の本文をまとめて /llms-full.txt として配信する（?projectId= で絞り込み）
+// 未確認の主張がある記事は、エクスポートと同様に配信しない
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+    const brand = await resolveBrandProfile() ?? DEFAULT_BRAND;
+    const { entries } = await excludeUnverifiedEntries(await listLibraryEntries(projectId), brand);
+    const content = generateLlmsFullTxt(entries, llmsTxtSiteFromBrand(brand), brand);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('llms-full.txt配信エラー:', error);
+    return NextResponse.json(
+      { error: 'llms-full.txtの生成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { generateLlmsTxt, listLibraryEntries, llmsTxtSiteFromBrand } from '@/lib/llms-txt';
+import { resolveBrandProfile } from '@/lib/storage';
+
+// ライブラリの記事のリンク一覧を /llms.txt として配信する（?projectId= で絞り込み）
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+    const brand = await resolveBrandProfile() ?? DEFAULT_BRAND;
+    const entries = await listLibraryEntries(projectId);
+    const { content } = generateLlmsTxt(entries, llmsTxtSiteFromBrand(brand));
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('llms.txt配信エラー:', error);
+    return NextResponse.json(
+      { error: 'llms.txtの生成に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
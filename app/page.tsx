@@ -1,42 +1,105 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import Link from "next/link";
+import { citedSources } from "@/lib/article";
+import type { BrandSettings } from "@/lib/brand";
+import { ArticleClaim, ClaimLocation, ClaimReport, isSameLocation, removeClaim, setClaimAccepted } from "@/lib/claims";
+import type { ExportFormat, FrontMatterProfile } from "@/lib/export";
+import { buildArticleJsonLd, serializeJsonLd, validateJsonLd } from "@/lib/jsonld";
+import { requestFAQ, withFAQ } from "@/lib/faq";
+import { LOCALE_CONFIG, LOCALES, resolveLocale } from "@/lib/locale";
+import { requestSEOMetadata, withSEOMetadata } from "@/lib/seo";
+import { fitSEOLengths } from "@/lib/seo-length";
+import { readServerSentEvents } from "@/lib/sse";
+import {
+  ArticleStreamEvent,
+  BrandProfile,
+  FAQItem,
+  GeneratedArticle,
+  GeneratedTitle,
+  Locale,
+  Project,
+  RevisionReason,
+  RewriteAction,
+  RewriteTarget,
+  StoredArticle,
+} from "@/lib/types";
+import AuditPanel from "./components/AuditPanel";
+import ClaimHighlight from "./components/ClaimHighlight";
+import ClaimsPanel from "./components/ClaimsPanel";
+import FAQEditor from "./components/FAQEditor";
+import ImportPanel from "./components/ImportPanel";
+import OptimizePanel from "./components/OptimizePanel";
+import RetrievalPanel from "./components/RetrievalPanel";
+import RevisionHistory from "./components/RevisionHistory";
+import SourcesPanel from "./components/SourcesPanel";
+import WordPressPublishPanel from "./components/WordPressPublishPanel";
+import RewriteControls from "./components/RewriteControls";
+import SERPPreview from "./components/SERPPreview";
 
-interface GeneratedTitle {
-  id: string;
-  title: string;
-  description: string;
+// ストリーミングイベントを記事の状態に反映する（イミュータブルに更新）
+function applyArticleStreamEvent(article: GeneratedArticle, streamEvent: ArticleStreamEvent): GeneratedArticle {
+  switch (streamEvent.event) {
+    case 'title':
+      return { ...article, title: streamEvent.data.title };
+    case 'section_started': {
+      const sections = [...article.sections];
+      sections[streamEvent.data.index] = { heading: streamEvent.data.heading, content: '', subheadings: [] };
+      return { ...article, sections };
+    }
+    case 'section_content':
+    case 'subheadings': {
+      const sections = [...article.sections];
+      const current = sections[streamEvent.data.index];
+      if (!current) {
+        return article;
+      }
+      sections[streamEvent.data.index] = streamEvent.event === 'section_content'
+        ? { ...current, content: streamEvent.data.content }
+        : { ...current, subheadings: streamEvent.data.subheadings };
+      return { ...article, sections };
+    }
+    case 'faq_ready':
+      return { ...article, faq: streamEvent.data.faq };
+    case 'seo_ready':
+      return { ...article, seoMetadata: streamEvent.data.seoMetadata };
+    case 'done':
+      return streamEvent.data.article;
+    default:
+      return article;
+  }
 }
 
-interface SEOMetadata {
-  title: string;
-  description: string;
-  keywords: string[];
-  ogTitle: string;
-  ogDescription: string;
-  twitterTitle: string;
-  twitterDescription: string;
-  metaRobots: string;
-  canonicalUrl?: string;
-  structuredData?: {
-    type: string;
-    name: string;
-    description: string;
-    author: string;
-    datePublished: string;
-    dateModified: string;
-    keywords: string[];
-  };
-}
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  docx: 'docx',
+  pdf: 'pdf',
+  jsonl: 'jsonl',
+};
+
+// Markdownのフロントマターの形式
+const FRONT_MATTER_LABELS: Record<FrontMatterProfile, string> = {
+  generic: '汎用',
+  hugo: 'Hugo',
+  jekyll: 'Jekyll',
+  astro: 'Astro',
+  docusaurus: 'Docusaurus',
+};
+
+const REWRITE_ACTION_LABELS: Record<RewriteAction, string> = {
+  regenerate: '再生成',
+  expand: '詳しく書き換え',
+  shorten: '短く書き換え',
+  rewrite: '指示どおり書き換え',
+};
 
-interface GeneratedArticle {
-  title: string;
-  sections: {
-    heading: string;
-    content: string;
-    subheadings?: { title: string; content: string }[];
-  }[];
-  seoMetadata?: SEOMetadata;
+// 変更履歴に記録する編集対象の表示名
+function describeTarget(target: RewriteTarget): string {
+  return target.subheadingIndex === undefined
+    ? `セクション${target.sectionIndex + 1}`
+    : `セクション${target.sectionIndex + 1}-${target.subheadingIndex + 1}`;
 }
 
 export default function Home() {
@@ -47,8 +110,85 @@ export default function Home() {
   const [generatedArticle, setGeneratedArticle] = useState<GeneratedArticle | null>(null);
   const [isGeneratingTitles, setIsGeneratingTitles] = useState(false);
   const [isGeneratingArticle, setIsGeneratingArticle] = useState(false);
+  const [streamStatus, setStreamStatus] = useState("");
+  // 書き換え中の対象（"セクション番号" または "セクション番号-サブセクション番号"）
+  const [rewritingTarget, setRewritingTarget] = useState<string | null>(null);
   const [generateSEO, setGenerateSEO] = useState(true);
+  const [generateFAQ, setGenerateFAQ] = useState(false);
   const [baseUrl, setBaseUrl] = useState("");
+  const [frontMatterProfile, setFrontMatterProfile] = useState<FrontMatterProfile>('generic');
+  const [chunkTokens, setChunkTokens] = useState(400);
+  const [locale, setLocale] = useState<Locale>('ja');
+  // 空文字は既定のブランドを使用する
+  const [brandProfileId, setBrandProfileId] = useState("");
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>([]);
+  const [fallbackBrand, setFallbackBrand] = useState<BrandSettings | null>(null);
+  // 保存先のプロジェクト・記事ID（ライブラリへの自動保存に使用）
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [articleId, setArticleId] = useState<string | null>(null);
+  const [isRefreshingSEO, setIsRefreshingSEO] = useState(false);
+  const [isGeneratingFAQ, setIsGeneratingFAQ] = useState(false);
+  // 版が追加されるたびに変更履歴パネルを再読み込みするためのカウンター
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
+  // 根拠のない主張の確認結果（未確認の主張があればエクスポートできない）
+  const [claimReport, setClaimReport] = useState<ClaimReport | null>(null);
+
+  useEffect(() => {
+    const loadBrands = async () => {
+      try {
+        const response = await fetch('/api/brands');
+        if (!response.ok) throw new Error('ブランドプロファイル一覧の取得に失敗しました');
+        const data = await response.json();
+        setBrandProfiles(data.profiles);
+        setFallbackBrand(data.fallback);
+      } catch (error) {
+        console.error('ブランドプロファイル読み込みエラー:', error);
+      }
+    };
+
+    loadBrands();
+  }, []);
+
+  // ライブラリから開いた場合（/?article=<id> または /?project=<id>）は保存済みデータを読み込む
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const storedArticleId = params.get('article');
+    const storedProjectId = params.get('project');
+    if (!storedArticleId && !storedProjectId) return;
+
+    const loadStored = async () => {
+      try {
+        let stored: StoredArticle | null = null;
+        if (storedArticleId) {
+          const articleResponse = await fetch(`/api/articles/${storedArticleId}`);
+          if (!articleResponse.ok) throw new Error('記事が見つかりません');
+          stored = (await articleResponse.json()).article;
+        }
+
+        const projectResponse = await fetch(`/api/projects/${stored?.projectId || storedProjectId}`);
+        if (!projectResponse.ok) throw new Error('プロジェクトが見つかりません');
+        const { project } = await projectResponse.json() as { project: Project };
+
+        setKeyword(project.keyword);
+        setOverview(project.overview);
+        setBaseUrl(project.baseUrl || "");
+        setLocale(project.locale || 'ja');
+        setBrandProfileId(project.brandProfileId || "");
+        setGeneratedTitles(project.titles);
+        setProjectId(project.id);
+        if (stored) {
+          setSelectedTitle(stored.selectedTitle);
+          setGeneratedArticle(stored.article);
+          setArticleId(stored.id);
+        }
+      } catch (error) {
+        console.error('保存データ読み込みエラー:', error);
+        alert(`保存データの読み込みに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+      }
+    };
+
+    loadStored();
+  }, []);
 
   // エクスポートメニューを外側クリックで閉じる
   useEffect(() => {
@@ -71,17 +211,23 @@ export default function Home() {
   const articleResultRef = useRef<HTMLDivElement>(null);
 
   // エクスポート処理
-  const handleExport = async (format: 'markdown' | 'html') => {
+  const handleExport = async (format: ExportFormat) => {
     if (!generatedArticle) return;
 
     try {
       const exportData = {
         format,
         article: generatedArticle,
+        // 保存済みの記事はサーバー側で保存した内容・承認状況を使ってエクスポートする
+        articleId: articleId || undefined,
         options: {
           includeSEO: !!generatedArticle.seoMetadata,
           includeStyles: format === 'html',
-          filename: `${generatedArticle.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-').toLowerCase()}.${format === 'markdown' ? 'md' : 'html'}`
+          coverPage: format === 'docx',
+          appendix: format === 'pdf',
+          frontMatter: format === 'markdown' ? frontMatterProfile : undefined,
+          chunkTokens: format === 'jsonl' ? chunkTokens : undefined,
+          filename: `${generatedArticle.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-').toLowerCase()}.${EXPORT_EXTENSIONS[format]}`
         }
       };
 
@@ -115,7 +261,10 @@ export default function Home() {
           document.body.removeChild(notification);
         }, 3000);
       } else {
-        throw new Error('エクスポートに失敗しました');
+        const data = await response.json().catch(() => ({}));
+        const issues: string[] = (data.issues ?? []).map((issue: { nodeType: string; message: string }) => `・${issue.nodeType}: ${issue.message}`);
+        const claims: string[] = (data.claims ?? []).map((claim: ArticleClaim) => `・${claim.text}（${claim.sentence}）`);
+        throw new Error([data.error || 'エクスポートに失敗しました', ...issues, ...claims].join('\n'));
       }
     } catch (error) {
       console.error('エクスポートエラー:', error);
@@ -123,6 +272,261 @@ export default function Home() {
     }
   };
 
+  // ライブラリへの保存（失敗しても生成フローは継続する）
+  const saveProject = async (titles: GeneratedTitle[], projectKeyword = keyword): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          keyword: projectKeyword,
+          overview,
+          baseUrl: baseUrl.trim() || undefined,
+          locale,
+          brandProfileId: brandProfileId || undefined,
+          titles,
+        }),
+      });
+      if (!response.ok) throw new Error('プロジェクトの保存に失敗しました');
+      const { project } = await response.json() as { project: Project };
+      setProjectId(project.id);
+      return project.id;
+    } catch (error) {
+      console.error('プロジェクト保存エラー:', error);
+      return null;
+    }
+  };
+
+  const saveArticle = async (
+    title: GeneratedTitle,
+    article: GeneratedArticle,
+    revisionReason: RevisionReason = 'generated',
+    existingProjectId = projectId
+  ) => {
+    try {
+      const targetProjectId = existingProjectId || await saveProject(generatedTitles);
+      if (!targetProjectId) return;
+
+      const response = await fetch('/api/articles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId: targetProjectId, selectedTitle: title, article, revisionReason }),
+      });
+      if (!response.ok) throw new Error('記事の保存に失敗しました');
+      const { article: stored } = await response.json() as { article: StoredArticle };
+      setArticleId(stored.id);
+    } catch (error) {
+      console.error('記事保存エラー:', error);
+    }
+  };
+
+  // 保存済み記事を更新する（更新内容はサーバー側で新しい版として記録される）
+  const updateStoredArticle = async (article: GeneratedArticle, revisionReason: RevisionReason, revisionNote?: string) => {
+    if (!articleId) return;
+    try {
+      const response = await fetch(`/api/articles/${articleId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ article, revisionReason, revisionNote }),
+      });
+      if (!response.ok) throw new Error('記事の更新に失敗しました');
+      setRevisionsVersion(version => version + 1);
+    } catch (error) {
+      console.error('記事更新エラー:', error);
+    }
+  };
+
+  // 取り込んだ既存記事を新しいプロジェクトとして保存し、生成記事と同じように編集できるようにする
+  const handleImported = async (imported: GeneratedArticle) => {
+    // 取り込んだ記事は選択中の生成言語で書かれているものとして扱う
+    const article: GeneratedArticle = { ...imported, locale };
+    const importKeyword = keyword.trim() || article.seoMetadata?.keywords[0] || article.title;
+    const importedTitle: GeneratedTitle = {
+      id: `import-${Date.now()}`,
+      title: article.title,
+      description: article.seoMetadata?.description || '',
+    };
+
+    setKeyword(importKeyword);
+    setGeneratedTitles([]);
+    setSelectedTitle(importedTitle);
+    setGeneratedArticle(article);
+    setArticleId(null);
+
+    const newProjectId = await saveProject([], importKeyword);
+    if (newProjectId) {
+      await saveArticle(importedTitle, article, 'imported', newProjectId);
+    }
+
+    setTimeout(() => {
+      articleResultRef.current?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'start'
+      });
+    }, 300);
+  };
+
+  // セクション・サブセクション単位の書き換え
+  const rewriteSection = async (target: RewriteTarget, action: RewriteAction, instruction: string) => {
+    if (!generatedArticle) return;
+
+    const targetKey = target.subheadingIndex === undefined ? `${target.sectionIndex}` : `${target.sectionIndex}-${target.subheadingIndex}`;
+    setRewritingTarget(targetKey);
+
+    try {
+      const response = await fetch('/api/rewrite-section', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          article: generatedArticle,
+          target,
+          action,
+          instruction: instruction.trim() || undefined,
+          keyword,
+          description: selectedTitle?.description,
+          baseUrl: baseUrl.trim() || undefined,
+          projectId: projectId || undefined
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setGeneratedArticle(data.article);
+        updateStoredArticle(data.article, 'rewrite', `${describeTarget(target)}を${REWRITE_ACTION_LABELS[action]}${data.seoRefreshed ? '（SEOメタデータも更新）' : ''}`);
+        if (data.seoRefreshed) {
+          const notification = document.createElement('div');
+          notification.className = 'fixed top-4 right-4 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-fadeInUp';
+          notification.textContent = '🎯 変更量が大きいためSEOメタデータを更新しました';
+          document.body.appendChild(notification);
+          setTimeout(() => {
+            document.body.removeChild(notification);
+          }, 3000);
+        }
+      } else {
+        alert(`書き換えに失敗しました: ${data.error || '不明なエラー'}`);
+      }
+    } catch (error) {
+      console.error('書き換えエラー:', error);
+      alert('LLM APIへの接続でエラーが発生しました。');
+    } finally {
+      setRewritingTarget(null);
+    }
+  };
+
+  // セクション・サブセクションの手動編集
+  const editSectionManually = async (target: RewriteTarget, heading: string, content: string) => {
+    if (!generatedArticle) return;
+
+    const sections = [...generatedArticle.sections];
+    const section = sections[target.sectionIndex];
+    if (target.subheadingIndex === undefined) {
+      sections[target.sectionIndex] = { ...section, heading, content };
+    } else {
+      const subheadings = [...(section.subheadings || [])];
+      subheadings[target.subheadingIndex] = { title: heading, content };
+      sections[target.sectionIndex] = { ...section, subheadings };
+    }
+    const article = { ...generatedArticle, sections };
+    setGeneratedArticle(article);
+    await updateStoredArticle(article, 'manual_edit', describeTarget(target));
+  };
+
+  // 現在の記事内容からSEOメタデータを作り直す
+  const refreshSEOMetadata = async () => {
+    if (!generatedArticle) return;
+
+    setIsRefreshingSEO(true);
+    try {
+      const seo = await requestSEOMetadata(generatedArticle, {
+        origin: window.location.origin,
+        keyword,
+        description: selectedTitle?.description,
+        baseUrl: baseUrl.trim() || undefined,
+      });
+      if (!seo) {
+        alert('SEOメタデータの再生成に失敗しました。\n\nLLMプロバイダーの設定（APIキー・ベースURL等）を確認してください。');
+        return;
+      }
+      const article = withSEOMetadata(generatedArticle, seo);
+      setGeneratedArticle(article);
+      await updateStoredArticle(article, 'seo_refresh');
+    } finally {
+      setIsRefreshingSEO(false);
+    }
+  };
+
+  // 文字数の上限を超えたSEOメタデータのフィールドを切り詰める
+  const fitSEOMetadataLengths = async () => {
+    if (!generatedArticle?.seoMetadata) return;
+
+    const seoMetadata = fitSEOLengths(generatedArticle.seoMetadata, resolveLocale(generatedArticle.locale));
+    const article = { ...generatedArticle, seoMetadata };
+    setGeneratedArticle(article);
+    await updateStoredArticle(article, 'manual_edit', 'SEOメタデータの文字数を自動調整');
+  };
+
+  // 現在の記事内容からよくある質問を生成（作り直し）する
+  const refreshFAQ = async () => {
+    if (!generatedArticle) return;
+
+    setIsGeneratingFAQ(true);
+    try {
+      const result = await requestFAQ(generatedArticle, {
+        origin: window.location.origin,
+        keyword,
+      });
+      if (!result) {
+        alert('よくある質問の生成に失敗しました。\n\nLLMプロバイダーの設定（APIキー・ベースURL等）を確認してください。');
+        return;
+      }
+      const article = withFAQ(generatedArticle, result);
+      setGeneratedArticle(article);
+      await updateStoredArticle(article, 'faq_refresh');
+    } finally {
+      setIsGeneratingFAQ(false);
+    }
+  };
+
+  // よくある質問の手動編集（追加・変更・削除）
+  const editFAQ = async (faq: FAQItem[], note: string) => {
+    if (!generatedArticle) return;
+
+    const article = { ...generatedArticle, faq: faq.length > 0 ? faq : undefined };
+    setGeneratedArticle(article);
+    await updateStoredArticle(article, 'manual_edit', note);
+  };
+
+  // 根拠のない主張の承認・承認の取り消し
+  const acceptClaim = async (claim: ArticleClaim, accepted: boolean) => {
+    if (!generatedArticle) return;
+
+    const article = setClaimAccepted(generatedArticle, claim.id, accepted);
+    setGeneratedArticle(article);
+    await updateStoredArticle(article, 'claim_review', `${accepted ? '主張を承認' : '主張の承認を取り消し'}: ${claim.text}`);
+  };
+
+  // 根拠のない主張を含む文の削除
+  const removeUnsupportedClaim = async (claim: ArticleClaim) => {
+    if (!generatedArticle) return;
+    if (!confirm(`次の文を削除しますか？\n\n${claim.sentence}`)) return;
+
+    const article = removeClaim(generatedArticle, claim);
+    setGeneratedArticle(article);
+    await updateStoredArticle(article, 'claim_review', `根拠のない主張を削除: ${claim.text}`);
+  };
+
+  // 本文の位置にある未確認の主張（生成中は強調しない）
+  const unresolvedClaimsAt = (location: ClaimLocation): ArticleClaim[] =>
+    isGeneratingArticle ? [] : (claimReport?.unresolved ?? []).filter(claim => isSameLocation(claim.location, location));
+
   const generateTitles = async () => {
     if (!keyword.trim()) return;
     
@@ -135,12 +539,14 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ keyword, overview }),
+        body: JSON.stringify({ keyword, overview, locale, brandProfileId: brandProfileId || undefined }),
       });
       
       if (response.ok) {
         const data = await response.json();
         setGeneratedTitles(data.titles);
+        setArticleId(null);
+        saveProject(data.titles);
         
         // タイトル生成完了後に自動スクロール
         setTimeout(() => {
@@ -151,20 +557,25 @@ export default function Home() {
         }, 100);
       } else {
         const errorData = await response.json();
-        alert(`タイトル生成に失敗しました: ${errorData.error || '不明なエラー'}\n\nOpenAI APIキーが正しく設定されているか確認してください。`);
+        alert(`タイトル生成に失敗しました: ${errorData.error || '不明なエラー'}\n\nLLMプロバイダーの設定（APIキー・ベースURL等）を確認してください。`);
       }
     } catch (error) {
       console.error('タイトル生成エラー:', error);
-      alert('OpenAI APIへの接続でエラーが発生しました。\n\n.env.localファイルにOPENAI_API_KEYを設定してください。');
+      alert('LLM APIへの接続でエラーが発生しました。\n\n.env.localファイルのLLMプロバイダー設定を確認してください。');
     } finally {
       setIsGeneratingTitles(false);
     }
   };
 
   const generateArticle = async (title: GeneratedTitle) => {
+    // 保存済みの記事と同じタイトルで生成し直す場合は、新しい記事ではなく同じ記事の新しい版として保存する
+    const isRegeneration = !!articleId && selectedTitle?.title === title.title;
     setSelectedTitle(title);
     setIsGeneratingArticle(true);
     setGeneratedArticle(null); // 既存の記事をクリア
+    if (!isRegeneration) {
+      setArticleId(null);
+    }
     
     // 記事生成開始時に生成エリアへスクロール（少し遅延させる）
     setTimeout(() => {
@@ -189,33 +600,76 @@ export default function Home() {
           keyword,
           overview,
           generateSEO,
-          baseUrl: baseUrl.trim() || undefined
+          generateFAQ,
+          baseUrl: baseUrl.trim() || undefined,
+          locale,
+          brandProfileId: brandProfileId || undefined,
+          projectId: projectId || undefined,
+          stream: true
         }),
       });
       
-      if (response.ok) {
-        const data = await response.json();
-        setGeneratedArticle(data.article);
-        
-        // 記事生成完了後に自動スクロール（少し遅延させてアニメーションを楽しませる）
-        setTimeout(() => {
-          articleResultRef.current?.scrollIntoView({ 
-            behavior: 'smooth',
-            block: 'start'
-          });
-        }, 300);
+      if (response.ok && response.body) {
+        // SSEで届く進捗イベントを逐次反映し、セクション単位で記事を表示する
+        let article: GeneratedArticle = { title: title.title, sections: [] };
+        let hasScrolled = false;
+        setStreamStatus('記事の構成を設計中...');
+
+        for await (const { event, data } of readServerSentEvents(response.body)) {
+          const streamEvent = { event, data: JSON.parse(data) } as ArticleStreamEvent;
+          if (streamEvent.event === 'error') {
+            throw new Error(streamEvent.data.error);
+          }
+
+          article = applyArticleStreamEvent(article, streamEvent);
+          if (article.sections.length > 0) {
+            setGeneratedArticle(article);
+          }
+
+          if (streamEvent.event === 'section_started') {
+            setStreamStatus(`セクション ${streamEvent.data.index + 1}「${streamEvent.data.heading}」を執筆中...`);
+            if (!hasScrolled) {
+              hasScrolled = true;
+              setTimeout(() => {
+                articleResultRef.current?.scrollIntoView({ 
+                  behavior: 'smooth',
+                  block: 'start'
+                });
+              }, 300);
+            }
+          } else if (streamEvent.event === 'faq_started') {
+            setStreamStatus('よくある質問を生成中...');
+          } else if (streamEvent.event === 'seo_started') {
+            setStreamStatus('SEOメタデータを生成中...');
+          } else if (streamEvent.event === 'done') {
+            if (isRegeneration) {
+              updateStoredArticle(streamEvent.data.article, 'regenerated');
+            } else {
+              saveArticle(title, streamEvent.data.article);
+            }
+          }
+        }
       } else {
         const errorData = await response.json();
-        alert(`記事生成に失敗しました: ${errorData.error || '不明なエラー'}\n\nOpenAI APIキーが正しく設定されているか確認してください。`);
+        alert(`記事生成に失敗しました: ${errorData.error || '不明なエラー'}\n\nLLMプロバイダーの設定（APIキー・ベースURL等）を確認してください。`);
       }
     } catch (error) {
       console.error('記事生成エラー:', error);
-      alert('OpenAI APIへの接続でエラーが発生しました。\n\n.env.localファイルにOPENAI_API_KEYを設定してください。');
+      alert(`記事生成に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}\n\nLLMプロバイダーの設定（APIキー・ベースURL等）を確認してください。`);
     } finally {
       setIsGeneratingArticle(false);
+      setStreamStatus('');
     }
   };
 
+  const defaultBrand = brandProfiles.find(profile => profile.isDefault) ?? fallbackBrand;
+  const defaultBrandName = defaultBrand?.organizationName ?? "";
+  const displayBrandName = brandProfiles.find(profile => profile.id === brandProfileId)?.organizationName || defaultBrandName;
+  // エクスポート時と同じく、記事に記録されたブランドで構造化データ（JSON-LD）を組み立てる
+  const articleBrand = brandProfiles.find(profile => profile.id === generatedArticle?.brandProfileId) ?? defaultBrand;
+  const jsonLd = generatedArticle?.seoMetadata && articleBrand ? buildArticleJsonLd(generatedArticle, { brand: articleBrand }) : null;
+  const jsonLdIssues = jsonLd ? validateJsonLd(jsonLd) : [];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
       <div className="max-w-4xl mx-auto">
@@ -224,18 +678,39 @@ export default function Home() {
             LLMO コンテンツ生成システム
           </h1>
           <p className="text-xl text-gray-600 dark:text-gray-300 mb-2">
-            CloudFlow Dynamics
+            {displayBrandName}
           </p>
+          <nav className="mb-4">
+            <Link href="/library" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              📚 保存済み記事ライブラリ
+            </Link>
+            <span className="mx-2 text-gray-400">|</span>
+            <Link href="/jobs" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              📦 CSVから一括生成
+            </Link>
+            <span className="mx-2 text-gray-400">|</span>
+            <Link href="/prompts" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              🧩 プロンプト管理
+            </Link>
+            <span className="mx-2 text-gray-400">|</span>
+            <Link href="/brands" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              🏷️ ブランド
+            </Link>
+            <span className="mx-2 text-gray-400">|</span>
+            <Link href="/wordpress" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              📰 WordPress
+            </Link>
+          </nav>
           <p className="text-gray-500 dark:text-gray-400 max-w-2xl mx-auto">
-            OpenAI GPTモデルによる高品質なLLMO最適化コンテンツ生成システム。ChatGPT、Claude、Geminiが参照したくなる記事を作成します。
+            OpenAI・Azure OpenAI・Anthropic・セルフホストモデルに対応した高品質なLLMO最適化コンテンツ生成システム。ChatGPT、Claude、Geminiが参照したくなる記事を作成します。
           </p>
           <div className="mt-4 flex flex-col items-center gap-2">
             <div className="flex items-center gap-1">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-sm text-gray-600 dark:text-gray-300">OpenAI GPT-4o Powered</span>
+              <span className="text-sm text-gray-600 dark:text-gray-300">Multi-Provider LLM Powered</span>
             </div>
             <div className="text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-1 rounded-full">
-              ⚠️ OpenAI APIキーが必要です
+              ⚠️ LLMプロバイダーの設定が必要です
             </div>
           </div>
         </header>
@@ -256,6 +731,39 @@ export default function Home() {
               />
             </div>
 
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                生成言語
+              </label>
+              <select
+                id="locale"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              >
+                {LOCALES.map(value => (
+                  <option key={value} value={value}>{LOCALE_CONFIG[value].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="brand" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                ブランド・著者
+              </label>
+              <select
+                id="brand"
+                value={brandProfileId}
+                onChange={(e) => setBrandProfileId(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">既定（{defaultBrandName}）</option>
+                {brandProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.organizationName}</option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label htmlFor="overview" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 記事の概要・既存コンテンツ（任意）
@@ -326,6 +834,21 @@ export default function Home() {
               )}
             </div>
 
+            <label className="flex items-start gap-3 rounded-lg p-4 border border-gray-200 dark:border-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={generateFAQ}
+                onChange={(e) => setGenerateFAQ(e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-semibold text-gray-800 dark:text-gray-200">❓ よくある質問も生成</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  記事の末尾に対話式の質問と回答（5〜10件）を追加し、FAQPage の構造化データとして出力します
+                </span>
+              </span>
+            </label>
+
             <button
               onClick={generateTitles}
               disabled={!keyword.trim() || isGeneratingTitles || isGeneratingArticle}
@@ -356,6 +879,11 @@ export default function Home() {
                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent transform scale-x-0 group-hover:scale-x-100 transition-transform duration-500 origin-left"></div>
               )}
             </button>
+
+            <ImportPanel
+              disabled={isGeneratingTitles || isGeneratingArticle}
+              onImported={handleImported}
+            />
           </div>
         </div>
 
@@ -369,7 +897,7 @@ export default function Home() {
               </div>
               <div className="text-center">
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                  OpenAI GPT-4o がタイトルを生成中...
+                  AIがタイトルを生成中...
                 </h3>
                 <p className="text-gray-600 dark:text-gray-300 text-sm">
                   LLMO最適化されたタイトル案を作成しています
@@ -441,7 +969,11 @@ export default function Home() {
           </div>
         )}
 
-        {isGeneratingArticle && (
+        {projectId && generatedTitles.length > 0 && (
+          <SourcesPanel projectId={projectId} disabled={isGeneratingArticle} />
+        )}
+
+        {isGeneratingArticle && !generatedArticle && (
           <div id="article-generating-section" className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 mb-8 animate-fadeInUp">
             <div className="flex flex-col items-center justify-center space-y-4">
               <div className="relative">
@@ -454,7 +986,7 @@ export default function Home() {
               </div>
               <div className="text-center max-w-md">
                 <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-3 animate-pulse">
-                  🤖 OpenAI GPT-4o が記事を執筆中...
+                  🤖 AIが記事を執筆中...
                 </h3>
                 <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-3 mb-3">
                   <p className="text-gray-600 dark:text-gray-300 text-sm mb-1">
@@ -569,6 +1101,19 @@ export default function Home() {
 
         {generatedArticle && (
           <div ref={articleResultRef} className="space-y-6 animate-fadeInUp">
+            {/* ストリーミング進捗 */}
+            {isGeneratingArticle && (
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 border border-green-200 dark:border-green-800 flex items-center gap-3">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-green-600"></div>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{streamStatus}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {generatedArticle.sections.length} セクション受信済み
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* SEOメタデータセクション */}
             {generatedArticle.seoMetadata && (
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-xl shadow-lg p-6 border border-blue-200 dark:border-blue-800">
@@ -578,6 +1123,15 @@ export default function Home() {
                     SEOメタデータ
                   </h2>
                   <div className="flex gap-2">
+                    {!isGeneratingArticle && (
+                      <button
+                        onClick={refreshSEOMetadata}
+                        disabled={isRefreshingSEO || rewritingTarget !== null}
+                        className="bg-white hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed text-blue-700 border border-blue-300 px-3 py-2 rounded-md text-xs font-medium transition-colors duration-200"
+                      >
+                        {isRefreshingSEO ? '⏳ 再生成中...' : '🔄 SEO再生成'}
+                      </button>
+                    )}
                     <button
                       onClick={() => {
                         const seo = generatedArticle.seoMetadata!;
@@ -600,9 +1154,9 @@ ${seo.canonicalUrl ? `<meta property="og:url" content="${seo.canonicalUrl}">` :
 <meta name="twitter:description" content="${seo.twitterDescription}">
 
 <!-- 構造化データ -->
-<script type="application/ld+json">
-${JSON.stringify(seo.structuredData, null, 2)}
-</script>`;
+${jsonLd ? `<script type="application/ld+json">
+${serializeJsonLd(jsonLd)}
+</script>` : ''}`;
                         navigator.clipboard.writeText(htmlMetaTags);
                         // コピー成功のフィードバック
                         const button = event?.target as HTMLButtonElement;
@@ -619,6 +1173,14 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                   </div>
                 </div>
                 
+                <SERPPreview
+                  seoMetadata={generatedArticle.seoMetadata}
+                  locale={resolveLocale(generatedArticle.locale)}
+                  siteName={articleBrand?.organizationName ?? ""}
+                  disabled={isGeneratingArticle || isRefreshingSEO || rewritingTarget !== null}
+                  onAutoFix={fitSEOMetadataLengths}
+                />
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
                   <div className="space-y-3">
                     <div className="bg-white/70 dark:bg-gray-800/70 rounded-lg p-3 border border-blue-200/50 dark:border-blue-700/50">
@@ -682,15 +1244,29 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                       </div>
                     </div>
 
-                    {generatedArticle.seoMetadata.structuredData && (
+                    {jsonLd && (
                       <div className="bg-white/70 dark:bg-gray-800/70 rounded-lg p-3 border border-blue-200/50 dark:border-blue-700/50">
                         <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-2 flex items-center gap-1">
                           <span className="text-orange-600">📊</span>
-                          構造化データ
+                          構造化データ（JSON-LD）
                         </h4>
-                        <div className="text-xs">
+                        <div className="text-xs space-y-2">
+                          {jsonLdIssues.length > 0 ? (
+                            <ul className="space-y-1">
+                              {jsonLdIssues.map((issue, index) => (
+                                <li
+                                  key={index}
+                                  className={issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}
+                                >
+                                  {issue.severity === 'error' ? '❌' : '⚠️'} {issue.nodeType}: {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-green-700 dark:text-green-300">✅ 必須プロパティはすべて揃っています</p>
+                          )}
                           <div className="bg-gray-100 dark:bg-gray-700 p-2 rounded font-mono text-[10px] overflow-x-auto">
-                            <pre>{JSON.stringify(generatedArticle.seoMetadata.structuredData, null, 2)}</pre>
+                            <pre>{serializeJsonLd(jsonLd)}</pre>
                           </div>
                         </div>
                       </div>
@@ -717,7 +1293,9 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                           exportMenu.classList.toggle('hidden');
                         }
                       }}
-                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center gap-2"
+                      disabled={(claimReport?.unresolved.length ?? 0) > 0}
+                      title={(claimReport?.unresolved.length ?? 0) > 0 ? '根拠のない主張を承認または削除するとエクスポートできます' : undefined}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center gap-2"
                     >
                       📥 エクスポート
                       <span className="text-xs">▼</span>
@@ -738,6 +1316,18 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                           Markdown (.md)
                           <span className="ml-auto text-xs text-gray-500">Front Matter付き</span>
                         </button>
+                        <label className="flex items-center gap-2 px-3 pb-2 text-xs text-gray-500 dark:text-gray-400">
+                          フロントマター:
+                          <select
+                            value={frontMatterProfile}
+                            onChange={(e) => setFrontMatterProfile(e.target.value as FrontMatterProfile)}
+                            className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                          >
+                            {(Object.keys(FRONT_MATTER_LABELS) as FrontMatterProfile[]).map(profile => (
+                              <option key={profile} value={profile}>{FRONT_MATTER_LABELS[profile]}</option>
+                            ))}
+                          </select>
+                        </label>
                         <button
                           onClick={async () => {
                             await handleExport('html');
@@ -749,6 +1339,52 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                           HTML (.html)
                           <span className="ml-auto text-xs text-gray-500">スタイル付き</span>
                         </button>
+                        <button
+                          onClick={async () => {
+                            await handleExport('docx');
+                            document.getElementById('export-menu')?.classList.add('hidden');
+                          }}
+                          className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md flex items-center gap-2"
+                        >
+                          <span className="text-base">📄</span>
+                          Word (.docx)
+                          <span className="ml-auto text-xs text-gray-500">目次・表紙付き</span>
+                        </button>
+                        <button
+                          onClick={async () => {
+                            await handleExport('pdf');
+                            document.getElementById('export-menu')?.classList.add('hidden');
+                          }}
+                          className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md flex items-center gap-2"
+                        >
+                          <span className="text-base">📕</span>
+                          PDF (.pdf)
+                          <span className="ml-auto text-xs text-gray-500">校正・確認用</span>
+                        </button>
+                        <button
+                          onClick={async () => {
+                            await handleExport('jsonl');
+                            document.getElementById('export-menu')?.classList.add('hidden');
+                          }}
+                          className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md flex items-center gap-2"
+                        >
+                          <span className="text-base">🧩</span>
+                          RAGチャンク (.jsonl)
+                          <span className="ml-auto text-xs text-gray-500">ベクトルストア用</span>
+                        </button>
+                        <label className="flex items-center gap-2 px-3 pb-2 text-xs text-gray-500 dark:text-gray-400">
+                          チャンクの上限:
+                          <input
+                            type="number"
+                            min={50}
+                            max={8000}
+                            step={50}
+                            value={chunkTokens}
+                            onChange={(e) => setChunkTokens(Number(e.target.value))}
+                            className="w-20 px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                          />
+                          トークン
+                        </label>
                         <div className="border-t border-gray-200 dark:border-gray-600 my-1"></div>
                         <div className="px-2 py-1">
                           <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">含まれる要素:</div>
@@ -803,8 +1439,21 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                       {section.heading}
                     </h2>
                     <div className="text-gray-700 dark:text-gray-300 mb-4 whitespace-pre-wrap leading-relaxed">
-                      {section.content}
+                      <ClaimHighlight text={section.content} claims={unresolvedClaimsAt({ sectionIndex: index })} />
                     </div>
+                    {!isGeneratingArticle && (
+                      <div className="mb-4">
+                        <RewriteControls
+                          label="セクション"
+                          disabled={rewritingTarget !== null}
+                          busy={rewritingTarget === `${index}`}
+                          heading={section.heading}
+                          content={section.content}
+                          onRewrite={(action, instruction) => rewriteSection({ sectionIndex: index }, action, instruction)}
+                          onManualEdit={(heading, content) => editSectionManually({ sectionIndex: index }, heading, content)}
+                        />
+                      </div>
+                    )}
                     
                     {section.subheadings?.map((sub, subIndex) => (
                       <div 
@@ -817,14 +1466,118 @@ ${JSON.stringify(seo.structuredData, null, 2)}
                           {sub.title}
                         </h3>
                         <div className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap leading-relaxed">
-                          {sub.content}
+                          <ClaimHighlight text={sub.content} claims={unresolvedClaimsAt({ sectionIndex: index, subheadingIndex: subIndex })} />
                         </div>
+                        {!isGeneratingArticle && (
+                          <div className="mt-2">
+                            <RewriteControls
+                              label="サブセクション"
+                              disabled={rewritingTarget !== null}
+                              busy={rewritingTarget === `${index}-${subIndex}`}
+                              heading={sub.title}
+                              content={sub.content}
+                              onRewrite={(action, instruction) => rewriteSection({ sectionIndex: index, subheadingIndex: subIndex }, action, instruction)}
+                              onManualEdit={(heading, content) => editSectionManually({ sectionIndex: index, subheadingIndex: subIndex }, heading, content)}
+                            />
+                          </div>
+                        )}
                       </div>
                     ))}
                   </section>
                 ))}
+
+                {/* よくある質問 */}
+                {(!isGeneratingArticle || generatedArticle.faq) && (
+                  <FAQEditor
+                    faq={generatedArticle.faq ?? []}
+                    disabled={isGeneratingArticle || rewritingTarget !== null || isRefreshingSEO}
+                    busy={isGeneratingFAQ}
+                    onGenerate={refreshFAQ}
+                    onChange={editFAQ}
+                  />
+                )}
+
+                {/* 参考文献（本文で参照している出典） */}
+                {citedSources(generatedArticle).length > 0 && (
+                  <section className="mt-8">
+                    <h2 className="text-2xl font-semibold mb-4">📚 参考文献</h2>
+                    <ul className="list-none pl-0 text-sm space-y-1">
+                      {citedSources(generatedArticle).map(source => (
+                        <li key={source.id}>
+                          [{source.id}]{' '}
+                          {source.url ? <a href={source.url} target="_blank" rel="noopener noreferrer">{source.title}</a> : source.title}
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
               </article>
             </div>
+
+            {/* 主張の確認 */}
+            {!isGeneratingArticle && (
+              <ClaimsPanel
+                article={generatedArticle}
+                projectId={projectId}
+                disabled={rewritingTarget !== null}
+                report={claimReport}
+                onReport={setClaimReport}
+                onAccept={acceptClaim}
+                onRemove={removeUnsupportedClaim}
+              />
+            )}
+
+            {/* LLMO監査 */}
+            {!isGeneratingArticle && (
+              <AuditPanel
+                article={generatedArticle}
+                keyword={keyword}
+                disabled={rewritingTarget !== null}
+              />
+            )}
+
+            {/* 検索シミュレーション */}
+            {!isGeneratingArticle && (
+              <RetrievalPanel
+                article={generatedArticle}
+                keyword={keyword}
+                disabled={rewritingTarget !== null}
+              />
+            )}
+
+            {/* 既存記事の最適化 */}
+            {!isGeneratingArticle && (
+              <OptimizePanel
+                article={generatedArticle}
+                projectId={projectId}
+                keyword={keyword}
+                baseUrl={baseUrl}
+                generateSEO={generateSEO}
+                disabled={rewritingTarget !== null || isRefreshingSEO || isGeneratingFAQ}
+                onOptimized={(article, changeRatio) => {
+                  setGeneratedArticle(article);
+                  updateStoredArticle(article, 'optimized', `変化量 ${Math.round(changeRatio * 100)}%`);
+                }}
+              />
+            )}
+
+            {/* 変更履歴 */}
+            {articleId && !isGeneratingArticle && (
+              <RevisionHistory
+                articleId={articleId}
+                refreshKey={revisionsVersion}
+                disabled={rewritingTarget !== null || isRefreshingSEO || isGeneratingFAQ}
+                onRestore={setGeneratedArticle}
+              />
+            )}
+
+            {/* WordPressへの投稿 */}
+            {articleId && !isGeneratingArticle && (
+              <WordPressPublishPanel
+                articleId={articleId}
+                disabled={rewritingTarget !== null || isRefreshingSEO || isGeneratingFAQ}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,377 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { LOCALE_CONFIG, LOCALES } from "@/lib/locale";
+import type { ChatMessage } from "@/lib/llm";
+import { Locale, PromptTemplateName, PromptTemplateSummary, PromptTemplateVersion, PromptVariableDefinition } from "@/lib/types";
+
+interface TemplateDetail {
+  label: string;
+  variables: PromptVariableDefinition[];
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+interface PreviewResult {
+  messages: ChatMessage[];
+  issues: string[];
+}
+
+const TEMPLATE_NAMES: { value: PromptTemplateName; label: string }[] = [
+  { value: 'titles', label: 'タイトル生成' },
+  { value: 'article', label: '記事生成' },
+  { value: 'faq', label: 'FAQ生成' },
+  { value: 'seo', label: 'SEOメタデータ生成' },
+  { value: 'rewrite', label: 'セクションの書き換え' },
+];
+
+// プレビュー用の入力変数のサンプル値
+const SAMPLE_VARIABLES: Record<string, string> = {
+  keyword: 'プロジェクト管理ツール',
+  overview: '中小企業向けに、導入手順と選び方を解説する',
+  title: 'プロジェクト管理ツールの選び方：中小企業向け導入ガイド',
+  description: '導入手順・比較基準・失敗しないためのポイントを解説',
+  content: 'プロジェクト管理ツールとは、タスク・進捗・担当者を一元管理するためのソフトウェアです。',
+  baseUrl: 'https://example.com',
+  toneGuidelines: 'です・ます調。専門用語には短い説明を添える',
+  authorProfile: '山田太郎（編集長）: 業務改善コンサルタントとして10年の経験',
+  author: '山田太郎',
+  heading: 'プロジェクト管理ツールとは',
+  context: '## 【書き換え対象】プロジェクト管理ツールとは\nプロジェクト管理ツールとは、タスク・進捗・担当者を一元管理するためのソフトウェアです。',
+  instruction: '具体例を1つ追加する',
+};
+
+export default function Prompts() {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [name, setName] = useState<PromptTemplateName>('article');
+  const [locale, setLocale] = useState<Locale>('ja');
+  const [detail, setDetail] = useState<TemplateDetail | null>(null);
+  // 編集中のテンプレート
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [system, setSystem] = useState("");
+  const [user, setUser] = useState("");
+  const [note, setNote] = useState("");
+  const [activate, setActivate] = useState(true);
+  const [variables, setVariables] = useState<Record<string, string>>(SAMPLE_VARIABLES);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prompts');
+      if (!response.ok) throw new Error('プロンプトテンプレート一覧の取得に失敗しました');
+      const data = await response.json();
+      setTemplates(data.templates);
+    } catch (error) {
+      console.error('プロンプトテンプレート一覧読み込みエラー:', error);
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (targetName: PromptTemplateName, targetLocale: Locale) => {
+    try {
+      const response = await fetch(`/api/prompts/${targetName}?locale=${targetLocale}`);
+      if (!response.ok) throw new Error('プロンプトテンプレートの取得に失敗しました');
+      const data: TemplateDetail = await response.json();
+      setDetail(data);
+      // 有効な版を編集の出発点にする
+      const active = data.versions.find(version => version.version === data.activeVersion) ?? data.versions[0];
+      setBaseVersion(active.version);
+      setSystem(active.system);
+      setUser(active.user);
+      setNote("");
+      setPreview(null);
+    } catch (error) {
+      console.error('プロンプトテンプレート読み込みエラー:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    loadDetail(name, locale);
+  }, [name, locale, loadDetail]);
+
+  const loadVersion = (version: PromptTemplateVersion) => {
+    setBaseVersion(version.version);
+    setSystem(version.system);
+    setUser(version.user);
+    setPreview(null);
+  };
+
+  const activateVersion = async (version: number) => {
+    const response = await fetch(`/api/prompts/${name}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ locale, activeVersion: version }),
+    });
+    if (response.ok) {
+      setDetail(current => current && { ...current, activeVersion: version });
+      await loadTemplates();
+    } else {
+      alert('有効な版の切り替えに失敗しました');
+    }
+  };
+
+  const runPreview = async () => {
+    try {
+      const response = await fetch(`/api/prompts/${name}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ locale, system, user, variables }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(`プレビューに失敗しました: ${data.error || '不明なエラー'}`);
+        return;
+      }
+      setPreview(data);
+    } catch (error) {
+      console.error('プロンプトプレビューエラー:', error);
+      alert('プレビューでエラーが発生しました');
+    }
+  };
+
+  const saveVersion = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/prompts/${name}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ locale, system, user, note, activate }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(`保存に失敗しました: ${data.error || '不明なエラー'}${data.issues ? `\n\n${data.issues.join('\n')}` : ''}`);
+        return;
+      }
+      await Promise.all([loadDetail(name, locale), loadTemplates()]);
+    } catch (error) {
+      console.error('プロンプトテンプレート保存エラー:', error);
+      alert('保存でエラーが発生しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summaryOf = (targetName: PromptTemplateName, targetLocale: Locale) =>
+    templates.find(template => template.name === targetName && template.locale === targetLocale);
+
+  const baseTemplate = detail?.versions.find(version => version.version === baseVersion);
+  const isModified = !!baseTemplate && (baseTemplate.system !== system || baseTemplate.user !== user);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            🧩 プロンプトテンプレート
+          </h1>
+          <div className="flex gap-4">
+            <Link href="/library" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              📚 ライブラリ
+            </Link>
+            <Link href="/brands" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              🏷️ ブランド
+            </Link>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              ← 記事生成に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">テンプレート</span>
+              <select
+                value={name}
+                onChange={(e) => setName(e.target.value as PromptTemplateName)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                {TEMPLATE_NAMES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium">言語</span>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                {LOCALES.map(value => {
+                  const summary = summaryOf(name, value);
+                  return (
+                    <option key={value} value={value}>
+                      {LOCALE_CONFIG[value].label}{summary ? `（有効: 版${summary.activeVersion} / 最新: 版${summary.latestVersion}）` : ''}
+                    </option>
+                  );
+                })}
+              </select>
+            </label>
+          </div>
+
+          {detail && (
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">版の一覧</h2>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                {[...detail.versions].reverse().map(version => (
+                  <li key={version.version} className="flex items-center justify-between gap-4 px-3 py-2 text-xs text-gray-700 dark:text-gray-300">
+                    <div>
+                      <span className="font-medium">版{version.version}</span>
+                      {version.builtin && <span className="ml-2 text-gray-500 dark:text-gray-400">組み込み</span>}
+                      {version.version === detail.activeVersion && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">有効</span>
+                      )}
+                      {version.note && <span className="ml-2">{version.note}</span>}
+                      {version.createdAt && (
+                        <span className="ml-2 text-gray-500 dark:text-gray-400">{new Date(version.createdAt).toLocaleString('ja-JP')}</span>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => loadVersion(version)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-1 rounded-md font-medium"
+                      >
+                        編集に読み込む
+                      </button>
+                      {version.version !== detail.activeVersion && (
+                        <button
+                          onClick={() => activateVersion(version.version)}
+                          className="bg-blue-50 hover:bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-md font-medium"
+                        >
+                          有効にする
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {detail && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {detail.label}（版{baseVersion}をもとに編集{isModified ? '・変更あり' : ''}）
+              </h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                <code>{'{{変数名}}'}</code> で値を埋め込み、<code>{'{{#変数名}}…{{/変数名}}'}</code> は値がある場合だけ、<code>{'{{^変数名}}…{{/変数名}}'}</code> は値がない場合だけ出力します。保存すると新しい版として追加され、既存の版は変更されません。
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {detail.variables.map(variable => (
+                <span
+                  key={variable.name}
+                  title={variable.label}
+                  className={`px-2 py-1 rounded-md text-xs font-mono ${variable.computed
+                    ? 'bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'}`}
+                >
+                  {`{{${variable.name}}}`}{variable.required ? ' *' : ''}
+                  <span className="ml-1 font-sans">{variable.label}{variable.computed ? '（自動）' : ''}</span>
+                </span>
+              ))}
+            </div>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700 dark:text-gray-300">システムプロンプト</span>
+              <textarea
+                value={system}
+                onChange={(e) => setSystem(e.target.value)}
+                rows={12}
+                className="mt-1 w-full px-3 py-2 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700 dark:text-gray-300">ユーザープロンプト</span>
+              <textarea
+                value={user}
+                onChange={(e) => setUser(e.target.value)}
+                rows={16}
+                className="mt-1 w-full px-3 py-2 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+
+            <div>
+              <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">プレビュー用のサンプル値</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {detail.variables.filter(variable => !variable.computed).map(variable => (
+                  <label key={variable.name} className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+                    <span>{variable.label}</span>
+                    <input
+                      type="text"
+                      value={variables[variable.name] ?? ''}
+                      onChange={(e) => setVariables({ ...variables, [variable.name]: e.target.value })}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="変更内容のメモ（任意）"
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              />
+              <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={activate} onChange={(e) => setActivate(e.target.checked)} />
+                保存した版を有効にする
+              </label>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={runPreview}
+                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 font-medium py-3 px-6 rounded-lg transition-colors duration-200"
+              >
+                👁️ プレビュー
+              </button>
+              <button
+                onClick={saveVersion}
+                disabled={!isModified || isSaving}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors duration-200"
+              >
+                {isSaving ? '保存中...' : '💾 新しい版として保存'}
+              </button>
+            </div>
+
+            {preview && (
+              <div className="space-y-3 border-t border-gray-200 dark:border-gray-600 pt-4">
+                {preview.issues.length > 0 && (
+                  <ul className="text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-md p-3 list-disc list-inside">
+                    {preview.issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+                {preview.messages.map(message => (
+                  <div key={message.role}>
+                    <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      {message.role === 'system' ? 'システムプロンプト' : 'ユーザープロンプト'}
+                    </h3>
+                    <pre className="text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded-md p-3 max-h-96 overflow-y-auto">
+                      {message.content}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
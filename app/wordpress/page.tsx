@@ -0,0 +1,288 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { WordPressSEOPlugin, WordPressSiteSummary } from "@/lib/types";
+
+interface SiteForm {
+  name: string;
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+  seoPlugin: WordPressSEOPlugin;
+}
+
+const EMPTY_FORM: SiteForm = {
+  name: '',
+  siteUrl: '',
+  username: '',
+  applicationPassword: '',
+  seoPlugin: 'yoast',
+};
+
+const SEO_PLUGIN_OPTIONS: { value: WordPressSEOPlugin; label: string }[] = [
+  { value: 'yoast', label: 'Yoast SEO' },
+  { value: 'rankmath', label: 'Rank Math' },
+  { value: 'none', label: '使用しない（SEOメタを送信しない）' },
+];
+
+// アプリケーションパスワードは取得できないため、編集時は空欄から始める
+function toForm(site: WordPressSiteSummary): SiteForm {
+  return {
+    name: site.name,
+    siteUrl: site.siteUrl,
+    username: site.username,
+    applicationPassword: '',
+    seoPlugin: site.seoPlugin,
+  };
+}
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white";
+
+export default function WordPressSites() {
+  const [sites, setSites] = useState<WordPressSiteSummary[]>([]);
+  // 編集中のサイト（null は新規登録）
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SiteForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  // サイトごとの接続テストの結果
+  const [testResults, setTestResults] = useState<Record<string, { ok: boolean; message: string }>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const loadSites = useCallback(async () => {
+    try {
+      const response = await fetch('/api/wordpress/sites');
+      if (!response.ok) throw new Error('WordPressサイト一覧の取得に失敗しました');
+      const data = await response.json();
+      setSites(data.sites);
+    } catch (error) {
+      console.error('WordPressサイト一覧読み込みエラー:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const startEdit = (site: WordPressSiteSummary | null) => {
+    setEditingId(site?.id ?? null);
+    setForm(site ? toForm(site) : EMPTY_FORM);
+    setErrors([]);
+  };
+
+  const saveSite = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const response = await fetch(editingId ? `/api/wordpress/sites/${editingId}` : '/api/wordpress/sites', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.errors ?? [data.error || '不明なエラー']);
+        return;
+      }
+      startEdit(data.site);
+      await loadSites();
+    } catch (error) {
+      console.error('WordPressサイト保存エラー:', error);
+      alert('保存でエラーが発生しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSite = async (site: WordPressSiteSummary) => {
+    if (!confirm(`WordPressサイト「${site.name}」を削除しますか？\n投稿済みの記事はWordPress側に残ります。`)) return;
+    const response = await fetch(`/api/wordpress/sites/${site.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      alert('WordPressサイトの削除に失敗しました');
+      return;
+    }
+    if (editingId === site.id) {
+      startEdit(null);
+    }
+    await loadSites();
+  };
+
+  const testSite = async (site: WordPressSiteSummary) => {
+    setTestingId(site.id);
+    try {
+      const response = await fetch(`/api/wordpress/sites/${site.id}/test`, { method: 'POST' });
+      const data = await response.json();
+      setTestResults(results => ({
+        ...results,
+        [site.id]: response.ok
+          ? { ok: true, message: `接続できました（ユーザー: ${data.user.name}）` }
+          : { ok: false, message: data.error || '接続テストに失敗しました' },
+      }));
+    } catch (error) {
+      console.error('WordPress接続テストエラー:', error);
+      setTestResults(results => ({ ...results, [site.id]: { ok: false, message: '接続テストでエラーが発生しました' } }));
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const canSave = form.siteUrl.trim() && form.username.trim() && (editingId || form.applicationPassword.trim());
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <header className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            📰 WordPress連携
+          </h1>
+          <div className="flex gap-4">
+            <Link href="/brands" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              🏷️ ブランド
+            </Link>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+              ← 記事生成に戻る
+            </Link>
+          </div>
+        </header>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">登録済みのサイト</h2>
+            <button
+              onClick={() => startEdit(null)}
+              className="bg-blue-50 hover:bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-md text-sm font-medium"
+            >
+              ＋ 新規登録
+            </button>
+          </div>
+          {sites.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">サイトはまだ登録されていません。</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+              {sites.map(site => (
+                <li key={site.id} className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <span className="font-medium">{site.name}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {site.siteUrl} / {site.username} / {SEO_PLUGIN_OPTIONS.find(option => option.value === site.seoPlugin)?.label}
+                      </span>
+                    </div>
+                    <div className="flex gap-2 shrink-0 text-xs">
+                      <button
+                        onClick={() => testSite(site)}
+                        disabled={testingId === site.id}
+                        className="bg-blue-50 hover:bg-blue-100 disabled:opacity-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 px-3 py-1 rounded-md font-medium"
+                      >
+                        {testingId === site.id ? '確認中...' : '接続テスト'}
+                      </button>
+                      <button
+                        onClick={() => startEdit(site)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 px-3 py-1 rounded-md font-medium"
+                      >
+                        編集
+                      </button>
+                      <button
+                        onClick={() => deleteSite(site)}
+                        className="bg-red-50 hover:bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 px-3 py-1 rounded-md font-medium"
+                      >
+                        削除
+                      </button>
+                    </div>
+                  </div>
+                  {testResults[site.id] && (
+                    <p className={`mt-1 text-xs ${testResults[site.id].ok ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                      {testResults[site.id].message}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {editingId ? 'サイトの編集' : '新しいサイト'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-gray-600 dark:text-gray-400">
+            <label className="flex flex-col gap-1">
+              <span>表示名</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="省略時はサイトURL"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>サイトURL *</span>
+              <input
+                type="url"
+                value={form.siteUrl}
+                onChange={(e) => setForm({ ...form, siteUrl: e.target.value })}
+                placeholder="https://example.com"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>ユーザー名 *</span>
+              <input
+                type="text"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>アプリケーションパスワード {editingId ? '' : '*'}</span>
+              <input
+                type="password"
+                value={form.applicationPassword}
+                onChange={(e) => setForm({ ...form, applicationPassword: e.target.value })}
+                placeholder={editingId ? '変更しない場合は空欄' : 'xxxx xxxx xxxx xxxx xxxx xxxx'}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>SEOプラグイン</span>
+              <select
+                value={form.seoPlugin}
+                onChange={(e) => setForm({ ...form, seoPlugin: e.target.value as WordPressSEOPlugin })}
+                className={inputClass}
+              >
+                {SEO_PLUGIN_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            アプリケーションパスワードは WordPress の「ユーザー → プロフィール → アプリケーションパスワード」で発行します。
+            SEOメタは、プラグインのメタキーが REST API で更新できるよう登録されている場合に反映されます。
+          </p>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-md p-3 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            onClick={saveSite}
+            disabled={!canSave || isSaving}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors duration-200"
+          >
+            {isSaving ? '保存中...' : '💾 保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations, extractStatistics } from './article';
+
+describe('extractStatistics', () => {
+  it('単位付きの数値・小数・100以上の数値を抽出する', () => {
+    expect(extractStatistics('導入後に工数が30%削減され、2.5倍の速度で、1200社が利用しています')).toEqual(['30', '2.5', '1200']);
+  });
+
+  it('見出しの番号や個数のような小さな整数は除く', () => {
+    expect(extractStatistics('ステップ1では3つのポイントを確認します')).toEqual([]);
+  });
+
+  it('全角数字と桁区切りを正規化する', () => {
+    expect(extractStatistics('売上は１，５００万円でした')).toEqual(['1500']);
+  });
+
+  it('同じ数値は1回だけ返す', () => {
+    expect(extractStatistics('20%の改善。さらに20%の改善')).toEqual(['20']);
+  });
+});
+
+describe('extractCitations', () => {
+  it('本文中の出典IDを登場順に重複なく返す', () => {
+    expect(extractCitations('離職率が下がった[S2]。売上が伸びた[S1, S2]。費用が減った[S3、S1]。')).toEqual(['S2', 'S1', 'S3']);
+  });
+
+  it('出典IDの形式でない角括弧は無視する', () => {
+    expect(extractCitations('[注1] と [S] と [Sx] は出典ではない')).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { isFullWidth } from './seo-length';
+import { ArticleSection, ArticleSource, GeneratedArticle } from './types';
+
+// セクションを見出し・本文・サブセクションのプレーンテキストに変換する
+export function sectionToPlainText(section: ArticleSection): string {
+  return `${section.heading}\n${section.content}\n${section.subheadings?.map(sub => `${sub.title}\n${sub.content}`).join('\n') || ''}`;
+}
+
+// 記事全体（FAQを含む）をプレーンテキストに変換する（SEO生成や差分計測の入力に使用）
+export function articleToPlainText(article: GeneratedArticle): string {
+  const faq = article.faq?.map(item => `${item.question}\n${item.answer}`) ?? [];
+  return [...article.sections.map(sectionToPlainText), ...faq].join('\n');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const normalized = text.replace(/\s+/g, '');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const gram = normalized.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * 文字バイグラムのDice係数による2つのテキストの類似度（0〜1、1で同一）。
+ * 日本語のように単語境界がないテキストでも安定して比較できる。
+ */
+export function textSimilarity(a: string, b: string): number {
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let totalA = 0;
+  let totalB = 0;
+  let overlap = 0;
+  gramsA.forEach(count => { totalA += count; });
+  gramsB.forEach(count => { totalB += count; });
+  if (totalA === 0 && totalB === 0) {
+    return 1;
+  }
+  gramsA.forEach((count, gram) => {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+  });
+  return (2 * overlap) / (totalA + totalB);
+}
+
+// 空白を除いた文字数（日本語の文字数目安に使用）
+export function countCharacters(text: string): number {
+  return [...text.replace(/\s+/g, '')].length;
+}
+
+/**
+ * テキストのトークン数の目安（埋め込みモデルのトークナイザーに依存しない概算）。
+ * 全角文字は1文字1トークン、それ以外は空白を除いて4文字1トークンとして数える。
+ */
+export function estimateTokens(text: string): number {
+  let fullWidth = 0;
+  let other = 0;
+  for (const char of text.replace(/\s+/g, '')) {
+    if (isFullWidth(char)) {
+      fullWidth++;
+    } else {
+      other++;
+    }
+  }
+  return fullWidth + Math.ceil(other / 4);
+}
+
+// 段落（改行区切り）に分割する
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n+/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
+
+// 文に分割する（文末の句点・感嘆符・疑問符は直前の文に含める）
+export function splitSentences(text: string): string[] {
+  return splitParagraphs(text).flatMap(paragraph =>
+    (paragraph.match(/[^。！？!?]+[。！？!?]*/g) || []).map(sentence => sentence.trim()).filter(Boolean)
+  );
+}
+
+// 統計・数値的な主張とみなす単位（「3つ」「ステップ1」のような序数・個数は除く）
+const STATISTIC_UNIT_PATTERN = '%|倍|円|ドル|万|億|兆|千|件|人|名|社|時間|分|秒|日|週間|ヶ月|か月|カ月|年|割|点|ポイント|pt';
+const NUMBER_PATTERN = new RegExp(`(\\d+(?:,\\d{3})*(?:\\.\\d+)?)\\s*(${STATISTIC_UNIT_PATTERN})?`, 'g');
+
+/**
+ * テキスト中の統計・数値的な主張に使われる数値を抽出する（全角数字・桁区切りは正規化する）。
+ * 単位付きの数値、小数、100以上の数値を対象とし、見出しの番号のような小さな整数は除く。
+ */
+export function extractStatistics(text: string): string[] {
+  const values = new Set<string>();
+  for (const match of text.normalize('NFKC').matchAll(NUMBER_PATTERN)) {
+    const value = match[1].replace(/,/g, '');
+    if (match[2] || value.includes('.') || Number(value) >= 100) {
+      values.add(value);
+    }
+  }
+  return [...values];
+}
+
+// 本文中の出典ID（[S1] または [S1, S2] の形式）
+export const CITATION_PATTERN = /\[(S\d+(?:\s*[,、，]\s*S\d+)*)\]/g;
+
+// テキスト中で参照されている出典ID（重複なし、登場順）
+export function extractCitations(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    match[1].split(/\s*[,、，]\s*/).forEach(id => ids.add(id));
+  }
+  return [...ids];
+}
+
+// 記事の出典のうち、本文・FAQで参照されているもの（編集で参照がなくなった出典は除く）
+export function citedSources(article: GeneratedArticle): ArticleSource[] {
+  if (!article.sources?.length) return [];
+  const cited = new Set(extractCitations(articleToPlainText(article)));
+  return article.sources.filter(source => cited.has(source.id));
+}
@@ -0,0 +1,72 @@
+import { sectionToPlainText } from '@/lib/article';
+import { GeneratedArticle } from '@/lib/types';
+import { AUDIT_LOCALE_RULES, DEFAULT_AUDIT_OPTIONS } from './locale';
+import { AUDIT_RULES, countKeyword, measureLength, passiveSentenceRatio } from './rules';
+import { AuditOptions, AuditReport, AuditRuleId, AuditSeverity, SectionAudit } from './types';
+
+export type {
+  AuditFinding,
+  AuditLengthUnit,
+  AuditOptions,
+  AuditReport,
+  AuditRuleId,
+  AuditSeverity,
+  LengthRange,
+  SectionAudit,
+  SectionAuditMetrics,
+} from './types';
+
+export { AUDIT_LOCALE_RULES, DEFAULT_AUDIT_OPTIONS } from './locale';
+export type { AuditLocaleRules } from './locale';
+
+// 指摘1件あたりの減点
+const SEVERITY_PENALTY: Record<AuditSeverity, number> = {
+  error: 15,
+  warning: 7,
+  info: 2,
+};
+
+/**
+ * 記事をLLMO向けの執筆ルールに照らして採点する（LLMを使わない決定的な解析）。
+ * 判定パターンと長さの目安は記事の言語（未設定は日本語）で選ぶ。
+ * 各セクションは100点から指摘ごとに減点し、記事全体のスコアはセクションの平均とする。
+ */
+export function auditArticle(article: GeneratedArticle, options: Partial<AuditOptions> = {}): AuditReport {
+  const locale = article.locale ?? 'ja';
+  const rules = AUDIT_LOCALE_RULES[locale];
+  const resolved: AuditOptions = { ...DEFAULT_AUDIT_OPTIONS[locale], ...options };
+  const seenTerms = new Set<string>();
+  const ruleCounts: Record<AuditRuleId, number> = {
+    demonstrative_start: 0,
+    section_length: 0,
+    keyword_frequency: 0,
+    undefined_jargon: 0,
+    long_sentence: 0,
+    passive_voice: 0,
+  };
+
+  const sections: SectionAudit[] = article.sections.map((section, sectionIndex) => {
+    const findings = AUDIT_RULES.flatMap(rule => rule({ section, options: resolved, rules, seenTerms }));
+    findings.forEach(finding => { ruleCounts[finding.rule]++; });
+
+    const penalty = findings.reduce((total, finding) => total + SEVERITY_PENALTY[finding.severity], 0);
+    return {
+      sectionIndex,
+      heading: section.heading,
+      score: Math.max(0, 100 - penalty),
+      metrics: {
+        length: measureLength(section.content, resolved.lengthUnit),
+        keywordCount: resolved.keyword ? countKeyword(sectionToPlainText(section), resolved.keyword) : 0,
+        sentenceCount: rules.splitSentences(section.content).length,
+        passiveRatio: passiveSentenceRatio(section, rules),
+      },
+      findings,
+    };
+  });
+
+  const score = sections.length === 0
+    ? 0
+    : Math.round(sections.reduce((total, section) => total + section.score, 0) / sections.length);
+
+  return { score, locale, sections, ruleCounts, options: resolved };
+}
@@ -0,0 +1,144 @@
+import { splitSentences } from '@/lib/article';
+import { Locale } from '@/lib/types';
+import { AuditOptions } from './types';
+
+// 言語ごとの監査ルールのパターン
+export interface AuditLocaleRules {
+  // 段落冒頭の指示語（前の段落に依存するため、チャンク単体で意味が通らない）
+  demonstrative: RegExp;
+  demonstrativeExceptions?: RegExp;
+  splitSentences: (text: string) => string[];
+  // 略語以外の専門用語の候補（長いカタカナ語など）
+  jargon?: RegExp;
+  // 用語（正規表現にエスケープ済み）が文中で定義されているとみなす表現
+  definitions: (term: string) => RegExp[];
+  // 受動態の文
+  passive: RegExp;
+}
+
+// 空白に続く大文字・数字の前のピリオドで区切る（小数点・略語の途中では区切らない近似）
+function splitSpacedSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(paragraph => paragraph.split(/(?<=[.!?])\s+(?=["'(\[]?[\p{Lu}\p{N}\p{Script=Hangul}])/u))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+const CHINESE_RULES: Omit<AuditLocaleRules, 'demonstrative' | 'definitions'> = {
+  demonstrativeExceptions: /^(?:此外|那么|那麼)/,
+  splitSentences,
+  // 「被」「遭到」による受動態
+  passive: /被|遭到/,
+};
+
+export const AUDIT_LOCALE_RULES: Record<Locale, AuditLocaleRules> = {
+  ja: {
+    demonstrative: /^(?:こうした|そうした|こちら|そちら|それ|これ|あれ|この|その|あの|こう|そう)/,
+    demonstrativeExceptions: /^(?:その他|そのまま)/,
+    splitSentences,
+    jargon: /[ァ-ヶー]{8,}/g,
+    definitions: term => [
+      // 用語（説明） / 説明（用語）
+      new RegExp(`${term}[（(]`),
+      new RegExp(`[（(]${term}[）)、,]`),
+      // 用語とは… / 用語は…の略・のこと・を指す・を意味する
+      new RegExp(`${term}」?(?:とは|は、?[^。]*?(?:の略|のこと|を指|を意味|と呼ば|と定義))`),
+      // 用語：説明
+      new RegExp(`${term}[：:]`),
+    ],
+    // 「〜される」「〜られた」「〜使われる」等の受動態（未然形＋れる／られる）
+    // 可能・尊敬の「られる」や「流れる」のような語も拾う近似判定
+    passive: /[わかがさたまばなら]れ(?:る|た|て|ます|ました|ません|ない|ず|れば)/,
+  },
+  en: {
+    demonstrative: /^(?:This|That|These|Those|It|They|Such)\b/,
+    splitSentences: splitSpacedSentences,
+    definitions: term => [
+      new RegExp(`${term}\\s*\\(`),
+      new RegExp(`\\(${term}[),]`),
+      // TERM is / refers to / stands for / means ...
+      new RegExp(`${term}\\)?,?\\s+(?:is|are|refers to|stands for|means|describes)\\b`),
+      new RegExp(`${term}\\s*:`),
+    ],
+    // be動詞＋過去分詞（不規則動詞の一部は拾えない近似判定）
+    passive: /\b(?:is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?\w+(?:ed|en)\b/i,
+  },
+  'zh-Hans': {
+    ...CHINESE_RULES,
+    demonstrative: /^(?:这|那|它|此|该)/,
+    definitions: term => [
+      new RegExp(`${term}[（(]`),
+      new RegExp(`[（(]${term}[）)、,，]`),
+      new RegExp(`${term}[”」]?(?:是指|指的是|即|是[^。]*?的(?:缩写|简称))`),
+      new RegExp(`${term}[：:]`),
+    ],
+  },
+  'zh-Hant': {
+    ...CHINESE_RULES,
+    demonstrative: /^(?:這|那|它|此|該)/,
+    definitions: term => [
+      new RegExp(`${term}[（(]`),
+      new RegExp(`[（(]${term}[）)、,，]`),
+      new RegExp(`${term}[」”]?(?:是指|指的是|即|是[^。]*?的(?:縮寫|簡稱))`),
+      new RegExp(`${term}[：:]`),
+    ],
+  },
+  ko: {
+    demonstrative: /^(?:이러한|그러한|이런|그런|이것|그것|이는|이 |그 |저 )/,
+    splitSentences: splitSpacedSentences,
+    definitions: term => [
+      new RegExp(`${term}\\s*[（(]`),
+      new RegExp(`[（(]${term}[）),]`),
+      // 용어란… / 용어는 …의 약자・을 의미・를 뜻
+      new RegExp(`${term}(?:\\(.*?\\))?(?:이?란|은|는)\\s?[^.]*?(?:약자|약어|의미|뜻|말한다|가리킨다)`),
+      new RegExp(`${term}\\s*:`),
+    ],
+    // 「〜되다」「〜받다」「〜어지다」による受動態の近似判定
+    passive: /(?:되었|되어|됩니다|된다|되는|받았|받는|받습니다|어지|아지)/,
+  },
+};
+
+// 記事生成プロンプト（generate-article）で言語ごとに指示している目安
+export const DEFAULT_AUDIT_OPTIONS: Record<Locale, AuditOptions> = {
+  ja: {
+    sectionLength: { min: 400, max: 600 },
+    subheadingLength: { min: 200, max: 300 },
+    lengthUnit: 'characters',
+    keywordFrequency: { min: 2, max: 3 },
+    maxSentenceLength: 80,
+    maxPassiveRatio: 0.3,
+  },
+  en: {
+    sectionLength: { min: 250, max: 400 },
+    subheadingLength: { min: 120, max: 200 },
+    lengthUnit: 'words',
+    keywordFrequency: { min: 2, max: 3 },
+    maxSentenceLength: 30,
+    maxPassiveRatio: 0.3,
+  },
+  'zh-Hans': {
+    sectionLength: { min: 400, max: 600 },
+    subheadingLength: { min: 200, max: 300 },
+    lengthUnit: 'characters',
+    keywordFrequency: { min: 2, max: 3 },
+    maxSentenceLength: 80,
+    maxPassiveRatio: 0.3,
+  },
+  'zh-Hant': {
+    sectionLength: { min: 400, max: 600 },
+    subheadingLength: { min: 200, max: 300 },
+    lengthUnit: 'characters',
+    keywordFrequency: { min: 2, max: 3 },
+    maxSentenceLength: 80,
+    maxPassiveRatio: 0.3,
+  },
+  ko: {
+    sectionLength: { min: 500, max: 800 },
+    subheadingLength: { min: 250, max: 400 },
+    lengthUnit: 'characters',
+    keywordFrequency: { min: 2, max: 3 },
+    maxSentenceLength: 100,
+    maxPassiveRatio: 0.3,
+  },
+};
@@ -0,0 +1,198 @@
+import { countCharacters, sectionToPlainText, splitParagraphs } from '@/lib/article';
+import { ArticleSection } from '@/lib/types';
+import { AuditLocaleRules } from './locale';
+import { AuditFinding, AuditLengthUnit, AuditOptions, AuditSeverity, LengthRange } from './types';
+
+export interface RuleContext {
+  section: ArticleSection;
+  options: AuditOptions;
+  // 記事の言語の判定パターン
+  rules: AuditLocaleRules;
+  // 記事内で既に登場した専門用語（初出のみを評価するため、セクションをまたいで共有する）
+  seenTerms: Set<string>;
+}
+
+// 本文とサブセクションを、指摘の位置（subheadingIndex）付きで列挙する
+function textBlocks(section: ArticleSection): { text: string; subheadingIndex?: number }[] {
+  return [
+    { text: section.content },
+    ...(section.subheadings || []).map((sub, subheadingIndex) => ({ text: sub.content, subheadingIndex })),
+  ];
+}
+
+function excerpt(text: string, length = 40): string {
+  const chars = [...text];
+  return chars.length > length ? `${chars.slice(0, length).join('')}…` : text;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const UNIT_LABELS: Record<AuditLengthUnit, string> = {
+  characters: '文字',
+  words: '語',
+};
+
+// 文字数（空白を除く）または単語数
+export function measureLength(text: string, unit: AuditLengthUnit): number {
+  return unit === 'words' ? text.split(/\s+/).filter(Boolean).length : countCharacters(text);
+}
+
+// 箇条書き・番号付きリストの記号
+const LIST_MARKER_PATTERN = /^(?:[-*・•]|\d+[.．)）])\s*/;
+
+export function checkDemonstrativeStart({ section, rules }: RuleContext): AuditFinding[] {
+  return textBlocks(section).flatMap(({ text, subheadingIndex }) =>
+    splitParagraphs(text)
+      .map(paragraph => paragraph.replace(LIST_MARKER_PATTERN, ''))
+      .filter(paragraph => rules.demonstrative.test(paragraph) && !rules.demonstrativeExceptions?.test(paragraph))
+      .map(paragraph => ({
+        rule: 'demonstrative_start' as const,
+        severity: 'warning' as const,
+        message: `段落が指示語「${paragraph.match(rules.demonstrative)![0].trim()}」で始まっています。指している対象を具体的な名詞で書いてください`,
+        excerpt: excerpt(paragraph),
+        subheadingIndex,
+      }))
+  );
+}
+
+// 目安の範囲からのずれが大きいほど重くする（50%以上のずれはエラー）
+function lengthSeverity(length: number, range: LengthRange): AuditSeverity | null {
+  if (length >= range.min && length <= range.max) return null;
+  const deviation = length < range.min ? (range.min - length) / range.min : (length - range.max) / range.max;
+  return deviation >= 0.5 ? 'error' : 'warning';
+}
+
+export function checkSectionLength({ section, options }: RuleContext): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const unit = UNIT_LABELS[options.lengthUnit];
+  const length = measureLength(section.content, options.lengthUnit);
+  const severity = lengthSeverity(length, options.sectionLength);
+  if (severity) {
+    findings.push({
+      rule: 'section_length',
+      severity,
+      message: `本文が${length}${unit}です（目安: ${options.sectionLength.min}〜${options.sectionLength.max}${unit}）`,
+    });
+  }
+
+  (section.subheadings || []).forEach((sub, subheadingIndex) => {
+    const subLength = measureLength(sub.content, options.lengthUnit);
+    const subSeverity = lengthSeverity(subLength, options.subheadingLength);
+    if (subSeverity) {
+      findings.push({
+        rule: 'section_length',
+        severity: subSeverity,
+        message: `サブセクション「${sub.title}」が${subLength}${unit}です（目安: ${options.subheadingLength.min}〜${options.subheadingLength.max}${unit}）`,
+        subheadingIndex,
+      });
+    }
+  });
+  return findings;
+}
+
+export function countKeyword(text: string, keyword: string): number {
+  if (!keyword.trim()) return 0;
+  return (text.match(new RegExp(escapeRegExp(keyword.trim()), 'gi')) || []).length;
+}
+
+export function checkKeywordFrequency({ section, options }: RuleContext): AuditFinding[] {
+  if (!options.keyword?.trim()) return [];
+
+  const count = countKeyword(sectionToPlainText(section), options.keyword);
+  const { min, max } = options.keywordFrequency;
+  if (count === 0) {
+    return [{ rule: 'keyword_frequency', severity: 'error', message: `キーワード「${options.keyword}」が含まれていません（目安: ${min}〜${max}回）` }];
+  }
+  if (count < min) {
+    return [{ rule: 'keyword_frequency', severity: 'warning', message: `キーワード「${options.keyword}」が${count}回しか含まれていません（目安: ${min}〜${max}回）` }];
+  }
+  if (count > max) {
+    return [{
+      rule: 'keyword_frequency',
+      // 目安を大きく超える場合はキーワードの詰め込みとみなす
+      severity: count > max * 2 ? 'warning' : 'info',
+      message: `キーワード「${options.keyword}」が${count}回含まれています（目安: ${min}〜${max}回）`,
+    }];
+  }
+  return [];
+}
+
+// 略語（RAG、E-E-A-T など）と言語ごとの候補（日本語の長いカタカナ語）を専門用語の候補とする
+const ACRONYM_PATTERN = /\b[A-Z](?:[A-Z0-9]|-[A-Z0-9])+\b/g;
+// 説明なしで通じる一般的な略語
+const COMMON_ACRONYMS = new Set(['AI', 'IT', 'URL', 'PC', 'PDF', 'HTML', 'CSV', 'OK', 'FAQ', 'SNS', 'Q&A']);
+
+function isDefinedInSentence(term: string, sentence: string, rules: AuditLocaleRules): boolean {
+  return rules.definitions(escapeRegExp(term)).some(pattern => pattern.test(sentence));
+}
+
+export function checkUndefinedJargon({ section, options, rules, seenTerms }: RuleContext): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const keyword = options.keyword?.trim().toLowerCase();
+
+  textBlocks(section).forEach(({ text, subheadingIndex }) => {
+    rules.splitSentences(text).forEach(sentence => {
+      const candidates: { term: string; severity: AuditSeverity }[] = [
+        ...(sentence.match(ACRONYM_PATTERN) || []).map(term => ({ term, severity: 'warning' as const })),
+        ...((rules.jargon && sentence.match(rules.jargon)) || []).map(term => ({ term, severity: 'info' as const })),
+      ];
+
+      candidates.forEach(({ term, severity }) => {
+        if (seenTerms.has(term) || COMMON_ACRONYMS.has(term) || keyword?.includes(term.toLowerCase())) return;
+        seenTerms.add(term);
+        if (!isDefinedInSentence(term, sentence, rules)) {
+          findings.push({
+            rule: 'undefined_jargon',
+            severity,
+            message: `専門用語「${term}」が初出時に定義されていません`,
+            excerpt: excerpt(sentence),
+            subheadingIndex,
+          });
+        }
+      });
+    });
+  });
+  return findings;
+}
+
+export function checkLongSentences({ section, options, rules }: RuleContext): AuditFinding[] {
+  const unit = UNIT_LABELS[options.lengthUnit];
+  return textBlocks(section).flatMap(({ text, subheadingIndex }) =>
+    rules.splitSentences(text)
+      .filter(sentence => measureLength(sentence, options.lengthUnit) > options.maxSentenceLength)
+      .map(sentence => ({
+        rule: 'long_sentence' as const,
+        severity: 'warning' as const,
+        message: `一文が${measureLength(sentence, options.lengthUnit)}${unit}あります（目安: ${options.maxSentenceLength}${unit}以内）。一文一義に分割してください`,
+        excerpt: excerpt(sentence),
+        subheadingIndex,
+      }))
+  );
+}
+
+export function passiveSentenceRatio(section: ArticleSection, rules: AuditLocaleRules): number {
+  const sentences = textBlocks(section).flatMap(({ text }) => rules.splitSentences(text));
+  if (sentences.length === 0) return 0;
+  return sentences.filter(sentence => rules.passive.test(sentence)).length / sentences.length;
+}
+
+export function checkPassiveVoice({ section, options, rules }: RuleContext): AuditFinding[] {
+  const ratio = passiveSentenceRatio(section, rules);
+  if (ratio <= options.maxPassiveRatio) return [];
+  return [{
+    rule: 'passive_voice',
+    severity: 'warning',
+    message: `受動態の文が${Math.round(ratio * 100)}%あります（目安: ${Math.round(options.maxPassiveRatio * 100)}%以下）。主語と述語を明確にしてください`,
+  }];
+}
+
+export const AUDIT_RULES: ((context: RuleContext) => AuditFinding[])[] = [
+  checkDemonstrativeStart,
+  checkSectionLength,
+  checkKeywordFrequency,
+  checkUndefinedJargon,
+  checkLongSentences,
+  checkPassiveVoice,
+];
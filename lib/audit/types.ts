@@ -0,0 +1,75 @@
+import { Locale } from '@/lib/types';
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+// - demonstrative_start: 段落が指示語（それ・この・その等）で始まっている
+// - section_length: セクション・サブセクションの長さ（文字数・単語数）が目安の範囲外
+// - keyword_frequency: セクション内のキーワード出現回数が目安の範囲外
+// - undefined_jargon: 専門用語・略語が初出時に定義されていない
+// - long_sentence: 一文が長すぎる
+// - passive_voice: 受動態の文の割合が高い
+export type AuditRuleId =
+  | 'demonstrative_start'
+  | 'section_length'
+  | 'keyword_frequency'
+  | 'undefined_jargon'
+  | 'long_sentence'
+  | 'passive_voice';
+
+export interface AuditFinding {
+  rule: AuditRuleId;
+  severity: AuditSeverity;
+  message: string;
+  // 該当箇所の抜粋
+  excerpt?: string;
+  // 指定時はサブセクションでの指摘
+  subheadingIndex?: number;
+}
+
+export interface SectionAuditMetrics {
+  // 本文の長さ（options.lengthUnit の単位。文字数は空白を除く）
+  length: number;
+  // 本文・サブセクションを合わせたキーワード出現回数
+  keywordCount: number;
+  sentenceCount: number;
+  // 受動態を含む文の割合（0〜1）
+  passiveRatio: number;
+}
+
+export interface SectionAudit {
+  sectionIndex: number;
+  heading: string;
+  score: number;
+  metrics: SectionAuditMetrics;
+  findings: AuditFinding[];
+}
+
+export interface LengthRange {
+  min: number;
+  max: number;
+}
+
+// 英語は単語数、それ以外の言語は文字数で長さを測る
+export type AuditLengthUnit = 'characters' | 'words';
+
+export interface AuditOptions {
+  // 省略時はキーワード頻度のルールを評価しない
+  keyword?: string;
+  sectionLength: LengthRange;
+  subheadingLength: LengthRange;
+  // sectionLength・subheadingLength・maxSentenceLength の単位
+  lengthUnit: AuditLengthUnit;
+  keywordFrequency: LengthRange;
+  maxSentenceLength: number;
+  maxPassiveRatio: number;
+}
+
+export interface AuditReport {
+  // 0〜100（各セクションのスコアの平均）
+  score: number;
+  // 判定パターンと目安の選択に使った記事の言語
+  locale: Locale;
+  sections: SectionAudit[];
+  ruleCounts: Record<AuditRuleId, number>;
+  options: AuditOptions;
+}
@@ -0,0 +1,135 @@
+import { AttributionPolicy, BrandAuthor, BrandProfile, SEOMetadata } from './types';
+
+// 生成・エクスポートで参照するブランド情報（保存用のフィールドを除く）
+export type BrandSettings = Omit<BrandProfile, 'id' | 'isDefault' | 'createdAt' | 'updatedAt'>;
+
+// 解決済みのブランド（組み込みの既定ブランドには id がない）
+export type ResolvedBrand = BrandSettings & { id?: string };
+
+// プロファイルが登録されていない場合に使用する既定のブランド
+export const DEFAULT_BRAND: BrandSettings = {
+  organizationName: 'CloudFlow Dynamics',
+  authors: [],
+  attribution: 'full',
+  attributionUrl: 'https://github.com/ukenn2112/llmo-content',
+};
+
+const ATTRIBUTION_POLICIES: AttributionPolicy[] = ['full', 'brand', 'none'];
+
+export function isAttributionPolicy(value: unknown): value is AttributionPolicy {
+  return typeof value === 'string' && (ATTRIBUTION_POLICIES as string[]).includes(value);
+}
+
+// 記事の著者（先頭の著者）
+export function primaryAuthor(brand: BrandSettings): BrandAuthor | undefined {
+  return brand.authors[0];
+}
+
+// 構造化データ・フロントマターに記載する著者名（著者が未登録なら組織名）
+export function authorDisplayName(brand: BrandSettings): string {
+  return primaryAuthor(brand)?.name || brand.organizationName;
+}
+
+// プロンプトに渡す著者紹介（例: 「山田太郎（編集長）: 業界歴15年、中小企業診断士」）
+export function formatAuthorProfile(author: BrandAuthor): string {
+  const name = author.jobTitle ? `${author.name}（${author.jobTitle}）` : author.name;
+  return author.credentials ? `${name}: ${author.credentials}` : name;
+}
+
+// プロンプトテンプレートの変数に渡すブランド情報
+export function brandPromptFields(brand: BrandSettings): { toneGuidelines?: string; authorProfile?: string; author: string } {
+  const author = primaryAuthor(brand);
+  return {
+    toneGuidelines: brand.toneGuidelines,
+    authorProfile: author && formatAuthorProfile(author),
+    author: authorDisplayName(brand),
+  };
+}
+
+/**
+ * SEOメタデータの構造化データに著者・発信元を設定する。
+ * LLMが出力した author は信頼せず、ブランドプロファイルの値で上書きする。
+ */
+export function applyBrandToSEOMetadata(seoMetadata: SEOMetadata, brand: BrandSettings): SEOMetadata {
+  if (!seoMetadata.structuredData) {
+    return seoMetadata;
+  }
+  const author = primaryAuthor(brand);
+  return {
+    ...seoMetadata,
+    structuredData: {
+      ...seoMetadata.structuredData,
+      author: authorDisplayName(brand),
+      authorDetails: author && (author.jobTitle || author.url || author.credentials)
+        ? { jobTitle: author.jobTitle, url: author.url, credentials: author.credentials }
+        : undefined,
+      publisher: { name: brand.organizationName, url: brand.siteUrl, logo: brand.logoUrl },
+    },
+  };
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * APIで受け取ったブランドプロファイルを検証し、空の項目を取り除く。
+ * 問題がある場合は errors に理由を入れて返す。
+ */
+export function normalizeBrandSettings(input: Partial<BrandSettings>): { brand: BrandSettings; errors: string[] } {
+  const errors: string[] = [];
+  const organizationName = optionalText(input.organizationName) ?? '';
+  if (!organizationName) {
+    errors.push('組織名は必須です');
+  }
+
+  const authors: BrandAuthor[] = (Array.isArray(input.authors) ? input.authors : [])
+    .map(author => ({
+      name: optionalText(author?.name) ?? '',
+      jobTitle: optionalText(author?.jobTitle),
+      credentials: optionalText(author?.credentials),
+      url: optionalText(author?.url),
+    }))
+    .filter(author => author.name || author.jobTitle || author.credentials || author.url);
+  authors.forEach((author, index) => {
+    if (!author.name) {
+      errors.push(`${index + 1}人目の著者の名前が入力されていません`);
+    }
+  });
+
+  const urls: [string, string | undefined][] = [
+    ['サイトURL', optionalText(input.siteUrl)],
+    ['ロゴURL', optionalText(input.logoUrl)],
+    ['クレジットのリンク先', optionalText(input.attributionUrl)],
+    ...authors.map((author, index): [string, string | undefined] => [`${index + 1}人目の著者のURL`, author.url]),
+  ];
+  urls.forEach(([label, url]) => {
+    if (url && !isHttpUrl(url)) {
+      errors.push(`${label}は http:// または https:// で始まるURLを入力してください`);
+    }
+  });
+
+  return {
+    brand: {
+      organizationName,
+      siteUrl: optionalText(input.siteUrl),
+      logoUrl: optionalText(input.logoUrl),
+      siteDescription: optionalText(input.siteDescription),
+      authors,
+      toneGuidelines: optionalText(input.toneGuidelines),
+      attribution: isAttributionPolicy(input.attribution) ? input.attribution : 'full',
+      footerText: optionalText(input.footerText),
+      attributionUrl: optionalText(input.attributionUrl),
+    },
+    errors,
+  };
+}
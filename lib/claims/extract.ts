@@ -0,0 +1,146 @@
+import { CITATION_PATTERN } from '@/lib/article';
+import { ClaimKind } from './types';
+
+export interface ClaimCandidate {
+  kind: ClaimKind;
+  text: string;
+  // 出典の本文で確認する語句（数値は桁区切りを除いた値、組織名は法人格を除いた名前）
+  evidence: string;
+  // 出典がなくても一般的な記述とみなす理由（該当しない場合は undefined）
+  generic?: string;
+}
+
+// 文の区切り（句点・感嘆符・疑問符、空白が続くピリオド、改行）。文末の出典ID（。[S1]）は直前の文に含め、略語（Corp. など）のピリオドでは区切らない
+const ABBREVIATIONS = '(?<!\\b(?:Corp|Inc|Ltd|Co|Dr|Mr|Ms|No|vs|etc|e\\.g|i\\.e))';
+const SENTENCE_END = new RegExp(`(?:[。！？!?]+|${ABBREVIATIONS}\\.(?=\\s|$))(?:\\s*${CITATION_PATTERN.source})*|\\n`, 'g');
+
+/**
+ * 主張を判定する単位の文に分ける（返す文は元のテキストの部分文字列）。
+ * 日本語の句点に加えて英語などのピリオドで区切り、小数点では区切らない。
+ */
+export function splitClaimSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
+
+// 出典が必要な単位（割合・倍率・金額）と、目安の範囲であれば一般的な記述とみなす単位（件数・期間）
+const CURRENCY = '[$¥￥€£]';
+const SPECIFIC_UNITS = '%|パーセント|percent|倍|x(?![A-Za-z])|times|円|ドル|万|億|兆|千|割|ポイント|pt|million|billion|元|亿|달러|원|억|만|배';
+const COUNT_UNITS = '件|人|名|社|時間|分|秒|日|週間|ヶ月|か月|カ月|年|hours?|days?|weeks?|months?|years?|users|customers|companies|个月|個月|小时|小時|天|家|개월|시간|명|년|일|주';
+const QUANTITY_PATTERN = new RegExp(
+  `(${CURRENCY}\\s?)?(?<![A-Za-z\\d.,\\-_])(\\d+(?:,\\d{3})*(?:\\.\\d+)?)(?:\\s*(${SPECIFIC_UNITS})|\\s*(${COUNT_UNITS}))?`,
+  'gu'
+);
+// 範囲（3〜6ヶ月）や推奨・目安として示す数値
+const RANGE_AFTER = /^\s*[〜～~\-–]\s*\d/;
+const RANGE_BEFORE = /\d\s*[〜～~\-–]\s*$/;
+const GUIDELINE_PATTERN = /目安|推奨|おすすめ|を目指|を目標|以内に|ごとに|までに|recommend|aim for|at least|no more than|\bevery\b|建议|建議|目标|目標|以内|권장|목표|이내/i;
+
+function extractQuantities(sentence: string): ClaimCandidate[] {
+  const candidates: ClaimCandidate[] = [];
+  for (const match of sentence.matchAll(QUANTITY_PATTERN)) {
+    const [text, currency, number, specificUnit, countUnit] = match;
+    const value = number.replace(/,/g, '');
+    const isYear = /^\d{4}$/.test(value) && Number(value) >= 1900 && Number(value) <= 2100;
+    // 年号（2025年）は主張ではなく日付として扱う
+    if (!currency && !specificUnit && isYear && (!countUnit || countUnit === '年' || countUnit === '년')) continue;
+    if (!currency && !specificUnit && !countUnit && !value.includes('.') && Number(value) < 100) continue;
+
+    const index = match.index ?? 0;
+    const isRange = RANGE_AFTER.test(sentence.slice(index + text.length)) || RANGE_BEFORE.test(sentence.slice(0, index));
+    const generic = !currency && !specificUnit && (isRange || GUIDELINE_PATTERN.test(sentence))
+      ? '目安・推奨として示す数値'
+      : undefined;
+    candidates.push({ kind: 'quantitative', text: text.trim(), evidence: value, generic });
+  }
+  return candidates;
+}
+
+const ORGANIZATION_PATTERNS = [
+  /(?:株式会社|有限会社|合同会社)\s?[\p{Script=Katakana}\p{Script=Han}A-Za-z0-9ー・&]{1,20}/gu,
+  /[\p{Script=Katakana}A-Za-z0-9ー・&]{1,20}\s?(?:株式会社|有限会社|合同会社)/gu,
+  /(?<![A-Za-z0-9&.\-\p{Script=Katakana}ー])(?:[\p{Script=Katakana}ー]{2,}|[A-Z][A-Za-z0-9&.\-]*(?:\s[A-Z][A-Za-z0-9&.\-]*)*)社/gu,
+  /\b[A-Z][A-Za-z0-9&\-]*(?:\s+[A-Z][A-Za-z0-9&\-]*)*,?\s+(?:Inc\.?|Corp\.?|Corporation|Ltd\.?|LLC|GmbH)(?![A-Za-z])/g,
+  /[\p{Script=Han}A-Za-z0-9]{2,10}(?:股份)?有限公司/gu,
+  /(?:주식회사|\(주\))\s?[\p{Script=Hangul}A-Za-z0-9]{1,15}|[\p{Script=Hangul}A-Za-z0-9]{1,15}\s?(?:주식회사|\(주\))/gu,
+];
+const LEGAL_FORM_PATTERN = /株式会社|有限会社|合同会社|社$|,?\s+(?:Inc\.?|Corp\.?|Corporation|Ltd\.?|LLC|GmbH)$|(?:股份)?有限公司|주식회사|\(주\)/g;
+// 記事で一般的に言及される組織（AI検索・検索エンジンの提供元など）
+const WELL_KNOWN_ORGANIZATIONS = [
+  'google', 'グーグル', 'openai', 'microsoft', 'マイクロソフト', 'anthropic', 'meta', 'amazon', 'アマゾン', 'apple', 'アップル',
+  'perplexity', 'ibm', 'nvidia', 'baidu', '百度', '阿里巴巴', '腾讯', '騰訊', 'naver', '네이버', 'kakao', '카카오', '삼성',
+];
+
+// 法人格を除いた組織名（比較用に小文字・空白なしにする）
+function organizationName(text: string): string {
+  return text.replace(LEGAL_FORM_PATTERN, '').replace(/\s+/g, '').toLowerCase();
+}
+
+function extractOrganizations(sentence: string, knownOrganizations: string[]): ClaimCandidate[] {
+  const known = knownOrganizations.map(organizationName).filter(Boolean);
+  const found = new Set<string>();
+  ORGANIZATION_PATTERNS.forEach(pattern => {
+    for (const [text] of sentence.matchAll(pattern)) {
+      found.add(text.trim());
+    }
+  });
+  return [...found].map(text => {
+    const name = organizationName(text);
+    let generic: string | undefined;
+    if (/^[a-z]$/.test(name) || name.includes('某')) {
+      generic = '匿名化された組織';
+    } else if (WELL_KNOWN_ORGANIZATIONS.some(organization => name.startsWith(organization))) {
+      generic = '広く知られた組織';
+    } else if (known.some(organization => name.includes(organization) || organization.includes(name))) {
+      generic = '自社・ブランドの組織';
+    }
+    return { kind: 'organization' as const, text, evidence: name, generic };
+  });
+}
+
+// 自社での導入・検証の経験として述べている文
+const EXPERIENCE_PATTERN = new RegExp([
+  '(?:弊社|当社|私たち|我々)[^。]{0,15}?(?:導入|検証|実績|支援|調査|テスト|実験|経験|事例|プロジェクト)',
+  '\\bwe (?:found|saw|observed|tested|measured|helped|achieved|ran|verified)\\b',
+  '\\bin our (?:tests?|experience|projects?|trials?)\\b',
+  '(?:我们|我們|本公司)[^。]{0,10}?(?:案例|测试|測試|验证|驗證|实践|實踐|客户|客戶|项目|項目)',
+  '(?:저희|당사)[^.]{0,15}?(?:도입|검증|사례|테스트|실험|프로젝트|고객)',
+].join('|'), 'iu');
+// 特定の事例の内容を述べている文
+const SPECIFIC_CASE_PATTERN = /(?:事例|導入例|ケース)(?:では|で|において)|\bin (?:one|a|this|that) case\b|\bcase stud(?:y|ies) (?:shows?|showed|found)\b|案例(?:中|显示|顯示|表明)|사례에서/iu;
+// 事例への言及
+const CASE_PATTERN = /事例|導入例|ケーススタディ|実証実験|case stud(?:y|ies)|案例|사례/iu;
+
+function extractCaseStudy(sentence: string): ClaimCandidate[] {
+  const specific = sentence.match(EXPERIENCE_PATTERN) ?? sentence.match(SPECIFIC_CASE_PATTERN);
+  if (specific) {
+    return [{ kind: 'case_study', text: specific[0], evidence: specific[0] }];
+  }
+  const mention = sentence.match(CASE_PATTERN);
+  return mention ? [{ kind: 'case_study', text: mention[0], evidence: mention[0], generic: '事例への一般的な言及' }] : [];
+}
+
+/**
+ * 全角の英数字・記号を半角にする（文字数を変えないため、正規化後の位置で元のテキストを参照できる）。
+ */
+export function toHalfWidth(text: string): string {
+  return text.replace(/[\uFF01-\uFF5E]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0));
+}
+
+/**
+ * 文から数値・組織名・事例への言及を抽出する（出典IDの [S1] は除き、全角の英数字は半角にして解析する）。
+ * knownOrganizations に含まれる組織（自社・ブランド）は一般的な記述とみなす。
+ */
+export function extractClaimCandidates(sentence: string, knownOrganizations: string[] = []): ClaimCandidate[] {
+  const text = toHalfWidth(sentence.replace(CITATION_PATTERN, ' '));
+  return [...extractQuantities(text), ...extractOrganizations(text, knownOrganizations), ...extractCaseStudy(text)];
+}
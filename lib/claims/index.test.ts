@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedArticle } from '@/lib/types';
+import { extractClaimCandidates, removeClaim, setClaimAccepted, splitClaimSentences, verifyClaims } from './index';
+
+function article(content: string, extra: Partial<GeneratedArticle> = {}): GeneratedArticle {
+  return { title: '業務効率化', sections: [{ heading: '効果', content }], ...extra };
+}
+
+describe('splitClaimSentences', () => {
+  it('文末の出典IDを直前の文に含め、小数点・略語では区切らない', () => {
+    expect(splitClaimSentences('効率が1.5倍になった。[S1] Acme Corp. released it. 次の文')).toEqual([
+      '効率が1.5倍になった。[S1]',
+      'Acme Corp. released it.',
+      '次の文',
+    ]);
+  });
+});
+
+describe('extractClaimCandidates', () => {
+  it('割合・金額は出典が必要な数値として抽出する', () => {
+    const candidates = extractClaimCandidates('費用を30%削減し、年間500万円を節約した');
+    expect(candidates.map(candidate => [candidate.kind, candidate.text, candidate.generic])).toEqual([
+      ['quantitative', '30%', undefined],
+      ['quantitative', '500万', undefined],
+    ]);
+  });
+
+  it('期間の範囲や目安として示す数値は一般的な記述とする', () => {
+    const candidates = extractClaimCandidates('導入には3〜6ヶ月かかります');
+    expect(candidates.every(candidate => candidate.generic)).toBe(true);
+  });
+
+  it('年号と小さな整数は抽出しない', () => {
+    expect(extractClaimCandidates('2025年に3つの機能が追加された')).toEqual([]);
+  });
+
+  it('全角の数字を半角にして出典IDを除いて解析する', () => {
+    expect(extractClaimCandidates('効率が２倍になった[S1]').map(candidate => candidate.evidence)).toEqual(['2']);
+  });
+
+  it('広く知られた組織と自社の組織は一般的な記述とする', () => {
+    const candidates = extractClaimCandidates('Google社と株式会社テスト商事、CloudFlow Dynamics社が参加した', ['CloudFlow Dynamics']);
+    expect(candidates.map(candidate => [candidate.text, candidate.generic])).toEqual([
+      ['株式会社テスト商事', undefined],
+      ['Google社', '広く知られた組織'],
+      ['CloudFlow Dynamics社', '自社・ブランドの組織'],
+    ]);
+  });
+
+  it('自社での検証は出典が必要な事例、事例への言及は一般的な記述とする', () => {
+    const [experience] = extractClaimCandidates('弊社で導入したところ効果があった');
+    expect(experience.kind).toBe('case_study');
+    expect(experience.generic).toBeUndefined();
+    expect(extractClaimCandidates('事例を参考にしましょう')[0]).toMatchObject({ kind: 'case_study', generic: '事例への一般的な言及' });
+  });
+});
+
+describe('verifyClaims', () => {
+  const sources = [{ sourceId: 'S1', content: '導入企業の離職率は１２％低下した。' }];
+
+  it('出典の本文で確認できる数値は根拠ありとする（全角・半角の違いは無視する）', () => {
+    const report = verifyClaims(article('離職率は12%低下しました。[S1]'), { sources });
+    expect(report.claims.map(claim => claim.support)).toEqual(['backed']);
+    expect(report.unresolved).toEqual([]);
+  });
+
+  it('出典のない数値・出典の本文にない数値・参考資料にない出典IDを根拠なしとする', () => {
+    const report = verifyClaims(article('効率が3倍になった。離職率は25%低下した[S1]。売上は40%増えた[S2]。'), { sources });
+    expect(report.counts).toEqual({ backed: 0, generic: 0, unsupported: 3 });
+    expect(report.unresolved.map(claim => claim.reason)).toEqual([
+      '出典のない数値です',
+      '出典 S1 の本文に「25%」が見つかりません',
+      '出典 S2 が参考資料にありません',
+    ]);
+  });
+
+  it('参考資料を指定しない場合は記事の出典の有無だけを確認する', () => {
+    const report = verifyClaims(article('離職率は25%低下した[S1]。', { sources: [{ id: 'S1', title: '導入事例' }] }));
+    expect(report.claims[0].support).toBe('backed');
+  });
+
+  it('サブセクションとFAQの回答も位置付きで確認する', () => {
+    const report = verifyClaims({
+      title: '業務効率化',
+      sections: [{ heading: '効果', content: '', subheadings: [{ title: '事例', content: '費用が20%減った。' }] }],
+      faq: [{ question: '効果は？', answer: '作業時間が半分の50%になります。' }],
+    });
+    expect(report.unresolved.map(claim => claim.location)).toEqual([
+      { sectionIndex: 0, subheadingIndex: 0 },
+      { faqIndex: 0 },
+    ]);
+  });
+
+  it('承認した主張は未確認の主張から除き、承認を取り消すと戻す', () => {
+    const original = article('効率が3倍になった。');
+    const [claim] = verifyClaims(original).unresolved;
+    const accepted = setClaimAccepted(original, claim.id, true);
+    const report = verifyClaims(accepted);
+    expect(report.claims[0].accepted).toBe(true);
+    expect(report.unresolved).toEqual([]);
+    expect(verifyClaims(setClaimAccepted(accepted, claim.id, false)).unresolved).toHaveLength(1);
+  });
+
+  it('文を編集すると承認済みの主張も再確認の対象になる', () => {
+    const original = article('効率が3倍になった。');
+    const [claim] = verifyClaims(original).unresolved;
+    const edited = { ...setClaimAccepted(original, claim.id, true), sections: [{ heading: '効果', content: '効率が4倍になった。' }] };
+    expect(verifyClaims(edited).unresolved).toHaveLength(1);
+  });
+});
+
+describe('removeClaim', () => {
+  it('主張を含む文だけを本文から削除する', () => {
+    const original = article('ツールを導入した。効率が3倍になった。運用は簡単だ。');
+    const [claim] = verifyClaims(original).unresolved;
+    expect(removeClaim(original, claim).sections[0].content).toBe('ツールを導入した。運用は簡単だ。');
+  });
+
+  it('段落が空になった場合は段落ごと削除する', () => {
+    const original = article('最初の段落。\n効率が3倍になった。\n最後の段落。');
+    const [claim] = verifyClaims(original).unresolved;
+    expect(removeClaim(original, claim).sections[0].content).toBe('最初の段落。\n最後の段落。');
+  });
+});
@@ -0,0 +1,177 @@
+import { extractCitations } from '@/lib/article';
+import { GeneratedArticle } from '@/lib/types';
+import { ClaimCandidate, extractClaimCandidates, splitClaimSentences, toHalfWidth } from './extract';
+import { ArticleClaim, ClaimLocation, ClaimOptions, ClaimReport, ClaimSource, ClaimSupport } from './types';
+
+export { extractClaimCandidates, splitClaimSentences, toHalfWidth } from './extract';
+export type { ClaimCandidate } from './extract';
+export type {
+  ArticleClaim,
+  ClaimKind,
+  ClaimLocation,
+  ClaimOptions,
+  ClaimReport,
+  ClaimSource,
+  ClaimSupport,
+} from './types';
+
+const UNSUPPORTED_REASONS: Record<ClaimCandidate['kind'], string> = {
+  quantitative: '出典のない数値です',
+  organization: '出典のない組織名です',
+  case_study: '出典のない事例・検証結果です',
+};
+
+// 種類・主張・文から決まるID（FNV-1a）
+function claimId(kind: string, text: string, sentence: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of `${kind}\u0000${text}\u0000${sentence}`) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `c${hash.toString(36)}`;
+}
+
+// 出典の本文との照合用（全角・半角、大文字・小文字、空白、桁区切りの違いを無視する）
+function normalizeForMatch(text: string): string {
+  return toHalfWidth(text).toLowerCase().replace(/(\d),(?=\d{3})/g, '$1').replace(/\s+/g, '');
+}
+
+function classify(candidate: ClaimCandidate, sourceIds: string[], sources: Map<string, ClaimSource>): { support: ClaimSupport; reason: string } {
+  if (sourceIds.length > 0) {
+    const missing = sourceIds.filter(id => !sources.has(id));
+    if (missing.length > 0) {
+      return { support: 'unsupported', reason: `出典 ${missing.join(', ')} が参考資料にありません` };
+    }
+    const contents = sourceIds
+      .map(id => sources.get(id)?.content)
+      .filter((content): content is string => content !== undefined);
+    // 事例は出典IDの参照で根拠ありとし、数値・組織名は出典の本文に含まれることを確認する
+    if (contents.length === 0 || candidate.kind === 'case_study') {
+      return { support: 'backed', reason: `出典 ${sourceIds.join(', ')} を参照しています` };
+    }
+    const evidence = normalizeForMatch(candidate.evidence);
+    if (contents.some(content => normalizeForMatch(content).includes(evidence))) {
+      return { support: 'backed', reason: `出典 ${sourceIds.join(', ')} で確認できます` };
+    }
+    return { support: 'unsupported', reason: `出典 ${sourceIds.join(', ')} の本文に「${candidate.text}」が見つかりません` };
+  }
+  if (candidate.generic) {
+    return { support: 'generic', reason: candidate.generic };
+  }
+  return { support: 'unsupported', reason: UNSUPPORTED_REASONS[candidate.kind] };
+}
+
+// 主張を抽出する本文（セクション・サブセクションの本文とFAQの回答。見出しは対象外）
+function listClaimTexts(article: GeneratedArticle): { text: string; location: ClaimLocation }[] {
+  const texts: { text: string; location: ClaimLocation }[] = [];
+  article.sections.forEach((section, sectionIndex) => {
+    texts.push({ text: section.content, location: { sectionIndex } });
+    section.subheadings?.forEach((sub, subheadingIndex) => {
+      texts.push({ text: sub.content, location: { sectionIndex, subheadingIndex } });
+    });
+  });
+  article.faq?.forEach((item, faqIndex) => {
+    texts.push({ text: item.answer, location: { faqIndex } });
+  });
+  return texts;
+}
+
+/**
+ * 記事の本文から数値・組織名・事例への言及を抽出し、根拠の有無を判定する（LLMを使わない決定的な解析）。
+ * 出典ID（[S1]）が付いた主張は参考資料の本文と照合し、出典のない主張は目安の数値や広く知られた組織などを除いて「根拠なし」とする。
+ * 記事の acceptedClaims に含まれる「根拠なし」の主張は承認済みとして扱う。
+ */
+export function verifyClaims(article: GeneratedArticle, options: ClaimOptions = {}): ClaimReport {
+  const sources = new Map(
+    (options.sources ?? (article.sources ?? []).map(source => ({ sourceId: source.id })))
+      .map(source => [source.sourceId, source])
+  );
+  const accepted = new Set(article.acceptedClaims ?? []);
+  const claims = new Map<string, ArticleClaim>();
+
+  listClaimTexts(article).forEach(({ text, location }) => {
+    splitClaimSentences(text).forEach(sentence => {
+      const sourceIds = extractCitations(sentence);
+      extractClaimCandidates(sentence, options.knownOrganizations).forEach(candidate => {
+        const id = claimId(candidate.kind, candidate.text, sentence);
+        if (claims.has(id)) return;
+        const { support, reason } = classify(candidate, sourceIds, sources);
+        claims.set(id, {
+          id,
+          kind: candidate.kind,
+          text: candidate.text,
+          sentence,
+          location,
+          support,
+          sourceIds,
+          reason,
+          accepted: support === 'unsupported' && accepted.has(id),
+        });
+      });
+    });
+  });
+
+  const list = [...claims.values()];
+  const counts: Record<ClaimSupport, number> = { backed: 0, generic: 0, unsupported: 0 };
+  list.forEach(claim => { counts[claim.support]++; });
+  return {
+    claims: list,
+    counts,
+    unresolved: list.filter(claim => claim.support === 'unsupported' && !claim.accepted),
+  };
+}
+
+export function isSameLocation(a: ClaimLocation, b: ClaimLocation): boolean {
+  return a.sectionIndex === b.sectionIndex && a.subheadingIndex === b.subheadingIndex && a.faqIndex === b.faqIndex;
+}
+
+// 根拠のない主張を承認する（承認を取り消す場合は accepted: false）
+export function setClaimAccepted(article: GeneratedArticle, claimId: string, accepted: boolean): GeneratedArticle {
+  const ids = new Set(article.acceptedClaims ?? []);
+  if (accepted) {
+    ids.add(claimId);
+  } else {
+    ids.delete(claimId);
+  }
+  return { ...article, acceptedClaims: [...ids] };
+}
+
+// 文を本文から除く（段落が空になった場合は段落ごと除く）
+function removeSentence(text: string, sentence: string): string {
+  const index = text.indexOf(sentence);
+  if (index < 0) return text;
+  const before = text.slice(0, index);
+  const after = text.slice(index + sentence.length).replace(/^[ \t]+/, '');
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = after.indexOf('\n');
+  if (!before.slice(lineStart).trim() && !(lineEnd < 0 ? after : after.slice(0, lineEnd)).trim()) {
+    return lineEnd < 0 ? before.slice(0, lineStart).replace(/\n$/, '') : before.slice(0, lineStart) + after.slice(lineEnd + 1);
+  }
+  return `${before}${after}`.replace(/[ \t]+(?=\n|$)/g, '');
+}
+
+// 主張を含む文を記事から削除する
+export function removeClaim(article: GeneratedArticle, claim: ArticleClaim): GeneratedArticle {
+  const { sectionIndex, subheadingIndex, faqIndex } = claim.location;
+  if (faqIndex !== undefined) {
+    return {
+      ...article,
+      faq: article.faq?.map((item, index) => index === faqIndex ? { ...item, answer: removeSentence(item.answer, claim.sentence) } : item),
+    };
+  }
+  return {
+    ...article,
+    sections: article.sections.map((section, index) => {
+      if (index !== sectionIndex) return section;
+      if (subheadingIndex === undefined) {
+        return { ...section, content: removeSentence(section.content, claim.sentence) };
+      }
+      return {
+        ...section,
+        subheadings: section.subheadings?.map((sub, subIndex) =>
+          subIndex === subheadingIndex ? { ...sub, content: removeSentence(sub.content, claim.sentence) } : sub
+        ),
+      };
+    }),
+  };
+}
@@ -0,0 +1,54 @@
+// - quantitative: 数値・統計（割合・倍率・金額・期間など）
+// - organization: 企業・団体名
+// - case_study: 事例・自社での検証への言及
+export type ClaimKind = 'quantitative' | 'organization' | 'case_study';
+
+// - backed: 参考資料の出典IDが付き、出典の本文で確認できる
+// - generic: 一般的な記述（目安の範囲、広く知られた組織、匿名の事例など）
+// - unsupported: 根拠がない（出典がない、または出典の本文で確認できない）
+export type ClaimSupport = 'backed' | 'generic' | 'unsupported';
+
+// 主張の位置（セクションの本文・サブセクション、またはFAQの回答）
+export interface ClaimLocation {
+  sectionIndex?: number;
+  subheadingIndex?: number;
+  faqIndex?: number;
+}
+
+export interface ArticleClaim {
+  // 種類・主張・文から決まるID（文を編集するとIDが変わり、再確認の対象になる）
+  id: string;
+  kind: ClaimKind;
+  // 主張の箇所（数値・組織名・事例の語句）
+  text: string;
+  // 主張を含む文
+  sentence: string;
+  location: ClaimLocation;
+  support: ClaimSupport;
+  // 文で参照している出典ID
+  sourceIds: string[];
+  // 判定の理由
+  reason: string;
+  // 編集者が承認した根拠のない主張
+  accepted: boolean;
+}
+
+// 主張の照合に使う参考資料（本文がない場合は出典IDの有無だけを確認する）
+export interface ClaimSource {
+  sourceId: string;
+  content?: string;
+}
+
+export interface ClaimOptions {
+  // 省略時は記事の出典（sources）
+  sources?: ClaimSource[];
+  // 根拠がなくても一般的な記述とみなす組織名（自社・ブランドなど）
+  knownOrganizations?: string[];
+}
+
+export interface ClaimReport {
+  claims: ArticleClaim[];
+  counts: Record<ClaimSupport, number>;
+  // 承認されていない根拠のない主張（エクスポート前に承認または削除が必要）
+  unresolved: ArticleClaim[];
+}
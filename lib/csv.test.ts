@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('ダブルクォート内のカンマ・改行・エスケープを値として読む', () => {
+    expect(parseCsv('keyword,description\n"AI, 検索","1行目\n2行目 ""引用"""\n')).toEqual([
+      ['keyword', 'description'],
+      ['AI, 検索', '1行目\n2行目 "引用"'],
+    ]);
+  });
+
+  it('先頭のBOM・CRLF・空行を扱い、末尾に改行がなくても最後の行を読む', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n , \r\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('空の列を保持する', () => {
+    expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('必要な値だけをクォートし、parseCsv で元の値に戻る', () => {
+    const rows = [['keyword', 'note'], ['AI, 検索', '改行\nと "引用"'], ['plain', '']];
+    const csv = toCsv(rows);
+    expect(csv).toBe('keyword,note\r\n"AI, 検索","改行\nと ""引用"""\r\nplain,\r\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+});
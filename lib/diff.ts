@@ -0,0 +1,242 @@
+import { textSimilarity } from './article';
+import { ArticleSection, ArticleSubheading, GeneratedArticle, SEOMetadata } from './types';
+
+// 見出し・本文がこの類似度以上なら同一の要素が編集されたものとみなす
+const MATCH_THRESHOLD = 0.5;
+
+export type ChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+// 文単位のテキスト差分
+export interface TextDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface SubheadingDiff {
+  type: ChangeType;
+  beforeIndex?: number;
+  afterIndex?: number;
+  beforeTitle?: string;
+  afterTitle?: string;
+  titleChanged: boolean;
+  contentChanged: boolean;
+  contentDiff: TextDiffSegment[];
+}
+
+export interface SectionDiff {
+  type: ChangeType;
+  beforeIndex?: number;
+  afterIndex?: number;
+  beforeHeading?: string;
+  afterHeading?: string;
+  headingChanged: boolean;
+  contentChanged: boolean;
+  contentDiff: TextDiffSegment[];
+  subheadings: SubheadingDiff[];
+}
+
+export interface SEOFieldDiff {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ArticleDiff {
+  titleChanged: boolean;
+  beforeTitle: string;
+  afterTitle: string;
+  sections: SectionDiff[];
+  // よくある質問（質問を見出し、回答を本文として比較する）
+  faq: SubheadingDiff[];
+  seo: SEOFieldDiff[];
+  summary: Record<ChangeType, number>;
+}
+
+// 日本語・英語の文末で区切る（区切り文字は直前の文に含める）
+function splitSentences(text: string): string[] {
+  return text.match(/[^。！？!?\n]+[。！？!?]*\n*|\n+/g) || [];
+}
+
+function lcsTable<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): number[][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/**
+ * 2つのテキストの文単位の差分を返す。
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = splitSentences(before);
+  const b = splitSentences(after);
+  const table = lcsTable(a, b, (x, y) => x === y);
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return segments;
+}
+
+/**
+ * 見出し付き要素の列を対応付ける。
+ * 類似度によるLCSで対応を取り、対応の間に残った要素は同数分を位置順に「変更」として対応付ける。
+ */
+function alignItems<T>(
+  before: T[],
+  after: T[],
+  heading: (item: T) => string,
+  content: (item: T) => string
+): [number | undefined, number | undefined][] {
+  const matches = (x: T, y: T) =>
+    textSimilarity(heading(x), heading(y)) >= MATCH_THRESHOLD || textSimilarity(content(x), content(y)) >= MATCH_THRESHOLD;
+  const table = lcsTable(before, after, matches);
+
+  const pairs: [number | undefined, number | undefined][] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flushGap = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) pairs.push([removed[k], added[k]]);
+    removed.slice(paired).forEach(index => pairs.push([index, undefined]));
+    added.slice(paired).forEach(index => pairs.push([undefined, index]));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (matches(before[i], after[j]) && table[i][j] === table[i + 1][j + 1] + 1) {
+      flushGap();
+      pairs.push([i++, j++]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  while (i < before.length) removed.push(i++);
+  while (j < after.length) added.push(j++);
+  flushGap();
+  return pairs;
+}
+
+function diffSubheadings(before: ArticleSubheading[], after: ArticleSubheading[]): SubheadingDiff[] {
+  return alignItems(before, after, sub => sub.title, sub => sub.content).map(([beforeIndex, afterIndex]) => {
+    const a = beforeIndex !== undefined ? before[beforeIndex] : undefined;
+    const b = afterIndex !== undefined ? after[afterIndex] : undefined;
+    const titleChanged = a?.title !== b?.title;
+    const contentChanged = a?.content !== b?.content;
+    return {
+      type: !a ? 'added' : !b ? 'removed' : (titleChanged || contentChanged) ? 'modified' : 'unchanged',
+      beforeIndex,
+      afterIndex,
+      beforeTitle: a?.title,
+      afterTitle: b?.title,
+      titleChanged,
+      contentChanged,
+      contentDiff: diffText(a?.content || '', b?.content || ''),
+    };
+  });
+}
+
+function diffSections(before: ArticleSection[], after: ArticleSection[]): SectionDiff[] {
+  return alignItems(before, after, section => section.heading, section => section.content).map(([beforeIndex, afterIndex]) => {
+    const a = beforeIndex !== undefined ? before[beforeIndex] : undefined;
+    const b = afterIndex !== undefined ? after[afterIndex] : undefined;
+    const subheadings = diffSubheadings(a?.subheadings || [], b?.subheadings || []);
+    const headingChanged = a?.heading !== b?.heading;
+    const contentChanged = a?.content !== b?.content;
+    const subheadingsChanged = subheadings.some(sub => sub.type !== 'unchanged');
+    return {
+      type: !a ? 'added' : !b ? 'removed' : (headingChanged || contentChanged || subheadingsChanged) ? 'modified' : 'unchanged',
+      beforeIndex,
+      afterIndex,
+      beforeHeading: a?.heading,
+      afterHeading: b?.heading,
+      headingChanged,
+      contentChanged,
+      contentDiff: diffText(a?.content || '', b?.content || ''),
+      subheadings,
+    };
+  });
+}
+
+const SEO_FIELDS: (keyof SEOMetadata)[] = [
+  'title',
+  'description',
+  'keywords',
+  'ogTitle',
+  'ogDescription',
+  'twitterTitle',
+  'twitterDescription',
+  'metaRobots',
+  'canonicalUrl',
+  'structuredData',
+];
+
+function stringifySEOField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  return JSON.stringify(value);
+}
+
+function diffSEO(before?: SEOMetadata, after?: SEOMetadata): SEOFieldDiff[] {
+  return SEO_FIELDS
+    .map(field => ({
+      field,
+      before: stringifySEOField(before?.[field]),
+      after: stringifySEOField(after?.[field]),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * 記事の2つの版を sections / subheadings の構造に沿って比較する。
+ */
+export function diffArticles(before: GeneratedArticle, after: GeneratedArticle): ArticleDiff {
+  const sections = diffSections(before.sections, after.sections);
+  const summary: Record<ChangeType, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  sections.forEach(section => { summary[section.type]++; });
+
+  return {
+    titleChanged: before.title !== after.title,
+    beforeTitle: before.title,
+    afterTitle: after.title,
+    sections,
+    faq: diffSubheadings(
+      (before.faq ?? []).map(item => ({ title: item.question, content: item.answer })),
+      (after.faq ?? []).map(item => ({ title: item.question, content: item.answer }))
+    ),
+    seo: diffSEO(before.seoMetadata, after.seoMetadata),
+    summary,
+  };
+}
@@ -0,0 +1,54 @@
+import { citedSources } from '@/lib/article';
+import { GeneratedArticle } from '@/lib/types';
+
+export interface ArticleAnchors {
+  // セクションの見出し2と、サブセクションの見出し3のID
+  sections: { id: string; subheadings: string[] }[];
+  // よくある質問の見出し2と、各質問のID
+  faq?: { id: string; questions: string[] };
+  // 参考文献の見出し2のID（本文で参照している出典がある場合）
+  references?: string;
+}
+
+/**
+ * 見出しのテキストからアンカーIDを作る（GitHub・Hugo・Docusaurus・Astro の自動IDと同じ規則）。
+ * 小文字にし、文字・数字・マーク・ハイフン・アンダースコア以外を除いて、空白をハイフンにする。
+ */
+export function slugifyHeading(text: string): string {
+  return text.trim().toLowerCase().replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '').replace(/ /g, '-');
+}
+
+// 参考文献の各項目のID（本文の [S1] からのリンク先）
+export function sourceAnchor(sourceId: string): string {
+  return `source-${sourceId.toLowerCase()}`;
+}
+
+/**
+ * 記事の見出しのアンカーIDを文書内の順に割り当てる。
+ * 同じIDが続く場合は GitHub と同じく -1, -2 を付け、記号だけの見出しは section-N とする。
+ */
+export function buildArticleAnchors(article: GeneratedArticle, faqHeading: string, referencesHeading?: string): ArticleAnchors {
+  const used = new Map<string, number>();
+  const unique = (text: string, fallback: string): string => {
+    const base = slugifyHeading(text) || fallback;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+
+  const sections = article.sections.map((section, index) => ({
+    id: unique(section.heading, `section-${index + 1}`),
+    subheadings: (section.subheadings ?? []).map((sub, subIndex) => unique(sub.title, `section-${index + 1}-${subIndex + 1}`)),
+  }));
+  const faq = article.faq?.length
+    ? {
+      id: unique(faqHeading, 'faq'),
+      questions: article.faq.map((item, index) => unique(item.question, `faq-${index + 1}`)),
+    }
+    : undefined;
+  const references = referencesHeading && citedSources(article).length > 0
+    ? unique(referencesHeading, 'references')
+    : undefined;
+
+  return { sections, faq, references };
+}
@@ -0,0 +1,201 @@
+import { estimateTokens, splitParagraphs, splitSentences } from '@/lib/article';
+import { EXPORT_MESSAGES, resolveLocale } from '@/lib/locale';
+import { isFullWidth } from '@/lib/seo-length';
+import { GeneratedArticle, Locale } from '@/lib/types';
+import { buildArticleAnchors, slugifyHeading } from './anchors';
+import { slugFromCanonicalUrl } from './front-matter';
+import { ExportOptions } from './types';
+
+// チャンクあたりのトークン数の上限の範囲と既定値
+export const CHUNK_TOKEN_LIMITS = { min: 50, max: 8000 };
+export const DEFAULT_CHUNK_TOKENS = 400;
+
+export interface ChunkOptions {
+  // チャンクあたりのトークン数の上限（estimateTokens による概算）
+  maxTokens?: number;
+  // FAQの見出しの言語（省略時は記事の言語）
+  locale?: Locale;
+}
+
+export interface ArticleChunk {
+  // 記事のスラッグと通し番号（例: llmo-guide:3）
+  id: string;
+  // 本文のチャンクか、FAQの質問と回答のチャンクか
+  type: 'body' | 'faq';
+  articleTitle: string;
+  // 記事タイトルからチャンクの見出しまで（例: [タイトル, 見出し2, 見出し3]）
+  headingPath: string[];
+  text: string;
+  // チャンクの見出しのアンカーID（HTMLエクスポートの見出しの id と同じ）
+  anchor: string;
+  // canonical URL にアンカーを付けたURL（canonical URL がない場合は省略）
+  url?: string;
+  keywords: string[];
+  position: {
+    // 記事内の通し番号（0始まり）とチャンクの総数
+    index: number;
+    total: number;
+    // セクションの番号（0始まり、FAQは省略）
+    sectionIndex?: number;
+    subheadingIndex?: number;
+    // FAQの番号（0始まり）
+    faqIndex?: number;
+    // 同じ見出しの中での番号（0始まり）と分割数
+    part: number;
+    parts: number;
+  };
+  tokens: number;
+  locale: Locale;
+}
+
+type ChunkNode = Pick<ArticleChunk, 'type' | 'headingPath' | 'anchor'> & {
+  content: string;
+  position: Pick<ArticleChunk['position'], 'sectionIndex' | 'subheadingIndex' | 'faqIndex'>;
+};
+
+export function normalizeChunkTokens(value: unknown): number {
+  const number = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : DEFAULT_CHUNK_TOKENS;
+  return Math.min(Math.max(number, CHUNK_TOKEN_LIMITS.min), CHUNK_TOKEN_LIMITS.max);
+}
+
+// 文をつなぐ（句点で終わる全角の文はそのまま、それ以外は空白を挟む）
+function joinSentences(a: string, b: string): string {
+  return isFullWidth(a[a.length - 1]) ? `${a}${b}` : `${a} ${b}`;
+}
+
+function joinParagraphs(a: string, b: string): string {
+  return `${a}\n\n${b}`;
+}
+
+// 上限を超えない範囲で、隣り合う断片をまとめる
+function pack(pieces: string[], maxTokens: number, join: (a: string, b: string) => string): string[] {
+  const packed: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    const next = current ? join(current, piece) : piece;
+    if (current && estimateTokens(next) > maxTokens) {
+      packed.push(current);
+      current = piece;
+    } else {
+      current = next;
+    }
+  });
+  if (current) packed.push(current);
+  return packed;
+}
+
+// 上限を超える語を文字単位で分割する
+function splitByCharacters(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (current && estimateTokens(current + char) > maxTokens) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// 1文が上限を超える場合は語（空白区切り）の単位で分割する。空白のない日本語などは文字単位になる
+function splitLongSentence(sentence: string, maxTokens: number): string[] {
+  const words = (sentence.match(/\S+\s*/g) || [])
+    .flatMap(word => estimateTokens(word) <= maxTokens ? [word] : splitByCharacters(word, maxTokens));
+  return pack(words, maxTokens, (a, b) => `${a}${b}`).map(piece => piece.trim());
+}
+
+// 段落が上限を超える場合は文の区切りで分割する（英語などのピリオドで終わる文も区切る）
+function splitParagraph(paragraph: string, maxTokens: number): string[] {
+  if (estimateTokens(paragraph) <= maxTokens) return [paragraph];
+  const sentences = splitSentences(paragraph)
+    .flatMap(sentence => sentence.split(/(?<=[.!?])\s+/))
+    .flatMap(sentence => estimateTokens(sentence) <= maxTokens ? [sentence] : splitLongSentence(sentence, maxTokens));
+  return pack(sentences, maxTokens, joinSentences);
+}
+
+// テキストを、段落の区切りを優先して上限以下のテキストに分ける（参考資料の抜粋にも使用）
+export function splitTextByTokens(content: string, maxTokens: number): string[] {
+  const pieces = splitParagraphs(content).flatMap(paragraph => splitParagraph(paragraph, maxTokens));
+  return pack(pieces, maxTokens, joinParagraphs);
+}
+
+// チャンクに分ける単位（セクションの導入・サブセクション・FAQの各項目）を文書内の順に並べる
+function listChunkNodes(article: GeneratedArticle, faqHeading: string): ChunkNode[] {
+  const anchors = buildArticleAnchors(article, faqHeading);
+  const nodes: ChunkNode[] = [];
+
+  article.sections.forEach((section, sectionIndex) => {
+    nodes.push({
+      type: 'body',
+      headingPath: [article.title, section.heading],
+      anchor: anchors.sections[sectionIndex].id,
+      content: section.content,
+      position: { sectionIndex },
+    });
+    section.subheadings?.forEach((sub, subheadingIndex) => {
+      nodes.push({
+        type: 'body',
+        headingPath: [article.title, section.heading, sub.title],
+        anchor: anchors.sections[sectionIndex].subheadings[subheadingIndex],
+        content: sub.content,
+        position: { sectionIndex, subheadingIndex },
+      });
+    });
+  });
+
+  const faqAnchors = anchors.faq;
+  if (faqAnchors) {
+    article.faq?.forEach((item, faqIndex) => {
+      nodes.push({
+        type: 'faq',
+        headingPath: [article.title, faqHeading, item.question],
+        anchor: faqAnchors.questions[faqIndex],
+        // 回答だけでは何についての回答か分からないため、質問を含める
+        content: `${item.question}\n${item.answer}`,
+        position: { faqIndex },
+      });
+    });
+  }
+
+  return nodes;
+}
+
+/**
+ * 記事を検索（RAG）用のチャンクに分割する。
+ * チャンクは見出しをまたがず、見出しの本文が上限を超える場合は段落、文、語、文字の順に区切って分ける。
+ * 各チャンクには見出しの階層、canonical URL とアンカー、SEOキーワード、記事内の位置を付ける。
+ */
+export function chunkArticle(article: GeneratedArticle, options: ChunkOptions = {}): ArticleChunk[] {
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const maxTokens = normalizeChunkTokens(options.maxTokens);
+  const canonicalUrl = article.seoMetadata?.canonicalUrl;
+  const slug = slugFromCanonicalUrl(canonicalUrl) || slugifyHeading(article.title) || 'article';
+  const keywords = article.seoMetadata?.keywords ?? [];
+
+  const pieces = listChunkNodes(article, EXPORT_MESSAGES[locale].faq).flatMap(node => {
+    const texts = splitTextByTokens(node.content, maxTokens);
+    return texts.map((text, part) => ({ node, text, part, parts: texts.length }));
+  });
+
+  return pieces.map(({ node, text, part, parts }, index) => ({
+    id: `${slug}:${index}`,
+    type: node.type,
+    articleTitle: article.title,
+    headingPath: node.headingPath,
+    text,
+    anchor: node.anchor,
+    url: canonicalUrl ? `${canonicalUrl.split('#')[0]}#${encodeURIComponent(node.anchor)}` : undefined,
+    keywords,
+    position: { index, total: pieces.length, ...node.position, part, parts },
+    tokens: estimateTokens(text),
+    locale,
+  }));
+}
+
+// ベクトルストアへの取り込み用に、1行1チャンクのJSON Lines を作る
+export function generateJsonl(article: GeneratedArticle, options: ExportOptions = {}): string {
+  const chunks = chunkArticle(article, { maxTokens: options.chunkTokens, locale: options.locale });
+  return chunks.map(chunk => `${JSON.stringify(chunk)}\n`).join('');
+}
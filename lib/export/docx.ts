@@ -0,0 +1,382 @@
+import { citedSources } from '@/lib/article';
+import { authorDisplayName, BrandSettings, DEFAULT_BRAND, primaryAuthor } from '@/lib/brand';
+import { EXPORT_MESSAGES, ExportMessages, LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle, Locale } from '@/lib/types';
+import { createZip } from '@/lib/zip';
+import { ExportOptions } from './types';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// 東アジアの文字に使用するフォント（Windows・macOS版Wordの標準フォント）
+const EAST_ASIA_FONTS: Record<Locale, string> = {
+  ja: 'Yu Gothic',
+  en: 'Yu Gothic',
+  'zh-Hans': 'Microsoft YaHei',
+  'zh-Hant': 'Microsoft JhengHei',
+  ko: 'Malgun Gothic',
+};
+
+// 用紙サイズ（twip）。英語はレター、それ以外はA4
+const PAGE_SIZES: Record<Locale, { width: number; height: number }> = {
+  ja: { width: 11906, height: 16838 },
+  en: { width: 12240, height: 15840 },
+  'zh-Hans': { width: 11906, height: 16838 },
+  'zh-Hant': { width: 11906, height: 16838 },
+  ko: { width: 11906, height: 16838 },
+};
+
+// 表の1列目（項目名）の幅（twip）
+const LABEL_COLUMN_WIDTH = 2400;
+const PAGE_MARGIN = 1440;
+
+// XMLで使用できない制御文字
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+export function escapeXml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&apos;'
+  };
+  return text.replace(INVALID_XML_CHARACTERS, '').replace(/[&<>"']/g, (m) => map[m]);
+}
+
+interface RunOptions {
+  bold?: boolean;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  // 目次から移動するためのブックマーク（id は文書内で一意な番号）
+  bookmark?: { id: number; name: string };
+}
+
+// 本文に登場する外部リンクのURL（document.xml.rels に rIdLink1, rIdLink2... として出力する）
+type DocumentLinks = string[];
+
+function linkRelationshipId(links: DocumentLinks, url: string): string {
+  if (!links.includes(url)) {
+    links.push(url);
+  }
+  return `rIdLink${links.indexOf(url) + 1}`;
+}
+
+function run(text: string, options: RunOptions = {}): string {
+  const properties = options.bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  return `<w:r>${properties}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function linkRun(text: string, url: string | undefined, links: DocumentLinks): string {
+  if (!url) {
+    return run(text);
+  }
+  return `<w:hyperlink r:id="${linkRelationshipId(links, url)}" w:history="1"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:hyperlink>`;
+}
+
+function paragraph(content: string, options: ParagraphOptions = {}): string {
+  const properties = options.style ? `<w:pPr><w:pStyle w:val="${options.style}"/></w:pPr>` : '';
+  const { bookmark } = options;
+  const body = bookmark
+    ? `<w:bookmarkStart w:id="${bookmark.id}" w:name="${bookmark.name}"/>${content}<w:bookmarkEnd w:id="${bookmark.id}"/>`
+    : content;
+  return `<w:p>${properties}${body}</w:p>`;
+}
+
+// 改行ごとに段落を分ける（HTMLエクスポートの <p> と同じ扱い）
+function textParagraphs(text: string, style?: string): string {
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => paragraph(run(line), { style }))
+    .join('');
+}
+
+function pageBreak(): string {
+  return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+}
+
+// 項目名と値の2列の表（値は run・hyperlink の XML）
+function table(rows: { label: string; value: string }[], pageWidth: number): string {
+  const valueWidth = pageWidth - PAGE_MARGIN * 2 - LABEL_COLUMN_WIDTH;
+  const cell = (content: string, width: number, shaded: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="E3F2FD"/>' : ''}</w:tcPr>`
+    + `<w:p><w:pPr><w:pStyle w:val="TableText"/></w:pPr>${content}</w:p></w:tc>`;
+
+  return '<w:tbl>'
+    + `<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${LABEL_COLUMN_WIDTH + valueWidth}" w:type="dxa"/><w:tblLook w:val="0000"/></w:tblPr>`
+    + `<w:tblGrid><w:gridCol w:w="${LABEL_COLUMN_WIDTH}"/><w:gridCol w:w="${valueWidth}"/></w:tblGrid>`
+    + rows.map(({ label, value }) => `<w:tr>${cell(run(label, { bold: true }), LABEL_COLUMN_WIDTH, true)}${cell(value, valueWidth, false)}</w:tr>`).join('')
+    + '</w:tbl>'
+    // 表の直後に空の段落を置き、次の見出しと間隔を空ける
+    + paragraph('');
+}
+
+interface HeadingEntry {
+  text: string;
+  // 1: セクション / 2: サブセクション
+  level: 1 | 2;
+  bookmark: string;
+}
+
+/**
+ * 目次フィールド。Wordで開いたときにページ番号付きで更新されるまでの表示として、
+ * 見出しへのリンクを結果に入れておく。
+ */
+function tableOfContents(title: string, headings: HeadingEntry[]): string {
+  const fieldBegin = '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+    + '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r>'
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  const fieldEnd = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+  const entries = headings.map((heading, index) => {
+    const link = `<w:hyperlink w:anchor="${heading.bookmark}" w:history="1">${run(heading.text)}</w:hyperlink>`;
+    return paragraph(`${index === 0 ? fieldBegin : ''}${link}`, { style: `TOC${heading.level}` });
+  });
+
+  return paragraph(run(title), { style: 'TOCHeading' })
+    + (entries.length > 0 ? entries.join('') : paragraph(fieldBegin, { style: 'TOC1' }))
+    + paragraph(fieldEnd);
+}
+
+function buildCoverPage(article: GeneratedArticle, messages: ExportMessages, pageWidth: number, links: DocumentLinks): string {
+  const seo = article.seoMetadata!;
+  const rows = [
+    { label: 'title', value: run(seo.title) },
+    { label: 'description', value: run(seo.description) },
+    { label: 'keywords', value: run(seo.keywords.join(', ')) },
+    { label: 'robots', value: run(seo.metaRobots) },
+    ...(seo.canonicalUrl ? [{ label: 'canonical', value: linkRun(seo.canonicalUrl, seo.canonicalUrl, links) }] : []),
+    { label: 'og:title', value: run(seo.ogTitle) },
+    { label: 'og:description', value: run(seo.ogDescription) },
+    { label: 'twitter:title', value: run(seo.twitterTitle) },
+    { label: 'twitter:description', value: run(seo.twitterDescription) },
+  ];
+
+  return paragraph(run(article.title), { style: 'Title' })
+    + paragraph(run(messages.seoMetadata), { style: 'Subtitle' })
+    + table(rows, pageWidth)
+    + pageBreak();
+}
+
+function buildMetaInfoTable(brand: BrandSettings, messages: ExportMessages, dateLocale: string, pageWidth: number, links: DocumentLinks): string {
+  const author = primaryAuthor(brand);
+  const rows = [{ label: messages.generatedAt, value: run(new Date().toLocaleDateString(dateLocale)) }];
+  if (author) {
+    const authorName = author.jobTitle ? `${author.name}（${author.jobTitle}）` : author.name;
+    rows.push({ label: messages.author, value: linkRun(authorName, author.url, links) });
+  }
+  if (brand.attribution === 'full') {
+    rows.push({ label: messages.generator, value: run(`${messages.systemName} (${brand.organizationName})`) });
+  }
+  rows.push({ label: messages.optimization, value: run(messages.optimizationValue) });
+
+  return paragraph(run(messages.articleInfo), { style: 'Subtitle' }) + table(rows, pageWidth);
+}
+
+// ブランドのクレジット表記方針に沿ったフッター
+function buildFooter(brand: BrandSettings, messages: ExportMessages, dateLocale: string, links: DocumentLinks): string {
+  const lines: string[] = [];
+  if (brand.attribution === 'full') {
+    lines.push(run(messages.generatedBy(messages.systemName)));
+    lines.push(run(`${messages.generatedAt}: ${new Date().toLocaleDateString(dateLocale)}`));
+  } else if (brand.attribution === 'brand') {
+    lines.push(linkRun(brand.organizationName, brand.siteUrl, links));
+  }
+  if (brand.footerText) {
+    brand.footerText.split('\n').forEach(line => lines.push(run(line)));
+  }
+  return lines.map(line => paragraph(line, { style: 'ArticleFooter' })).join('');
+}
+
+function buildDocumentXml(article: GeneratedArticle, options: ExportOptions, locale: Locale, links: DocumentLinks): string {
+  const { dateLocale } = LOCALE_CONFIG[locale];
+  const messages = EXPORT_MESSAGES[locale];
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const page = PAGE_SIZES[locale];
+  const includeSEO = !!(options.includeSEO && article.seoMetadata);
+
+  // 見出しごとにブックマークを付け、目次からリンクする
+  const headings: HeadingEntry[] = [];
+  const heading = (text: string, level: 1 | 2) => {
+    const id = headings.length + 1;
+    const entry: HeadingEntry = { text, level, bookmark: `_Toc${id}` };
+    headings.push(entry);
+    return paragraph(run(text), { style: `Heading${level}`, bookmark: { id, name: entry.bookmark } });
+  };
+
+  let content = '';
+  article.sections.forEach((section) => {
+    content += heading(section.heading, 1);
+    content += textParagraphs(section.content);
+    section.subheadings?.forEach((sub) => {
+      content += heading(sub.title, 2);
+      content += textParagraphs(sub.content);
+    });
+  });
+
+  if (article.faq?.length) {
+    content += heading(messages.faq, 1);
+    article.faq.forEach((item) => {
+      content += paragraph(run(item.question), { style: 'Heading3' });
+      content += textParagraphs(item.answer);
+    });
+  }
+
+  const sources = citedSources(article);
+  if (sources.length > 0) {
+    content += heading(messages.references, 1);
+    sources.forEach((source) => {
+      content += paragraph(run(`[${source.id}] `) + linkRun(source.title, source.url, links));
+    });
+  }
+
+  let body = '';
+  if (includeSEO && options.coverPage) {
+    body += buildCoverPage(article, messages, page.width, links);
+  }
+  body += paragraph(run(article.title), { style: 'Title' });
+  if (includeSEO) {
+    body += buildMetaInfoTable(brand, messages, dateLocale, page.width, links);
+  }
+  body += tableOfContents(messages.tableOfContents, headings);
+  body += content;
+  body += buildFooter(brand, messages, dateLocale, links);
+
+  const sectionProperties = `<w:sectPr><w:pgSz w:w="${page.width}" w:h="${page.height}"/>`
+    + `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`;
+
+  return XML_DECLARATION
+    + `<w:document xmlns:w="${WORD_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><w:body>${body}${sectionProperties}</w:body></w:document>`;
+}
+
+function paragraphStyle(id: string, name: string, properties: string, runProperties: string, extra = ''): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>${extra}<w:qFormat/>`
+    + `<w:pPr>${properties}</w:pPr><w:rPr>${runProperties}</w:rPr></w:style>`;
+}
+
+// 要素の順序はOOXMLのスキーマ（pPr: pBdr → spacing → jc → outlineLvl）に従う。
+// 見出しスタイルはWordの組み込みスタイル名（Heading 1 等）に合わせ、ナビゲーションウィンドウ・目次で認識されるようにする
+function buildStylesXml(locale: Locale): string {
+  const { dateLocale } = LOCALE_CONFIG[locale];
+  const eastAsiaFont = EAST_ASIA_FONTS[locale];
+  const fontSize = locale === 'en' ? 22 : 21;
+
+  return XML_DECLARATION
+    + `<w:styles xmlns:w="${WORD_NAMESPACE}">`
+    + '<w:docDefaults><w:rPrDefault><w:rPr>'
+    + `<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="${eastAsiaFont}" w:cs="Calibri"/>`
+    + `<w:sz w:val="${fontSize}"/><w:szCs w:val="${fontSize}"/><w:lang w:val="en-US" w:eastAsia="${dateLocale}"/>`
+    + '</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + paragraphStyle('Title', 'Title', '<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="6" w:color="3498DB"/></w:pBdr><w:spacing w:after="360"/>', '<w:b/><w:color w:val="2C3E50"/><w:sz w:val="44"/><w:szCs w:val="44"/>')
+    + paragraphStyle('Subtitle', 'Subtitle', '<w:spacing w:before="240" w:after="120"/>', '<w:b/><w:color w:val="1976D2"/><w:sz w:val="24"/><w:szCs w:val="24"/>')
+    + paragraphStyle('Heading1', 'heading 1', '<w:keepNext/><w:pBdr><w:left w:val="single" w:sz="24" w:space="6" w:color="3498DB"/></w:pBdr><w:spacing w:before="480" w:after="200"/><w:outlineLvl w:val="0"/>', '<w:b/><w:color w:val="34495E"/><w:sz w:val="32"/><w:szCs w:val="32"/>')
+    + paragraphStyle('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="360" w:after="160"/><w:outlineLvl w:val="1"/>', '<w:b/><w:color w:val="2E7D32"/><w:sz w:val="26"/><w:szCs w:val="26"/>')
+    + paragraphStyle('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="2"/>', '<w:b/><w:color w:val="34495E"/>')
+    + paragraphStyle('TOCHeading', 'TOC Heading', '<w:keepNext/><w:spacing w:before="360" w:after="160"/>', '<w:b/><w:color w:val="34495E"/><w:sz w:val="28"/><w:szCs w:val="28"/>')
+    + paragraphStyle('TOC1', 'toc 1', '<w:spacing w:after="60"/>', '', '<w:uiPriority w:val="39"/>')
+    + paragraphStyle('TOC2', 'toc 2', '<w:spacing w:after="60"/><w:ind w:left="440"/>', '', '<w:uiPriority w:val="39"/>')
+    + paragraphStyle('TableText', 'Table Text', '<w:spacing w:after="0"/>', '')
+    + paragraphStyle('ArticleFooter', 'Article Footer', '<w:spacing w:before="120" w:after="0"/><w:jc w:val="center"/>', '<w:color w:val="7F8C8D"/><w:sz w:val="18"/><w:szCs w:val="18"/>')
+    + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>'
+    + '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>'
+    + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`).join('')
+    + '</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>'
+    + '</w:styles>';
+}
+
+// 編集者の修正が変更履歴として残るよう、変更履歴の記録を有効にしておく。
+// 目次のページ番号は開いたときにフィールドを更新して反映する。
+function buildSettingsXml(): string {
+  return XML_DECLARATION
+    + `<w:settings xmlns:w="${WORD_NAMESPACE}">`
+    + '<w:trackRevisions/><w:defaultTabStop w:val="720"/><w:updateFields w:val="true"/>'
+    + '<w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>'
+    + '</w:settings>';
+}
+
+function buildCorePropertiesXml(article: GeneratedArticle, brand: BrandSettings, locale: Locale): string {
+  // W3CDTF（ミリ秒なし）
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const seo = article.seoMetadata;
+  return XML_DECLARATION
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXml(article.title)}</dc:title>`
+    + (seo ? `<dc:description>${escapeXml(seo.description)}</dc:description><cp:keywords>${escapeXml(seo.keywords.join(', '))}</cp:keywords>` : '')
+    + `<dc:creator>${escapeXml(authorDisplayName(brand))}</dc:creator>`
+    + `<dc:language>${LOCALE_CONFIG[locale].dateLocale}</dc:language>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>`
+    + `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>`
+    + '</cp:coreProperties>';
+}
+
+function buildAppPropertiesXml(brand: BrandSettings, messages: ExportMessages): string {
+  return XML_DECLARATION
+    + '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">'
+    + `<Application>${escapeXml(messages.systemName)}</Application>`
+    + `<Company>${escapeXml(brand.organizationName)}</Company>`
+    + '</Properties>';
+}
+
+function buildContentTypesXml(): string {
+  return XML_DECLARATION
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>'
+    + '</Types>';
+}
+
+function relationshipsXml(relationships: { id: string; type: string; target: string; external?: boolean }[]): string {
+  return XML_DECLARATION
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + relationships.map(({ id, type, target, external }) =>
+      `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+    ).join('')
+    + '</Relationships>';
+}
+
+/**
+ * 記事をWord文書（.docx）に変換する。
+ * 記事タイトル・セクション・サブセクションはWordの「表題」「見出し 1」「見出し 2」スタイルに対応付け、
+ * 目次・記事情報の表（SEOメタデータを含める場合）・SEOメタデータの表紙（coverPage 指定時）を出力する。
+ */
+export function generateDocx(article: GeneratedArticle, options: ExportOptions): Buffer {
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const links: DocumentLinks = [];
+  const documentXml = buildDocumentXml(article, options, locale, links);
+
+  return createZip([
+    { name: '[Content_Types].xml', data: buildContentTypesXml() },
+    {
+      name: '_rels/.rels',
+      data: relationshipsXml([
+        { id: 'rId1', type: `${RELATIONSHIP_NAMESPACE}/officeDocument`, target: 'word/document.xml' },
+        { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+        { id: 'rId3', type: `${RELATIONSHIP_NAMESPACE}/extended-properties`, target: 'docProps/app.xml' },
+      ]),
+    },
+    { name: 'docProps/core.xml', data: buildCorePropertiesXml(article, brand, locale) },
+    { name: 'docProps/app.xml', data: buildAppPropertiesXml(brand, EXPORT_MESSAGES[locale]) },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: buildStylesXml(locale) },
+    { name: 'word/settings.xml', data: buildSettingsXml() },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: relationshipsXml([
+        { id: 'rIdStyles', type: `${RELATIONSHIP_NAMESPACE}/styles`, target: 'styles.xml' },
+        { id: 'rIdSettings', type: `${RELATIONSHIP_NAMESPACE}/settings`, target: 'settings.xml' },
+        ...links.map((url, index) => ({ id: `rIdLink${index + 1}`, type: `${RELATIONSHIP_NAMESPACE}/hyperlink`, target: url, external: true })),
+      ]),
+    },
+  ]);
+}
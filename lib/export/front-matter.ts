@@ -0,0 +1,170 @@
+import { authorDisplayName, BrandSettings, primaryAuthor } from '@/lib/brand';
+import { LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle, Locale } from '@/lib/types';
+import { toYaml, YamlMapping } from '@/lib/yaml';
+import { FrontMatterProfile } from './types';
+
+export interface FrontMatterOptions {
+  profile: FrontMatterProfile;
+  brand: BrandSettings;
+  locale?: Locale;
+  // 構造化データに公開日がない場合の公開日（ISO 8601）。省略時は出力した日時
+  publishedAt?: string;
+}
+
+// canonical URL の最後のパスをスラッグにする（未設定の場合は各ジェネレーターがファイル名・タイトルから作成する）
+export function slugFromCanonicalUrl(canonicalUrl?: string): string | undefined {
+  if (!canonicalUrl) return undefined;
+  try {
+    const segments = new URL(canonicalUrl).pathname.split('/').filter(Boolean);
+    const last = segments[segments.length - 1];
+    return last ? decodeURIComponent(last).replace(/\.html?$/, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+// 空の配列は出力しない
+function nonEmpty<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined;
+}
+
+// ISO 8601 の日時に含まれるUTCからの時差（分）。時刻・時差がない場合は 0（UTC）
+function offsetMinutes(value?: string): number {
+  const match = value?.match(/T[\d:.]+([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function formatOffset(offset: number, separator: string): string {
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${separator}${String(abs % 60).padStart(2, '0')}`;
+}
+
+// 指定した時差での日時（YYYY-MM-DDTHH:MM:SS）
+function localDateTime(date: Date, offset: number): string {
+  return new Date(date.getTime() + offset * 60000).toISOString().slice(0, 19);
+}
+
+// プロファイルごとの日付の書式
+const DATE_FORMATS: Record<FrontMatterProfile, (date: Date, offset: number) => string> = {
+  // YYYY-MM-DD
+  generic: (date, offset) => localDateTime(date, offset).slice(0, 10),
+  // RFC 3339（例: 2026-01-02T12:04:05+09:00）
+  hugo: (date, offset) => `${localDateTime(date, offset)}${offset === 0 ? 'Z' : formatOffset(offset, ':')}`,
+  // Jekyll の形式（例: 2026-01-02 12:04:05 +0900）
+  jekyll: (date, offset) => `${localDateTime(date, offset).replace('T', ' ')} ${formatOffset(offset, '')}`,
+  astro: (date, offset) => DATE_FORMATS.hugo(date, offset),
+  docusaurus: (date, offset) => DATE_FORMATS.hugo(date, offset),
+};
+
+/**
+ * 記事のメタ情報を、選択した静的サイトジェネレーターの規約に沿ったフロントマター（--- で囲んだYAML）にする。
+ * - generic: SEOメタデータをそのまま出力する（OGP・Twitterは og / twitter の下にネスト）
+ * - hugo: date / lastmod（RFC 3339）、keywords / tags / categories、images
+ * - jekyll: layout / date（YYYY-MM-DD HH:MM:SS +HHMM）/ last_modified_at、categories / tags、image、canonical_url（jekyll-seo-tag）
+ * - astro: コンテンツコレクションのブログテンプレートに合わせた pubDate / updatedDate / heroImage
+ * - docusaurus: slug / keywords / tags / image、authors（インライン指定）、date、last_update
+ * タグはSEOキーワード、カテゴリはその先頭（メインキーワード）、画像はブランドのロゴを使う。
+ * 日付は構造化データの公開日の時差で出力する（公開日がない場合はUTC）。
+ */
+export function buildFrontMatter(article: GeneratedArticle, options: FrontMatterOptions): string {
+  const { profile, brand } = options;
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const seo = article.seoMetadata;
+  const published = parseDate(seo?.structuredData?.datePublished) ?? parseDate(options.publishedAt) ?? new Date();
+  const modified = parseDate(seo?.structuredData?.dateModified);
+  const keywords = seo?.keywords ?? [];
+  const slug = slugFromCanonicalUrl(seo?.canonicalUrl);
+  const author = authorDisplayName(brand);
+  const image = brand.logoUrl;
+
+  let data: YamlMapping;
+  switch (profile) {
+    case 'generic':
+      data = {
+        title: seo?.title ?? article.title,
+        description: seo?.description,
+        keywords: seo && keywords,
+        robots: seo?.metaRobots,
+        canonical: seo?.canonicalUrl,
+        date: published,
+        lang: LOCALE_CONFIG[locale].htmlLang,
+        author,
+        og: seo && { title: seo.ogTitle, description: seo.ogDescription, type: 'article' },
+        twitter: seo && { title: seo.twitterTitle, description: seo.twitterDescription, card: 'summary_large_image' },
+      };
+      break;
+    case 'hugo':
+      data = {
+        title: article.title,
+        description: seo?.description,
+        date: published,
+        lastmod: modified,
+        slug,
+        keywords: nonEmpty(keywords),
+        tags: nonEmpty(keywords),
+        categories: nonEmpty(keywords.slice(0, 1)),
+        images: image ? [image] : undefined,
+        author,
+      };
+      break;
+    case 'jekyll':
+      data = {
+        layout: 'post',
+        title: article.title,
+        description: seo?.description,
+        date: published,
+        last_modified_at: modified,
+        slug,
+        categories: nonEmpty(keywords.slice(0, 1)),
+        tags: nonEmpty(keywords),
+        image,
+        author,
+        lang: LOCALE_CONFIG[locale].htmlLang,
+        canonical_url: seo?.canonicalUrl,
+      };
+      break;
+    case 'astro':
+      data = {
+        title: article.title,
+        description: seo?.description,
+        pubDate: published,
+        updatedDate: modified,
+        slug,
+        heroImage: image,
+        tags: nonEmpty(keywords),
+        author,
+      };
+      break;
+    case 'docusaurus': {
+      const primary = primaryAuthor(brand);
+      data = {
+        title: article.title,
+        description: seo?.description,
+        slug,
+        keywords: nonEmpty(keywords),
+        tags: nonEmpty(keywords),
+        image,
+        authors: [{
+          name: author,
+          title: primary?.jobTitle || undefined,
+          url: primary?.url || brand.siteUrl || undefined,
+        }],
+        date: published,
+        last_update: modified && { date: modified, author },
+      };
+      break;
+    }
+  }
+
+  const offset = offsetMinutes(seo?.structuredData?.datePublished ?? options.publishedAt);
+  return `---\n${toYaml(data, { formatDate: date => DATE_FORMATS[profile](date, offset) })}---\n`;
+}
@@ -0,0 +1,309 @@
+import { CITATION_PATTERN, citedSources } from '@/lib/article';
+import { authorDisplayName, BrandSettings, DEFAULT_BRAND, primaryAuthor } from '@/lib/brand';
+import { buildArticleJsonLd, serializeJsonLd } from '@/lib/jsonld';
+import { EXPORT_MESSAGES, ExportMessages, LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle } from '@/lib/types';
+import { buildArticleAnchors, sourceAnchor } from './anchors';
+import { ExportOptions } from './types';
+
+export function generateHTML(article: GeneratedArticle, options: ExportOptions): string {
+  const includeStyles = options.includeStyles !== false; // デフォルトでスタイルを含む
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const { htmlLang, dateLocale, ogLocale } = LOCALE_CONFIG[locale];
+  const messages = EXPORT_MESSAGES[locale];
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const author = primaryAuthor(brand);
+
+  let html = `<!DOCTYPE html>\n<html lang="${htmlLang}">\n<head>\n`;
+  html += '  <meta charset="UTF-8">\n';
+  html += '  <meta name="viewport" content="width=device-width, initial-scale=1.0">\n';
+
+  // SEOメタデータ
+  if (options.includeSEO && article.seoMetadata) {
+    const seo = article.seoMetadata;
+    html += `  <title>${escapeHtml(seo.title)}</title>\n`;
+    html += `  <meta name="description" content="${escapeHtml(seo.description)}">\n`;
+    html += `  <meta name="keywords" content="${escapeHtml(seo.keywords.join(', '))}">\n`;
+    html += `  <meta name="robots" content="${escapeHtml(seo.metaRobots)}">\n`;
+    html += `  <meta name="author" content="${escapeHtml(authorDisplayName(brand))}">\n`;
+    
+    if (seo.canonicalUrl) {
+      html += `  <link rel="canonical" href="${escapeHtml(seo.canonicalUrl)}">\n`;
+    }
+
+    // OGP
+    html += `  <meta property="og:title" content="${escapeHtml(seo.ogTitle)}">\n`;
+    html += `  <meta property="og:description" content="${escapeHtml(seo.ogDescription)}">\n`;
+    html += `  <meta property="og:type" content="article">\n`;
+    html += `  <meta property="og:locale" content="${ogLocale}">\n`;
+    if (seo.canonicalUrl) {
+      html += `  <meta property="og:url" content="${escapeHtml(seo.canonicalUrl)}">\n`;
+    }
+
+    // Twitter Cards
+    html += `  <meta name="twitter:card" content="summary_large_image">\n`;
+    html += `  <meta name="twitter:title" content="${escapeHtml(seo.twitterTitle)}">\n`;
+    html += `  <meta name="twitter:description" content="${escapeHtml(seo.twitterDescription)}">\n`;
+
+    // 構造化データ
+    const jsonLd = serializeJsonLd(buildArticleJsonLd(article, { brand, locale, publishedAt: options.publishedAt }));
+    html += '  <script type="application/ld+json">\n';
+    html += `  ${jsonLd.replace(/\n/g, '\n  ')}\n`;
+    html += '  </script>\n';
+  } else {
+    html += `  <title>${escapeHtml(article.title)}</title>\n`;
+  }
+
+  // スタイル
+  if (includeStyles) {
+    html += `
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', sans-serif;
+      line-height: 1.6;
+      max-width: 800px;
+      margin: 0 auto;
+      padding: 20px;
+      color: #333;
+      background-color: #fff;
+    }
+    
+    h1 {
+      color: #2c3e50;
+      border-bottom: 3px solid #3498db;
+      padding-bottom: 10px;
+      margin-bottom: 30px;
+    }
+    
+    h2 {
+      color: #34495e;
+      margin-top: 40px;
+      margin-bottom: 20px;
+      padding-left: 10px;
+      border-left: 4px solid #3498db;
+    }
+    
+    h3 {
+      color: #7f8c8d;
+      margin-top: 30px;
+      margin-bottom: 15px;
+    }
+    
+    p {
+      margin-bottom: 16px;
+      text-align: justify;
+    }
+    
+    .section {
+      margin-bottom: 40px;
+    }
+    
+    .subsection {
+      margin-left: 20px;
+      margin-bottom: 25px;
+      padding: 15px;
+      background-color: #f8f9fa;
+      border-radius: 8px;
+      border-left: 3px solid #28a745;
+    }
+    
+    .footer {
+      margin-top: 60px;
+      padding: 20px;
+      background-color: #ecf0f1;
+      border-radius: 8px;
+      text-align: center;
+      color: #7f8c8d;
+      font-size: 14px;
+    }
+    
+    .meta-info {
+      background-color: #e3f2fd;
+      padding: 15px;
+      border-radius: 8px;
+      margin-bottom: 30px;
+      border-left: 4px solid #2196f3;
+    }
+    
+    .faq-item {
+      margin-bottom: 15px;
+      padding: 15px;
+      background-color: #f8f9fa;
+      border-radius: 8px;
+      border-left: 3px solid #f39c12;
+    }
+    
+    .faq-item summary {
+      font-weight: bold;
+      color: #34495e;
+      cursor: pointer;
+    }
+    
+    .faq-item p {
+      margin: 10px 0 0;
+    }
+    
+    .reference-list {
+      list-style: none;
+      padding-left: 0;
+      font-size: 14px;
+    }
+    
+    .reference-list li {
+      margin-bottom: 8px;
+    }
+    
+    .meta-info h4 {
+      margin: 0 0 10px 0;
+      color: #1976d2;
+    }
+    
+    @media (max-width: 768px) {
+      body {
+        padding: 10px;
+      }
+      
+      .subsection {
+        margin-left: 10px;
+      }
+    }
+    
+    @media print {
+      body {
+        background-color: white;
+      }
+      
+      .footer {
+        background-color: white;
+        border: 1px solid #ddd;
+      }
+    }
+  </style>
+`;
+  }
+
+  html += '</head>\n<body>\n';
+
+  // メタ情報
+  if (options.includeSEO && article.seoMetadata) {
+    html += '  <div class="meta-info">\n';
+    html += `    <h4>📊 ${messages.articleInfo}</h4>\n`;
+    html += `    <p><strong>${messages.generatedAt}:</strong> ${new Date().toLocaleDateString(dateLocale)}</p>\n`;
+    if (author) {
+      const authorName = author.jobTitle ? `${author.name}（${author.jobTitle}）` : author.name;
+      html += `    <p><strong>${messages.author}:</strong> ${linkHtml(authorName, author.url)}</p>\n`;
+    }
+    if (brand.attribution === 'full') {
+      html += `    <p><strong>${messages.generator}:</strong> ${messages.systemName} (${escapeHtml(brand.organizationName)})</p>\n`;
+    }
+    html += `    <p><strong>${messages.optimization}:</strong> ${messages.optimizationValue}</p>\n`;
+    html += '  </div>\n';
+  }
+
+  // Article title
+  html += `  <h1>${escapeHtml(article.title)}</h1>\n\n`;
+
+  // Article sections（見出しのIDはRAGチャンクのアンカーと共通）
+  const anchors = buildArticleAnchors(article, messages.faq, messages.references);
+  const sources = citedSources(article);
+  const sourceIds = new Set(sources.map(source => source.id));
+  const textHtml = (text: string, indent: string) =>
+    `${indent}<p>${linkCitations(escapeHtml(text), sourceIds).replace(/\n/g, `</p>\n${indent}<p>`)}</p>\n`;
+  article.sections.forEach((section, index) => {
+    html += '  <div class="section">\n';
+    html += `    <h2 id="${escapeHtml(anchors.sections[index].id)}">${escapeHtml(section.heading)}</h2>\n`;
+    html += textHtml(section.content, '    ');
+
+    if (section.subheadings) {
+      section.subheadings.forEach((sub, subIndex) => {
+        html += '    <div class="subsection">\n';
+        html += `      <h3 id="${escapeHtml(anchors.sections[index].subheadings[subIndex])}">${escapeHtml(sub.title)}</h3>\n`;
+        html += textHtml(sub.content, '      ');
+        html += '    </div>\n';
+      });
+    }
+    html += '  </div>\n\n';
+  });
+
+  // よくある質問（回答を開閉できる details 要素で出力）
+  if (article.faq?.length && anchors.faq) {
+    const faqAnchors = anchors.faq;
+    html += '  <div class="section faq">\n';
+    html += `    <h2 id="${escapeHtml(faqAnchors.id)}">${messages.faq}</h2>\n`;
+    article.faq.forEach((item, index) => {
+      html += `    <details class="faq-item" id="${escapeHtml(faqAnchors.questions[index])}" open>\n`;
+      html += `      <summary>${escapeHtml(item.question)}</summary>\n`;
+      html += textHtml(item.answer, '      ');
+      html += '    </details>\n';
+    });
+    html += '  </div>\n\n';
+  }
+
+  // 参考文献（本文の [S1] から各項目へリンクする）
+  if (sources.length > 0 && anchors.references) {
+    html += '  <div class="section references">\n';
+    html += `    <h2 id="${escapeHtml(anchors.references)}">${messages.references}</h2>\n`;
+    html += '    <ul class="reference-list">\n';
+    sources.forEach(source => {
+      html += `      <li id="${sourceAnchor(source.id)}">[${escapeHtml(source.id)}] ${linkHtml(source.title, source.url)}</li>\n`;
+    });
+    html += '    </ul>\n';
+    html += '  </div>\n\n';
+  }
+
+  // Footer
+  const footerLines = buildFooterLines(brand, messages, dateLocale);
+  if (footerLines.length > 0) {
+    html += '  <div class="footer">\n';
+    footerLines.forEach(line => {
+      html += `    <p>${line}</p>\n`;
+    });
+    html += '  </div>\n';
+  }
+
+  html += '</body>\n</html>';
+
+  return html;
+}
+
+/**
+ * 本文の出典ID（[S1] / [S1, S2]）を参考文献の項目へのリンクにする（escapeHtml 済みのHTMLに適用する）。
+ * 参考文献にない出典IDはそのまま残す。
+ */
+export function linkCitations(html: string, sourceIds: Set<string>): string {
+  return html.replace(CITATION_PATTERN, (match, ids: string) => {
+    const linked = ids.replace(/S\d+/g, id => sourceIds.has(id) ? `<a href="#${sourceAnchor(id)}">${id}</a>` : id);
+    return `[${linked}]`;
+  });
+}
+
+function linkHtml(text: string, url?: string): string {
+  return url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+}
+
+// ブランドのクレジット表記方針に沿ったフッターの各行（HTML）
+function buildFooterLines(brand: BrandSettings, messages: ExportMessages, dateLocale: string): string[] {
+  const lines: string[] = [];
+  if (brand.attribution === 'full') {
+    lines.push(`🤖 <strong>${messages.aiGenerated}</strong>`);
+    lines.push(`<em>${linkHtml(messages.systemName, brand.attributionUrl)}</em> - ${linkHtml(brand.organizationName, brand.siteUrl)}`);
+    lines.push(`${messages.generatedAt}: ${new Date().toLocaleDateString(dateLocale)} ${new Date().toLocaleTimeString(dateLocale)}`);
+  } else if (brand.attribution === 'brand') {
+    lines.push(linkHtml(brand.organizationName, brand.siteUrl));
+  }
+  if (brand.footerText) {
+    lines.push(escapeHtml(brand.footerText).replace(/\n/g, '<br>'));
+  }
+  return lines;
+}
+
+export function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
@@ -0,0 +1,69 @@
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { buildArticleJsonLd, JsonLdIssue, validateJsonLd } from '@/lib/jsonld';
+import { GeneratedArticle } from '@/lib/types';
+import { generateJsonl } from './chunks';
+import { generateDocx } from './docx';
+import { generateHTML } from './html';
+import { generateMarkdown } from './markdown';
+import { generatePdf } from './pdf';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, FRONT_MATTER_PROFILES, FrontMatterProfile } from './types';
+
+export { buildArticleAnchors, slugifyHeading, sourceAnchor } from './anchors';
+export type { ArticleAnchors } from './anchors';
+export { CHUNK_TOKEN_LIMITS, chunkArticle, DEFAULT_CHUNK_TOKENS, generateJsonl, normalizeChunkTokens, splitTextByTokens } from './chunks';
+export type { ArticleChunk, ChunkOptions } from './chunks';
+export { generateDocx } from './docx';
+export { buildFrontMatter, slugFromCanonicalUrl } from './front-matter';
+export type { FrontMatterOptions } from './front-matter';
+export { escapeHtml, generateHTML, linkCitations } from './html';
+export { generateMarkdown } from './markdown';
+export { generatePdf } from './pdf';
+export { EXPORT_FORMATS, FRONT_MATTER_PROFILES } from './types';
+export type { ExportFormat, ExportOptions, FrontMatterProfile } from './types';
+
+export interface ExportedFile {
+  // テキスト形式は文字列、DOCX・PDFはバイナリ
+  content: string | Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+// フォーマットごとの出力内容・MIMEタイプ・拡張子
+export function exportArticle(format: ExportFormat, article: GeneratedArticle, options: ExportOptions = {}): ExportedFile {
+  switch (format) {
+    case 'markdown':
+      return { content: generateMarkdown(article, options), mimeType: 'text/markdown', extension: 'md' };
+    case 'html':
+      return { content: generateHTML(article, options), mimeType: 'text/html', extension: 'html' };
+    case 'docx':
+      return {
+        content: generateDocx(article, options),
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx',
+      };
+    case 'pdf':
+      return { content: generatePdf(article, options), mimeType: 'application/pdf', extension: 'pdf' };
+    case 'jsonl':
+      return { content: generateJsonl(article, options), mimeType: 'application/x-ndjson', extension: 'jsonl' };
+  }
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return (EXPORT_FORMATS as unknown[]).includes(value);
+}
+
+export function isFrontMatterProfile(value: unknown): value is FrontMatterProfile {
+  return (FRONT_MATTER_PROFILES as unknown[]).includes(value);
+}
+
+/**
+ * エクスポートするHTMLに埋め込む構造化データ（JSON-LD）を検証する。
+ * SEOメタデータを含めない場合やHTML以外の形式では構造化データを出力しないため、検証しない。
+ */
+export function validateExportJsonLd(format: ExportFormat, article: GeneratedArticle, options: ExportOptions = {}): JsonLdIssue[] {
+  if (format !== 'html' || !options.includeSEO || !article.seoMetadata) {
+    return [];
+  }
+  const document = buildArticleJsonLd(article, { brand: options.brand ?? DEFAULT_BRAND, locale: options.locale, publishedAt: options.publishedAt });
+  return validateJsonLd(document);
+}
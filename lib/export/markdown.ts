@@ -0,0 +1,78 @@
+import { citedSources } from '@/lib/article';
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { EXPORT_MESSAGES, LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle } from '@/lib/types';
+import { buildFrontMatter } from './front-matter';
+import { ExportOptions } from './types';
+
+export function generateMarkdown(article: GeneratedArticle, options: ExportOptions): string {
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const { dateLocale } = LOCALE_CONFIG[locale];
+  const messages = EXPORT_MESSAGES[locale];
+  const brand = options.brand ?? DEFAULT_BRAND;
+  let markdown = '';
+
+  // Front Matter（汎用形式はSEOメタデータがある場合のみ、ジェネレーター向けの形式はタイトル・日付のために常に出力する）
+  const profile = options.frontMatter ?? 'generic';
+  if (profile !== 'generic' || (options.includeSEO && article.seoMetadata)) {
+    const source = options.includeSEO ? article : { ...article, seoMetadata: undefined };
+    markdown += buildFrontMatter(source, { profile, brand, locale, publishedAt: options.publishedAt });
+    markdown += '\n';
+  }
+
+  // Article title（Hugo・Jekyll・Astro はレイアウトがフロントマターの title を見出しとして表示する）
+  if (profile === 'generic' || profile === 'docusaurus') {
+    markdown += `# ${article.title}\n\n`;
+  }
+
+  // Article sections
+  article.sections.forEach((section) => {
+    markdown += `## ${section.heading}\n\n`;
+    markdown += `${section.content}\n\n`;
+
+    if (section.subheadings) {
+      section.subheadings.forEach((sub) => {
+        markdown += `### ${sub.title}\n\n`;
+        markdown += `${sub.content}\n\n`;
+      });
+    }
+  });
+
+  // よくある質問
+  if (article.faq?.length) {
+    markdown += `## ${messages.faq}\n\n`;
+    article.faq.forEach((item) => {
+      markdown += `### ${item.question}\n\n`;
+      markdown += `${item.answer}\n\n`;
+    });
+  }
+
+  // 参考文献（本文の [S1] で参照している出典）
+  const sources = citedSources(article);
+  if (sources.length > 0) {
+    markdown += `## ${messages.references}\n\n`;
+    sources.forEach((source) => {
+      markdown += `- [${source.id}] ${source.url ? `[${source.title}](${source.url})` : source.title}\n`;
+    });
+    markdown += '\n';
+  }
+
+  // Footer（ブランドのクレジット表記方針に従う）
+  const footerLines: string[] = [];
+  if (brand.attribution === 'full') {
+    const systemName = brand.attributionUrl ? `[${messages.systemName}](${brand.attributionUrl})` : messages.systemName;
+    footerLines.push(`*${messages.generatedBy(systemName)}*`);
+    footerLines.push(`*${messages.generatedAt}: ${new Date().toLocaleDateString(dateLocale)}*`);
+  } else if (brand.attribution === 'brand') {
+    footerLines.push(`*${brand.siteUrl ? `[${brand.organizationName}](${brand.siteUrl})` : brand.organizationName}*`);
+  }
+  if (brand.footerText) {
+    footerLines.push(brand.footerText);
+  }
+  if (footerLines.length > 0) {
+    markdown += '---\n\n';
+    markdown += footerLines.map(line => `${line}\n`).join('');
+  }
+
+  return markdown;
+}
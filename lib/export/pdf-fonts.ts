@@ -0,0 +1,168 @@
+import { Locale } from '@/lib/types';
+
+// PDFの標準14フォントの字幅（AFM、1/1000 em）。ASCII 0x20〜0x7E の順
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Courier は全文字が同じ幅
+const COURIER_WIDTH = 600;
+
+// WinAnsiEncoding の 0x80〜0x9F に割り当てられた文字と字幅（[通常, 太字]）
+const WIN_ANSI_SPECIALS: Record<string, { code: number; widths: [number, number] }> = {
+  '€': { code: 0x80, widths: [556, 556] },
+  '‚': { code: 0x82, widths: [222, 278] },
+  'ƒ': { code: 0x83, widths: [556, 556] },
+  '„': { code: 0x84, widths: [333, 500] },
+  '…': { code: 0x85, widths: [1000, 1000] },
+  '†': { code: 0x86, widths: [556, 556] },
+  '‡': { code: 0x87, widths: [556, 556] },
+  'ˆ': { code: 0x88, widths: [333, 333] },
+  '‰': { code: 0x89, widths: [1000, 1000] },
+  'Š': { code: 0x8a, widths: [667, 667] },
+  '‹': { code: 0x8b, widths: [333, 333] },
+  'Œ': { code: 0x8c, widths: [1000, 1000] },
+  'Ž': { code: 0x8e, widths: [611, 611] },
+  '‘': { code: 0x91, widths: [222, 278] },
+  '’': { code: 0x92, widths: [222, 278] },
+  '“': { code: 0x93, widths: [333, 500] },
+  '”': { code: 0x94, widths: [333, 500] },
+  '•': { code: 0x95, widths: [350, 350] },
+  '–': { code: 0x96, widths: [556, 556] },
+  '—': { code: 0x97, widths: [1000, 1000] },
+  '˜': { code: 0x98, widths: [333, 333] },
+  '™': { code: 0x99, widths: [1000, 1000] },
+  'š': { code: 0x9a, widths: [500, 556] },
+  '›': { code: 0x9b, widths: [333, 333] },
+  'œ': { code: 0x9c, widths: [944, 944] },
+  'ž': { code: 0x9e, widths: [500, 500] },
+  'Ÿ': { code: 0x9f, widths: [667, 667] },
+};
+
+export type LatinFontStyle = 'regular' | 'bold' | 'mono';
+
+/**
+ * 標準フォント（WinAnsiEncoding）で表せる文字の文字コード。表せない文字は undefined。
+ */
+export function winAnsiCode(char: string): number | undefined {
+  const code = char.codePointAt(0)!;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_SPECIALS[char]?.code;
+}
+
+// 標準フォントでの字幅（WinAnsiEncoding で表せる文字のみ）
+export function latinCharWidth(char: string, style: LatinFontStyle): number {
+  if (style === 'mono') {
+    return COURIER_WIDTH;
+  }
+  const widths = style === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = char.codePointAt(0)!;
+  if (code >= 0x20 && code <= 0x7e) {
+    return widths[code - 0x20];
+  }
+  const special = WIN_ANSI_SPECIALS[char];
+  if (special) {
+    return special.widths[style === 'bold' ? 1 : 0];
+  }
+  if (code === 0xa0) {
+    return widths[0];
+  }
+  // アクセント付きのラテン文字は基底の文字の幅とする
+  const base = char.normalize('NFD').codePointAt(0)!;
+  return base >= 0x20 && base <= 0x7e ? widths[base - 0x20] : 556;
+}
+
+export const LATIN_FONTS: Record<LatinFontStyle, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  mono: 'Courier',
+};
+
+// 埋め込まずに使用するAdobeのCJKフォント（閲覧環境のフォントで表示される）
+export interface CIDFontConfig {
+  baseFont: string;
+  // Unicode（UCS-2）から CID への対応表
+  encoding: string;
+  ordering: string;
+  supplement: number;
+  flags: number;
+  bbox: [number, number, number, number];
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  stemV: number;
+}
+
+const JAPANESE_FONT: CIDFontConfig = {
+  baseFont: 'HeiseiKakuGo-W5',
+  encoding: 'UniJIS-UCS2-H',
+  ordering: 'Japan1',
+  supplement: 2,
+  flags: 4,
+  bbox: [-92, -250, 1010, 922],
+  ascent: 752,
+  descent: -221,
+  capHeight: 737,
+  stemV: 114,
+};
+
+// 英語の記事に含まれる日本語などは日本語フォントで表示する
+export const CID_FONTS: Record<Locale, CIDFontConfig> = {
+  ja: JAPANESE_FONT,
+  en: JAPANESE_FONT,
+  'zh-Hans': {
+    baseFont: 'STSong-Light',
+    encoding: 'UniGB-UCS2-H',
+    ordering: 'GB1',
+    supplement: 2,
+    flags: 6,
+    bbox: [-25, -254, 1000, 880],
+    ascent: 880,
+    descent: -120,
+    capHeight: 880,
+    stemV: 93,
+  },
+  'zh-Hant': {
+    baseFont: 'MSung-Light',
+    encoding: 'UniCNS-UCS2-H',
+    ordering: 'CNS1',
+    supplement: 0,
+    flags: 6,
+    bbox: [-160, -249, 1015, 888],
+    ascent: 880,
+    descent: -120,
+    capHeight: 880,
+    stemV: 93,
+  },
+  ko: {
+    baseFont: 'HYGoThic-Medium',
+    encoding: 'UniKS-UCS2-H',
+    ordering: 'Korea1',
+    supplement: 1,
+    flags: 4,
+    bbox: [-6, -145, 1003, 880],
+    ascent: 880,
+    descent: -120,
+    capHeight: 880,
+    stemV: 93,
+  },
+};
+
+// CJKフォントの字幅（すべて全角幅として扱い、/DW 1000 と一致させる）
+export const CID_CHAR_WIDTH = 1000;
@@ -0,0 +1,734 @@
+import { deflateSync } from 'zlib';
+import { citedSources } from '@/lib/article';
+import { authorDisplayName, BrandSettings, DEFAULT_BRAND, primaryAuthor } from '@/lib/brand';
+import { buildArticleJsonLd, serializeJsonLd } from '@/lib/jsonld';
+import { EXPORT_MESSAGES, ExportMessages, LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { isFullWidth } from '@/lib/seo-length';
+import { GeneratedArticle, Locale } from '@/lib/types';
+import { CID_CHAR_WIDTH, CID_FONTS, LATIN_FONTS, LatinFontStyle, latinCharWidth, winAnsiCode } from './pdf-fonts';
+import { ExportOptions } from './types';
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+// 用紙サイズ（pt）。英語はレター、それ以外はA4（DOCXと同じ）
+const A4: PageSize = { width: 595.28, height: 841.89 };
+const PAGE_SIZES: Record<Locale, PageSize> = {
+  ja: A4,
+  en: { width: 612, height: 792 },
+  'zh-Hans': A4,
+  'zh-Hant': A4,
+  ko: A4,
+};
+
+const MARGIN_X = 56;
+// 本文領域の上端・下端（用紙の端からの距離）。その外側にヘッダー・フッターを置く
+const CONTENT_TOP = 72;
+const CONTENT_BOTTOM = 64;
+const HEADER_BASELINE = 40;
+const FOOTER_BASELINE = 32;
+// 項目名と値の表の1列目の幅
+const LABEL_WIDTH = 110;
+// 目次のページ番号の列の幅
+const TOC_NUMBER_WIDTH = 28;
+
+type RGB = [number, number, number];
+
+function rgb(hex: string): RGB {
+  return [0, 2, 4].map(index => parseInt(hex.slice(index, index + 2), 16) / 255) as RGB;
+}
+
+// HTMLエクスポートのスタイルと同じ配色
+const COLORS = {
+  text: rgb('333333'),
+  title: rgb('2c3e50'),
+  heading: rgb('34495e'),
+  subheading: rgb('2e7d32'),
+  accent: rgb('3498db'),
+  label: rgb('1976d2'),
+  muted: rgb('7f8c8d'),
+  rule: rgb('bfbfbf'),
+};
+
+// 行頭に置かない文字・行末に置かない文字（禁則処理）
+const NO_LINE_START = new Set([...'、。，．・：；？！ー）」』】〕〉》”’ゝゞぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ,.;:!?)]}%']);
+const NO_LINE_END = new Set([...'（「『【〔〈《“‘([{']);
+// UCS-2 で表せない補助面の文字（絵文字など）の代わりに表示する文字
+const REPLACEMENT_CHARACTER = '〓';
+
+interface TextOperation {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  style: LatinFontStyle;
+  color: RGB;
+}
+
+interface LineOperation {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number;
+  color: RGB;
+}
+
+interface RectOperation {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: RGB;
+}
+
+type DrawOperation = TextOperation | LineOperation | RectOperation;
+
+// 文書内の移動先（ページ番号は0始まり、y は移動先の上端）
+interface Destination {
+  page: number;
+  y: number;
+}
+
+interface LayoutPage {
+  operations: DrawOperation[];
+  links: { rect: [number, number, number, number]; destination: Destination }[];
+}
+
+interface HeadingEntry {
+  text: string;
+  // 1: セクション / 2: サブセクション
+  level: 1 | 2;
+  destination: Destination;
+}
+
+// 制御文字を除き、タブを空白に、UCS-2 で表せない文字を代替文字に置き換える
+function normalizeText(text: string): string {
+  return Array.from(text.replace(/\t/g, '    '), (char) => {
+    const code = char.codePointAt(0)!;
+    if (code < 0x20 || (code >= 0x7f && code < 0xa0)) return '';
+    return code > 0xffff ? REPLACEMENT_CHARACTER : char;
+  }).join('');
+}
+
+// 標準フォントで表せない文字はCJKフォントで表示する
+function isCIDCharacter(char: string): boolean {
+  return winAnsiCode(char) === undefined;
+}
+
+function charWidth(char: string, style: LatinFontStyle): number {
+  return isCIDCharacter(char) ? CID_CHAR_WIDTH : latinCharWidth(char, style);
+}
+
+function measureText(text: string, style: LatinFontStyle, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, style);
+  }
+  return (width * size) / 1000;
+}
+
+// 英文は空白の位置で、和文などの全角文字は文字の間で改行できる（禁則文字の前後を除く）
+function canBreakBetween(previous: string, next: string): boolean {
+  if (NO_LINE_START.has(next) || NO_LINE_END.has(previous)) return false;
+  return previous === ' ' || next === ' ' || isFullWidth(previous) || isFullWidth(next);
+}
+
+function wrapText(text: string, style: LatinFontStyle, size: number, maxWidth: number): string[] {
+  const chars = [...text];
+  const lines: string[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    let width = 0;
+    let end = start;
+    let lastBreak = -1;
+    while (end < chars.length) {
+      const next = width + (charWidth(chars[end], style) * size) / 1000;
+      if (next > maxWidth && end > start) break;
+      width = next;
+      end++;
+      if (end < chars.length && canBreakBetween(chars[end - 1], chars[end])) {
+        lastBreak = end;
+      }
+    }
+    const breakAt = end < chars.length && lastBreak > start ? lastBreak : end;
+    lines.push(chars.slice(start, breakAt).join('').trimEnd());
+    start = breakAt;
+    while (chars[start] === ' ') start++;
+  }
+  return lines;
+}
+
+// 幅に収まらない場合は末尾を「…」で省略する（ヘッダーの記事タイトル用）
+function truncateText(text: string, style: LatinFontStyle, size: number, maxWidth: number): string {
+  if (measureText(text, style, size) <= maxWidth) {
+    return text;
+  }
+  const available = maxWidth - measureText('…', style, size);
+  let result = '';
+  for (const char of text) {
+    if (measureText(result + char, style, size) > available) break;
+    result += char;
+  }
+  return `${result.trimEnd()}…`;
+}
+
+interface BlockOptions {
+  size: number;
+  style?: LatinFontStyle;
+  color?: RGB;
+  indent?: number;
+  // 右側の余白（目次のページ番号の列など）
+  rightIndent?: number;
+  // 行送り（フォントサイズに対する比率）
+  lineHeight?: number;
+  spaceBefore?: number;
+  spaceAfter?: number;
+  align?: 'left' | 'center';
+  // ブロック全体を同じページに収める
+  keepTogether?: boolean;
+  // ブロックの直後に同じページに確保する高さ（見出しと本文が離れないようにする）
+  keepWithNext?: number;
+  // 1行目の左端に表示する項目名（太字、indent の幅に収める）
+  label?: string;
+}
+
+interface BlockResult {
+  // 1行目のページと上端
+  start: Destination;
+  // 最終行のページ・ベースライン・行末の位置
+  end: { page: number; baseline: number; right: number };
+  bottom: number;
+}
+
+/**
+ * 本文領域に上から順にテキストを配置し、ページからはみ出す場合は改ページする。
+ */
+function createLayout(pageSize: PageSize) {
+  const pages: LayoutPage[] = [];
+  const contentWidth = pageSize.width - MARGIN_X * 2;
+  let y = 0;
+  let atPageTop = true;
+
+  const newPage = () => {
+    pages.push({ operations: [], links: [] });
+    y = pageSize.height - CONTENT_TOP;
+    atPageTop = true;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (!atPageTop && y - height < CONTENT_BOTTOM) {
+      newPage();
+    }
+  };
+
+  const block = (text: string, options: BlockOptions): BlockResult | undefined => {
+    const {
+      size,
+      style = 'regular',
+      color = COLORS.text,
+      indent = 0,
+      rightIndent = 0,
+      lineHeight = 1.7,
+      spaceBefore = 0,
+      spaceAfter = 0,
+      align = 'left',
+      keepTogether = false,
+      keepWithNext = 0,
+      label,
+    } = options;
+    const lines = wrapText(normalizeText(text), style, size, contentWidth - indent - rightIndent);
+    if (lines.length === 0) {
+      return undefined;
+    }
+
+    const leading = size * lineHeight;
+    const firstHeight = keepTogether || keepWithNext > 0 ? leading * lines.length + keepWithNext : leading;
+    ensureSpace((atPageTop ? 0 : spaceBefore) + firstHeight);
+    if (!atPageTop) {
+      y -= spaceBefore;
+    }
+
+    const start = { page: pages.length - 1, y };
+    let end = { page: start.page, baseline: y, right: 0 };
+    lines.forEach((line, index) => {
+      ensureSpace(leading);
+      const page = pages[pages.length - 1];
+      const baseline = y - leading / 2 - size * 0.35;
+      const lineWidth = measureText(line, style, size);
+      const x = align === 'center' ? (pageSize.width - lineWidth) / 2 : MARGIN_X + indent;
+      page.operations.push({ type: 'text', x, y: baseline, text: line, size, style, color });
+      if (index === 0 && label) {
+        const labelText = truncateText(normalizeText(label), 'bold', size, indent - 8);
+        page.operations.push({ type: 'text', x: MARGIN_X, y: baseline, text: labelText, size, style: 'bold', color: COLORS.label });
+      }
+      end = { page: pages.length - 1, baseline, right: x + lineWidth };
+      y -= leading;
+      atPageTop = false;
+    });
+    const bottom = y;
+    y -= spaceAfter;
+    return { start, end, bottom };
+  };
+
+  // 本文の幅いっぱいの罫線
+  const rule = (color: RGB, width: number, spaceAfter: number) => {
+    const page = pages[pages.length - 1];
+    page.operations.push({ type: 'line', x1: MARGIN_X, y1: y, x2: pageSize.width - MARGIN_X, y2: y, width, color });
+    y -= spaceAfter;
+  };
+
+  newPage();
+  return { pages, contentWidth, pageSize, newPage, block, rule };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+// 改行ごとに段落を分ける（HTMLエクスポートの <p> と同じ扱い）
+function textParagraphs(layout: Layout, text: string) {
+  text
+    .split('\n')
+    .filter(line => line.trim())
+    .forEach(line => layout.block(line, { size: 10.5, spaceAfter: 6 }));
+}
+
+function subtitle(layout: Layout, text: string) {
+  layout.block(text, { size: 12, style: 'bold', color: COLORS.label, spaceBefore: 14, spaceAfter: 6, keepWithNext: 30 });
+}
+
+// 項目名と値の2列の表
+function table(layout: Layout, rows: { label: string; value: string }[]) {
+  rows.forEach(({ label, value }) => {
+    layout.block(value, { size: 9.5, label, indent: LABEL_WIDTH, lineHeight: 1.6 });
+  });
+}
+
+/**
+ * 本文（セクション・FAQ・フッター・付録）を配置し、目次に載せる見出しと移動先を返す。
+ * ページ番号は本文の先頭ページを0とする。
+ */
+function layoutBody(article: GeneratedArticle, options: ExportOptions, locale: Locale): { pages: LayoutPage[]; headings: HeadingEntry[] } {
+  const { dateLocale } = LOCALE_CONFIG[locale];
+  const messages = EXPORT_MESSAGES[locale];
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const layout = createLayout(PAGE_SIZES[locale]);
+  const headings: HeadingEntry[] = [];
+
+  const heading = (text: string, level: 1 | 2) => {
+    const result = level === 1
+      ? layout.block(text, { size: 16, style: 'bold', color: COLORS.heading, indent: 10, lineHeight: 1.4, spaceBefore: 22, spaceAfter: 10, keepWithNext: 40 })
+      : layout.block(text, { size: 13, style: 'bold', color: COLORS.subheading, lineHeight: 1.4, spaceBefore: 14, spaceAfter: 6, keepWithNext: 30 });
+    if (!result) return;
+    if (level === 1) {
+      // HTMLエクスポートの h2 と同じ左側の線
+      layout.pages[result.start.page].operations.push({
+        type: 'rect',
+        x: MARGIN_X,
+        y: result.bottom,
+        width: 3,
+        height: result.start.y - result.bottom,
+        color: COLORS.accent,
+      });
+    }
+    headings.push({ text, level, destination: result.start });
+  };
+
+  article.sections.forEach((section) => {
+    heading(section.heading, 1);
+    textParagraphs(layout, section.content);
+    section.subheadings?.forEach((sub) => {
+      heading(sub.title, 2);
+      textParagraphs(layout, sub.content);
+    });
+  });
+
+  if (article.faq?.length) {
+    heading(messages.faq, 1);
+    article.faq.forEach((item) => {
+      layout.block(`Q. ${item.question}`, { size: 11, style: 'bold', color: COLORS.heading, lineHeight: 1.5, spaceBefore: 8, spaceAfter: 4, keepWithNext: 18 });
+      textParagraphs(layout, item.answer);
+    });
+  }
+
+  const sources = citedSources(article);
+  if (sources.length > 0) {
+    heading(messages.references, 1);
+    sources.forEach((source) => {
+      layout.block(`[${source.id}] ${source.title}${source.url ? ` ${source.url}` : ''}`, { size: 9.5, lineHeight: 1.6, spaceAfter: 4 });
+    });
+  }
+
+  // ブランドのクレジット表記方針に沿ったフッター
+  const footerLines: string[] = [];
+  if (brand.attribution === 'full') {
+    footerLines.push(messages.generatedBy(messages.systemName));
+    footerLines.push(`${messages.generatedAt}: ${new Date().toLocaleDateString(dateLocale)}`);
+  } else if (brand.attribution === 'brand') {
+    footerLines.push(brand.organizationName);
+  }
+  if (brand.footerText) {
+    footerLines.push(...brand.footerText.split('\n'));
+  }
+  footerLines.forEach((line, index) => {
+    layout.block(line, { size: 8.5, color: COLORS.muted, align: 'center', lineHeight: 1.6, spaceBefore: index === 0 ? 24 : 0 });
+  });
+
+  if (options.includeSEO && options.appendix && article.seoMetadata) {
+    layout.newPage();
+    heading(messages.appendix, 1);
+    layoutAppendix(layout, article, brand, messages, locale, options.publishedAt);
+  }
+
+  return { pages: layout.pages, headings };
+}
+
+// 付録: SEOメタデータと構造化データ（JSON-LD）
+function layoutAppendix(
+  layout: Layout,
+  article: GeneratedArticle,
+  brand: BrandSettings,
+  messages: ExportMessages,
+  locale: Locale,
+  publishedAt?: string
+) {
+  const seo = article.seoMetadata!;
+  subtitle(layout, messages.seoMetadata);
+  table(layout, [
+    { label: 'title', value: seo.title },
+    { label: 'description', value: seo.description },
+    { label: 'keywords', value: seo.keywords.join(', ') },
+    { label: 'robots', value: seo.metaRobots },
+    ...(seo.canonicalUrl ? [{ label: 'canonical', value: seo.canonicalUrl }] : []),
+    { label: 'og:title', value: seo.ogTitle },
+    { label: 'og:description', value: seo.ogDescription },
+    { label: 'twitter:title', value: seo.twitterTitle },
+    { label: 'twitter:description', value: seo.twitterDescription },
+  ]);
+
+  subtitle(layout, messages.structuredData);
+  serializeJsonLd(buildArticleJsonLd(article, { brand, locale, publishedAt })).split('\n').forEach((line) => {
+    layout.block(line, { size: 7.5, style: 'mono', lineHeight: 1.45 });
+  });
+}
+
+/**
+ * 1ページ目（タイトル・記事情報・目次）を配置する。
+ * 目次のページ番号は本文を pageOffset ページ目から始めた場合の番号になる。
+ */
+function layoutFrontMatter(
+  article: GeneratedArticle,
+  options: ExportOptions,
+  locale: Locale,
+  headings: HeadingEntry[],
+  pageOffset: number,
+): LayoutPage[] {
+  const { dateLocale } = LOCALE_CONFIG[locale];
+  const messages = EXPORT_MESSAGES[locale];
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const layout = createLayout(PAGE_SIZES[locale]);
+
+  layout.block(article.title, { size: 22, style: 'bold', color: COLORS.title, lineHeight: 1.4, spaceAfter: 6 });
+  layout.rule(COLORS.accent, 2, 18);
+
+  if (options.includeSEO && article.seoMetadata) {
+    const author = primaryAuthor(brand);
+    const rows = [{ label: messages.generatedAt, value: new Date().toLocaleDateString(dateLocale) }];
+    if (author) {
+      rows.push({ label: messages.author, value: author.jobTitle ? `${author.name}（${author.jobTitle}）` : author.name });
+    }
+    if (brand.attribution === 'full') {
+      rows.push({ label: messages.generator, value: `${messages.systemName} (${brand.organizationName})` });
+    }
+    rows.push({ label: messages.optimization, value: messages.optimizationValue });
+    subtitle(layout, messages.articleInfo);
+    table(layout, rows);
+  }
+
+  layout.block(messages.tableOfContents, { size: 14, style: 'bold', color: COLORS.heading, lineHeight: 1.4, spaceBefore: 22, spaceAfter: 8, keepWithNext: 20 });
+  const numberX = layout.pageSize.width - MARGIN_X;
+  headings.forEach(({ text, level, destination }) => {
+    const size = level === 1 ? 10.5 : 10;
+    const indent = level === 1 ? 0 : 16;
+    const result = layout.block(text, {
+      size,
+      style: level === 1 ? 'bold' : 'regular',
+      color: level === 1 ? COLORS.heading : COLORS.text,
+      indent,
+      rightIndent: TOC_NUMBER_WIDTH,
+      lineHeight: 1.6,
+      spaceBefore: level === 1 ? 4 : 0,
+      keepTogether: true,
+    });
+    if (!result) return;
+
+    const target = { page: destination.page + pageOffset, y: destination.y };
+    const pageNumber = String(target.page + 1);
+    const page = layout.pages[result.end.page];
+    const numberWidth = measureText(pageNumber, 'regular', size);
+    const dotWidth = measureText('.', 'regular', size);
+    const dotCount = Math.floor((numberX - numberWidth - result.end.right - 8) / dotWidth);
+    if (dotCount > 0) {
+      page.operations.push({ type: 'text', x: numberX - numberWidth - 4 - dotCount * dotWidth, y: result.end.baseline, text: '.'.repeat(dotCount), size, style: 'regular', color: COLORS.rule });
+    }
+    page.operations.push({ type: 'text', x: numberX - numberWidth, y: result.end.baseline, text: pageNumber, size, style: 'regular', color: COLORS.text });
+    page.links.push({ rect: [MARGIN_X + indent, result.bottom, numberX, result.start.y], destination: target });
+  });
+
+  return layout.pages;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function colorOperands(color: RGB): string {
+  return color.map(formatNumber).join(' ');
+}
+
+// 文書情報・しおりに使うテキスト文字列（UTF-16BE、BOM付き）
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let index = 0; index < text.length; index++) {
+    hex += text.charCodeAt(index).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+// フォントのリソース名。標準フォントは書体ごと、CJKフォントは1つ
+const FONT_RESOURCES: Record<LatinFontStyle, string> = { regular: 'F1', bold: 'F2', mono: 'F3' };
+const CID_FONT_RESOURCE = 'F4';
+
+// 使用するフォントごとに文字列を分け、16進文字列で出力する
+// （標準フォントは WinAnsiEncoding の1バイト、CJKフォントは UCS-2 の2バイト）
+function textOperators(operation: TextOperation): string {
+  const runs: { cid: boolean; hex: string }[] = [];
+  for (const char of operation.text) {
+    const cid = isCIDCharacter(char);
+    const hex = cid
+      ? char.charCodeAt(0).toString(16).padStart(4, '0')
+      : winAnsiCode(char)!.toString(16).padStart(2, '0');
+    const last = runs[runs.length - 1];
+    if (last && last.cid === cid) {
+      last.hex += hex;
+    } else {
+      runs.push({ cid, hex });
+    }
+  }
+
+  const bold = operation.style === 'bold';
+  const color = colorOperands(operation.color);
+  const size = formatNumber(operation.size);
+  const shows = runs.map(({ cid, hex }) => {
+    const font = cid ? CID_FONT_RESOURCE : FONT_RESOURCES[operation.style];
+    // CJKフォントには太字がないため、輪郭を塗りと同じ色で縁取って太く見せる
+    const renderingMode = bold ? `${cid ? 2 : 0} Tr ` : '';
+    return `${renderingMode}/${font} ${size} Tf <${hex.toUpperCase()}> Tj`;
+  });
+  const stroke = bold ? `${color} RG ${formatNumber(operation.size * 0.03)} w ` : '';
+  return `q ${color} rg ${stroke}BT ${formatNumber(operation.x)} ${formatNumber(operation.y)} Td ${shows.join(' ')} ET Q`;
+}
+
+function drawOperators(operation: DrawOperation): string {
+  switch (operation.type) {
+    case 'text':
+      return textOperators(operation);
+    case 'line':
+      return `q ${colorOperands(operation.color)} RG ${formatNumber(operation.width)} w `
+        + `${formatNumber(operation.x1)} ${formatNumber(operation.y1)} m ${formatNumber(operation.x2)} ${formatNumber(operation.y2)} l S Q`;
+    case 'rect':
+      return `q ${colorOperands(operation.color)} rg `
+        + `${[operation.x, operation.y, operation.width, operation.height].map(formatNumber).join(' ')} re f Q`;
+  }
+}
+
+// 2ページ目以降の上部に記事タイトルと発信元、全ページの下部にページ番号を表示する
+function headerAndFooter(title: string, brand: BrandSettings, pageSize: PageSize, pageIndex: number, pageCount: number): DrawOperation[] {
+  const operations: DrawOperation[] = [];
+  const size = 8;
+  const right = pageSize.width - MARGIN_X;
+
+  if (pageIndex > 0) {
+    const headerY = pageSize.height - HEADER_BASELINE;
+    const organization = normalizeText(brand.organizationName);
+    const organizationWidth = measureText(organization, 'regular', size);
+    const titleWidth = right - MARGIN_X - organizationWidth - 16;
+    operations.push(
+      { type: 'text', x: MARGIN_X, y: headerY, text: truncateText(normalizeText(title), 'regular', size, titleWidth), size, style: 'regular', color: COLORS.muted },
+      { type: 'text', x: right - organizationWidth, y: headerY, text: organization, size, style: 'regular', color: COLORS.muted },
+      { type: 'line', x1: MARGIN_X, y1: headerY - 6, x2: right, y2: headerY - 6, width: 0.5, color: COLORS.rule },
+    );
+  }
+
+  const pageNumber = `${pageIndex + 1} / ${pageCount}`;
+  operations.push({
+    type: 'text',
+    x: (pageSize.width - measureText(pageNumber, 'regular', size)) / 2,
+    y: FOOTER_BASELINE,
+    text: pageNumber,
+    size,
+    style: 'regular',
+    color: COLORS.muted,
+  });
+  return operations;
+}
+
+function fontObjects(locale: Locale): Record<string, string> {
+  const cidFont = CID_FONTS[locale];
+  const latin = (style: LatinFontStyle) => `<< /Type /Font /Subtype /Type1 /BaseFont /${LATIN_FONTS[style]} /Encoding /WinAnsiEncoding >>`;
+  return {
+    regular: latin('regular'),
+    bold: latin('bold'),
+    mono: latin('mono'),
+    type0: `<< /Type /Font /Subtype /Type0 /BaseFont /${cidFont.baseFont}-${cidFont.encoding} /Encoding /${cidFont.encoding} /DescendantFonts [{descendant}] >>`,
+    descendant: `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${cidFont.baseFont} `
+      + `/CIDSystemInfo << /Registry (Adobe) /Ordering (${cidFont.ordering}) /Supplement ${cidFont.supplement} >> `
+      + `/FontDescriptor {descriptor} /DW ${CID_CHAR_WIDTH} >>`,
+    descriptor: `<< /Type /FontDescriptor /FontName /${cidFont.baseFont} /Flags ${cidFont.flags} /FontBBox [${cidFont.bbox.join(' ')}] `
+      + `/ItalicAngle 0 /Ascent ${cidFont.ascent} /Descent ${cidFont.descent} /CapHeight ${cidFont.capHeight} /StemV ${cidFont.stemV} >>`,
+  };
+}
+
+// PDFの日付形式（D:YYYYMMDDHHmmSSZ）
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * オブジェクトを連番で並べ、相互参照表（xref）付きのPDFファイルにする。
+ * objects[i] がオブジェクト番号 i + 1 の本体（ストリームは Buffer）。
+ */
+function serializePdf(objects: (string | Buffer)[], rootId: number, infoId: number): Buffer {
+  // 2行目はバイナリを含むファイルであることを示すコメント
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%âãÏÓ\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+function streamObject(content: string): Buffer {
+  const data = deflateSync(Buffer.from(content, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream', 'latin1'),
+  ]);
+}
+
+/**
+ * 記事をPDFに変換する（ヘッドレスブラウザ・外部フォントを使わずにサーバー側で生成する）。
+ * 1ページ目にタイトル・記事情報（SEOメタデータを含める場合）・ページ番号付きの目次を置き、
+ * 本文は次のページから配置する。appendix 指定時はSEOメタデータとJSON-LDの付録ページを付ける。
+ * 日本語・中国語・韓国語は閲覧環境に用意されたAdobeのCJKフォント（埋め込みなし）で表示される。
+ */
+export function generatePdf(article: GeneratedArticle, options: ExportOptions): Buffer {
+  const locale = resolveLocale(options.locale ?? article.locale);
+  const brand = options.brand ?? DEFAULT_BRAND;
+  const pageSize = PAGE_SIZES[locale];
+
+  // 目次のページ数は番号の値によらないため、一度配置して本文の開始ページを決めてから番号を入れる
+  const body = layoutBody(article, options, locale);
+  const frontPageCount = layoutFrontMatter(article, options, locale, body.headings, 0).length;
+  const pages = [...layoutFrontMatter(article, options, locale, body.headings, frontPageCount), ...body.pages];
+  const toDocument = (destination: Destination): Destination => ({ page: destination.page + frontPageCount, y: destination.y });
+
+  const objects: (string | Buffer)[] = [];
+  const reserve = () => objects.push('');
+  const define = (id: number, value: string | Buffer) => {
+    objects[id - 1] = value;
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = reserve();
+  const outlinesId = reserve();
+  const fonts = fontObjects(locale);
+  const fontIds = {
+    regular: reserve(),
+    bold: reserve(),
+    mono: reserve(),
+    type0: reserve(),
+    descendant: reserve(),
+    descriptor: reserve(),
+  };
+  define(fontIds.regular, fonts.regular);
+  define(fontIds.bold, fonts.bold);
+  define(fontIds.mono, fonts.mono);
+  define(fontIds.type0, fonts.type0.replace('{descendant}', `${fontIds.descendant} 0 R`));
+  define(fontIds.descendant, fonts.descendant.replace('{descriptor}', `${fontIds.descriptor} 0 R`));
+  define(fontIds.descriptor, fonts.descriptor);
+
+  const resources = `<< /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R /F3 ${fontIds.mono} 0 R /${CID_FONT_RESOURCE} ${fontIds.type0} 0 R >> >>`;
+  const pageIds = pages.map(() => reserve());
+  const destinationArray = (destination: Destination) => `[${pageIds[destination.page]} 0 R /XYZ null ${formatNumber(destination.y)} null]`;
+
+  pages.forEach((page, index) => {
+    const operations = [...page.operations, ...headerAndFooter(article.title, brand, pageSize, index, pages.length)];
+    const contentId = reserve();
+    define(contentId, streamObject(operations.map(drawOperators).join('\n')));
+
+    const annotationIds = page.links.map(({ rect, destination }) => {
+      const id = reserve();
+      define(id, `<< /Type /Annot /Subtype /Link /Rect [${rect.map(formatNumber).join(' ')}] /Border [0 0 0] /Dest ${destinationArray(destination)} >>`);
+      return id;
+    });
+    define(pageIds[index], `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(pageSize.width)} ${formatNumber(pageSize.height)}] `
+      + `/Resources ${resources} /Contents ${contentId} 0 R`
+      + (annotationIds.length > 0 ? ` /Annots [${annotationIds.map(id => `${id} 0 R`).join(' ')}]` : '')
+      + ' >>');
+  });
+  define(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+  // しおり（セクション単位）
+  const sections = body.headings.filter(heading => heading.level === 1);
+  const outlineIds = sections.map(() => reserve());
+  sections.forEach((heading, index) => {
+    define(outlineIds[index], `<< /Title ${pdfTextString(heading.text)} /Parent ${outlinesId} 0 R /Dest ${destinationArray(toDocument(heading.destination))}`
+      + (index > 0 ? ` /Prev ${outlineIds[index - 1]} 0 R` : '')
+      + (index < sections.length - 1 ? ` /Next ${outlineIds[index + 1]} 0 R` : '')
+      + ' >>');
+  });
+  define(outlinesId, outlineIds.length > 0
+    ? `<< /Type /Outlines /First ${outlineIds[0]} 0 R /Last ${outlineIds[outlineIds.length - 1]} 0 R /Count ${outlineIds.length} >>`
+    : '<< /Type /Outlines /Count 0 >>');
+
+  define(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R /Outlines ${outlinesId} 0 R /PageMode /UseOutlines `
+    + `/Lang (${LOCALE_CONFIG[locale].htmlLang}) /ViewerPreferences << /DisplayDocTitle true >> >>`);
+
+  const seo = article.seoMetadata;
+  const now = pdfDate(new Date());
+  define(infoId, `<< /Title ${pdfTextString(article.title)} /Author ${pdfTextString(authorDisplayName(brand))}`
+    + (seo ? ` /Subject ${pdfTextString(seo.description)} /Keywords ${pdfTextString(seo.keywords.join(', '))}` : '')
+    + ` /Creator ${pdfTextString(EXPORT_MESSAGES[locale].systemName)} /Producer ${pdfTextString(EXPORT_MESSAGES[locale].systemName)}`
+    + ` /CreationDate (${now}) /ModDate (${now}) >>`);
+
+  return serializePdf(objects, catalogId, infoId);
+}
@@ -0,0 +1,32 @@
+import type { BrandSettings } from '@/lib/brand';
+import { Locale } from '@/lib/types';
+
+export interface ExportOptions {
+  includeSEO?: boolean;
+  includeStyles?: boolean;
+  filename?: string;
+  // 出力する定型文・日付表記の言語（省略時は記事の言語）
+  locale?: Locale;
+  // 著者・発信元・フッターの表記（省略時は既定のブランド）
+  brand?: BrandSettings;
+  // SEOメタデータの表紙を付ける（DOCXのみ、includeSEO 指定時）
+  coverPage?: boolean;
+  // SEOメタデータと構造化データ（JSON-LD）の付録ページを付ける（PDFのみ、includeSEO 指定時）
+  appendix?: boolean;
+  // Markdownのフロントマターの形式（省略時は generic）
+  frontMatter?: FrontMatterProfile;
+  // RAGチャンクあたりのトークン数の上限（JSONLのみ、省略時は400）
+  chunkTokens?: number;
+  // 構造化データに公開日がない記事の公開日（ISO 8601、JSON-LD・フロントマター用）。省略時はエクスポートした日時
+  publishedAt?: string;
+}
+
+// jsonl は検索（RAG）用のチャンクを1行1件で出力する
+export type ExportFormat = 'markdown' | 'html' | 'docx' | 'pdf' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'docx', 'pdf', 'jsonl'];
+
+// Markdownのフロントマターを合わせる静的サイトジェネレーター（generic は特定のジェネレーターに依存しない形式）
+export type FrontMatterProfile = 'generic' | 'hugo' | 'jekyll' | 'astro' | 'docusaurus';
+
+export const FRONT_MATTER_PROFILES: FrontMatterProfile[] = ['generic', 'hugo', 'jekyll', 'astro', 'docusaurus'];
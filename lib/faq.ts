@@ -0,0 +1,62 @@
+import { articleToPlainText } from './article';
+import { FAQItem, GeneratedArticle, Locale } from './types';
+
+export interface FAQRequestOptions {
+  // /api/generate-faq を呼び出すためのオリジン（request.nextUrl.origin）
+  origin: string;
+  keyword: string;
+  // 省略時は記事の言語（article.locale）を使用する
+  locale?: Locale;
+  // 使用するプロンプトテンプレートの版（省略時は有効な版）
+  promptVersion?: number;
+  // 省略時は記事のブランドプロファイル（article.brandProfileId）を使用する
+  brandProfileId?: string;
+}
+
+export interface FAQResult {
+  faq: FAQItem[];
+  // 生成に使用したプロンプトテンプレートの版
+  promptVersion?: number;
+}
+
+/**
+ * /api/generate-faq を呼び出して記事のよくある質問を生成する。
+ * FAQは付加情報のため、失敗時は例外を投げずに undefined を返す。
+ */
+export async function requestFAQ(article: GeneratedArticle, options: FAQRequestOptions): Promise<FAQResult | undefined> {
+  try {
+    const faqResponse = await fetch(`${options.origin}/api/generate-faq`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        title: article.title,
+        // 作り直す場合に既存のFAQに引きずられないよう、本文のみを渡す
+        content: articleToPlainText({ ...article, faq: undefined }),
+        keyword: options.keyword,
+        locale: options.locale ?? article.locale,
+        promptVersion: options.promptVersion,
+        brandProfileId: options.brandProfileId ?? article.brandProfileId,
+      }),
+    });
+
+    if (faqResponse.ok) {
+      const faqData = await faqResponse.json();
+      return { faq: faqData.faq, promptVersion: faqData.promptVersion };
+    }
+    console.warn('FAQ生成に失敗しましたが、記事は正常に生成されました');
+  } catch (faqError) {
+    console.warn('FAQ生成でエラーが発生しましたが、記事は正常に生成されました:', faqError);
+  }
+  return undefined;
+}
+
+// FAQと、その生成に使用したプロンプトの版を記事に反映する
+export function withFAQ(article: GeneratedArticle, { faq, promptVersion }: FAQResult): GeneratedArticle {
+  return {
+    ...article,
+    faq,
+    ...(promptVersion !== undefined && { promptVersions: { ...article.promptVersions, faq: promptVersion } }),
+  };
+}
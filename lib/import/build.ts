@@ -0,0 +1,116 @@
+import { ArticleSection, GeneratedArticle, SEOMetadata } from '@/lib/types';
+import { DocumentMeta, ParsedDocument } from './types';
+
+// 最初の見出しより前の本文をまとめるセクションの見出し
+const LEAD_SECTION_HEADING = '概要';
+const DEFAULT_ROBOTS = 'index, follow';
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// 日付をISO 8601にする（ISO 8601の値は時差を残すためそのまま、それ以外は解釈できればUTCの日時にする）
+function toIsoDate(value?: string): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) return undefined;
+  return ISO_DATE_PATTERN.test(text) ? text : new Date(time).toISOString();
+}
+
+/**
+ * メタ情報から SEOMetadata を組み立てる。
+ * title と description のどちらもない場合は取り込まない。OG・Twitterの値がない場合は title / description で補う。
+ * 公開日がある場合は構造化データ（structuredData）を作り、更新日がなければ公開日を使う。
+ */
+export function metaToSEOMetadata(meta: DocumentMeta, fallbackTitle: string): SEOMetadata | undefined {
+  if (!meta.title && !meta.description) return undefined;
+  const title = meta.title || fallbackTitle;
+  const description = meta.description || meta.ogDescription || '';
+  const datePublished = toIsoDate(meta.publishedTime);
+  return {
+    title,
+    description,
+    keywords: meta.keywords || [],
+    ogTitle: meta.ogTitle || title,
+    ogDescription: meta.ogDescription || description,
+    twitterTitle: meta.twitterTitle || meta.ogTitle || title,
+    twitterDescription: meta.twitterDescription || meta.ogDescription || description,
+    metaRobots: meta.robots || DEFAULT_ROBOTS,
+    canonicalUrl: meta.canonical,
+    ...(datePublished && {
+      structuredData: {
+        type: meta.articleType || 'Article',
+        name: title,
+        description,
+        author: meta.author || '',
+        datePublished,
+        dateModified: toIsoDate(meta.modifiedTime) || datePublished,
+        keywords: meta.keywords || [],
+      },
+    }),
+  };
+}
+
+/**
+ * ブロック列を GeneratedArticle に変換する。
+ * 最初のh1をタイトルとし、残りの見出しのうち最上位の階層をセクション、次の階層をサブセクションとする。
+ * それより深い見出しは本文の行として残す。
+ */
+export function documentToArticle({ blocks, meta }: ParsedDocument, warnings: string[]): GeneratedArticle {
+  const titleIndex = blocks.findIndex(block => block.type === 'heading' && block.level === 1);
+  const title = titleIndex !== -1
+    ? blocks[titleIndex].text
+    : meta.title || meta.ogTitle || (blocks.find(block => block.type === 'heading')?.text ?? '');
+  if (titleIndex === -1) {
+    warnings.push('h1見出しがないため、タイトルをメタ情報または最初の見出しから設定しました');
+  }
+
+  const body = blocks.filter((_, index) => index !== titleIndex);
+  const levels = [...new Set(body.flatMap(block => block.type === 'heading' ? [block.level] : []))].sort((a, b) => a - b);
+  const [sectionLevel, subheadingLevel] = levels;
+
+  const sections: ArticleSection[] = [];
+  let current: ArticleSection | null = null;
+  const appendText = (text: string) => {
+    if (!current) {
+      current = { heading: LEAD_SECTION_HEADING, content: '', subheadings: [] };
+      sections.push(current);
+    }
+    const subheadings = current.subheadings!;
+    if (subheadings.length > 0) {
+      const last = subheadings[subheadings.length - 1];
+      last.content = last.content ? `${last.content}\n${text}` : text;
+    } else {
+      current.content = current.content ? `${current.content}\n${text}` : text;
+    }
+  };
+
+  for (const block of body) {
+    if (block.type === 'heading' && block.level === sectionLevel) {
+      current = { heading: block.text, content: '', subheadings: [] };
+      sections.push(current);
+    } else if (block.type === 'heading' && block.level === subheadingLevel) {
+      if (!current) {
+        current = { heading: LEAD_SECTION_HEADING, content: '', subheadings: [] };
+        sections.push(current);
+      }
+      current.subheadings!.push({ title: block.text, content: '' });
+    } else {
+      appendText(block.text);
+    }
+  }
+
+  if (sections.length === 0) {
+    warnings.push('本文が見つかりませんでした');
+  }
+  if (sections.some(section => !section.content && section.subheadings!.length === 0)) {
+    warnings.push('本文のないセクションがあります');
+  }
+
+  const article: GeneratedArticle = { title, sections };
+  const seoMetadata = metaToSEOMetadata(meta, title);
+  if (seoMetadata) {
+    article.seoMetadata = seoMetadata;
+  } else {
+    warnings.push('メタ情報（title / description）がないため、SEOメタデータは取り込んでいません');
+  }
+  return article;
+}
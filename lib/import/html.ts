@@ -0,0 +1,194 @@
+import { ARTICLE_TYPES } from '@/lib/jsonld';
+import { DocumentBlock, DocumentMeta, ParsedDocument } from './types';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalizeText(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  // タグ名の後ろから属性を読む
+  const body = tag.replace(/^<\s*[a-zA-Z0-9]+/, '').replace(/\/?>$/, '');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// 本文として扱わない要素（中身ごと取り除く）
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'footer', 'aside', 'form'];
+// 本文の範囲が <body> の場合だけ取り除く要素（<article>・<main> 内の <header> は記事の見出しを含むため残す）
+const SITE_LEVEL_ELEMENTS = ['header'];
+// 開始・終了で段落を区切る要素
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'blockquote', 'pre', 'table', 'tr',
+  'h4', 'h5', 'h6', 'figure', 'figcaption', 'br', 'hr',
+]);
+
+function extractMeta(html: string): DocumentMeta {
+  const meta: DocumentMeta = {};
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (title) meta.title = normalizeText(title[1]);
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.name || attributes.property || '').toLowerCase();
+    const content = attributes.content?.trim();
+    if (!content) continue;
+    switch (key) {
+      case 'description': meta.description = content; break;
+      case 'keywords': meta.keywords = content.split(/[,、]/).map(keyword => keyword.trim()).filter(Boolean); break;
+      case 'robots': meta.robots = content; break;
+      case 'og:title': meta.ogTitle = content; break;
+      case 'og:description': meta.ogDescription = content; break;
+      case 'twitter:title': meta.twitterTitle = content; break;
+      case 'twitter:description': meta.twitterDescription = content; break;
+      case 'og:url': meta.canonical = meta.canonical || content; break;
+      case 'article:published_time': meta.publishedTime = content; break;
+      case 'article:modified_time':
+      case 'og:updated_time': meta.modifiedTime = meta.modifiedTime || content; break;
+      case 'author': meta.author = content; break;
+    }
+  }
+  readJsonLdMeta(html, meta);
+
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if ((attributes.rel || '').toLowerCase().split(/\s+/).includes('canonical') && attributes.href) {
+      meta.canonical = attributes.href;
+    }
+  }
+  return meta;
+}
+
+// JSON-LD（配列・@graph を含む）から記事のノードを探す
+function findArticleNode(data: unknown): Record<string, unknown> | undefined {
+  if (Array.isArray(data)) {
+    return data.map(findArticleNode).find(node => node !== undefined);
+  }
+  if (!data || typeof data !== 'object') return undefined;
+  const node = data as Record<string, unknown>;
+  const types = ([] as unknown[]).concat(node['@type']);
+  if (types.some(type => typeof type === 'string' && ARTICLE_TYPES.includes(type))) return node;
+  return node['@graph'] !== undefined ? findArticleNode(node['@graph']) : undefined;
+}
+
+function personName(value: unknown): string | undefined {
+  const person = Array.isArray(value) ? value[0] : value;
+  if (typeof person === 'string') return person.trim() || undefined;
+  const name = person && typeof person === 'object' ? (person as Record<string, unknown>).name : undefined;
+  return typeof name === 'string' && name.trim() ? name.trim() : undefined;
+}
+
+// JSON-LDの記事のノードから、メタタグにない公開日・更新日・型・著者を補う
+function readJsonLdMeta(html: string, meta: DocumentMeta) {
+  for (const [, json] of html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json.trim());
+    } catch {
+      continue;
+    }
+    const node = findArticleNode(data);
+    if (!node) continue;
+    const type = ([] as unknown[]).concat(node['@type']).find(value => typeof value === 'string' && ARTICLE_TYPES.includes(value));
+    meta.articleType = meta.articleType || (type as string);
+    if (typeof node.datePublished === 'string') meta.publishedTime = meta.publishedTime || node.datePublished;
+    if (typeof node.dateModified === 'string') meta.modifiedTime = meta.modifiedTime || node.dateModified;
+    meta.author = meta.author || personName(node.author);
+    return;
+  }
+}
+
+// 本文の範囲（<article> → <main> → <body> の順に優先）
+function extractMainContent(html: string): { element: string; content: string } {
+  for (const element of ['article', 'main', 'body']) {
+    const match = html.match(new RegExp(`<${element}\\b[^>]*>([\\s\\S]*)<\\/${element}>`, 'i'));
+    if (match) return { element, content: match[1] };
+  }
+  return { element: 'html', content: html };
+}
+
+/**
+ * HTMLを見出しと段落のブロック列に変換する（正規表現ベースの簡易パーサー）。
+ * h1〜h3は見出し、それ以外のブロック要素は段落として扱い、リスト項目には「- 」を付ける。
+ */
+export function parseHtml(html: string): ParsedDocument {
+  const meta = extractMeta(html);
+  const main = extractMainContent(html);
+  let body = main.content.replace(/<!--[\s\S]*?-->/g, '');
+  const removed = main.element === 'article' || main.element === 'main' ? REMOVED_ELEMENTS : [...REMOVED_ELEMENTS, ...SITE_LEVEL_ELEMENTS];
+  for (const element of removed) {
+    body = body.replace(new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?<\\/${element}>`, 'gi'), '');
+  }
+
+  const blocks: DocumentBlock[] = [];
+  let buffer = '';
+  let headingLevel: number | null = null;
+
+  const flush = () => {
+    const text = normalizeText(buffer);
+    buffer = '';
+    if (!text) return;
+    if (headingLevel !== null) {
+      blocks.push({ type: 'heading', level: headingLevel, text });
+    } else {
+      blocks.push({ type: 'paragraph', text });
+    }
+  };
+
+  const tagPattern = /<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(body)) !== null) {
+    buffer += body.slice(lastIndex, match.index);
+    lastIndex = tagPattern.lastIndex;
+
+    const name = match[1].toLowerCase();
+    const isClosing = match[0].startsWith('</');
+    const heading = /^h([1-3])$/.exec(name);
+
+    if (heading) {
+      flush();
+      headingLevel = isClosing ? null : Number(heading[1]);
+    } else if (BLOCK_ELEMENTS.has(name) && headingLevel === null) {
+      flush();
+      if (name === 'li' && !isClosing) {
+        buffer = '- ';
+      }
+    }
+  }
+  buffer += body.slice(lastIndex);
+  flush();
+
+  // 「- 」のみの空のリスト項目を取り除く
+  return { blocks: blocks.filter(block => block.type === 'heading' || block.text !== '-'), meta };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { exportArticle, validateExportJsonLd } from '@/lib/export';
+import { hasJsonLdErrors } from '@/lib/jsonld';
+import { importContent, parseHtml } from './index';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <title>AI検索対策の基本 | サンプル</title>
+  <meta name="description" content="AI検索に引用される記事の書き方を解説します。">
+  <link rel="canonical" href="https://example.com/blog/ai-search">
+</head>
+<body>
+  <h1>AI検索対策の基本</h1>
+  <p>AI検索では、質問に直接答える記事が引用されます。</p>
+  <h2>結論を先に書く</h2>
+  <p>各セクションの冒頭で結論を述べます。</p>
+</body>
+</html>`;
+
+// JSON-LD の <script> から Article ノードを取り出す
+function articleNode(html: string): Record<string, unknown> | undefined {
+  const json = html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/)?.[1];
+  const graph = JSON.parse(json ?? '{}')['@graph'] as Record<string, unknown>[] | undefined;
+  return graph?.find(node => node['@type'] === 'Article');
+}
+
+describe('parseHtml', () => {
+  it('<article> 内の <header> にある h1 をタイトルとして残す', () => {
+    const { blocks } = parseHtml(`<body>
+  <header class="site-header"><a href="/">サイト名</a></header>
+  <article>
+    <header><h1>記事のタイトル</h1><p class="byline">山田 太郎</p></header>
+    <h2>概要</h2>
+    <p>本文です。</p>
+  </article>
+</body>`);
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, text: '記事のタイトル' });
+    expect(blocks.some(block => block.text === 'サイト名')).toBe(false);
+  });
+
+  it('本文の範囲が <body> の場合はサイトの <header> を取り除く', () => {
+    const { blocks } = parseHtml('<body><header><p>サイト名</p></header><h1>タイトル</h1><p>本文</p></body>');
+    expect(blocks.map(block => block.text)).toEqual(['タイトル', '本文']);
+  });
+
+  it('公開日・更新日をメタタグから、記事の型・著者をJSON-LDから読む', () => {
+    const { meta } = parseHtml(`<head>
+  <meta property="article:published_time" content="2026-01-10T09:00:00+09:00">
+  <meta property="article:modified_time" content="2026-02-01T10:00:00+09:00">
+  <script type="application/ld+json">{"@context":"https://schema.org","@graph":[
+    {"@type":"WebPage","name":"ページ"},
+    {"@type":"BlogPosting","datePublished":"2025-12-01","author":{"@type":"Person","name":"山田 太郎"}}
+  ]}</script>
+</head><body><h1>タイトル</h1></body>`);
+    expect(meta).toMatchObject({
+      publishedTime: '2026-01-10T09:00:00+09:00',
+      modifiedTime: '2026-02-01T10:00:00+09:00',
+      articleType: 'BlogPosting',
+      author: '山田 太郎',
+    });
+  });
+});
+
+describe('importContent', () => {
+  it('<article><header><h1> のマークアップで h1 をタイトルにし、警告を出さない', () => {
+    const { article, warnings } = importContent(`<html><head><title>サイト | 記事</title><meta name="description" content="説明"></head>
+<body><header><nav>メニュー</nav></header><article><header><h1>記事のタイトル</h1></header><h2>結論</h2><p>本文です。</p></article></body></html>`, 'html');
+    expect(article.title).toBe('記事のタイトル');
+    expect(warnings.some(warning => warning.includes('h1'))).toBe(false);
+  });
+
+  it('HTMLの公開日・更新日を構造化データに取り込む', () => {
+    const { article } = importContent(`<html><head><title>記事</title><meta name="description" content="説明">
+<meta property="article:published_time" content="2026-01-10T09:00:00+09:00"></head><body><h1>記事</h1><p>本文</p></body></html>`, 'html');
+    expect(article.seoMetadata?.structuredData).toMatchObject({
+      type: 'Article',
+      datePublished: '2026-01-10T09:00:00+09:00',
+      dateModified: '2026-01-10T09:00:00+09:00',
+    });
+  });
+
+  it('フロントマターの日付（Jekyll の形式など）をISO 8601にして取り込む', () => {
+    const { article } = importContent([
+      '---',
+      'title: 記事',
+      'description: 説明',
+      'date: 2026-01-02 12:00:00 +0900',
+      'last_modified_at: 2026-01-05',
+      '---',
+      '# 記事',
+      '',
+      '本文',
+    ].join('\n'), 'markdown');
+    expect(article.seoMetadata?.structuredData).toMatchObject({
+      datePublished: '2026-01-02T03:00:00.000Z',
+      dateModified: '2026-01-05',
+    });
+  });
+
+  it('解釈できない日付は取り込まない', () => {
+    const { article } = importContent('---\ntitle: 記事\ndate: 未定\n---\n# 記事\n\n本文', 'markdown');
+    expect(article.seoMetadata?.structuredData).toBeUndefined();
+  });
+});
+
+describe('取り込んだページのエクスポート', () => {
+  it('公開日のないページをHTMLでエクスポートしても構造化データの必須項目が揃う', () => {
+    const { article } = importContent(PAGE, 'html');
+    expect(article.seoMetadata?.structuredData).toBeUndefined();
+
+    const options = { includeSEO: true, brand: DEFAULT_BRAND };
+    expect(hasJsonLdErrors(validateExportJsonLd('html', article, options))).toBe(false);
+
+    const { content } = exportArticle('html', article, options);
+    const node = articleNode(content as string);
+    expect(node?.headline).toBe('AI検索対策の基本');
+    expect(Number.isNaN(Date.parse(node?.datePublished as string))).toBe(false);
+  });
+
+  it('公開日の代わりに指定した日時（保存した記事の作成日時など）を使う', () => {
+    const { article } = importContent(PAGE, 'html');
+    const { content } = exportArticle('html', article, {
+      includeSEO: true,
+      brand: DEFAULT_BRAND,
+      publishedAt: '2026-02-01T09:00:00.000Z',
+    });
+    expect(articleNode(content as string)?.datePublished).toBe('2026-02-01T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,28 @@
+import { documentToArticle } from './build';
+import { parseHtml } from './html';
+import { parseMarkdown } from './markdown';
+import { ImportFormat, ImportResult } from './types';
+
+export { metaToSEOMetadata } from './build';
+export { decodeEntities, parseHtml } from './html';
+export { parseMarkdown } from './markdown';
+export type { DocumentBlock, DocumentMeta, ImportFormat, ImportResult, ParsedDocument } from './types';
+export { fetchPageSnapshot, ImportError } from './url';
+
+// ファイル名の拡張子、なければ内容からHTMLかMarkdownかを判定する
+export function detectFormat(content: string, filename?: string): ImportFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'html' || extension === 'htm') return 'html';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  return /<(?:!doctype\s+html|html|head|body|h[1-6]|p|div|article)\b/i.test(content) ? 'html' : 'markdown';
+}
+
+/**
+ * 既存のHTML・Markdownを GeneratedArticle に変換する。
+ * 生成した記事と同じ形式になるため、監査・書き換え・エクスポートをそのまま適用できる。
+ */
+export function importContent(content: string, format: ImportFormat): ImportResult {
+  const warnings: string[] = [];
+  const parsed = format === 'html' ? parseHtml(content) : parseMarkdown(content);
+  return { article: documentToArticle(parsed, warnings), format, warnings };
+}
@@ -0,0 +1,150 @@
+import { DocumentBlock, DocumentMeta, ParsedDocument } from './types';
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    // ダブルクォートの値はエスケープ（\" \n \uXXXX など）を戻す
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+// フロントマターの値が配列（[a, b] 形式または「- 」の列）の場合に展開する
+function parseList(value: string, following: string[]): string[] {
+  const inline = value.trim();
+  if (inline.startsWith('[') && inline.endsWith(']')) {
+    return inline.slice(1, -1).split(',').map(unquote).filter(Boolean);
+  }
+  if (inline) {
+    return inline.split(/[,、]/).map(unquote).filter(Boolean);
+  }
+  return following.map(line => unquote(line.replace(/^\s*-\s*/, ''))).filter(Boolean);
+}
+
+/**
+ * YAMLフロントマターから記事のメタ情報を読み取る（キー: 値 の単純な形式と og / twitter の1段のネストのみ対応）。
+ */
+function parseFrontMatter(source: string): DocumentMeta {
+  const meta: DocumentMeta = {};
+  const lines = source.split('\n');
+  let parent = '';
+
+  lines.forEach((line, index) => {
+    const match = /^(\s*)([A-Za-z_:.-]+):\s*(.*)$/.exec(line);
+    if (!match) return;
+    const [, indent, rawKey, value] = match;
+    const key = indent ? `${parent}.${rawKey}` : rawKey;
+    if (!indent) parent = rawKey;
+
+    const following: string[] = [];
+    for (let i = index + 1; i < lines.length && /^\s*-\s/.test(lines[i]); i++) following.push(lines[i]);
+
+    switch (key.toLowerCase()) {
+      case 'title': meta.title = unquote(value); break;
+      case 'description': meta.description = unquote(value); break;
+      case 'keywords':
+      case 'tags': meta.keywords = meta.keywords || parseList(value, following); break;
+      case 'robots': meta.robots = unquote(value); break;
+      case 'canonical':
+      case 'canonicalurl':
+      case 'canonical_url': meta.canonical = unquote(value); break;
+      case 'og.title':
+      case 'og:title': meta.ogTitle = unquote(value); break;
+      case 'og.description':
+      case 'og:description': meta.ogDescription = unquote(value); break;
+      case 'twitter.title': meta.twitterTitle = unquote(value); break;
+      case 'twitter.description': meta.twitterDescription = unquote(value); break;
+      // 公開日・更新日（generic / Hugo / Jekyll / Astro / Docusaurus の項目名）
+      case 'date':
+      case 'pubdate':
+      case 'published':
+      case 'datepublished': meta.publishedTime = meta.publishedTime || unquote(value); break;
+      case 'lastmod':
+      case 'updateddate':
+      case 'last_modified_at':
+      case 'last_update.date':
+      case 'modified':
+      case 'datemodified': meta.modifiedTime = meta.modifiedTime || unquote(value); break;
+      case 'author': meta.author = unquote(value); break;
+    }
+  });
+
+  // 値が空のキー（ネストの親など）は設定しない
+  (Object.keys(meta) as (keyof DocumentMeta)[]).forEach(key => {
+    if (!meta[key] || (Array.isArray(meta[key]) && meta[key]!.length === 0)) delete meta[key];
+  });
+  return meta;
+}
+
+// インライン記法（強調・リンク・画像・インラインコード）をプレーンテキストに戻す
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(?!\s)(.+?)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+/**
+ * Markdownを見出しと段落のブロック列に変換する。
+ * ATX見出し（#〜###）を見出しとし、空行で区切られたまとまりを段落とする。リスト・コードブロックは段落内の行として残す。
+ */
+export function parseMarkdown(markdown: string): ParsedDocument {
+  let source = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  let meta: DocumentMeta = {};
+
+  const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(source);
+  if (frontMatter) {
+    meta = parseFrontMatter(frontMatter[1]);
+    source = source.slice(frontMatter[0].length);
+  }
+
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const text = paragraph.join('\n').trim();
+    paragraph = [];
+    if (text) blocks.push({ type: 'paragraph', text });
+  };
+
+  for (const line of source.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      if (level <= 3) {
+        blocks.push({ type: 'heading', level, text: stripInline(heading[2]) });
+      } else {
+        // h4以下は本文中の小見出しとして段落に残す
+        blocks.push({ type: 'paragraph', text: stripInline(heading[2]) });
+      }
+    } else if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+    } else {
+      paragraph.push(stripInline(line.replace(/^\s*[*+]\s+/, '- ').replace(/^\s*>\s?/, '')));
+    }
+  }
+  flush();
+
+  return { blocks, meta };
+}
@@ -0,0 +1,39 @@
+import { GeneratedArticle } from '@/lib/types';
+
+export type ImportFormat = 'html' | 'markdown';
+
+// 見出し・段落に分解した文書（HTML・Markdownの共通の中間表現）
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string };
+
+// 文書から読み取ったメタ情報（HTMLのmeta/OGタグ、Markdownのフロントマター）
+export interface DocumentMeta {
+  title?: string;
+  description?: string;
+  keywords?: string[];
+  robots?: string;
+  canonical?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  twitterTitle?: string;
+  twitterDescription?: string;
+  // 公開日・更新日（article:published_time などのメタタグ、JSON-LD、フロントマターの日付）
+  publishedTime?: string;
+  modifiedTime?: string;
+  // JSON-LDの記事の型（BlogPosting など）
+  articleType?: string;
+  author?: string;
+}
+
+export interface ParsedDocument {
+  blocks: DocumentBlock[];
+  meta: DocumentMeta;
+}
+
+export interface ImportResult {
+  article: GeneratedArticle;
+  format: ImportFormat;
+  // 取り込み時に補完・省略した内容の説明
+  warnings: string[];
+}
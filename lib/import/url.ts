@@ -0,0 +1,154 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+const FETCH_TIMEOUT_MS = 10000;
+// 取り込むページの最大サイズ
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// ループバック・プライベート・リンクローカルのアドレス（サーバー内部へのリクエストを防ぐ）
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const normalized = address.toLowerCase();
+    if (normalized.startsWith('::ffff:')) return isPrivateAddress(normalized.slice('::ffff:'.length));
+    return normalized === '::1' || normalized === '::' || /^f[cd]/.test(normalized) || normalized.startsWith('fe80');
+  }
+  const [a, b] = address.split('.').map(Number);
+  return a === 10 || a === 127 || a === 0
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127);
+}
+
+async function assertPublicHost(hostname: string): Promise<void> {
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true }).catch(() => []);
+  if (addresses.length === 0) {
+    throw new ImportError('ホスト名を解決できませんでした');
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ImportError('内部ネットワークのURLは取り込めません');
+  }
+}
+
+/**
+ * 公開されているページのHTMLを取得する（http/https のみ、サイズと時間の上限あり）。
+ */
+export async function fetchPageSnapshot(url: string): Promise<string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ImportError('URLの形式が正しくありません');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ImportError('http:// または https:// のURLを指定してください');
+  }
+
+  // リダイレクト先も内部ネットワークでないことを確認するため、リダイレクトは1回ずつ追う
+  let response: Response | null = null;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicHost(parsed.hostname);
+    response = await fetch(parsed, {
+      headers: { 'Accept': 'text/html,application/xhtml+xml' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }).catch(error => {
+      throw new ImportError(`ページの取得に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    parsed = new URL(location, parsed);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new ImportError('リダイレクト先のURLが不正です');
+    }
+    response = null;
+  }
+
+  if (!response) {
+    throw new ImportError('リダイレクトが多すぎます');
+  }
+  if (!response.ok) {
+    throw new ImportError(`ページの取得に失敗しました (HTTP ${response.status})`);
+  }
+  const contentType = response.headers.get('content-type') || '';
+  if (!/html|xml/i.test(contentType)) {
+    throw new ImportError(`HTMLページではありません (${contentType || 'Content-Type不明'})`);
+  }
+
+  const bytes = await readLimitedBody(response);
+  return decodeHtml(bytes, contentType);
+}
+
+// 本文を読みながらサイズを数え、上限を超えた時点で読み込みを中止する
+async function readLimitedBody(response: Response): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.byteLength;
+      if (total > MAX_PAGE_BYTES) {
+        await reader.cancel().catch(() => {});
+        throw new ImportError('ページのサイズが大きすぎます（上限2MB）');
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError(`ページの取得に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+}
+
+// <meta charset> / <meta http-equiv="Content-Type"> を探す範囲（HTML仕様の事前スキャンと同じ1024バイト）
+const CHARSET_SCAN_BYTES = 1024;
+
+function charsetFromContentType(contentType: string): string | null {
+  const match = contentType.match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * HTMLの文字コード（Content-Type ヘッダー → BOM → <meta> の順）を判定してデコードする。
+ * Shift_JIS・EUC-JP などのページも文字化けせずに取り込めるようにする。
+ */
+export function decodeHtml(bytes: Uint8Array, contentType = ''): string {
+  // BOM はヘッダーより優先される（TextDecoder は BOM を取り除く）
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+
+  // 先頭部分は ASCII 互換として読み、<meta> の宣言を探す
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, CHARSET_SCAN_BYTES));
+  const declared = charsetFromContentType(contentType)
+    ?? head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)?.[1]
+    ?? null;
+
+  if (declared) {
+    try {
+      return new TextDecoder(declared).decode(bytes);
+    } catch {
+      // 未知の文字コード名は UTF-8 として読む
+    }
+  }
+  return new TextDecoder('utf-8').decode(bytes);
+}
@@ -0,0 +1,67 @@
+import { parseCsv } from '@/lib/csv';
+
+// 1ジョブあたりの最大行数
+export const MAX_JOB_ROWS = 500;
+
+export interface JobRowInput {
+  keyword: string;
+  overview: string;
+  baseUrl?: string;
+}
+
+export interface JobCsvResult {
+  rows: JobRowInput[];
+  errors: string[];
+}
+
+// ヘッダー行の列名（英語・日本語のどちらでも可）
+const COLUMN_ALIASES: Record<keyof JobRowInput, string[]> = {
+  keyword: ['keyword', 'キーワード'],
+  overview: ['overview', '概要'],
+  baseUrl: ['baseurl', 'base_url', 'url', 'ベースurl'],
+};
+
+function findColumn(header: string[], field: keyof JobRowInput): number {
+  return header.findIndex(name => COLUMN_ALIASES[field].includes(name.trim().toLowerCase()));
+}
+
+/**
+ * 一括生成用のCSV（keyword, overview, baseUrl）を読み込む。
+ * ヘッダー行がない場合は先頭から keyword, overview, baseUrl の順とみなす。
+ */
+export function parseJobCsv(text: string): JobCsvResult {
+  const records = parseCsv(text);
+  const errors: string[] = [];
+  if (records.length === 0) {
+    return { rows: [], errors: ['CSVにデータがありません'] };
+  }
+
+  const hasHeader = findColumn(records[0], 'keyword') !== -1;
+  const columns = hasHeader
+    ? { keyword: findColumn(records[0], 'keyword'), overview: findColumn(records[0], 'overview'), baseUrl: findColumn(records[0], 'baseUrl') }
+    : { keyword: 0, overview: 1, baseUrl: 2 };
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  const rows: JobRowInput[] = [];
+  dataRecords.forEach((record, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const keyword = (record[columns.keyword] || '').trim();
+    const overview = columns.overview === -1 ? '' : (record[columns.overview] || '').trim();
+    const baseUrl = columns.baseUrl === -1 ? '' : (record[columns.baseUrl] || '').trim();
+
+    if (!keyword) {
+      errors.push(`${line}行目: キーワードが空です`);
+      return;
+    }
+    if (baseUrl && !/^https?:\/\//.test(baseUrl)) {
+      errors.push(`${line}行目: ベースURLは http:// または https:// で始まる必要があります`);
+      return;
+    }
+    rows.push({ keyword, overview, baseUrl: baseUrl || undefined });
+  });
+
+  if (rows.length > MAX_JOB_ROWS) {
+    errors.push(`行数が上限（${MAX_JOB_ROWS}行）を超えています`);
+  }
+  return { rows, errors };
+}
@@ -0,0 +1,72 @@
+import { toCsv } from '@/lib/csv';
+import { exportArticle, ExportFormat, FrontMatterProfile, validateExportJsonLd } from '@/lib/export';
+import { verifyArticleClaims } from '@/lib/sources';
+import { articleStore, resolveArticleBrand } from '@/lib/storage';
+import { BulkJob } from '@/lib/types';
+import { createZip, ZipEntry } from '@/lib/zip';
+
+// ファイル名に使えない文字を置き換え、長すぎる名前を切り詰める
+function toFileSlug(text: string): string {
+  const slug = text.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '');
+  return [...slug].slice(0, 50).join('') || 'article';
+}
+
+/**
+ * ジョブで生成された記事をZIPにまとめる。
+ * 形式ごとのディレクトリに記事ファイルを格納し、各行の結果一覧（構造化データの不足を含む）を index.csv として含める。
+ * 根拠のない主張が未確認の記事はファイルを出力せず、未確認の件数を index.csv に記録する。
+ * Markdownのフロントマターは frontMatter の形式で出力する。
+ */
+export async function exportJobAsZip(job: BulkJob, formats: ExportFormat[], frontMatter?: FrontMatterProfile): Promise<Buffer> {
+  const entries: ZipEntry[] = [];
+  const summary: string[][] = [['row', 'keyword', 'status', 'title', 'files', 'error', 'jsonld_errors', 'unresolved_claims']];
+
+  for (const row of job.rows) {
+    const stored = row.articleId ? await articleStore.get(row.articleId) : null;
+    const baseName = `${String(row.index + 1).padStart(3, '0')}-${toFileSlug(row.keyword)}`;
+    const files: string[] = [];
+    const jsonLdErrors: string[] = [];
+    let unresolvedClaims = 0;
+
+    if (stored) {
+      const brand = await resolveArticleBrand(stored.article);
+      unresolvedClaims = (await verifyArticleClaims(stored.article, brand, stored.projectId)).unresolved.length;
+      // 根拠のない主張が未確認の記事は、編集者が承認または削除するまでファイルを出力しない
+      if (unresolvedClaims === 0) {
+        for (const format of formats) {
+          const options = {
+            includeSEO: !!stored.article.seoMetadata,
+            includeStyles: format === 'html',
+            coverPage: format === 'docx',
+            appendix: format === 'pdf',
+            frontMatter,
+            brand,
+          };
+          // 一括エクスポートは止めずに、構造化データの不足を index.csv に記録する
+          validateExportJsonLd(format, stored.article, options)
+            .filter(issue => issue.severity === 'error')
+            .forEach(issue => jsonLdErrors.push(`${issue.nodeType}: ${issue.message}`));
+          const exported = exportArticle(format, stored.article, options);
+          const name = `${format}/${baseName}.${exported.extension}`;
+          entries.push({ name, data: exported.content, date: new Date(stored.updatedAt) });
+          files.push(name);
+        }
+      }
+    }
+
+    summary.push([
+      String(row.index + 1),
+      row.keyword,
+      row.status,
+      stored?.article.title || row.selectedTitle?.title || '',
+      files.join(' '),
+      row.error || '',
+      jsonLdErrors.join(' / '),
+      String(unresolvedClaims),
+    ]);
+  }
+
+  // Excelで文字化けしないようBOMを付ける
+  entries.push({ name: 'index.csv', data: '\uFEFF' + toCsv(summary) });
+  return createZip(entries);
+}
@@ -0,0 +1,16 @@
+export { MAX_JOB_ROWS, parseJobCsv } from './csv';
+export type { JobCsvResult, JobRowInput } from './csv';
+export { exportJobAsZip } from './export';
+export {
+  cancelJob,
+  createBulkJob,
+  DEFAULT_JOB_OPTIONS,
+  getJob,
+  getJobProgress,
+  JOB_LIMITS,
+  listJobs,
+  normalizeJobOptions,
+  resumeJobs,
+  startJob,
+} from './queue';
+export { scoreTitle, selectTitle } from './select-title';
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { articleStore, recordRevision, revisionStore } from '@/lib/storage';
+import { BulkJob } from '@/lib/types';
+import { createBulkJob, getJob, normalizeJobOptions, startJob } from './queue';
+
+// ストアはメモリ上に保存する
+vi.mock('@/lib/storage', () => {
+  const createMemoryStore = () => {
+    const records = new Map<string, Record<string, unknown>>();
+    let nextId = 1;
+    return {
+      records,
+      list: vi.fn(async () => [...records.values()]),
+      get: vi.fn(async (id: string) => records.get(id) ?? null),
+      create: vi.fn(async (data: Record<string, unknown>) => {
+        const now = new Date().toISOString();
+        const record = { ...data, id: `id-${nextId++}`, createdAt: now, updatedAt: now };
+        records.set(record.id, record);
+        return record;
+      }),
+      update: vi.fn(async (id: string, changes: Record<string, unknown>) => {
+        const current = records.get(id);
+        if (!current) return null;
+        const record = { ...current, ...changes };
+        records.set(id, record);
+        return record;
+      }),
+    };
+  };
+  const revisionStore = createMemoryStore();
+  return {
+    articleStore: createMemoryStore(),
+    jobStore: createMemoryStore(),
+    projectStore: createMemoryStore(),
+    revisionStore,
+    listRevisions: vi.fn(async (articleId: string) => [...revisionStore.records.values()].filter(revision => revision.articleId === articleId)),
+    recordRevision: vi.fn((articleId: string, article: unknown, reason: string) => revisionStore.create({ articleId, article, reason })),
+  };
+});
+
+type MemoryStore = { records: Map<string, Record<string, unknown>> };
+
+const fetchMock = vi.fn(async (url: string) => {
+  const data = url.endsWith('/api/generate-titles')
+    ? { titles: [{ id: 'title-1', title: 'AI検索対策の基本', description: '説明' }] }
+    : { article: { title: 'AI検索対策の基本', sections: [{ heading: '概要', content: '本文です。' }] } };
+  return new Response(JSON.stringify(data), { status: 200 });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout'] });
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockClear();
+  vi.mocked(recordRevision).mockClear();
+  [articleStore, revisionStore].forEach(store => (store as unknown as MemoryStore).records.clear());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// ジョブを実行し、再試行の待ち時間を進めながら終了を待つ
+async function runToEnd(job: BulkJob): Promise<BulkJob> {
+  startJob(job, 'http://localhost:3000');
+  for (let i = 0; i < 20; i++) {
+    await vi.advanceTimersByTimeAsync(2000);
+    const current = await getJob(job.id);
+    if (current && current.status !== 'queued' && current.status !== 'running') return current;
+  }
+  throw new Error('ジョブが終了しませんでした');
+}
+
+describe('一括生成ジョブ', () => {
+  it('記事をライブラリに保存し、生成時の版を記録する', async () => {
+    const job = await createBulkJob('テスト', [{ keyword: 'AI検索', overview: 'AI検索に引用される記事の書き方' }], normalizeJobOptions());
+    const finished = await runToEnd(job);
+
+    const [row] = finished.rows;
+    expect(row).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(await articleStore.list()).toHaveLength(1);
+    expect(recordRevision).toHaveBeenCalledWith(row.articleId, expect.anything(), 'generated');
+  });
+
+  it('版の記録に失敗して再試行しても記事を重複して作成・生成しない', async () => {
+    vi.mocked(recordRevision).mockRejectedValueOnce(new Error('書き込みに失敗しました'));
+    const job = await createBulkJob('テスト', [{ keyword: 'AI検索', overview: 'AI検索に引用される記事の書き方' }], normalizeJobOptions({ maxRetries: 2 }));
+    const finished = await runToEnd(job);
+
+    const [row] = finished.rows;
+    expect(row).toMatchObject({ status: 'completed', attempts: 2 });
+    const articles = await articleStore.list();
+    expect(articles.map(article => article.id)).toEqual([row.articleId]);
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/api/generate-article'))).toHaveLength(1);
+    expect([...(revisionStore as unknown as MemoryStore).records.values()]).toMatchObject([
+      { articleId: row.articleId, reason: 'generated' },
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { DEFAULT_LOCALE, resolveLocale } from '@/lib/locale';
+import { normalizePromptVersions } from '@/lib/prompts';
+import { articleStore, jobStore, listRevisions, projectStore, recordRevision } from '@/lib/storage';
+import { BulkJob, BulkJobOptions, BulkJobProgress, BulkJobRow, GeneratedArticle, GeneratedTitle } from '@/lib/types';
+import { JobRowInput } from './csv';
+import { selectTitle } from './select-title';
+
+export const DEFAULT_JOB_OPTIONS: BulkJobOptions = {
+  titleStrategy: 'top',
+  generateSEO: true,
+  generateFAQ: false,
+  concurrency: 2,
+  maxRetries: 2,
+  locale: DEFAULT_LOCALE,
+};
+
+export const JOB_LIMITS = {
+  concurrency: { min: 1, max: 5 },
+  maxRetries: { min: 0, max: 5 },
+};
+
+// 再試行までの待ち時間（試行回数に比例して延ばす）
+const RETRY_DELAY_MS = 2000;
+
+// 実行中のジョブ（開発サーバーでルートごとにモジュールが再評価されても共有できるよう globalThis に保持する）
+const globalForJobs = globalThis as unknown as { llmoActiveJobs?: Map<string, BulkJob> };
+const activeJobs = globalForJobs.llmoActiveJobs ?? (globalForJobs.llmoActiveJobs = new Map());
+
+function clamp(value: unknown, { min, max }: { min: number; max: number }, fallback: number): number {
+  const number = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback;
+  return Math.min(Math.max(number, min), max);
+}
+
+export function normalizeJobOptions(options: Partial<BulkJobOptions> = {}): BulkJobOptions {
+  return {
+    titleStrategy: options.titleStrategy === 'first' ? 'first' : 'top',
+    generateSEO: options.generateSEO ?? DEFAULT_JOB_OPTIONS.generateSEO,
+    generateFAQ: options.generateFAQ ?? DEFAULT_JOB_OPTIONS.generateFAQ,
+    concurrency: clamp(options.concurrency, JOB_LIMITS.concurrency, DEFAULT_JOB_OPTIONS.concurrency),
+    maxRetries: clamp(options.maxRetries, JOB_LIMITS.maxRetries, DEFAULT_JOB_OPTIONS.maxRetries),
+    locale: resolveLocale(options.locale),
+    promptVersions: normalizePromptVersions(options.promptVersions),
+    brandProfileId: typeof options.brandProfileId === 'string' && options.brandProfileId.trim() ? options.brandProfileId.trim() : undefined,
+  };
+}
+
+export function createBulkJob(name: string, inputs: JobRowInput[], options: BulkJobOptions): Promise<BulkJob> {
+  const rows: BulkJobRow[] = inputs.map((input, index) => ({
+    index,
+    keyword: input.keyword,
+    overview: input.overview,
+    baseUrl: input.baseUrl,
+    status: 'pending',
+    attempts: 0,
+  }));
+  return jobStore.create({ name, status: 'queued', options, rows });
+}
+
+// 実行中のジョブはメモリ上の最新状態を、それ以外は保存済みの状態を返す
+export async function getJob(id: string): Promise<BulkJob | null> {
+  return activeJobs.get(id) || jobStore.get(id);
+}
+
+// ワーカーの実行中に cancelJob によって状態が変わるため、型の絞り込みを受けない関数で判定する
+function isCancelled(job: BulkJob): boolean {
+  return job.status === 'cancelled';
+}
+
+export async function listJobs(): Promise<BulkJob[]> {
+  const jobs = await jobStore.list();
+  return jobs.map(job => activeJobs.get(job.id) || job);
+}
+
+export function getJobProgress(job: BulkJob): BulkJobProgress {
+  const progress: BulkJobProgress = { total: job.rows.length, pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+  job.rows.forEach(row => { progress[row.status]++; });
+  return progress;
+}
+
+async function saveJob(job: BulkJob): Promise<void> {
+  const saved = await jobStore.update(job.id, { status: job.status, rows: job.rows });
+  // 実行中にジョブが削除された場合は以降の処理を中止する
+  if (!saved) {
+    job.status = 'cancelled';
+  }
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+// 1行分の処理：タイトル生成 → タイトル選択 → 記事（+SEO）生成 → ライブラリへ保存
+async function processRow(job: BulkJob, row: BulkJobRow, origin: string): Promise<void> {
+  // 前回の試行で記事を保存済みの場合は生成し直さず、版の記録だけを行う（記事が重複しないようにする）
+  const saved = row.articleId ? await articleStore.get(row.articleId) : null;
+  if (saved) {
+    if ((await listRevisions(saved.id)).length === 0) {
+      await recordRevision(saved.id, saved.article, 'generated');
+    }
+    return;
+  }
+
+  const { titles } = await postJson<{ titles: GeneratedTitle[] }>(`${origin}/api/generate-titles`, {
+    keyword: row.keyword,
+    overview: row.overview,
+    locale: job.options.locale,
+    promptVersion: job.options.promptVersions?.titles,
+    brandProfileId: job.options.brandProfileId,
+  });
+  const selectedTitle = selectTitle(titles, row.keyword, job.options.titleStrategy);
+  if (!selectedTitle) {
+    throw new Error('タイトル候補が生成されませんでした');
+  }
+
+  // 再試行時は前回作成したプロジェクトを再利用する
+  const project = (row.projectId ? await projectStore.update(row.projectId, { titles }) : null)
+    || await projectStore.create({
+      keyword: row.keyword,
+      overview: row.overview,
+      baseUrl: row.baseUrl,
+      locale: job.options.locale,
+      brandProfileId: job.options.brandProfileId,
+      titles,
+    });
+  row.projectId = project.id;
+  row.selectedTitle = selectedTitle;
+  await saveJob(job);
+
+  const { article } = await postJson<{ article: GeneratedArticle }>(`${origin}/api/generate-article`, {
+    title: selectedTitle.title,
+    description: selectedTitle.description,
+    keyword: row.keyword,
+    overview: row.overview,
+    generateSEO: job.options.generateSEO,
+    generateFAQ: job.options.generateFAQ,
+    baseUrl: row.baseUrl,
+    locale: job.options.locale,
+    promptVersion: job.options.promptVersions?.article,
+    seoPromptVersion: job.options.promptVersions?.seo,
+    faqPromptVersion: job.options.promptVersions?.faq,
+    brandProfileId: job.options.brandProfileId,
+    projectId: project.id,
+  });
+
+  const stored = await articleStore.create({ projectId: project.id, selectedTitle, article });
+  // 版の記録に失敗して再試行する場合に保存した記事を再利用できるよう、先に行へ記録する
+  row.articleId = stored.id;
+  await saveJob(job);
+  await recordRevision(stored.id, article, 'generated');
+}
+
+async function processRowWithRetry(job: BulkJob, row: BulkJobRow, origin: string): Promise<void> {
+  row.status = 'running';
+  row.startedAt = new Date().toISOString();
+  row.error = undefined;
+  await saveJob(job);
+
+  while (job.status === 'running') {
+    row.attempts++;
+    try {
+      await processRow(job, row, origin);
+      row.status = 'completed';
+      row.error = undefined;
+      break;
+    } catch (error) {
+      row.error = error instanceof Error ? error.message : '不明なエラー';
+      console.error(`一括生成エラー（ジョブ ${job.id} / ${row.index + 1}行目 / ${row.attempts}回目）:`, error);
+      if (row.attempts > job.options.maxRetries) {
+        row.status = 'failed';
+        break;
+      }
+      await saveJob(job);
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * row.attempts));
+    }
+  }
+
+  if (row.status === 'running') {
+    row.status = 'cancelled';
+  }
+  row.finishedAt = new Date().toISOString();
+  await saveJob(job);
+}
+
+async function runJob(job: BulkJob, origin: string): Promise<void> {
+  // 前回中断されたジョブの実行中だった行は未処理に戻す
+  job.rows.forEach(row => {
+    if (row.status === 'running') row.status = 'pending';
+  });
+  job.status = 'running';
+  await saveJob(job);
+
+  const pending = job.rows.filter(row => row.status === 'pending');
+  const worker = async () => {
+    while (job.status === 'running') {
+      const row = pending.shift();
+      if (!row) return;
+      await processRowWithRetry(job, row, origin);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(job.options.concurrency, pending.length) }, worker));
+
+  if (isCancelled(job)) {
+    job.rows.forEach(row => {
+      if (row.status === 'pending') row.status = 'cancelled';
+    });
+  } else {
+    const anyCompleted = job.rows.some(row => row.status === 'completed');
+    job.status = anyCompleted || job.rows.length === 0 ? 'completed' : 'failed';
+  }
+  await saveJob(job);
+}
+
+/**
+ * ジョブをバックグラウンドで実行する（既に実行中の場合は何もしない）。
+ * 各行のLLM呼び出しは origin 経由で既存のAPIルートを利用する。
+ */
+export function startJob(job: BulkJob, origin: string): void {
+  if (activeJobs.has(job.id)) return;
+  activeJobs.set(job.id, job);
+  runJob(job, origin)
+    .catch(error => console.error(`一括生成ジョブ ${job.id} の実行エラー:`, error))
+    .finally(() => activeJobs.delete(job.id));
+}
+
+// サーバー再起動などで中断された未完了のジョブを再開する
+export async function resumeJobs(origin: string): Promise<void> {
+  const jobs = await jobStore.list();
+  jobs
+    .filter(job => (job.status === 'queued' || job.status === 'running') && !activeJobs.has(job.id))
+    .forEach(job => startJob(job, origin));
+}
+
+export async function cancelJob(id: string): Promise<BulkJob | null> {
+  const active = activeJobs.get(id);
+  if (active) {
+    active.status = 'cancelled';
+    await saveJob(active);
+    return active;
+  }
+
+  const job = await jobStore.get(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+    return job;
+  }
+  const rows = job.rows.map(row => row.status === 'pending' || row.status === 'running' ? { ...row, status: 'cancelled' as const } : row);
+  return jobStore.update(id, { status: 'cancelled', rows });
+}
@@ -0,0 +1,38 @@
+import { GeneratedTitle, TitleSelectionStrategy } from '@/lib/types';
+
+// 検索結果で省略されにくく、情報量も確保できるタイトルの文字数
+const IDEAL_TITLE_LENGTH = { min: 28, max: 40 };
+
+/**
+ * タイトル候補を決定的なルールで採点する。
+ * キーワードを含むこと・適切な文字数・数値（構造化された情報の示唆）を評価する。
+ */
+export function scoreTitle(title: GeneratedTitle, keyword: string): number {
+  const text = title.title;
+  let score = 0;
+
+  if (text.toLowerCase().includes(keyword.toLowerCase())) {
+    score += 3;
+  }
+
+  const length = [...text].length;
+  if (length >= IDEAL_TITLE_LENGTH.min && length <= IDEAL_TITLE_LENGTH.max) {
+    score += 2;
+  } else {
+    const distance = length < IDEAL_TITLE_LENGTH.min ? IDEAL_TITLE_LENGTH.min - length : length - IDEAL_TITLE_LENGTH.max;
+    score -= distance / 10;
+  }
+
+  if (/[0-9０-９]/.test(text)) {
+    score += 1;
+  }
+  return score;
+}
+
+// 戦略に従ってタイトル候補から1件を選ぶ（同点の場合は先の候補を優先）
+export function selectTitle(titles: GeneratedTitle[], keyword: string, strategy: TitleSelectionStrategy): GeneratedTitle | undefined {
+  if (strategy === 'first' || titles.length === 0) {
+    return titles[0];
+  }
+  return titles.reduce((best, title) => scoreTitle(title, keyword) > scoreTitle(best, keyword) ? title : best);
+}
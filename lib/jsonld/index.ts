@@ -0,0 +1,155 @@
+import { BrandSettings, primaryAuthor } from '@/lib/brand';
+import { LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle, Locale } from '@/lib/types';
+import { collectFAQEntries, extractHowTos } from './sections';
+import { JsonLdDocument, JsonLdNode, JsonLdReference } from './types';
+import { ARTICLE_TYPES } from './validate';
+
+export { collectFAQEntries, extractFAQEntries, extractHowTos } from './sections';
+export type { FAQEntry, HowToSource } from './sections';
+export type { JsonLdDocument, JsonLdIssue, JsonLdNode, JsonLdReference, JsonLdSeverity } from './types';
+export { ARTICLE_TYPES, hasJsonLdErrors, validateJsonLd } from './validate';
+
+export interface JsonLdOptions {
+  brand: BrandSettings;
+  // 省略時は記事の言語
+  locale?: Locale;
+  // 構造化データに公開日がない場合（取り込んだ記事など）の公開日。省略時は出力した日時
+  publishedAt?: string;
+}
+
+function toHttpUrl(value: string | undefined): URL | undefined {
+  if (!value?.trim()) return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function ref(id: string): JsonLdReference {
+  return { '@id': id };
+}
+
+/**
+ * 記事から schema.org の JSON-LD（@graph）を組み立てる。
+ * - Article（SEOメタデータの type が BlogPosting などならその型）・WebPage・Organization・Person
+ * - 正規URLがあれば BreadcrumbList
+ * - FAQブロックまたは「よくある質問」セクションがあれば FAQPage、手順を説明するセクションがあれば HowTo
+ * ノード同士は @id で参照する。@id は正規URL（なければサイトURL）を基準にする。
+ * 公開日は構造化データの公開日、なければ options.publishedAt（保存した記事の作成日時など）、それもなければ出力した日時。
+ */
+export function buildArticleJsonLd(article: GeneratedArticle, { brand, locale: requestLocale, publishedAt }: JsonLdOptions): JsonLdDocument {
+  const locale = resolveLocale(requestLocale ?? article.locale);
+  const seo = article.seoMetadata;
+  const structured = seo?.structuredData;
+  const pageUrl = toHttpUrl(seo?.canonicalUrl);
+  const siteUrl = toHttpUrl(brand.siteUrl) ?? (pageUrl && new URL('/', pageUrl.origin));
+  const pageBase = pageUrl?.href ?? '';
+  const siteBase = siteUrl?.href ?? '';
+
+  const organizationId = `${siteBase}#organization`;
+  const webPageId = `${pageBase}#webpage`;
+  const articleId = `${pageBase}#article`;
+  const breadcrumbId = `${pageBase}#breadcrumb`;
+  const inLanguage = LOCALE_CONFIG[locale].htmlLang;
+  const graph: JsonLdNode[] = [];
+
+  graph.push({
+    '@type': 'Organization',
+    '@id': organizationId,
+    name: brand.organizationName,
+    ...(siteUrl && { url: siteUrl.href }),
+    ...(brand.logoUrl && { logo: { '@type': 'ImageObject', url: brand.logoUrl } }),
+  });
+
+  const author = primaryAuthor(brand);
+  const authorId = author ? `${siteBase}#author-1` : organizationId;
+  if (author) {
+    graph.push({
+      '@type': 'Person',
+      '@id': authorId,
+      name: author.name,
+      ...(author.jobTitle && { jobTitle: author.jobTitle }),
+      ...(author.credentials && { description: author.credentials }),
+      ...(author.url && { url: author.url }),
+      worksFor: ref(organizationId),
+    });
+  }
+
+  graph.push({
+    '@type': 'WebPage',
+    '@id': webPageId,
+    ...(pageUrl && { url: pageUrl.href }),
+    name: seo?.title || article.title,
+    ...(seo?.description && { description: seo.description }),
+    inLanguage,
+    ...(pageUrl && { breadcrumb: ref(breadcrumbId) }),
+  });
+
+  const articleType = structured && ARTICLE_TYPES.includes(structured.type) ? structured.type : 'Article';
+  const keywords = structured?.keywords?.length ? structured.keywords : seo?.keywords;
+  graph.push({
+    '@type': articleType,
+    '@id': articleId,
+    headline: article.title,
+    ...((structured?.description || seo?.description) && { description: structured?.description || seo?.description }),
+    author: ref(authorId),
+    publisher: ref(organizationId),
+    datePublished: structured?.datePublished || publishedAt || new Date().toISOString(),
+    ...(structured?.dateModified && { dateModified: structured.dateModified }),
+    inLanguage,
+    ...(keywords && keywords.length > 0 && { keywords: keywords.join(', ') }),
+    articleSection: article.sections.map(section => section.heading),
+    mainEntityOfPage: ref(webPageId),
+  });
+
+  if (pageUrl && siteUrl) {
+    graph.push({
+      '@type': 'BreadcrumbList',
+      '@id': breadcrumbId,
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: brand.organizationName, item: siteUrl.href },
+        { '@type': 'ListItem', position: 2, name: article.title, item: pageUrl.href },
+      ],
+    });
+  }
+
+  const faqEntries = collectFAQEntries(article);
+  if (faqEntries.length > 0) {
+    graph.push({
+      '@type': 'FAQPage',
+      '@id': `${pageBase}#faq`,
+      isPartOf: ref(webPageId),
+      inLanguage,
+      mainEntity: faqEntries.map(entry => ({
+        '@type': 'Question',
+        name: entry.question,
+        acceptedAnswer: { '@type': 'Answer', text: entry.answer },
+      })),
+    });
+  }
+
+  extractHowTos(article.sections).forEach((howTo, index) => {
+    graph.push({
+      '@type': 'HowTo',
+      '@id': `${pageBase}#howto-${index + 1}`,
+      name: howTo.name,
+      inLanguage,
+      step: howTo.steps.map((step, stepIndex) => ({
+        '@type': 'HowToStep',
+        position: stepIndex + 1,
+        name: step.name,
+        text: step.text,
+      })),
+    });
+  });
+
+  return { '@context': 'https://schema.org', '@graph': graph };
+}
+
+// <script type="application/ld+json"> に埋め込む文字列（</script> で閉じられないよう < をエスケープする）
+export function serializeJsonLd(document: JsonLdDocument, indent = 2): string {
+  return JSON.stringify(document, null, indent).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,82 @@
+import { ArticleSection, GeneratedArticle } from '@/lib/types';
+
+export interface FAQEntry {
+  question: string;
+  answer: string;
+}
+
+export interface HowToSource {
+  name: string;
+  steps: { name: string; text: string }[];
+}
+
+// FAQ・HowTo として扱うセクション見出し（各言語）
+const FAQ_HEADING_PATTERN = /よくある質問|FAQ|Q\s*[&＆]\s*A|常见问题|常見問題|자주\s*묻는\s*질문|Frequently Asked Questions/i;
+const HOWTO_HEADING_PATTERN = /手順|やり方|進め方|ステップ|方法|How to|Steps?\b|步骤|步驟|단계|방법/i;
+
+// 本文中の「Q: 〜」「A: 〜」形式の行（区切り記号がない行は対象外）
+const QUESTION_LINE = /^\s*(?:Q\d*|問\d*|질문)\s*[.:：．)）]\s*(.+)$/;
+const ANSWER_LINE = /^\s*(?:A\d*|答\d*|답변)\s*[.:：．)）]\s*(.+)$/;
+
+// 構造化データに入れる本文から Markdown の強調記号と余分な空白を取り除く
+export function toSchemaText(text: string): string {
+  return text.replace(/\*\*|__/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function parseQuestionLines(content: string): FAQEntry[] {
+  const entries: FAQEntry[] = [];
+  let current: { question: string; answer: string[] } | null = null;
+
+  for (const line of content.split('\n')) {
+    const question = line.match(QUESTION_LINE);
+    const answer = line.match(ANSWER_LINE);
+    if (question) {
+      if (current) entries.push({ question: current.question, answer: current.answer.join(' ') });
+      current = { question: question[1], answer: [] };
+    } else if (current && answer) {
+      current.answer.push(answer[1]);
+    } else if (current && current.answer.length > 0 && line.trim()) {
+      current.answer.push(line.trim());
+    }
+  }
+  if (current) entries.push({ question: current.question, answer: current.answer.join(' ') });
+
+  return entries.map(entry => ({ question: toSchemaText(entry.question), answer: toSchemaText(entry.answer) }));
+}
+
+/**
+ * 「よくある質問」などのセクションから質問と回答を取り出す。
+ * サブセクションがあれば見出しを質問・本文を回答とし、なければ本文の Q/A 形式の行を使う。
+ */
+export function extractFAQEntries(sections: ArticleSection[]): FAQEntry[] {
+  return sections
+    .filter(section => FAQ_HEADING_PATTERN.test(section.heading))
+    .flatMap(section => (section.subheadings?.length
+      ? section.subheadings.map(sub => ({ question: toSchemaText(sub.title), answer: toSchemaText(sub.content) }))
+      : parseQuestionLines(section.content)));
+}
+
+// 記事のFAQブロックと「よくある質問」セクションの質問を合わせる（同じ質問は先に現れたものを残す）
+export function collectFAQEntries(article: GeneratedArticle): FAQEntry[] {
+  const entries = [
+    ...(article.faq ?? []).map(item => ({ question: toSchemaText(item.question), answer: toSchemaText(item.answer) })),
+    ...extractFAQEntries(article.sections),
+  ];
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    if (seen.has(entry.question)) return false;
+    seen.add(entry.question);
+    return true;
+  });
+}
+
+// 手順を説明するセクション（見出しが手順・方法などで、サブセクションが2つ以上）を HowTo の候補にする
+export function extractHowTos(sections: ArticleSection[]): HowToSource[] {
+  return sections
+    .filter(section => HOWTO_HEADING_PATTERN.test(section.heading) && !FAQ_HEADING_PATTERN.test(section.heading))
+    .filter(section => (section.subheadings?.length ?? 0) >= 2)
+    .map(section => ({
+      name: toSchemaText(section.heading),
+      steps: section.subheadings!.map(sub => ({ name: toSchemaText(sub.title), text: toSchemaText(sub.content) })),
+    }));
+}
@@ -0,0 +1,26 @@
+export type JsonLdSeverity = 'error' | 'warning';
+
+// schema.org のノード（@graph の要素）
+export interface JsonLdNode {
+  '@type': string;
+  '@id'?: string;
+  [property: string]: unknown;
+}
+
+// 他のノードへの参照
+export interface JsonLdReference {
+  '@id': string;
+}
+
+export interface JsonLdDocument {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+export interface JsonLdIssue {
+  severity: JsonLdSeverity;
+  // 問題のあるノードの @type（例: BlogPosting）
+  nodeType: string;
+  property: string;
+  message: string;
+}
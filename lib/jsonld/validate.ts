@@ -0,0 +1,203 @@
+import { JsonLdDocument, JsonLdIssue, JsonLdNode } from './types';
+
+// Article と同じ扱いをする @type
+export const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'TechArticle'];
+
+// Google が見出しとして表示する上限の文字数
+const MAX_HEADLINE_LENGTH = 110;
+
+// ISO 8601 の日付（YYYY-MM-DD）または日時
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+type NodeValidator = (node: JsonLdNode, issue: (severity: JsonLdIssue['severity'], property: string, message: string) => void) => void;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// 値がノードへの参照か、埋め込まれたノードであること
+function hasEntity(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0 && value.every(hasEntity);
+  if (!value || typeof value !== 'object') return false;
+  const entity = value as Record<string, unknown>;
+  return isNonEmptyString(entity['@id']) || isNonEmptyString(entity.name);
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+const validateArticle: NodeValidator = (node, issue) => {
+  if (!isNonEmptyString(node.headline)) {
+    issue('error', 'headline', '見出し（headline）がありません');
+  } else if ([...node.headline].length > MAX_HEADLINE_LENGTH) {
+    issue('warning', 'headline', `見出し（headline）が${MAX_HEADLINE_LENGTH}文字を超えているため、検索結果で省略される可能性があります`);
+  }
+  if (!hasEntity(node.author)) {
+    issue('error', 'author', '著者（author）がありません');
+  }
+  if (!hasEntity(node.publisher)) {
+    issue('error', 'publisher', '発行者（publisher）がありません');
+  }
+  if (!node.datePublished) {
+    issue('error', 'datePublished', '公開日（datePublished）がありません');
+  } else if (!isValidDate(node.datePublished)) {
+    issue('error', 'datePublished', `公開日（datePublished）がISO 8601形式ではありません: ${String(node.datePublished)}`);
+  }
+  if (node.dateModified !== undefined && !isValidDate(node.dateModified)) {
+    issue('error', 'dateModified', `更新日（dateModified）がISO 8601形式ではありません: ${String(node.dateModified)}`);
+  } else if (isValidDate(node.datePublished) && isValidDate(node.dateModified)
+    && Date.parse(node.dateModified as string) < Date.parse(node.datePublished as string)) {
+    issue('warning', 'dateModified', '更新日（dateModified）が公開日より前になっています');
+  }
+  if (!node.mainEntityOfPage) {
+    issue('warning', 'mainEntityOfPage', '記事のページ（mainEntityOfPage）が指定されていません');
+  }
+};
+
+const validateOrganization: NodeValidator = (node, issue) => {
+  if (!isNonEmptyString(node.name)) {
+    issue('error', 'name', '組織名（name）がありません');
+  }
+  if (node.url !== undefined && !isHttpUrl(node.url)) {
+    issue('error', 'url', '組織のURL（url）が正しくありません');
+  }
+  const logo = node.logo as Record<string, unknown> | undefined;
+  if (logo && !isHttpUrl(logo.url)) {
+    issue('error', 'logo', 'ロゴ（logo.url）のURLが正しくありません');
+  }
+};
+
+const validatePerson: NodeValidator = (node, issue) => {
+  if (!isNonEmptyString(node.name)) {
+    issue('error', 'name', '著者名（name）がありません');
+  }
+  if (node.url !== undefined && !isHttpUrl(node.url)) {
+    issue('error', 'url', '著者のURL（url）が正しくありません');
+  }
+};
+
+const validateWebPage: NodeValidator = (node, issue) => {
+  if (!isNonEmptyString(node.name)) {
+    issue('error', 'name', 'ページ名（name）がありません');
+  }
+  if (node.url === undefined) {
+    issue('warning', 'url', '正規URL（canonicalUrl）が未設定のため、ページのURLとパンくずリストを出力できません');
+  } else if (!isHttpUrl(node.url)) {
+    issue('error', 'url', 'ページのURL（url）が正しくありません');
+  }
+};
+
+const validateBreadcrumbList: NodeValidator = (node, issue) => {
+  const items = asArray(node.itemListElement);
+  if (items.length === 0) {
+    issue('error', 'itemListElement', 'パンくずリストの項目（itemListElement）がありません');
+    return;
+  }
+  items.forEach((item, index) => {
+    const label = `${index + 1}番目の項目`;
+    if (item.position !== index + 1) {
+      issue('error', 'itemListElement.position', `${label}の位置（position）が ${index + 1} ではありません`);
+    }
+    if (!isNonEmptyString(item.name)) {
+      issue('error', 'itemListElement.name', `${label}の名前（name）がありません`);
+    }
+    // 最後の項目（現在のページ）以外はリンク先が必須
+    if (index < items.length - 1 && !isHttpUrl(item.item)) {
+      issue('error', 'itemListElement.item', `${label}のリンク先（item）がありません`);
+    }
+  });
+};
+
+const validateFAQPage: NodeValidator = (node, issue) => {
+  const questions = asArray(node.mainEntity);
+  if (questions.length === 0) {
+    issue('error', 'mainEntity', '質問（mainEntity）がありません');
+    return;
+  }
+  questions.forEach((question, index) => {
+    const answer = question.acceptedAnswer as Record<string, unknown> | undefined;
+    if (!isNonEmptyString(question.name)) {
+      issue('error', 'mainEntity.name', `${index + 1}番目の質問文（name）がありません`);
+    }
+    if (!isNonEmptyString(answer?.text)) {
+      issue('error', 'mainEntity.acceptedAnswer', `${index + 1}番目の質問の回答（acceptedAnswer.text）がありません`);
+    }
+  });
+};
+
+const validateHowTo: NodeValidator = (node, issue) => {
+  if (!isNonEmptyString(node.name)) {
+    issue('error', 'name', '手順の名前（name）がありません');
+  }
+  const steps = asArray(node.step);
+  if (steps.length === 0) {
+    issue('error', 'step', '手順（step）がありません');
+  }
+  steps.forEach((step, index) => {
+    if (!isNonEmptyString(step.text)) {
+      issue('error', 'step.text', `${index + 1}番目の手順の説明（text）がありません`);
+    }
+  });
+};
+
+const NODE_VALIDATORS: Record<string, NodeValidator> = {
+  ...Object.fromEntries(ARTICLE_TYPES.map(type => [type, validateArticle])),
+  Organization: validateOrganization,
+  Person: validatePerson,
+  WebPage: validateWebPage,
+  BreadcrumbList: validateBreadcrumbList,
+  FAQPage: validateFAQPage,
+  HowTo: validateHowTo,
+};
+
+/**
+ * JSON-LD の @graph を検証し、リッチリザルトの必須・推奨プロパティの不足を返す。
+ * severity が error の項目があると検索エンジンに構造化データとして認識されない。
+ */
+export function validateJsonLd(document: JsonLdDocument): JsonLdIssue[] {
+  const issues: JsonLdIssue[] = [];
+  if (document['@context'] !== 'https://schema.org') {
+    issues.push({ severity: 'error', nodeType: '@context', property: '@context', message: '@context が https://schema.org ではありません' });
+  }
+
+  const ids = new Set(document['@graph'].map(node => node['@id']).filter(isNonEmptyString));
+  document['@graph'].forEach(node => {
+    const issue = (severity: JsonLdIssue['severity'], property: string, message: string) => {
+      issues.push({ severity, nodeType: node['@type'], property, message });
+    };
+    if (!isNonEmptyString(node['@type'])) {
+      issue('error', '@type', '@type がないノードがあります');
+      return;
+    }
+    NODE_VALIDATORS[node['@type']]?.(node, issue);
+
+    // グラフ内のノードへの参照（{ "@id": … } のみのオブジェクト）が解決できること
+    Object.entries(node).forEach(([property, value]) => {
+      const reference = value as Record<string, unknown> | null;
+      if (reference && typeof reference === 'object' && !Array.isArray(reference)
+        && Object.keys(reference).length === 1 && isNonEmptyString(reference['@id']) && !ids.has(reference['@id'])) {
+        issue('error', property, `参照先のノード（${reference['@id']}）がグラフにありません`);
+      }
+    });
+  });
+  return issues;
+}
+
+export function hasJsonLdErrors(issues: JsonLdIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
@@ -0,0 +1,141 @@
+import { LLMConfigError, LLMProviderType, LLMStage, ProviderConfig, StructuredOutputMode } from './types';
+
+const PROVIDER_TYPES: LLMProviderType[] = ['openai', 'openai-compatible', 'azure', 'anthropic'];
+
+// OpenAI利用時のステージ別デフォルトモデル（従来の DEFAULT_MODEL / ADVANCED_MODEL に相当）
+const OPENAI_DEFAULT_MODELS: Record<LLMStage, string> = {
+  titles: 'gpt-4o-mini',
+  article: 'gpt-4o',
+  seo: 'gpt-4o',
+};
+
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ['json_schema', 'json_object', 'none'];
+
+// プロバイダー別の構造化出力デフォルト
+// OpenAI互換サーバーは実装ごとに対応状況が異なるため、既定ではネイティブ機能を使用しない
+const DEFAULT_STRUCTURED_OUTPUT: Record<LLMProviderType, StructuredOutputMode> = {
+  'openai': 'json_schema',
+  'openai-compatible': 'none',
+  'azure': 'json_schema',
+  'anthropic': 'json_schema',
+};
+
+const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
+
+// 環境変数からステージ別の値を取得する
+// 例: LLM_ARTICLE_MODEL → LLM_MODEL の順にフォールバック
+function readStageEnv(stage: LLMStage, key: string): string | undefined {
+  const stageValue = process.env[`LLM_${stage.toUpperCase()}_${key}`];
+  if (stageValue && stageValue.trim()) {
+    return stageValue.trim();
+  }
+  const globalValue = process.env[`LLM_${key}`];
+  if (globalValue && globalValue.trim()) {
+    return globalValue.trim();
+  }
+  return undefined;
+}
+
+function parseProviderType(value: string | undefined): LLMProviderType {
+  if (!value) {
+    return 'openai';
+  }
+  if (!PROVIDER_TYPES.includes(value as LLMProviderType)) {
+    throw new LLMConfigError(
+      `不明なLLMプロバイダーです: ${value}（${PROVIDER_TYPES.join(', ')} のいずれかを指定してください）`
+    );
+  }
+  return value as LLMProviderType;
+}
+
+function parseStructuredOutputMode(value: string | undefined, type: LLMProviderType): StructuredOutputMode {
+  if (!value) {
+    return DEFAULT_STRUCTURED_OUTPUT[type];
+  }
+  if (!STRUCTURED_OUTPUT_MODES.includes(value as StructuredOutputMode)) {
+    throw new LLMConfigError(
+      `不明な構造化出力モードです: ${value}（${STRUCTURED_OUTPUT_MODES.join(', ')} のいずれかを指定してください）`
+    );
+  }
+  return value as StructuredOutputMode;
+}
+
+/**
+ * 指定ステージのプロバイダー設定を環境変数から解決する。
+ *
+ * 共通設定（LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, LLM_API_KEY）を
+ * ステージ別設定（LLM_TITLES_*, LLM_ARTICLE_*, LLM_SEO_*）で上書きできる。
+ * 構造化出力の方式は LLM_STRUCTURED_OUTPUT（json_schema / json_object / none）で指定する。
+ */
+export function resolveStageConfig(stage: LLMStage): ProviderConfig {
+  const type = parseProviderType(readStageEnv(stage, 'PROVIDER'));
+  const model = readStageEnv(stage, 'MODEL');
+  const baseUrl = readStageEnv(stage, 'BASE_URL');
+  const apiKey = readStageEnv(stage, 'API_KEY');
+  const structuredOutput = parseStructuredOutputMode(readStageEnv(stage, 'STRUCTURED_OUTPUT'), type);
+
+  switch (type) {
+    case 'openai': {
+      const key = apiKey || process.env.OPENAI_API_KEY;
+      if (!key) {
+        throw new LLMConfigError('OpenAI API key is not configured. Please set OPENAI_API_KEY in your environment variables.');
+      }
+      return {
+        type,
+        model: model || OPENAI_DEFAULT_MODELS[stage],
+        apiKey: key,
+        baseUrl: baseUrl || process.env.OPENAI_BASE_URL,
+        structuredOutput,
+      };
+    }
+    case 'openai-compatible': {
+      if (!baseUrl) {
+        throw new LLMConfigError(`OpenAI互換プロバイダーのベースURLが未設定です（LLM_BASE_URL または LLM_${stage.toUpperCase()}_BASE_URL）`);
+      }
+      if (!model) {
+        throw new LLMConfigError(`OpenAI互換プロバイダーのモデル名が未設定です（LLM_MODEL または LLM_${stage.toUpperCase()}_MODEL）`);
+      }
+      return {
+        type,
+        model,
+        // ローカルサーバーの多くは認証不要だが、SDKはキーを必須とするためダミー値を使用
+        apiKey: apiKey || 'not-needed',
+        baseUrl,
+        structuredOutput,
+      };
+    }
+    case 'azure': {
+      const key = apiKey || process.env.AZURE_OPENAI_API_KEY;
+      const endpoint = baseUrl || process.env.AZURE_OPENAI_ENDPOINT;
+      const deployment = model || process.env.AZURE_OPENAI_DEPLOYMENT;
+      if (!key || !endpoint) {
+        throw new LLMConfigError('Azure OpenAIの設定が不足しています（AZURE_OPENAI_API_KEY と AZURE_OPENAI_ENDPOINT を設定してください）');
+      }
+      if (!deployment) {
+        throw new LLMConfigError('Azure OpenAIのデプロイメント名が未設定です（AZURE_OPENAI_DEPLOYMENT または LLM_MODEL）');
+      }
+      return {
+        type,
+        model: deployment,
+        apiKey: key,
+        baseUrl: endpoint,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+        deployment,
+        structuredOutput,
+      };
+    }
+    case 'anthropic': {
+      const key = apiKey || process.env.ANTHROPIC_API_KEY;
+      if (!key) {
+        throw new LLMConfigError('Anthropic API key is not configured. Please set ANTHROPIC_API_KEY in your environment variables.');
+      }
+      return {
+        type,
+        model: model || ANTHROPIC_DEFAULT_MODEL,
+        apiKey: key,
+        baseUrl: baseUrl || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+        structuredOutput,
+      };
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { resolveStageConfig } from './config';
+import { createAnthropicProvider } from './providers/anthropic';
+import { createOpenAIProvider } from './providers/openai';
+import { ChatMessage, LLMProvider, LLMStage, ProviderConfig, ResponseSchema } from './types';
+
+export type {
+  ChatMessage,
+  JsonSchema,
+  LLMProvider,
+  LLMProviderType,
+  LLMStage,
+  ProviderConfig,
+  ResponseSchema,
+  StructuredOutputMode,
+} from './types';
+export { LLMConfigError } from './types';
+export { resolveStageConfig } from './config';
+
+// 同一設定のクライアントを使い回すためのキャッシュ
+const providerCache = new Map<string, LLMProvider>();
+
+function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'openai':
+    case 'openai-compatible':
+    case 'azure':
+      return createOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+  }
+}
+
+function getProvider(config: ProviderConfig): LLMProvider {
+  const cacheKey = [config.type, config.baseUrl, config.apiKey, config.apiVersion, config.deployment].join('|');
+  let provider = providerCache.get(cacheKey);
+  if (!provider) {
+    provider = createProvider(config);
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+export interface StageCompletionOptions {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // 指定時はステージ設定の構造化出力モードに従ってスキーマを強制する
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * 指定ステージに設定されたプロバイダーとモデルでチャット補完を実行する。
+ */
+export async function generateCompletion(stage: LLMStage, options: StageCompletionOptions): Promise<string> {
+  const config = resolveStageConfig(stage);
+  const provider = getProvider(config);
+  return provider.complete({
+    model: config.model,
+    structuredOutput: config.structuredOutput,
+    ...options,
+  });
+}
+
+/**
+ * 指定ステージに設定されたプロバイダーとモデルで、応答をストリーミングで生成する。
+ */
+export async function* streamCompletion(stage: LLMStage, options: StageCompletionOptions): AsyncIterable<string> {
+  const config = resolveStageConfig(stage);
+  const provider = getProvider(config);
+  yield* provider.stream({
+    model: config.model,
+    structuredOutput: config.structuredOutput,
+    ...options,
+  });
+}
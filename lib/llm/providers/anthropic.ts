@@ -0,0 +1,120 @@
+import { readServerSentEvents } from '@/lib/sse';
+import { CompletionRequest, LLMProvider, ProviderConfig } from '../types';
+import { toProviderSchema } from './schema';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// Messages APIは max_tokens が必須のため、未指定時のデフォルト値
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string; input?: unknown }[];
+  error?: { message?: string };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string; partial_json?: string };
+  error?: { message?: string };
+}
+
+/**
+ * Anthropic Messages APIを話すプロバイダー。
+ * システムメッセージは messages ではなく system パラメータとして送信する。
+ * json_schema モードでは、スキーマを入力とするツールの呼び出しを強制して構造化出力を得る。
+ */
+export function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+  const endpoint = `${config.baseUrl!.replace(/\/+$/, '')}/v1/messages`;
+
+  const usesTool = (request: CompletionRequest) =>
+    request.structuredOutput === 'json_schema' && !!request.responseSchema;
+
+  async function send(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }));
+
+    const toolOptions = usesTool(request)
+      ? {
+          tools: [{
+            name: request.responseSchema!.name,
+            description: '指定されたスキーマに従った構造化データを出力する',
+            input_schema: toProviderSchema(request.responseSchema!.schema),
+          }],
+          tool_choice: { type: 'tool', name: request.responseSchema!.name },
+        }
+      : {};
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey!,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: stream || undefined,
+        ...toolOptions,
+      }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as AnthropicMessageResponse;
+      throw new Error(`Anthropic APIエラー (${response.status}): ${data.error?.message || 'Unknown error'}`);
+    }
+    return response;
+  }
+
+  return {
+    type: config.type,
+    async complete(request: CompletionRequest): Promise<string> {
+      const response = await send(request, false);
+      const data = await response.json() as AnthropicMessageResponse;
+
+      if (usesTool(request)) {
+        const toolUse = (data.content || []).find(block => block.type === 'tool_use');
+        if (toolUse?.input !== undefined) {
+          return JSON.stringify(toolUse.input);
+        }
+      }
+
+      const text = (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+      if (!text) {
+        throw new Error('LLMからの応答が取得できませんでした');
+      }
+      return text;
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const response = await send(request, true);
+      if (!response.body) {
+        throw new Error('LLMからの応答が取得できませんでした');
+      }
+
+      // ツール呼び出し時は input_json_delta、通常時は text_delta として断片が届く
+      for await (const { data } of readServerSentEvents(response.body)) {
+        const event = JSON.parse(data) as AnthropicStreamEvent;
+        if (event.type === 'error') {
+          throw new Error(`Anthropic APIエラー: ${event.error?.message || 'Unknown error'}`);
+        }
+        if (event.type !== 'content_block_delta' || !event.delta) {
+          continue;
+        }
+        const delta = event.delta.type === 'input_json_delta' ? event.delta.partial_json : event.delta.text;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { CompletionRequest, LLMProvider, ProviderConfig } from '../types';
+import { toProviderSchema } from './schema';
+
+// 構造化出力の方式に応じた response_format を組み立てる
+function buildResponseFormat(request: CompletionRequest) {
+  if (!request.responseSchema) {
+    return undefined;
+  }
+  switch (request.structuredOutput) {
+    case 'json_schema':
+      return {
+        type: 'json_schema' as const,
+        json_schema: {
+          name: request.responseSchema.name,
+          schema: toProviderSchema(request.responseSchema.schema) as Record<string, unknown>,
+          strict: true,
+        },
+      };
+    case 'json_object':
+      return { type: 'json_object' as const };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * OpenAI Chat Completions APIを話すプロバイダー。
+ * OpenAI公式、OpenAI互換サーバー（vLLM、LM Studio、Ollama等）、Azure OpenAIで共通利用する。
+ */
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const client = config.type === 'azure'
+    ? new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseUrl,
+        apiVersion: config.apiVersion,
+        deployment: config.deployment,
+      })
+    : new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseUrl,
+      });
+
+  return {
+    type: config.type,
+    async complete(request: CompletionRequest): Promise<string> {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: buildResponseFormat(request),
+      });
+
+      const response = completion.choices[0]?.message?.content;
+      if (!response) {
+        throw new Error('LLMからの応答が取得できませんでした');
+      }
+      return response;
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const stream = await client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: buildResponseFormat(request),
+        stream: true,
+      });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
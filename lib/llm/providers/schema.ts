@@ -0,0 +1,24 @@
+import { JsonSchema } from '../types';
+
+// プロバイダーのネイティブなスキーマ強制機能が受け付けないキーワード
+// （ローカル検証でのみ使用し、送信前に除去する）
+const LOCAL_ONLY_KEYWORDS: (keyof JsonSchema)[] = ['minItems', 'maxItems', 'minLength', 'maxLength'];
+
+/**
+ * プロバイダーへ送信するためにローカル検証専用のキーワードを除去したスキーマを返す。
+ */
+export function toProviderSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  for (const keyword of LOCAL_ONLY_KEYWORDS) {
+    delete result[keyword];
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toProviderSchema(value)])
+    );
+  }
+  if (schema.items) {
+    result.items = toProviderSchema(schema.items);
+  }
+  return result;
+}
@@ -0,0 +1,79 @@
+// LLMプロバイダー抽象化レイヤーの共通型定義
+
+// パイプラインの各ステージ（ステージごとにプロバイダーとモデルを切り替え可能）
+export type LLMStage = 'titles' | 'article' | 'seo';
+
+// サポートするプロバイダー種別
+// - openai: OpenAI公式API
+// - openai-compatible: OpenAI互換API（vLLM、LM Studio、Ollama等のセルフホストモデル）
+// - azure: Azure OpenAI Service
+// - anthropic: Anthropic Messages API
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'azure' | 'anthropic';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 構造化出力に使用するJSON Schemaのサブセット
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  // 以下はローカル検証専用のキーワード（プロバイダーには送信しない）
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// 構造化出力の方式
+// - json_schema: プロバイダーのネイティブなスキーマ強制機能を使用
+// - json_object: JSONモードのみ使用（スキーマはプロンプトと事後検証で担保）
+// - none: プロンプトと事後検証のみ
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'none';
+
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseSchema?: ResponseSchema;
+  structuredOutput?: StructuredOutputMode;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(request: CompletionRequest): Promise<string>;
+  // 応答テキストを生成された順に断片（デルタ）として返す
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+// ステージ単位で解決されたプロバイダー設定
+export interface ProviderConfig {
+  type: LLMProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // Azure OpenAI専用
+  apiVersion?: string;
+  deployment?: string;
+  structuredOutput: StructuredOutputMode;
+}
+
+// 設定不備を表すエラー（import時ではなく、実際に使用するステージの解決時に送出）
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_BRAND } from './brand';
+import { setClaimAccepted, verifyClaims } from './claims';
+import { excludeUnverifiedEntries, generateLlmsTxtFiles, LlmsTxtEntry } from './llms-txt';
+import { GeneratedArticle } from './types';
+
+vi.mock('./storage', () => ({
+  articleStore: { list: vi.fn() },
+  projectStore: { get: vi.fn(), list: vi.fn() },
+  listArticlesByProject: vi.fn(),
+  listSourcesByProject: vi.fn(async (projectId: string) => projectId === 'project-1'
+    ? [{ sourceId: 'S1', content: '導入企業の離職率は12%低下した。' }]
+    : []),
+}));
+
+function entry(title: string, content: string, extra: Partial<LlmsTxtEntry> = {}): LlmsTxtEntry {
+  const article: GeneratedArticle = { title, sections: [{ heading: '概要', content }] };
+  return { article, section: '業務効率化', url: `https://example.com/${encodeURIComponent(title)}`, ...extra };
+}
+
+describe('excludeUnverifiedEntries', () => {
+  it('根拠のない主張がある記事を除き、件数を記録する', async () => {
+    const verified = entry('検証済み', '運用のコツを紹介します。');
+    const unverified = entry('未確認', '効率が3倍、費用が40%減りました。');
+    const result = await excludeUnverifiedEntries([verified, unverified], DEFAULT_BRAND);
+    expect(result.entries).toEqual([verified]);
+    expect(result.withheld).toEqual([{ title: '未確認', unresolvedClaims: 2 }]);
+  });
+
+  it('承認済みの主張だけの記事は除かない', async () => {
+    const original = entry('承認済み', '効率が3倍になりました。');
+    const [claim] = verifyClaims(original.article).unresolved;
+    const accepted = { ...original, article: setClaimAccepted(original.article, claim.id, true) };
+    const result = await excludeUnverifiedEntries([accepted], DEFAULT_BRAND);
+    expect(result.entries).toEqual([accepted]);
+    expect(result.withheld).toEqual([]);
+  });
+
+  it('ライブラリの記事はプロジェクトの参考資料の本文と照合する', async () => {
+    const backed = entry('出典あり', '離職率は12%低下しました[S1]。', { projectId: 'project-1' });
+    const mismatched = entry('出典の本文にない', '離職率は25%低下しました[S1]。', { projectId: 'project-1' });
+    const result = await excludeUnverifiedEntries([backed, mismatched], DEFAULT_BRAND);
+    expect(result.entries).toEqual([backed]);
+    expect(result.withheld).toEqual([{ title: '出典の本文にない', unresolvedClaims: 1 }]);
+  });
+});
+
+describe('generateLlmsTxtFiles', () => {
+  it('llms.txt にはすべての記事を載せ、llms-full.txt の本文は指定した記事のみにする', () => {
+    const verified = entry('検証済み', '運用のコツを紹介します。');
+    const unverified = entry('未確認', '効率が3倍になりました。');
+    const files = generateLlmsTxtFiles([verified, unverified], { name: 'CloudFlow Dynamics' }, DEFAULT_BRAND, [verified]);
+    expect(files.llmsTxt).toContain('[検証済み]');
+    expect(files.llmsTxt).toContain('[未確認]');
+    expect(files.llmsFullTxt).toContain('運用のコツを紹介します。');
+    expect(files.llmsFullTxt).not.toContain('効率が3倍');
+  });
+});
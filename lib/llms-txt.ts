@@ -0,0 +1,175 @@
+import { BrandSettings } from './brand';
+import { generateMarkdown } from './export';
+import { EXPORT_MESSAGES, resolveLocale } from './locale';
+import { verifyArticleClaims } from './sources';
+import { articleStore, listArticlesByProject, projectStore } from './storage';
+import { GeneratedArticle, Locale } from './types';
+
+export interface LlmsTxtEntry {
+  article: GeneratedArticle;
+  // リンク一覧の見出し（省略時はメインキーワード、それもなければ「記事」）
+  section?: string;
+  // 記事のURL（省略時は canonical URL）
+  url?: string;
+  // ライブラリの記事のプロジェクト（主張の確認で参考資料の本文と照合する）
+  projectId?: string;
+}
+
+export interface LlmsTxtSite {
+  name: string;
+  // 概要（引用ブロックとして出力する）
+  description?: string;
+}
+
+export interface LlmsTxtFiles {
+  llmsTxt: string;
+  llmsFullTxt: string;
+  // URLがないためリンク一覧に載せなかった記事のタイトル（llms-full.txt には含める）
+  unlinked: string[];
+}
+
+// 未確認の主張があるため llms-full.txt に本文を含めなかった記事
+export interface WithheldEntry {
+  title: string;
+  unresolvedClaims: number;
+}
+
+// ブランドプロファイルからサイトの情報を作る
+export function llmsTxtSiteFromBrand(brand: BrandSettings): LlmsTxtSite {
+  return {
+    name: brand.organizationName,
+    description: brand.siteDescription,
+  };
+}
+
+/**
+ * アップロードされた記事JSONを読み取る。
+ * 記事そのもの（GeneratedArticle）と、ライブラリの保存形式（{ article: GeneratedArticle }）に対応する。
+ */
+export function parseArticleJson(data: unknown): GeneratedArticle | null {
+  const candidate = data && typeof data === 'object' && 'article' in data ? (data as { article: unknown }).article : data;
+  if (!candidate || typeof candidate !== 'object') return null;
+  const article = candidate as GeneratedArticle;
+  if (typeof article.title !== 'string' || !Array.isArray(article.sections)) return null;
+  return article;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Markdownのリンクで崩れる文字をエスケープする
+function linkText(text: string): string {
+  return oneLine(text).replace(/([[\]\\])/g, '\\$1');
+}
+
+function linkUrl(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function entryUrl(entry: LlmsTxtEntry): string | undefined {
+  return entry.url || entry.article.seoMetadata?.canonicalUrl || undefined;
+}
+
+function header(site: LlmsTxtSite): string {
+  let text = `# ${oneLine(site.name)}\n\n`;
+  if (site.description) {
+    text += `> ${oneLine(site.description)}\n\n`;
+  }
+  return text;
+}
+
+/**
+ * llms.txt（https://llmstxt.org/ の形式）を作る。
+ * サイト名・概要の後に、セクションごとの記事へのリンクと、メタディスクリプションによる1行の要約を並べる。
+ */
+export function generateLlmsTxt(entries: LlmsTxtEntry[], site: LlmsTxtSite, locale?: Locale): { content: string; unlinked: string[] } {
+  const fallbackSection = EXPORT_MESSAGES[resolveLocale(locale ?? entries[0]?.article.locale)].articles;
+  const sections = new Map<string, string[]>();
+  const unlinked: string[] = [];
+
+  entries.forEach(entry => {
+    const url = entryUrl(entry);
+    if (!url) {
+      unlinked.push(entry.article.title);
+      return;
+    }
+    const name = oneLine(entry.section || entry.article.seoMetadata?.keywords[0] || '') || fallbackSection;
+    const description = entry.article.seoMetadata?.description;
+    const line = `- [${linkText(entry.article.title)}](${linkUrl(url)})${description ? `: ${oneLine(description)}` : ''}`;
+    sections.set(name, [...(sections.get(name) ?? []), line]);
+  });
+
+  let content = header(site);
+  sections.forEach((lines, name) => {
+    content += `## ${name}\n\n${lines.join('\n')}\n\n`;
+  });
+  return { content: `${content.trimEnd()}\n`, unlinked };
+}
+
+/**
+ * llms-full.txt を作る。記事の本文をMarkdownエクスポートと同じ形式で連結する。
+ * フロントマター・クレジット表記は含めず、記事のURLがあればタイトルの直後に出典として記載する。
+ */
+export function generateLlmsFullTxt(entries: LlmsTxtEntry[], site: LlmsTxtSite, brand: BrandSettings): string {
+  const plainBrand: BrandSettings = { ...brand, attribution: 'none', footerText: undefined };
+  const bodies = entries.map(entry => {
+    const markdown = generateMarkdown(entry.article, { includeSEO: false, brand: plainBrand }).trim();
+    const url = entryUrl(entry);
+    if (!url) return markdown;
+    const [title, ...rest] = markdown.split('\n');
+    return [title, '', `Source: ${url}`, ...rest].join('\n');
+  });
+  return `${header(site)}${bodies.join('\n\n')}\n`;
+}
+
+/**
+ * ライブラリの記事を llms.txt の項目にする（projectId を指定するとそのプロジェクトのみ）。
+ * セクションはプロジェクトのキーワード。
+ */
+export async function listLibraryEntries(projectId?: string): Promise<LlmsTxtEntry[]> {
+  const projects = projectId
+    ? [await projectStore.get(projectId)].filter(project => project !== null)
+    : await projectStore.list();
+  const keywords = new Map(projects.map(project => [project.id, project.keyword]));
+  const articles = projectId ? await listArticlesByProject(projectId) : await articleStore.list();
+  return articles
+    .filter(stored => keywords.has(stored.projectId))
+    .map(stored => ({ article: stored.article, section: keywords.get(stored.projectId), projectId: stored.projectId }));
+}
+
+/**
+ * 本文を出力する記事の主張を確認し、未確認（根拠なしで未承認）の主張がある記事を除く。
+ * 一括生成のエクスポートと同じ基準で、ライブラリの記事はプロジェクトの参考資料と照合する。
+ */
+export async function excludeUnverifiedEntries(
+  entries: LlmsTxtEntry[],
+  brand: BrandSettings
+): Promise<{ entries: LlmsTxtEntry[]; withheld: WithheldEntry[] }> {
+  const verified: LlmsTxtEntry[] = [];
+  const withheld: WithheldEntry[] = [];
+  for (const entry of entries) {
+    const { unresolved } = await verifyArticleClaims(entry.article, brand, entry.projectId);
+    if (unresolved.length === 0) {
+      verified.push(entry);
+    } else {
+      withheld.push({ title: entry.article.title, unresolvedClaims: unresolved.length });
+    }
+  }
+  return { entries: verified, withheld };
+}
+
+// llms.txt と llms-full.txt をまとめて作る（fullTextEntries を指定すると llms-full.txt の本文はその記事のみ）
+export function generateLlmsTxtFiles(
+  entries: LlmsTxtEntry[],
+  site: LlmsTxtSite,
+  brand: BrandSettings,
+  fullTextEntries: LlmsTxtEntry[] = entries
+): LlmsTxtFiles {
+  const { content, unlinked } = generateLlmsTxt(entries, site);
+  return {
+    llmsTxt: content,
+    llmsFullTxt: generateLlmsFullTxt(fullTextEntries, site, brand),
+    unlinked,
+  };
+}
@@ -0,0 +1,198 @@
+import { Locale } from './types';
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+export const LOCALES: Locale[] = ['ja', 'en', 'zh-Hans', 'zh-Hant', 'ko'];
+
+export interface LocaleConfig {
+  // 言語選択UIでの表示名
+  label: string;
+  // HTMLの lang 属性
+  htmlLang: string;
+  // toLocaleDateString 等に渡すロケール
+  dateLocale: string;
+  // og:locale
+  ogLocale: string;
+  // プロンプトで出力言語を指示する際の言語名（日本語表記）
+  languageName: string;
+}
+
+export const LOCALE_CONFIG: Record<Locale, LocaleConfig> = {
+  ja: { label: '日本語', htmlLang: 'ja', dateLocale: 'ja-JP', ogLocale: 'ja_JP', languageName: '日本語' },
+  en: { label: 'English', htmlLang: 'en', dateLocale: 'en-US', ogLocale: 'en_US', languageName: '英語' },
+  'zh-Hans': { label: '简体中文', htmlLang: 'zh-Hans', dateLocale: 'zh-CN', ogLocale: 'zh_CN', languageName: '簡体字中国語' },
+  'zh-Hant': { label: '繁體中文', htmlLang: 'zh-Hant', dateLocale: 'zh-TW', ogLocale: 'zh_TW', languageName: '繁体字中国語（台湾）' },
+  ko: { label: '한국어', htmlLang: 'ko', dateLocale: 'ko-KR', ogLocale: 'ko_KR', languageName: '韓国語' },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+// リクエストの locale を検証し、未指定・不正な値は既定の言語とする
+export function resolveLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+export interface LengthRange {
+  min: number;
+  max: number;
+}
+
+// SEOメタデータの文字数の目安
+// 検索結果の表示幅は全角文字（CJK）が半角文字のおよそ2倍のため、
+// 日本語・中国語・韓国語は英語の半分程度の文字数を目安とする。
+export interface SEOLengthRules {
+  // 文字数の数え方（full: 全角1文字を1・半角文字を0.5と数える / half: 半角1文字を1・全角文字を2と数える）
+  unit: 'full' | 'half';
+  title: LengthRange;
+  description: LengthRange;
+  // SNSのカード表示（OGP・Twitter Cards）で省略されずに表示される目安
+  ogTitle: LengthRange;
+  ogDescription: LengthRange;
+  twitterTitle: LengthRange;
+  twitterDescription: LengthRange;
+}
+
+// 全角で数える言語のSNSカードの目安
+const FULL_WIDTH_SOCIAL_RULES: Omit<SEOLengthRules, 'unit' | 'title' | 'description'> = {
+  ogTitle: { min: 15, max: 45 },
+  ogDescription: { min: 30, max: 100 },
+  twitterTitle: { min: 15, max: 35 },
+  twitterDescription: { min: 30, max: 100 },
+};
+
+export const SEO_LENGTH_RULES: Record<Locale, SEOLengthRules> = {
+  ja: { unit: 'full', title: { min: 28, max: 35 }, description: { min: 80, max: 120 }, ...FULL_WIDTH_SOCIAL_RULES },
+  en: {
+    unit: 'half',
+    title: { min: 50, max: 60 },
+    description: { min: 140, max: 160 },
+    ogTitle: { min: 30, max: 90 },
+    ogDescription: { min: 60, max: 200 },
+    twitterTitle: { min: 30, max: 70 },
+    twitterDescription: { min: 60, max: 200 },
+  },
+  'zh-Hans': { unit: 'full', title: { min: 25, max: 32 }, description: { min: 70, max: 110 }, ...FULL_WIDTH_SOCIAL_RULES },
+  'zh-Hant': { unit: 'full', title: { min: 25, max: 32 }, description: { min: 70, max: 110 }, ...FULL_WIDTH_SOCIAL_RULES },
+  ko: { unit: 'full', title: { min: 28, max: 38 }, description: { min: 80, max: 120 }, ...FULL_WIDTH_SOCIAL_RULES },
+};
+
+// エクスポートするHTML・Markdownに埋め込む定型文
+export interface ExportMessages {
+  articleInfo: string;
+  generatedAt: string;
+  generator: string;
+  author: string;
+  // よくある質問ブロックの見出し
+  faq: string;
+  // 目次・SEOメタデータの表紙（DOCX）の見出し
+  tableOfContents: string;
+  seoMetadata: string;
+  // PDFの付録ページの見出し
+  appendix: string;
+  structuredData: string;
+  optimization: string;
+  optimizationValue: string;
+  systemName: string;
+  aiGenerated: string;
+  // Markdownのフッター（link はシステム名のMarkdownリンク）
+  generatedBy: (link: string) => string;
+  // llms.txt でキーワードのない記事をまとめるセクション名
+  articles: string;
+  // 記事の出典（参考資料）の一覧の見出し
+  references: string;
+}
+
+export const EXPORT_MESSAGES: Record<Locale, ExportMessages> = {
+  ja: {
+    articleInfo: '記事情報',
+    generatedAt: '生成日',
+    generator: '生成システム',
+    author: '著者',
+    faq: 'よくある質問',
+    tableOfContents: '目次',
+    seoMetadata: 'SEOメタデータ',
+    appendix: '付録',
+    structuredData: '構造化データ（JSON-LD）',
+    optimization: '最適化',
+    optimizationValue: 'SEO + LLMO/GEO統合最適化',
+    systemName: 'LLMO コンテンツ生成システム',
+    aiGenerated: 'この記事はAIにより自動生成されました',
+    generatedBy: link => `この記事は ${link} により自動生成されました。`,
+    articles: '記事',
+    references: '参考文献',
+  },
+  en: {
+    articleInfo: 'Article information',
+    generatedAt: 'Generated',
+    generator: 'Generator',
+    author: 'Author',
+    faq: 'Frequently Asked Questions',
+    tableOfContents: 'Contents',
+    seoMetadata: 'SEO metadata',
+    appendix: 'Appendix',
+    structuredData: 'Structured data (JSON-LD)',
+    optimization: 'Optimization',
+    optimizationValue: 'Integrated SEO + LLMO/GEO optimization',
+    systemName: 'LLMO Content Generator',
+    aiGenerated: 'This article was generated automatically by AI',
+    generatedBy: link => `This article was generated automatically by ${link}.`,
+    articles: 'Articles',
+    references: 'References',
+  },
+  'zh-Hans': {
+    articleInfo: '文章信息',
+    generatedAt: '生成日期',
+    generator: '生成系统',
+    author: '作者',
+    faq: '常见问题',
+    tableOfContents: '目录',
+    seoMetadata: 'SEO 元数据',
+    appendix: '附录',
+    structuredData: '结构化数据（JSON-LD）',
+    optimization: '优化',
+    optimizationValue: 'SEO + LLMO/GEO 综合优化',
+    systemName: 'LLMO 内容生成系统',
+    aiGenerated: '本文由 AI 自动生成',
+    generatedBy: link => `本文由 ${link} 自动生成。`,
+    articles: '文章',
+    references: '参考资料',
+  },
+  'zh-Hant': {
+    articleInfo: '文章資訊',
+    generatedAt: '生成日期',
+    generator: '生成系統',
+    author: '作者',
+    faq: '常見問題',
+    tableOfContents: '目錄',
+    seoMetadata: 'SEO 中繼資料',
+    appendix: '附錄',
+    structuredData: '結構化資料（JSON-LD）',
+    optimization: '最佳化',
+    optimizationValue: 'SEO + LLMO/GEO 整合最佳化',
+    systemName: 'LLMO 內容生成系統',
+    aiGenerated: '本文由 AI 自動生成',
+    generatedBy: link => `本文由 ${link} 自動生成。`,
+    articles: '文章',
+    references: '參考資料',
+  },
+  ko: {
+    articleInfo: '글 정보',
+    generatedAt: '생성일',
+    generator: '생성 시스템',
+    author: '저자',
+    faq: '자주 묻는 질문',
+    tableOfContents: '목차',
+    seoMetadata: 'SEO 메타데이터',
+    appendix: '부록',
+    structuredData: '구조화 데이터(JSON-LD)',
+    optimization: '최적화',
+    optimizationValue: 'SEO + LLMO/GEO 통합 최적화',
+    systemName: 'LLMO 콘텐츠 생성 시스템',
+    aiGenerated: '이 글은 AI가 자동으로 생성했습니다',
+    generatedBy: link => `이 글은 ${link}에서 자동으로 생성되었습니다.`,
+    articles: '글',
+    references: '참고 자료',
+  },
+};
@@ -1,12 +0,0 @@
-import OpenAI from 'openai';
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your environment variables.');
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-export const DEFAULT_MODEL = 'gpt-4o-mini';
-export const ADVANCED_MODEL = 'gpt-4o';
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createOptimizationValidator, OptimizedArticle } from './optimize';
+import { GeneratedArticle } from './types';
+
+const article: GeneratedArticle = {
+  title: 'タスク管理の改善',
+  sections: [
+    { heading: '導入効果', content: '導入後に作業時間が30%短縮されました。' },
+    { heading: '運用のコツ', content: '週に1回、進捗を確認します。' },
+  ],
+};
+
+function optimized(sections: { heading: string; content: string }[], title = article.title): OptimizedArticle {
+  return { title, sections: sections.map(section => ({ ...section, changes: [] })) };
+}
+
+describe('createOptimizationValidator', () => {
+  it('元の記事にある数値だけを使った最適化は通す', () => {
+    const validate = createOptimizationValidator(article);
+    expect(validate(optimized([
+      { heading: '導入効果', content: 'タスク管理ツールの導入で、作業時間は30%短縮されました。' },
+      { heading: '運用のコツ', content: '進捗は週に1回確認します。' },
+    ]))).toEqual([]);
+  });
+
+  it('元の記事にない数値を含むセクションを指摘する', () => {
+    const validate = createOptimizationValidator(article);
+    const issues = validate(optimized([
+      { heading: '導入効果', content: '作業時間は30%短縮され、売上は45%増加しました。' },
+      { heading: '運用のコツ', content: '進捗は週に1回確認します。' },
+    ]));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.sections[0]');
+    expect(issues[0].message).toContain('45');
+  });
+
+  it('タイトルに追加された数値を指摘する', () => {
+    const validate = createOptimizationValidator(article);
+    const issues = validate(optimized(article.sections, 'タスク管理で生産性を2倍にする方法'));
+    expect(issues.map(issue => issue.path)).toEqual(['$.title']);
+  });
+
+  it('セクション数が変わった場合を指摘する', () => {
+    const validate = createOptimizationValidator(article);
+    const issues = validate(optimized([article.sections[0]]));
+    expect(issues.map(issue => issue.path)).toContain('$.sections');
+  });
+
+  it('参考資料の抜粋にある数値は追加してよい', () => {
+    const validate = createOptimizationValidator(article, ['利用企業の離職率は12%低下した。']);
+    expect(validate(optimized([
+      { heading: '導入効果', content: '作業時間は30%短縮され、離職率は12%低下しました[S1]。' },
+      { heading: '運用のコツ', content: '進捗は週に1回確認します。' },
+    ]))).toEqual([]);
+  });
+});
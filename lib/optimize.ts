@@ -0,0 +1,52 @@
+import { articleToPlainText, extractStatistics, sectionToPlainText } from './article';
+import type { ValidationIssue } from './structured-output';
+import { ArticleSection, GeneratedArticle } from './types';
+
+// 既存記事の最適化（optimize-article）の出力
+export interface OptimizedSection extends ArticleSection {
+  // セクションでの変更点の要約
+  changes: string[];
+}
+
+export interface OptimizedArticle {
+  title: string;
+  sections: OptimizedSection[];
+}
+
+/**
+ * 最適化結果の内容上の要件を検証する。
+ * - セクションの数と順序を変えない（セクションごとの変更点を対応付けるため）
+ * - 元の記事・参考資料の抜粋（referenceTexts）にない数値（統計・金額・期間など）を追加しない
+ */
+export function createOptimizationValidator(article: GeneratedArticle, referenceTexts: string[] = []) {
+  const sourceStatistics = new Set(extractStatistics(
+    [article.title, articleToPlainText(article), ...referenceTexts].join('\n')
+  ));
+
+  return (value: unknown): ValidationIssue[] => {
+    const optimized = value as OptimizedArticle;
+    const issues: ValidationIssue[] = [];
+    if (optimized.sections.length !== article.sections.length) {
+      issues.push({
+        path: '$.sections',
+        message: `セクション数を元の記事と同じ${article.sections.length}件にしてください（実際: ${optimized.sections.length}件）`,
+      });
+    }
+
+    const inventedIn = (text: string) => extractStatistics(text).filter(statistic => !sourceStatistics.has(statistic));
+    const titleInvented = inventedIn(optimized.title);
+    if (titleInvented.length > 0) {
+      issues.push({ path: '$.title', message: `元の記事・参考資料にない数値（${titleInvented.join('、')}）を含めないでください` });
+    }
+    optimized.sections.forEach((section, index) => {
+      const invented = inventedIn(sectionToPlainText(section));
+      if (invented.length > 0) {
+        issues.push({
+          path: `$.sections[${index}]`,
+          message: `元の記事・参考資料にない数値（${invented.join('、')}）が含まれています。新しい統計・数値を創作せず、元の記事・参考資料にある数値だけを使ってください`,
+        });
+      }
+    });
+    return issues;
+  };
+}
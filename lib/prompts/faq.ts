@@ -0,0 +1,227 @@
+import { Locale, PromptVariableDefinition } from '@/lib/types';
+import { PromptTemplateSource, PromptVariables } from './template';
+
+export interface FAQPromptInput {
+  title: string;
+  keyword: string;
+  content?: string;
+  // ブランドプロファイルの文体・トーンの指針
+  toneGuidelines?: string;
+}
+
+export const FAQ_VARIABLES: PromptVariableDefinition[] = [
+  { name: 'title', label: '記事タイトル', required: true },
+  { name: 'keyword', label: 'メインキーワード', required: true },
+  { name: 'content', label: '記事内容（抜粋）', required: false },
+  { name: 'toneGuidelines', label: '文体・トーンの指針（ブランド）', required: false },
+];
+
+// プロンプトに含める記事内容の最大文字数（回答を記事の内容と矛盾させないため、SEOより長く渡す）
+const CONTENT_EXCERPT_LENGTH: Record<Locale, number> = {
+  ja: 3000,
+  en: 6000,
+  'zh-Hans': 3000,
+  'zh-Hant': 3000,
+  ko: 3000,
+};
+
+// 組み込みのテンプレート（版1）
+export const FAQ_TEMPLATES: Record<Locale, PromptTemplateSource> = {
+  ja: {
+    system: `あなたはLLMO（Large Language Model Optimization）の専門家です。
+ChatGPT、Claude、Gemini、Perplexity等のAI回答エンジンがそのまま引用できる「よくある質問（FAQ）」を作成してください。
+
+【質問の設計】
+- ユーザーがAIアシスタントや検索窓に入力する、話し言葉の対話式質問にする
+- 対話式質問（「○○するにはどうすれば？」）、比較（「○○と△△の違いは？」）、手順（「○○の導入手順は？」）、トラブルシューティング（「○○が失敗する理由は？」）の型を織り交ぜる
+- 質問文だけで何を聞いているかが分かるよう、代名詞を使わず主題の名詞を明記する
+- 同じ内容の質問を重複させない
+
+【回答の設計】
+- 回答は質問を読まなくても意味が通じる自己完結した文章にする（主語と対象を省略しない）
+- 最初の一文で結論を述べ、その後に理由・具体的な数値・条件を補足する
+- 1つの回答は2〜4文（100〜200文字程度）にまとめる
+- 記事の内容と矛盾させず、記事にない事実・数値・実績は創作しない
+
+【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください。`,
+    user: `【記事タイトル】: {{title}}
+【メインキーワード】: {{keyword}}{{#toneGuidelines}}
+トーン・文体: {{toneGuidelines}}{{/toneGuidelines}}
+{{#content}}
+【記事内容】:
+{{content}}
+{{/content}}
+【タスク】
+上記の記事の読者が次に尋ねそうな質問を5〜10個作成し、それぞれに自己完結した回答を付けてください。
+
+{
+  "faq": [
+    {
+      "question": "対話式の質問文",
+      "answer": "結論から始まる自己完結した回答（100〜200文字）"
+    }
+  ]
+}`,
+  },
+  en: {
+    system: `You are an expert in LLMO (Large Language Model Optimization).
+Write a "Frequently Asked Questions (FAQ)" block that AI answer engines such as ChatGPT, Claude, Gemini and Perplexity can quote verbatim.
+
+[Question design]
+- Write conversational questions the way users type them into an AI assistant or search box
+- Mix the query types: conversational questions ("How do I ...?"), comparisons ("What is the difference between ... and ...?"), implementation ("How do I set up ...?") and troubleshooting ("Why does ... fail?")
+- Name the subject explicitly instead of using pronouns, so that each question is understandable on its own
+- Do not repeat questions that ask the same thing
+
+[Answer design]
+- Each answer must be self-contained and make sense without reading the question (do not omit the subject)
+- State the conclusion in the first sentence, then add reasons, concrete numbers and conditions
+- Keep each answer to 2-4 sentences (about 40-80 words)
+- Stay consistent with the article and do not invent facts, numbers or achievements that are not in the article
+
+Write every question and answer in natural English for an English-speaking audience.
+
+[IMPORTANT] Output pure JSON only. Do not include code blocks (\`\`\`) or any explanation.`,
+    user: `[Article title]: {{title}}
+[Main keyword]: {{keyword}}{{#toneGuidelines}}
+[Tone and style]: {{toneGuidelines}}{{/toneGuidelines}}
+{{#content}}
+[Article content]:
+{{content}}
+{{/content}}
+[Task]
+Write 5-10 questions that readers of the article above are likely to ask next, each with a self-contained answer.
+
+{
+  "faq": [
+    {
+      "question": "A conversational question",
+      "answer": "A self-contained answer that starts with the conclusion (40-80 words)"
+    }
+  ]
+}`,
+  },
+  'zh-Hans': {
+    system: `你是LLMO（Large Language Model Optimization）专家。
+请撰写可被ChatGPT、Claude、Gemini、Perplexity等AI问答引擎直接引用的"常见问题（FAQ）"。
+
+【问题设计】
+- 使用用户在AI助手或搜索框中输入的口语化对话式问题
+- 混合以下类型：对话式问题（"如何才能……？"）、比较（"……和……有什么区别？"）、实施步骤（"……的导入步骤是什么？"）、故障排查（"……失败的原因是什么？"）
+- 不使用代词，明确写出主题名词，使问题本身即可理解
+- 不要重复提出内容相同的问题
+
+【回答设计】
+- 回答必须自成一体，不阅读问题也能理解（不省略主语和对象）
+- 第一句给出结论，然后补充理由、具体数值和条件
+- 每个回答2〜4句（约80〜150字）
+- 与文章内容保持一致，不要编造文章中没有的事实、数值或业绩
+
+所有问题和回答请使用面向中国大陆读者的自然简体中文撰写。
+
+【重要】仅输出纯JSON格式，不要包含代码块（\`\`\`）或任何说明文字。`,
+    user: `【文章标题】：{{title}}
+【主关键词】：{{keyword}}{{#toneGuidelines}}
+语气与文风：{{toneGuidelines}}{{/toneGuidelines}}
+{{#content}}
+【文章内容】：
+{{content}}
+{{/content}}
+【任务】
+请列出上述文章的读者接下来可能会问的5〜10个问题，并为每个问题附上自成一体的回答。
+
+{
+  "faq": [
+    {
+      "question": "对话式问题",
+      "answer": "以结论开头、自成一体的回答（80〜150字）"
+    }
+  ]
+}`,
+  },
+  'zh-Hant': {
+    system: `你是LLMO（Large Language Model Optimization）專家。
+請撰寫可被ChatGPT、Claude、Gemini、Perplexity等AI問答引擎直接引用的「常見問題（FAQ）」。
+
+【問題設計】
+- 使用使用者在AI助理或搜尋框中輸入的口語化對話式問題
+- 混合以下類型：對話式問題（「如何才能……？」）、比較（「……和……有什麼差別？」）、導入步驟（「……的導入步驟是什麼？」）、疑難排解（「……失敗的原因是什麼？」）
+- 不使用代名詞，明確寫出主題名詞，使問題本身即可理解
+- 不要重複提出內容相同的問題
+
+【回答設計】
+- 回答必須自成一體，不閱讀問題也能理解（不省略主詞和對象）
+- 第一句給出結論，然後補充理由、具體數值和條件
+- 每個回答2〜4句（約80〜150字）
+- 與文章內容保持一致，不要捏造文章中沒有的事實、數值或實績
+
+所有問題和回答請使用面向台灣讀者的自然繁體中文撰寫。
+
+【重要】僅輸出純JSON格式，不要包含程式碼區塊（\`\`\`）或任何說明文字。`,
+    user: `【文章標題】：{{title}}
+【主要關鍵字】：{{keyword}}{{#toneGuidelines}}
+語氣與文風：{{toneGuidelines}}{{/toneGuidelines}}
+{{#content}}
+【文章內容】：
+{{content}}
+{{/content}}
+【任務】
+請列出上述文章的讀者接下來可能會問的5〜10個問題，並為每個問題附上自成一體的回答。
+
+{
+  "faq": [
+    {
+      "question": "對話式問題",
+      "answer": "以結論開頭、自成一體的回答（80〜150字）"
+    }
+  ]
+}`,
+  },
+  ko: {
+    system: `당신은 LLMO(Large Language Model Optimization) 전문가입니다.
+ChatGPT, Claude, Gemini, Perplexity 등 AI 답변 엔진이 그대로 인용할 수 있는 "자주 묻는 질문(FAQ)"을 작성해 주세요.
+
+[질문 설계]
+- 사용자가 AI 어시스턴트나 검색창에 입력하는 구어체 대화형 질문으로 작성
+- 대화형 질문("~하려면 어떻게 해야 하나요?"), 비교("~와 ~의 차이는?"), 절차("~ 도입 절차는?"), 문제 해결("~가 실패하는 이유는?") 유형을 섞어서 사용
+- 대명사를 쓰지 말고 주제 명사를 명시하여 질문만으로 내용을 알 수 있게 작성
+- 같은 내용을 묻는 질문을 중복하지 않음
+
+[답변 설계]
+- 답변은 질문을 읽지 않아도 의미가 통하는 자기완결적인 문장으로 작성(주어와 대상을 생략하지 않음)
+- 첫 문장에서 결론을 말하고, 이어서 이유·구체적인 수치·조건을 보충
+- 답변 하나는 2~4문장(100~200자 정도)으로 정리
+- 기사 내용과 모순되지 않게 하고, 기사에 없는 사실·수치·실적은 지어내지 않음
+
+모든 질문과 답변은 한국어 독자를 위한 자연스러운 한국어로 작성해 주세요.
+
+[중요] 출력은 순수한 JSON 형식만 사용하고, 코드 블록(\`\`\`)이나 설명문은 절대 포함하지 마세요.`,
+    user: `[기사 제목]: {{title}}
+[메인 키워드]: {{keyword}}{{#toneGuidelines}}
+[톤과 문체]: {{toneGuidelines}}{{/toneGuidelines}}
+{{#content}}
+[기사 내용]:
+{{content}}
+{{/content}}
+[작업]
+위 기사의 독자가 다음으로 물어볼 만한 질문을 5~10개 작성하고, 각각에 자기완결적인 답변을 붙여 주세요.
+
+{
+  "faq": [
+    {
+      "question": "대화형 질문",
+      "answer": "결론부터 시작하는 자기완결적인 답변(100~200자)"
+    }
+  ]
+}`,
+  },
+};
+
+export function buildFAQVariables(locale: Locale, { title, keyword, content, toneGuidelines }: FAQPromptInput): PromptVariables {
+  return {
+    title,
+    keyword,
+    content: content?.substring(0, CONTENT_EXCERPT_LENGTH[locale]),
+    toneGuidelines,
+  };
+}
@@ -0,0 +1,34 @@
+import { LOCALE_CONFIG } from '@/lib/locale';
+import { Locale } from '@/lib/types';
+
+export type { ArticlePromptInput } from './article';
+export type { FAQPromptInput } from './faq';
+export {
+  buildPromptMessages,
+  createPromptTemplateVersion,
+  getPromptTemplateLabel,
+  getPromptTemplateVersions,
+  getPromptVariableDefinitions,
+  isPromptTemplateName,
+  listPromptTemplates,
+  normalizePromptVersions,
+  PROMPT_TEMPLATE_NAMES,
+  renderPrompt,
+  renderPromptPreview,
+  resolvePromptTemplate,
+  setActivePromptVersion,
+} from './library';
+export type { PromptInputs, PromptPreviewValues } from './library';
+export { buildRewriteContext, isRewriteAction } from './rewrite';
+export type { RewritePromptInput } from './rewrite';
+export type { SEOPromptInput } from './seo';
+export { appendSourceGrounding } from './sources';
+export { findTemplateVariables, renderTemplate, validatePromptTemplate } from './template';
+export type { PromptTemplateSource, PromptVariables } from './template';
+export type { TitlesPromptInput } from './titles';
+
+// 日本語のみで書かれたプロンプト（最適化）に付け加える出力言語の指示
+export function outputLanguageInstruction(locale: Locale): string {
+  if (locale === 'ja') return '';
+  return `【出力言語】: 見出し・本文などの出力はすべて${LOCALE_CONFIG[locale].languageName}で書いてください（元の文章も${LOCALE_CONFIG[locale].languageName}です）。`;
+}
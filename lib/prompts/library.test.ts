@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promptTemplateStore } from '@/lib/storage';
+import { createPromptTemplateVersion, getPromptTemplateVersions, setActivePromptVersion } from './library';
+
+const TEMPLATE = { system: 'あなたはライターです。', user: '{{keyword}} のタイトルを考えてください。' };
+
+// 一時ディレクトリのJSONファイルストアに保存する
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llmo-prompts-'));
+  process.env.LLMO_DATA_DIR = dataDir;
+});
+
+afterEach(async () => {
+  delete process.env.LLMO_DATA_DIR;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('createPromptTemplateVersion', () => {
+  it('同時に作成しても版番号が重複せず、すべての版を1つのテンプレートに保存する', async () => {
+    const { versions: builtins } = await getPromptTemplateVersions('titles', 'ja');
+    const latest = builtins.at(-1)!.version;
+
+    const created = await Promise.all([1, 2, 3, 4].map(index =>
+      createPromptTemplateVersion('titles', 'ja', { ...TEMPLATE, note: `案${index}` })));
+
+    expect(created.map(item => item.version)).toEqual([latest + 1, latest + 2, latest + 3, latest + 4]);
+    const templates = await promptTemplateStore.list();
+    expect(templates).toHaveLength(1);
+    expect(templates[0].versions.map(item => item.note)).toEqual(['案1', '案2', '案3', '案4']);
+  });
+
+  it('組み込みの古い版への切り替えと同時に作成しても、テンプレートを重複して保存せずどちらの変更も残す', async () => {
+    const [, created] = await Promise.all([
+      setActivePromptVersion('titles', 'ja', 1),
+      createPromptTemplateVersion('titles', 'ja', TEMPLATE),
+    ]);
+
+    expect(await promptTemplateStore.list()).toHaveLength(1);
+    const { activeVersion, versions } = await getPromptTemplateVersions('titles', 'ja');
+    expect(activeVersion).toBe(1);
+    expect(versions.map(item => item.version)).toContain(created.version);
+  });
+});
@@ -0,0 +1,304 @@
+import type { ChatMessage } from '@/lib/llm';
+import { LOCALES } from '@/lib/locale';
+import { promptTemplateStore, serializeByKey } from '@/lib/storage';
+import {
+  Locale,
+  PromptTemplate,
+  PromptTemplateName,
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  PromptVariableDefinition,
+  PromptVersions,
+} from '@/lib/types';
+import { ARTICLE_TEMPLATES, ARTICLE_VARIABLES, ArticlePromptInput, buildArticleVariables } from './article';
+import { buildFAQVariables, FAQ_TEMPLATES, FAQ_VARIABLES, FAQPromptInput } from './faq';
+import { buildRewriteVariables, isRewriteAction, REWRITE_TEMPLATES, REWRITE_VARIABLES, RewritePromptInput } from './rewrite';
+import { buildSEOVariables, SEO_TEMPLATES, SEO_VARIABLES, SEOPromptInput } from './seo';
+import { appendSourceGrounding } from './sources';
+import { PromptTemplateSource, PromptVariables, renderPromptMessages } from './template';
+import { buildTitlesVariables, TITLES_TEMPLATES, TITLES_VARIABLES, TitlesPromptInput } from './titles';
+
+// テンプレート名ごとの入力値
+export interface PromptInputs {
+  titles: TitlesPromptInput;
+  article: ArticlePromptInput;
+  faq: FAQPromptInput;
+  seo: SEOPromptInput;
+  rewrite: RewritePromptInput;
+}
+
+interface PromptDefinition<N extends PromptTemplateName> {
+  label: string;
+  variables: PromptVariableDefinition[];
+  // 組み込みの版（古い順。先頭が版1）
+  builtins: Record<Locale, PromptTemplateSource>[];
+  buildVariables: (locale: Locale, input: PromptInputs[N]) => PromptVariables;
+  // プレビュー画面のサンプル値（変数名ごとの文字列）から入力値を組み立てる
+  previewInput: (values: PromptPreviewValues) => PromptInputs[N];
+}
+
+export type PromptPreviewValues = Record<string, string | undefined>;
+
+export const PROMPT_TEMPLATE_NAMES: PromptTemplateName[] = ['titles', 'article', 'faq', 'seo', 'rewrite'];
+
+const PROMPT_DEFINITIONS: { [N in PromptTemplateName]: PromptDefinition<N> } = {
+  titles: {
+    label: 'タイトル生成',
+    variables: TITLES_VARIABLES,
+    builtins: TITLES_TEMPLATES,
+    buildVariables: (_locale, input) => buildTitlesVariables(input),
+    previewInput: values => ({
+      keyword: values.keyword ?? '',
+      overview: values.overview,
+      toneGuidelines: values.toneGuidelines,
+    }),
+  },
+  article: {
+    label: '記事生成',
+    variables: ARTICLE_VARIABLES,
+    builtins: ARTICLE_TEMPLATES,
+    buildVariables: (_locale, input) => buildArticleVariables(input),
+    previewInput: values => ({
+      title: values.title ?? '',
+      description: values.description ?? '',
+      keyword: values.keyword ?? '',
+      overview: values.overview,
+      authorProfile: values.authorProfile,
+      toneGuidelines: values.toneGuidelines,
+      sources: values.sources,
+    }),
+  },
+  faq: {
+    label: 'FAQ生成',
+    variables: FAQ_VARIABLES,
+    builtins: [FAQ_TEMPLATES],
+    buildVariables: buildFAQVariables,
+    previewInput: values => ({
+      title: values.title ?? '',
+      keyword: values.keyword ?? '',
+      content: values.content,
+      toneGuidelines: values.toneGuidelines,
+    }),
+  },
+  seo: {
+    label: 'SEOメタデータ生成',
+    variables: SEO_VARIABLES,
+    builtins: SEO_TEMPLATES,
+    buildVariables: buildSEOVariables,
+    previewInput: values => ({
+      title: values.title ?? '',
+      keyword: values.keyword ?? '',
+      content: values.content,
+      description: values.description,
+      baseUrl: values.baseUrl,
+      author: values.author || undefined,
+    }),
+  },
+  rewrite: {
+    label: 'セクションの書き換え',
+    variables: REWRITE_VARIABLES,
+    builtins: [REWRITE_TEMPLATES],
+    buildVariables: buildRewriteVariables,
+    previewInput: values => ({
+      title: values.title ?? '',
+      keyword: values.keyword ?? '',
+      context: values.context ?? '',
+      // 操作の指定がなければ再生成の指示でプレビューする
+      action: isRewriteAction(values.action) ? values.action : 'regenerate',
+      instruction: values.instruction,
+      heading: values.heading ?? '',
+      subheading: values.subheading,
+      authorProfile: values.authorProfile,
+      toneGuidelines: values.toneGuidelines,
+      sources: values.sources,
+    }),
+  },
+};
+
+// 組み込みの最新の版番号（管理画面で版を作成していない場合に有効な版）
+function latestBuiltinVersion(name: PromptTemplateName): number {
+  return PROMPT_DEFINITIONS[name].builtins.length;
+}
+
+export function isPromptTemplateName(value: unknown): value is PromptTemplateName {
+  return typeof value === 'string' && (PROMPT_TEMPLATE_NAMES as string[]).includes(value);
+}
+
+export function getPromptTemplateLabel(name: PromptTemplateName): string {
+  return PROMPT_DEFINITIONS[name].label;
+}
+
+export function getPromptVariableDefinitions(name: PromptTemplateName): PromptVariableDefinition[] {
+  return PROMPT_DEFINITIONS[name].variables;
+}
+
+// リクエストで指定された版番号のうち、テンプレート名と版番号の形式が正しいものだけを残す
+export function normalizePromptVersions(value: unknown): PromptVersions | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const versions: PromptVersions = {};
+  for (const [name, version] of Object.entries(value)) {
+    if (isPromptTemplateName(name) && Number.isInteger(version) && version >= 1) {
+      versions[name] = version;
+    }
+  }
+  return Object.keys(versions).length > 0 ? versions : undefined;
+}
+
+function getBuiltinVersions(name: PromptTemplateName, locale: Locale): PromptTemplateVersion[] {
+  return PROMPT_DEFINITIONS[name].builtins.map((templates, index) => ({
+    version: index + 1,
+    ...templates[locale],
+    builtin: true,
+  }));
+}
+
+async function findStoredTemplate(name: PromptTemplateName, locale: Locale): Promise<PromptTemplate | undefined> {
+  const templates = await promptTemplateStore.list();
+  return templates.find(template => template.name === name && template.locale === locale);
+}
+
+// テンプレートの版の追加・有効な版の切り替えを直列化する（同時に保存しても版番号の重複や変更の上書きが起きないようにする）
+function serializeByTemplate<R>(name: PromptTemplateName, locale: Locale, operation: () => Promise<R>): Promise<R> {
+  return serializeByKey(`prompt-templates:${name}:${locale}`, operation);
+}
+
+// 組み込みの版を含む、テンプレートのすべての版（古い順）と有効な版
+export async function getPromptTemplateVersions(
+  name: PromptTemplateName,
+  locale: Locale
+): Promise<{ activeVersion: number; versions: PromptTemplateVersion[] }> {
+  const stored = await findStoredTemplate(name, locale);
+  const storedVersions = stored?.versions ?? [];
+  // 組み込みの版が追加される前に同じ番号で作成された版は、記録済みの記事を再現できるよう作成された版を優先する
+  const builtins = getBuiltinVersions(name, locale)
+    .filter(builtin => !storedVersions.some(item => item.version === builtin.version));
+  return {
+    activeVersion: stored?.activeVersion ?? latestBuiltinVersion(name),
+    versions: [...builtins, ...storedVersions].sort((a, b) => a.version - b.version),
+  };
+}
+
+export async function listPromptTemplates(): Promise<PromptTemplateSummary[]> {
+  const stored = await promptTemplateStore.list();
+  return PROMPT_TEMPLATE_NAMES.flatMap(name => LOCALES.map(locale => {
+    const template = stored.find(item => item.name === name && item.locale === locale);
+    return {
+      name,
+      locale,
+      label: PROMPT_DEFINITIONS[name].label,
+      activeVersion: template?.activeVersion ?? latestBuiltinVersion(name),
+      latestVersion: Math.max(template?.versions.at(-1)?.version ?? 0, latestBuiltinVersion(name)),
+      updatedAt: template?.updatedAt,
+    };
+  }));
+}
+
+/**
+ * テンプレートの新しい版を作成する。
+ * 版は作成後に変更しないため、記事に記録した版番号から生成時のプロンプトを再現できる。
+ */
+export function createPromptTemplateVersion(
+  name: PromptTemplateName,
+  locale: Locale,
+  { system, user, note }: PromptTemplateSource & { note?: string },
+  activate = false
+): Promise<PromptTemplateVersion> {
+  return serializeByTemplate(name, locale, async () => {
+    const stored = await findStoredTemplate(name, locale);
+    const version: PromptTemplateVersion = {
+      version: Math.max(stored?.versions.at(-1)?.version ?? 0, latestBuiltinVersion(name)) + 1,
+      system,
+      user,
+      ...(note?.trim() && { note: note.trim() }),
+      createdAt: new Date().toISOString(),
+    };
+
+    if (stored) {
+      await promptTemplateStore.update(stored.id, {
+        versions: [...stored.versions, version],
+        ...(activate && { activeVersion: version.version }),
+      });
+    } else {
+      await promptTemplateStore.create({
+        name,
+        locale,
+        activeVersion: activate ? version.version : latestBuiltinVersion(name),
+        versions: [version],
+      });
+    }
+    return version;
+  });
+}
+
+// 版の指定がない生成で使用する版を切り替える（存在しない版なら false）
+export function setActivePromptVersion(name: PromptTemplateName, locale: Locale, version: number): Promise<boolean> {
+  return serializeByTemplate(name, locale, async () => {
+    const { versions } = await getPromptTemplateVersions(name, locale);
+    if (!versions.some(item => item.version === version)) {
+      return false;
+    }
+    const stored = await findStoredTemplate(name, locale);
+    if (stored) {
+      await promptTemplateStore.update(stored.id, { activeVersion: version });
+    } else if (version !== latestBuiltinVersion(name)) {
+      // 組み込みの古い版を有効にする場合は、作成した版のないテンプレートとして保存する
+      await promptTemplateStore.create({ name, locale, activeVersion: version, versions: [] });
+    }
+    return true;
+  });
+}
+
+// 指定された版（省略時は有効な版）を返す。存在しない版なら null
+export async function resolvePromptTemplate(
+  name: PromptTemplateName,
+  locale: Locale,
+  version?: number
+): Promise<PromptTemplateVersion | null> {
+  const { activeVersion, versions } = await getPromptTemplateVersions(name, locale);
+  return versions.find(item => item.version === (version ?? activeVersion)) ?? null;
+}
+
+export function renderPrompt<N extends PromptTemplateName>(
+  name: N,
+  locale: Locale,
+  template: PromptTemplateSource,
+  input: PromptInputs[N]
+): ChatMessage[] {
+  const definition = PROMPT_DEFINITIONS[name] as PromptDefinition<N>;
+  return renderWithSources(template, locale, definition.buildVariables(locale, input));
+}
+
+// テンプレートが {{sources}} を参照していなくても、参考資料があれば出典の規則ごとプロンプトに含める
+function renderWithSources(template: PromptTemplateSource, locale: Locale, variables: PromptVariables): ChatMessage[] {
+  return appendSourceGrounding(renderPromptMessages(template, variables), locale, variables.sources, template);
+}
+
+// プレビュー用のサンプル値を埋め込んだメッセージ（未入力の変数は空として扱う）
+export function renderPromptPreview(
+  name: PromptTemplateName,
+  locale: Locale,
+  template: PromptTemplateSource,
+  values: PromptPreviewValues
+): ChatMessage[] {
+  const definition = PROMPT_DEFINITIONS[name] as PromptDefinition<typeof name>;
+  return renderWithSources(template, locale, definition.buildVariables(locale, definition.previewInput(values)));
+}
+
+/**
+ * テンプレートの版を解決し、入力値を埋め込んだメッセージを返す。
+ * 指定された版が存在しない場合は null を返す。
+ */
+export async function buildPromptMessages<N extends PromptTemplateName>(
+  name: N,
+  locale: Locale,
+  input: PromptInputs[N],
+  version?: number
+): Promise<{ messages: ChatMessage[]; version: number } | null> {
+  const template = await resolvePromptTemplate(name, locale, version);
+  if (!template) {
+    return null;
+  }
+  return { messages: renderPrompt(name, locale, template, input), version: template.version };
+}
@@ -0,0 +1,330 @@
+import { GeneratedArticle, Locale, PromptVariableDefinition, RewriteAction, RewriteTarget } from '@/lib/types';
+import { PromptTemplateSource, PromptVariables } from './template';
+
+export interface RewritePromptInput {
+  title: string;
+  keyword: string;
+  // 書き換え対象に印を付けた記事全体（buildRewriteContext で作成）
+  context: string;
+  action: RewriteAction;
+  instruction?: string;
+  // 対象のセクションの見出し
+  heading: string;
+  // サブセクションを書き換える場合のサブ見出し
+  subheading?: string;
+  // ブランドプロファイルの著者紹介・文体・トーンの指針
+  authorProfile?: string;
+  toneGuidelines?: string;
+  // プロジェクトの参考資料から検索した抜粋（出典ID付き。テンプレートで参照しない場合は末尾に付け加える）
+  sources?: string;
+}
+
+export const REWRITE_VARIABLES: PromptVariableDefinition[] = [
+  { name: 'title', label: '記事タイトル', required: true },
+  { name: 'keyword', label: 'ターゲットキーワード', required: true },
+  { name: 'context', label: '記事全体（書き換え対象に印を付けたもの）', required: true },
+  { name: 'heading', label: '対象セクションの見出し', required: true },
+  { name: 'subheading', label: '対象サブセクションの見出し（サブセクションの書き換え時のみ）', required: false },
+  { name: 'instruction', label: '編集指示', required: false },
+  { name: 'authorProfile', label: '著者の紹介（ブランド）', required: false },
+  { name: 'toneGuidelines', label: '文体・トーンの指針（ブランド）', required: false },
+  { name: 'sources', label: '参考資料（出典ID付きの抜粋）', required: false },
+  { name: 'task', label: '操作ごとの書き換えの指示', required: true, computed: true },
+];
+
+// 記事全体の中で書き換え対象を示す印
+const TARGET_MARKERS: Record<Locale, string> = {
+  ja: '【書き換え対象】',
+  en: '[REWRITE TARGET] ',
+  'zh-Hans': '【改写对象】',
+  'zh-Hant': '【改寫對象】',
+  ko: '[재작성 대상] ',
+};
+
+export const REWRITE_ACTIONS: RewriteAction[] = ['regenerate', 'expand', 'shorten', 'rewrite'];
+
+export function isRewriteAction(value: unknown): value is RewriteAction {
+  return typeof value === 'string' && (REWRITE_ACTIONS as string[]).includes(value);
+}
+
+const ACTION_INSTRUCTIONS: Record<Locale, Record<RewriteAction, string>> = {
+  ja: {
+    regenerate: '同じ見出しの役割を保ったまま、内容を新しく書き直してください。',
+    expand: '既存の主張を保ったまま、定義・手順・具体例を補強して1.5倍程度の分量に拡充してください。',
+    shorten: '重要な事実と結論を保ったまま、冗長な表現を削って6割程度の分量に簡潔化してください。',
+    rewrite: '以下の編集指示に従って書き直してください。',
+  },
+  en: {
+    regenerate: 'Rewrite the content from scratch while keeping the role of the same heading.',
+    expand: 'Keep the existing claims and expand the content to about 1.5 times its length by adding definitions, steps and concrete examples.',
+    shorten: 'Keep the key facts and conclusions and cut redundant wording to about 60% of the original length.',
+    rewrite: 'Rewrite the content following the editing instruction below.',
+  },
+  'zh-Hans': {
+    regenerate: '保持同一标题的作用，重新撰写内容。',
+    expand: '保持原有观点，补充定义、步骤和具体示例，将篇幅扩充到约1.5倍。',
+    shorten: '保留重要事实和结论，删除冗余表达，精简到原篇幅的约六成。',
+    rewrite: '请按照以下编辑指示改写。',
+  },
+  'zh-Hant': {
+    regenerate: '保持同一標題的作用，重新撰寫內容。',
+    expand: '保持原有觀點，補充定義、步驟和具體範例，將篇幅擴充到約1.5倍。',
+    shorten: '保留重要事實和結論，刪除冗餘表達，精簡到原篇幅的約六成。',
+    rewrite: '請依照以下編輯指示改寫。',
+  },
+  ko: {
+    regenerate: '같은 제목의 역할을 유지하면서 내용을 새로 작성하세요.',
+    expand: '기존 주장을 유지하면서 정의·절차·구체적인 예시를 보강해 1.5배 정도의 분량으로 확충하세요.',
+    shorten: '중요한 사실과 결론을 유지하면서 장황한 표현을 줄여 60% 정도의 분량으로 간결하게 정리하세요.',
+    rewrite: '아래 편집 지시에 따라 다시 작성하세요.',
+  },
+};
+
+// 組み込みのテンプレート（版1）
+export const REWRITE_TEMPLATES: Record<Locale, PromptTemplateSource> = {
+  ja: {
+    system: `あなたは生成式引擎優化（GEO/LLMO）の専門エディターです。
+既存記事の一部分だけを書き換え、記事全体の一貫性を保ちながら品質を高めてください。
+
+【編集の原則】
+1. **チャンキング対応設計**: 書き換えた部分は前後の文脈なしでも理解可能であること
+2. **語義明確性**: 代名詞（「それ」「この」）を排除し、具体的な名詞で表現
+3. **用語定義の自完結性**: 専門用語は書き換えた部分の中で定義する
+4. **一貫性**: 他のセクションと内容が重複・矛盾しないこと
+5. **事実の保持**: 元の文章にある事実・数値・主張は、指示がない限り変更しない`,
+    user: `【記事タイトル】: {{title}}
+【ターゲットキーワード】: {{keyword}}{{#authorProfile}}
+【著者】: {{authorProfile}}（経験・専門性はこの著者の立場で書き、経歴にない実績は創作しない）{{/authorProfile}}{{#toneGuidelines}}
+【トーン・文体】: {{toneGuidelines}}{{/toneGuidelines}}
+
+【記事全体（文脈）】
+{{context}}
+
+【タスク】
+「【書き換え対象】」と記された部分だけを書き換えてください。
+{{task}}
+{{#instruction}}【編集指示】: {{instruction}}{{/instruction}}
+
+【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください：
+
+{{#subheading}}{
+  "title": "サブ見出し（元の見出し「{{subheading}}」の役割を維持）",
+  "content": "詳細説明（数値・事例重視）"
+}{{/subheading}}{{^subheading}}{
+  "heading": "見出し（元の見出し「{{heading}}」の役割を維持）",
+  "content": "自完結的な本文（専門用語定義含む）",
+  "subheadings": [
+    {
+      "title": "具体的サブ見出し",
+      "content": "詳細説明（数値・事例重視）"
+    }
+  ]
+}
+
+【必須要件】キーワード「{{keyword}}」を自然に2-3回含めてください。{{/subheading}}`,
+  },
+  en: {
+    system: `You are an editor specializing in Generative Engine Optimization (GEO/LLMO).
+Rewrite only one part of an existing article and improve its quality while keeping the whole article consistent.
+
+[Editing principles]
+1. **Chunk-friendly design**: the rewritten part must be understandable without the surrounding context
+2. **Semantic clarity**: avoid pronouns ("it", "this") and use concrete nouns
+3. **Self-contained definitions**: define technical terms within the rewritten part
+4. **Consistency**: do not duplicate or contradict the other sections
+5. **Preserve facts**: keep the facts, numbers and claims of the original text unless instructed otherwise
+
+Write the rewritten part in natural English for an English-speaking audience.`,
+    user: `[Article title]: {{title}}
+[Target keyword]: {{keyword}}{{#authorProfile}}
+[Author]: {{authorProfile}} (write experience and expertise from this author's perspective; do not invent achievements that are not in the profile){{/authorProfile}}{{#toneGuidelines}}
+[Tone and style]: {{toneGuidelines}}{{/toneGuidelines}}
+
+[Full article (context)]
+{{context}}
+
+[Task]
+Rewrite only the part marked "[REWRITE TARGET]".
+{{task}}
+{{#instruction}}[Editing instruction]: {{instruction}}{{/instruction}}
+
+[IMPORTANT] Output pure JSON only. Do not include code blocks (\`\`\`) or any explanation:
+
+{{#subheading}}{
+  "title": "Subheading (keep the role of the original subheading \\"{{subheading}}\\")",
+  "content": "Detailed explanation (focus on numbers and examples)"
+}{{/subheading}}{{^subheading}}{
+  "heading": "Heading (keep the role of the original heading \\"{{heading}}\\")",
+  "content": "Self-contained body text (including definitions of technical terms)",
+  "subheadings": [
+    {
+      "title": "Specific subheading",
+      "content": "Detailed explanation (focus on numbers and examples)"
+    }
+  ]
+}
+
+[Requirement] Naturally include the keyword "{{keyword}}" 2-3 times.{{/subheading}}`,
+  },
+  'zh-Hans': {
+    system: `你是生成式引擎优化（GEO/LLMO）的专业编辑。
+请只改写现有文章的一部分，在保持全文一致性的同时提升质量。
+
+【编辑原则】
+1. **适配分块**：改写后的部分在没有上下文的情况下也能被理解
+2. **语义明确**：避免使用代词（"它""这个"），使用具体名词
+3. **术语自洽定义**：在改写的部分中定义专业术语
+4. **一致性**：不与其他章节内容重复或矛盾
+5. **保留事实**：除非有指示，不修改原文中的事实、数值和观点
+
+请使用面向中国大陆读者的自然简体中文撰写改写部分。`,
+    user: `【文章标题】：{{title}}
+【目标关键词】：{{keyword}}{{#authorProfile}}
+【作者】：{{authorProfile}}（以该作者的立场撰写经验与专业内容，不得编造简介中没有的业绩）{{/authorProfile}}{{#toneGuidelines}}
+【语气与文风】：{{toneGuidelines}}{{/toneGuidelines}}
+
+【文章全文（上下文）】
+{{context}}
+
+【任务】
+只改写标有"【改写对象】"的部分。
+{{task}}
+{{#instruction}}【编辑指示】：{{instruction}}{{/instruction}}
+
+【重要】仅输出纯JSON格式，不要包含代码块（\`\`\`）或任何说明文字：
+
+{{#subheading}}{
+  "title": "小标题（保持原小标题「{{subheading}}」的作用）",
+  "content": "详细说明（侧重数值和案例）"
+}{{/subheading}}{{^subheading}}{
+  "heading": "标题（保持原标题「{{heading}}」的作用）",
+  "content": "自成一体的正文（包含专业术语定义）",
+  "subheadings": [
+    {
+      "title": "具体的小标题",
+      "content": "详细说明（侧重数值和案例）"
+    }
+  ]
+}
+
+【必须满足】自然地包含关键词"{{keyword}}"2〜3次。{{/subheading}}`,
+  },
+  'zh-Hant': {
+    system: `你是生成式引擎最佳化（GEO/LLMO）的專業編輯。
+請只改寫現有文章的一部分，在保持全文一致性的同時提升品質。
+
+【編輯原則】
+1. **適配分塊**：改寫後的部分在沒有上下文的情況下也能被理解
+2. **語意明確**：避免使用代名詞（「它」「這個」），使用具體名詞
+3. **術語自洽定義**：在改寫的部分中定義專業術語
+4. **一致性**：不與其他章節內容重複或矛盾
+5. **保留事實**：除非有指示，不修改原文中的事實、數值和觀點
+
+請使用面向台灣讀者的自然繁體中文撰寫改寫部分。`,
+    user: `【文章標題】：{{title}}
+【目標關鍵字】：{{keyword}}{{#authorProfile}}
+【作者】：{{authorProfile}}（以該作者的立場撰寫經驗與專業內容，不得捏造簡介中沒有的實績）{{/authorProfile}}{{#toneGuidelines}}
+【語氣與文風】：{{toneGuidelines}}{{/toneGuidelines}}
+
+【文章全文（上下文）】
+{{context}}
+
+【任務】
+只改寫標有「【改寫對象】」的部分。
+{{task}}
+{{#instruction}}【編輯指示】：{{instruction}}{{/instruction}}
+
+【重要】僅輸出純JSON格式，不要包含程式碼區塊（\`\`\`）或任何說明文字：
+
+{{#subheading}}{
+  "title": "小標題（保持原小標題「{{subheading}}」的作用）",
+  "content": "詳細說明（著重數值和案例）"
+}{{/subheading}}{{^subheading}}{
+  "heading": "標題（保持原標題「{{heading}}」的作用）",
+  "content": "自成一體的正文（包含專業術語定義）",
+  "subheadings": [
+    {
+      "title": "具體的小標題",
+      "content": "詳細說明（著重數值和案例）"
+    }
+  ]
+}
+
+【必須滿足】自然地包含關鍵字「{{keyword}}」2〜3次。{{/subheading}}`,
+  },
+  ko: {
+    system: `당신은 생성형 엔진 최적화(GEO/LLMO) 전문 에디터입니다.
+기존 글의 일부분만 다시 작성하여, 글 전체의 일관성을 유지하면서 품질을 높이세요.
+
+[편집 원칙]
+1. **청크 대응 설계**: 다시 작성한 부분은 앞뒤 문맥 없이도 이해할 수 있어야 함
+2. **의미 명확성**: 대명사("그것", "이")를 피하고 구체적인 명사로 표현
+3. **용어 정의의 자기완결성**: 전문 용어는 다시 작성한 부분 안에서 정의
+4. **일관성**: 다른 섹션과 내용이 중복되거나 모순되지 않을 것
+5. **사실 유지**: 지시가 없는 한 원문의 사실·수치·주장은 바꾸지 않음
+
+다시 작성하는 부분은 자연스러운 한국어로 작성하세요.`,
+    user: `[글 제목]: {{title}}
+[타깃 키워드]: {{keyword}}{{#authorProfile}}
+[저자]: {{authorProfile}}(경험·전문성은 이 저자의 입장에서 쓰고, 프로필에 없는 실적은 지어내지 마세요){{/authorProfile}}{{#toneGuidelines}}
+[톤·문체]: {{toneGuidelines}}{{/toneGuidelines}}
+
+[글 전체(문맥)]
+{{context}}
+
+[작업]
+"[재작성 대상]"으로 표시된 부분만 다시 작성하세요.
+{{task}}
+{{#instruction}}[편집 지시]: {{instruction}}{{/instruction}}
+
+[중요] 출력은 순수한 JSON 형식만 사용하고, 코드 블록(\`\`\`)이나 설명문은 절대 포함하지 마세요:
+
+{{#subheading}}{
+  "title": "하위 제목(원래 하위 제목 \\"{{subheading}}\\"의 역할 유지)",
+  "content": "상세 설명(수치·사례 중심)"
+}{{/subheading}}{{^subheading}}{
+  "heading": "제목(원래 제목 \\"{{heading}}\\"의 역할 유지)",
+  "content": "자기완결적인 본문(전문 용어 정의 포함)",
+  "subheadings": [
+    {
+      "title": "구체적인 하위 제목",
+      "content": "상세 설명(수치·사례 중심)"
+    }
+  ]
+}
+
+[필수 요건] 키워드 "{{keyword}}"를 자연스럽게 2~3회 포함하세요.{{/subheading}}`,
+  },
+};
+
+/**
+ * 書き換え対象以外の部分を文脈として渡すための記事全体のテキスト。
+ * 書き換え対象の見出しには言語ごとの印を付ける。
+ */
+export function buildRewriteContext(article: GeneratedArticle, target: RewriteTarget, locale: Locale): string {
+  const marker = TARGET_MARKERS[locale];
+  return article.sections.map((section, index) => {
+    const sectionMarker = index === target.sectionIndex && target.subheadingIndex === undefined ? marker : '';
+    const subheadings = section.subheadings?.map((sub, subIndex) => {
+      const subMarker = index === target.sectionIndex && subIndex === target.subheadingIndex ? marker : '';
+      return `### ${subMarker}${sub.title}\n${sub.content}`;
+    }).join('\n\n') || '';
+    return `## ${sectionMarker}${section.heading}\n${section.content}${subheadings ? `\n\n${subheadings}` : ''}`;
+  }).join('\n\n');
+}
+
+export function buildRewriteVariables(locale: Locale, input: RewritePromptInput): PromptVariables {
+  const { title, keyword, context, action, instruction, heading, subheading, authorProfile, toneGuidelines, sources } = input;
+  return {
+    title,
+    keyword,
+    context,
+    heading,
+    subheading,
+    instruction: instruction?.trim(),
+    authorProfile,
+    toneGuidelines,
+    sources,
+    task: ACTION_INSTRUCTIONS[locale][action],
+  };
+}
@@ -0,0 +1,528 @@
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { SEO_LENGTH_RULES, SEOLengthRules } from '@/lib/locale';
+import { Locale, PromptVariableDefinition } from '@/lib/types';
+import { deriveTemplates, PromptTemplateSource, PromptVariables } from './template';
+
+export interface SEOPromptInput {
+  title: string;
+  content?: string;
+  keyword: string;
+  description?: string;
+  baseUrl?: string;
+  // 構造化データの著者名（ブランドプロファイルの著者、または組織名）
+  author?: string;
+}
+
+// 出力例のJSONに埋め込む各フィールドの説明
+interface SEOOutputPlaceholders {
+  title: (rules: SEOLengthRules) => string;
+  description: (rules: SEOLengthRules) => string;
+  keywords: string[];
+  ogTitle: string;
+  ogDescription: string;
+  twitterTitle: string;
+  twitterDescription: string;
+  name: string;
+  structuredDescription: string;
+  structuredKeywords: string;
+}
+
+export const SEO_VARIABLES: PromptVariableDefinition[] = [
+  { name: 'title', label: '記事タイトル', required: true },
+  { name: 'keyword', label: 'メインキーワード', required: true },
+  { name: 'description', label: '記事概要', required: false },
+  { name: 'content', label: '記事内容（抜粋）', required: false },
+  { name: 'baseUrl', label: 'ベースURL', required: false },
+  { name: 'author', label: '著者名（ブランド）', required: false },
+  { name: 'titleMin', label: 'タイトルの推奨最小文字数', required: false, computed: true },
+  { name: 'titleMax', label: 'タイトルの推奨最大文字数', required: false, computed: true },
+  { name: 'descriptionMin', label: 'メタディスクリプションの推奨最小文字数', required: false, computed: true },
+  { name: 'descriptionMax', label: 'メタディスクリプションの推奨最大文字数', required: false, computed: true },
+  { name: 'outputExample', label: '出力例のJSON（著者は既定の組織名）', required: false, computed: true },
+  { name: 'authorOutputExample', label: '出力例のJSON（著者はブランドの著者名）', required: false, computed: true },
+];
+
+// プロンプトに含める記事内容の最大文字数
+const CONTENT_EXCERPT_LENGTH: Record<Locale, number> = {
+  ja: 1000,
+  en: 2000,
+  'zh-Hans': 1000,
+  'zh-Hant': 1000,
+  ko: 1000,
+};
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function buildOutputExample(placeholders: SEOOutputPlaceholders, rules: SEOLengthRules, author: string, baseUrl?: string): string {
+  return `{
+  "title": "${placeholders.title(rules)}",
+  "description": "${placeholders.description(rules)}",
+  "keywords": [${placeholders.keywords.map(keyword => `"${keyword}"`).join(', ')}],
+  "ogTitle": "${placeholders.ogTitle}",
+  "ogDescription": "${placeholders.ogDescription}",
+  "twitterTitle": "${placeholders.twitterTitle}",
+  "twitterDescription": "${placeholders.twitterDescription}",
+  "metaRobots": "index, follow",
+  "canonicalUrl": "${baseUrl ? `${baseUrl}/article-slug` : 'https://example.com/article-slug'}",
+  "structuredData": {
+    "type": "Article",
+    "name": "${placeholders.name}",
+    "description": "${placeholders.structuredDescription}",
+    "author": "${author}",
+    "datePublished": "${today()}",
+    "dateModified": "${today()}",
+    "keywords": ["${placeholders.structuredKeywords}"]
+  }
+}`;
+}
+
+// 組み込みのテンプレート（版1）
+const SEO_TEMPLATES_V1: Record<Locale, PromptTemplateSource> = {
+  ja: {
+    system: `あなたはSEO（検索エンジン最適化）とLLMO（Large Language Model Optimization）の専門家です。
+記事コンテンツに基づいて、検索エンジンと生成AIの両方に最適化された包括的なSEOメタデータを生成してください。
+
+【SEO最適化の核心原則】
+1. **従来のSEO**: Google、Bing等の検索エンジン向け最適化
+2. **LLMO/GEO**: ChatGPT、Claude、Gemini等の生成AI向け最適化
+3. **ハイブリッド戦略**: 両者を統合した次世代SEO戦略
+
+【E-E-A-T信号の強化】
+- **Experience（経験）**: 実践的な知見を示すメタデータ
+- **Expertise（専門性）**: 技術的専門性を表現する用語選択
+- **Authoritativeness（権威性）**: 信頼できる情報源としての位置づけ
+- **Trustworthiness（可信度）**: 透明性と検証可能性を示す要素
+
+【生成AI向け最適化】
+- **語義明確性**: 代名詞を避け、具体的な名詞を使用
+- **構造化情報**: JSONスキーマに対応した構造化データ
+- **独立性**: メタデータ単体で理解可能な情報設計
+- **権威性シグナル**: AI引用率向上のための信頼性指標
+
+【現代SEOベストプラクティス】
+- タイトルタグ: {{titleMin}}-{{titleMax}}文字以内、キーワード前方配置
+- メタディスクリプション: {{descriptionMin}}-{{descriptionMax}}文字、魅力的なCTAを含む
+- OGメタデータ: SNSシェア時の最適表示
+- 構造化データ: schema.org準拠のArticleスキーマ`,
+    user: `【コンテンツ情報】
+タイトル: {{title}}
+メインキーワード: {{keyword}}
+{{#description}}記事概要: {{description}}{{/description}}
+{{#content}}記事内容（抜粋）: {{content}}...{{/content}}
+{{#baseUrl}}ベースURL: {{baseUrl}}{{/baseUrl}}
+
+【タスク】
+上記の記事情報に基づいて、以下の要件を満たすSEOメタデータを生成してください。
+
+【必須要件】
+1. **従来SEO最適化**:
+   - Google検索での上位表示を狙う最適な長さと構造
+   - 自然なキーワード配置（過度なstuffingを避ける）
+   - ユーザーのクリック意欲を高める魅力的な文言
+
+2. **LLMO/GEO最適化**:
+   - 生成AIが引用しやすい明確で権威的な表現
+   - 構造化された情報提示
+   - 専門性と信頼性を示す用語選択
+
+3. **包括的メタデータ**:
+   - HTMLメタタグ（title, description, keywords）
+   - OGP（Open Graph Protocol）対応
+   - Twitter Cards対応
+   - schema.org構造化データ
+
+【技術的要件】
+- 文字数制限の厳守（title: {{titleMin}}-{{titleMax}}文字, description: {{descriptionMin}}-{{descriptionMax}}文字）
+- 日本語SEOに最適化された自然な表現
+- モバイルファーストインデックス対応
+- Core Web Vitals向上に貢献する軽量構造
+
+【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください：
+
+{{outputExample}}
+
+【品質チェックポイント】
+- キーワード「{{keyword}}」が自然に配置されているか
+- 各フィールドが適切な文字数制限内か
+- ユーザーのクリック意欲を高める魅力的な文言か
+- 生成AIが引用したくなる権威性を示しているか`,
+  },
+  en: {
+    system: `You are an expert in SEO (search engine optimization) and LLMO (Large Language Model Optimization).
+Based on the article content, generate comprehensive SEO metadata optimized for both search engines and generative AI.
+
+[Core principles]
+1. **Traditional SEO**: optimization for search engines such as Google and Bing
+2. **LLMO/GEO**: optimization for generative AI such as ChatGPT, Claude and Gemini
+3. **Hybrid strategy**: a next-generation SEO strategy that combines both
+
+[Strengthening E-E-A-T signals]
+- **Experience**: metadata that signals practical insight
+- **Expertise**: word choice that conveys technical expertise
+- **Authoritativeness**: positioning as a reliable source
+- **Trustworthiness**: elements that show transparency and verifiability
+
+[Optimization for generative AI]
+- **Semantic clarity**: avoid pronouns and use concrete nouns
+- **Structured information**: structured data that matches the JSON schema
+- **Independence**: metadata understandable on its own
+- **Authority signals**: trust indicators that raise the AI citation rate
+
+[Modern SEO best practices]
+- Title tag: {{titleMin}}-{{titleMax}} characters, keyword near the beginning
+- Meta description: {{descriptionMin}}-{{descriptionMax}} characters, including a compelling call to action
+- Open Graph metadata: optimal display when shared on social media
+- Structured data: schema.org Article schema
+
+Write every field in natural English.`,
+    user: `[Content]
+Title: {{title}}
+Main keyword: {{keyword}}
+{{#description}}Summary: {{description}}{{/description}}
+{{#content}}Article content (excerpt): {{content}}...{{/content}}
+{{#baseUrl}}Base URL: {{baseUrl}}{{/baseUrl}}
+
+[Task]
+Based on the article above, generate SEO metadata that meets the following requirements.
+
+[Requirements]
+1. **Traditional SEO**:
+   - Length and structure aimed at ranking well in Google Search
+   - Natural keyword placement (no keyword stuffing)
+   - Compelling wording that makes users want to click
+
+2. **LLMO/GEO**:
+   - Clear, authoritative wording that generative AI can cite
+   - Structured presentation of information
+   - Word choice that shows expertise and trustworthiness
+
+3. **Comprehensive metadata**:
+   - HTML meta tags (title, description, keywords)
+   - Open Graph Protocol
+   - Twitter Cards
+   - schema.org structured data
+
+[Technical requirements]
+- Strictly respect the length limits (title: {{titleMin}}-{{titleMax}} characters, description: {{descriptionMin}}-{{descriptionMax}} characters)
+- Natural phrasing optimized for English-language search
+- Mobile-first indexing
+- Lightweight structure that supports Core Web Vitals
+
+[IMPORTANT] Output pure JSON only. Do not include code blocks (\`\`\`) or any explanation:
+
+{{outputExample}}
+
+[Quality checklist]
+- Is the keyword "{{keyword}}" placed naturally?
+- Is every field within its length limit?
+- Is the wording compelling enough to earn the click?
+- Does it show the authority that makes generative AI want to cite it?`,
+  },
+  'zh-Hans': {
+    system: `你是 SEO（搜索引擎优化）与 LLMO（Large Language Model Optimization）专家。
+请根据文章内容，生成同时面向搜索引擎与生成式 AI 优化的完整 SEO 元数据。
+
+【SEO 优化的核心原则】
+1. **传统 SEO**：面向百度、Google、Bing 等搜索引擎的优化
+2. **LLMO/GEO**：面向 ChatGPT、Claude、Gemini 等生成式 AI 的优化
+3. **混合策略**：融合两者的新一代 SEO 策略
+
+【强化 E-E-A-T 信号】
+- **Experience（经验）**：体现实践洞察的元数据
+- **Expertise（专业性）**：体现技术专业性的用词
+- **Authoritativeness（权威性）**：定位为可信赖的信息来源
+- **Trustworthiness（可信度）**：体现透明度与可验证性的要素
+
+【面向生成式 AI 的优化】
+- **语义明确**：避免代词，使用具体名词
+- **结构化信息**：符合 JSON 模式的结构化数据
+- **独立性**：元数据本身即可理解
+- **权威信号**：提升 AI 引用率的可信度指标
+
+【现代 SEO 最佳实践】
+- 标题标签：{{titleMin}}-{{titleMax}} 字以内，关键词靠前
+- 元描述：{{descriptionMin}}-{{descriptionMax}} 字，包含有吸引力的行动号召
+- OG 元数据：社交分享时的最佳展示
+- 结构化数据：符合 schema.org 的 Article 模式
+
+所有字段均使用简体中文撰写。`,
+    user: `【内容信息】
+标题：{{title}}
+主关键词：{{keyword}}
+{{#description}}文章概要：{{description}}{{/description}}
+{{#content}}文章内容（节选）：{{content}}...{{/content}}
+{{#baseUrl}}基础 URL：{{baseUrl}}{{/baseUrl}}
+
+【任务】
+请根据以上文章信息，生成满足以下要求的 SEO 元数据。
+
+【必需要求】
+1. **传统 SEO 优化**：
+   - 以搜索排名靠前为目标的最佳长度与结构
+   - 自然的关键词布局（避免关键词堆砌）
+   - 提升用户点击意愿的文案
+
+2. **LLMO/GEO 优化**：
+   - 便于生成式 AI 引用的清晰、权威表达
+   - 结构化的信息呈现
+   - 体现专业性与可信度的用词
+
+3. **完整的元数据**：
+   - HTML 元标签（title、description、keywords）
+   - OGP（Open Graph Protocol）
+   - Twitter Cards
+   - schema.org 结构化数据
+
+【技术要求】
+- 严格遵守字数限制（title：{{titleMin}}-{{titleMax}} 字，description：{{descriptionMin}}-{{descriptionMax}} 字）
+- 针对中文搜索优化的自然表达
+- 适配移动优先索引
+- 有助于提升 Core Web Vitals 的轻量结构
+
+【重要】仅输出纯 JSON，不要包含代码块（\`\`\`）或任何说明文字：
+
+{{outputExample}}
+
+【质量检查要点】
+- 关键词“{{keyword}}”是否布局自然
+- 各字段是否在字数限制内
+- 文案是否能提升用户点击意愿
+- 是否体现让生成式 AI 愿意引用的权威性`,
+  },
+  'zh-Hant': {
+    system: `你是 SEO（搜尋引擎最佳化）與 LLMO（Large Language Model Optimization）專家。
+請根據文章內容，產生同時針對搜尋引擎與生成式 AI 最佳化的完整 SEO 中繼資料。
+
+【SEO 最佳化的核心原則】
+1. **傳統 SEO**：針對 Google、Bing 等搜尋引擎的最佳化
+2. **LLMO/GEO**：針對 ChatGPT、Claude、Gemini 等生成式 AI 的最佳化
+3. **混合策略**：整合兩者的新世代 SEO 策略
+
+【強化 E-E-A-T 訊號】
+- **Experience（經驗）**：展現實務洞察的中繼資料
+- **Expertise（專業性）**：展現技術專業性的用詞
+- **Authoritativeness（權威性）**：定位為可信賴的資訊來源
+- **Trustworthiness（可信度）**：展現透明度與可驗證性的要素
+
+【針對生成式 AI 的最佳化】
+- **語意明確**：避免代名詞，使用具體名詞
+- **結構化資訊**：符合 JSON 結構描述的結構化資料
+- **獨立性**：中繼資料本身即可理解
+- **權威訊號**：提升 AI 引用率的可信度指標
+
+【現代 SEO 最佳實踐】
+- 標題標籤：{{titleMin}}-{{titleMax}} 字以內，關鍵字靠前
+- 中繼描述：{{descriptionMin}}-{{descriptionMax}} 字，包含吸引人的行動呼籲
+- OG 中繼資料：社群分享時的最佳顯示
+- 結構化資料：符合 schema.org 的 Article 結構描述
+
+所有欄位皆以台灣慣用的繁體中文撰寫。`,
+    user: `【內容資訊】
+標題：{{title}}
+主要關鍵字：{{keyword}}
+{{#description}}文章概要：{{description}}{{/description}}
+{{#content}}文章內容（節錄）：{{content}}...{{/content}}
+{{#baseUrl}}基礎 URL：{{baseUrl}}{{/baseUrl}}
+
+【任務】
+請根據以上文章資訊，產生符合以下要求的 SEO 中繼資料。
+
+【必要條件】
+1. **傳統 SEO 最佳化**：
+   - 以 Google 搜尋排名靠前為目標的最佳長度與結構
+   - 自然的關鍵字配置（避免關鍵字堆砌）
+   - 提升使用者點擊意願的文案
+
+2. **LLMO/GEO 最佳化**：
+   - 便於生成式 AI 引用的清楚、權威表達
+   - 結構化的資訊呈現
+   - 展現專業性與可信度的用詞
+
+3. **完整的中繼資料**：
+   - HTML 中繼標籤（title、description、keywords）
+   - OGP（Open Graph Protocol）
+   - Twitter Cards
+   - schema.org 結構化資料
+
+【技術要求】
+- 嚴格遵守字數限制（title：{{titleMin}}-{{titleMax}} 字，description：{{descriptionMin}}-{{descriptionMax}} 字）
+- 針對繁體中文搜尋最佳化的自然表達
+- 支援行動裝置優先索引
+- 有助於提升 Core Web Vitals 的輕量結構
+
+【重要】僅輸出純 JSON，不要包含程式碼區塊（\`\`\`）或任何說明文字：
+
+{{outputExample}}
+
+【品質檢查重點】
+- 關鍵字「{{keyword}}」是否配置自然
+- 各欄位是否在字數限制內
+- 文案是否能提升使用者點擊意願
+- 是否展現讓生成式 AI 願意引用的權威性`,
+  },
+  ko: {
+    system: `당신은 SEO(검색 엔진 최적화)와 LLMO(Large Language Model Optimization) 전문가입니다.
+글 내용을 바탕으로 검색 엔진과 생성형 AI 모두에 최적화된 포괄적인 SEO 메타데이터를 생성하세요.
+
+[SEO 최적화의 핵심 원칙]
+1. **기존 SEO**: Google, 네이버 등 검색 엔진을 위한 최적화
+2. **LLMO/GEO**: ChatGPT, Claude, Gemini 등 생성형 AI를 위한 최적화
+3. **하이브리드 전략**: 두 가지를 통합한 차세대 SEO 전략
+
+[E-E-A-T 신호 강화]
+- **Experience(경험)**: 실무적 통찰을 보여 주는 메타데이터
+- **Expertise(전문성)**: 기술적 전문성을 표현하는 용어 선택
+- **Authoritativeness(권위성)**: 신뢰할 수 있는 정보원으로서의 위치
+- **Trustworthiness(신뢰성)**: 투명성과 검증 가능성을 보여 주는 요소
+
+[생성형 AI를 위한 최적화]
+- **의미 명확성**: 대명사를 피하고 구체적인 명사를 사용
+- **구조화된 정보**: JSON 스키마에 대응하는 구조화 데이터
+- **독립성**: 메타데이터만으로 이해할 수 있는 정보 설계
+- **권위 신호**: AI 인용률을 높이는 신뢰 지표
+
+[최신 SEO 베스트 프랙티스]
+- 타이틀 태그: {{titleMin}}~{{titleMax}}자 이내, 키워드를 앞쪽에 배치
+- 메타 디스크립션: {{descriptionMin}}~{{descriptionMax}}자, 매력적인 CTA 포함
+- OG 메타데이터: SNS 공유 시 최적의 표시
+- 구조화 데이터: schema.org를 준수한 Article 스키마
+
+모든 필드를 자연스러운 한국어로 작성하세요.`,
+    user: `[콘텐츠 정보]
+제목: {{title}}
+메인 키워드: {{keyword}}
+{{#description}}글 개요: {{description}}{{/description}}
+{{#content}}글 내용(발췌): {{content}}...{{/content}}
+{{#baseUrl}}기본 URL: {{baseUrl}}{{/baseUrl}}
+
+[작업]
+위 글 정보를 바탕으로 다음 요건을 충족하는 SEO 메타데이터를 생성하세요.
+
+[필수 요건]
+1. **기존 SEO 최적화**:
+   - 검색 상위 노출을 노리는 최적의 길이와 구조
+   - 자연스러운 키워드 배치(과도한 키워드 반복 금지)
+   - 사용자의 클릭 의욕을 높이는 매력적인 문구
+
+2. **LLMO/GEO 최적화**:
+   - 생성형 AI가 인용하기 쉬운 명확하고 권위 있는 표현
+   - 구조화된 정보 제시
+   - 전문성과 신뢰성을 보여 주는 용어 선택
+
+3. **포괄적인 메타데이터**:
+   - HTML 메타 태그(title, description, keywords)
+   - OGP(Open Graph Protocol) 대응
+   - Twitter Cards 대응
+   - schema.org 구조화 데이터
+
+[기술적 요건]
+- 글자 수 제한 엄수(title: {{titleMin}}~{{titleMax}}자, description: {{descriptionMin}}~{{descriptionMax}}자)
+- 한국어 검색에 최적화된 자연스러운 표현
+- 모바일 우선 색인 대응
+- Core Web Vitals 향상에 기여하는 가벼운 구조
+
+[중요] 출력은 순수한 JSON 형식만 사용하고, 코드 블록(\`\`\`)이나 설명문은 절대 포함하지 마세요:
+
+{{outputExample}}
+
+[품질 체크포인트]
+- 키워드 "{{keyword}}"가 자연스럽게 배치되었는가
+- 각 필드가 적절한 글자 수 제한 안에 있는가
+- 사용자의 클릭 의욕을 높이는 매력적인 문구인가
+- 생성형 AI가 인용하고 싶어질 권위를 보여 주는가`,
+  },
+};
+
+// 組み込みの版（古い順）。版1の出力例は著者が既定の組織名で固定のため、
+// 版2でブランドの著者名を入れた出力例に差し替える
+export const SEO_TEMPLATES: Record<Locale, PromptTemplateSource>[] = [
+  SEO_TEMPLATES_V1,
+  deriveTemplates(SEO_TEMPLATES_V1, template => ({
+    ...template,
+    user: template.user.replace('{{outputExample}}', '{{authorOutputExample}}'),
+  })),
+];
+
+const SEO_OUTPUT_PLACEHOLDERS: Record<Locale, SEOOutputPlaceholders> = {
+  ja: {
+    title: rules => `SEO最適化されたページタイトル（${rules.title.min}-${rules.title.max}文字）`,
+    description: rules => `魅力的なメタディスクリプション（${rules.description.min}-${rules.description.max}文字、CTAを含む）`,
+    keywords: ['メインキーワード', '関連キーワード1', '関連キーワード2', 'ロングテールキーワード'],
+    ogTitle: 'SNS共有用タイトル（OGP最適化）',
+    ogDescription: 'SNS共有用説明文（OGP最適化）',
+    twitterTitle: 'Twitter Cards用タイトル',
+    twitterDescription: 'Twitter Cards用説明文',
+    name: '記事タイトル',
+    structuredDescription: '記事の詳細説明',
+    structuredKeywords: 'キーワード配列',
+  },
+  en: {
+    title: rules => `SEO-optimized page title (${rules.title.min}-${rules.title.max} characters)`,
+    description: rules => `Compelling meta description (${rules.description.min}-${rules.description.max} characters, with a call to action)`,
+    keywords: ['main keyword', 'related keyword 1', 'related keyword 2', 'long-tail keyword'],
+    ogTitle: 'Title for social sharing (Open Graph)',
+    ogDescription: 'Description for social sharing (Open Graph)',
+    twitterTitle: 'Title for Twitter Cards',
+    twitterDescription: 'Description for Twitter Cards',
+    name: 'Article title',
+    structuredDescription: 'Detailed description of the article',
+    structuredKeywords: 'keyword array',
+  },
+  'zh-Hans': {
+    title: rules => `经过 SEO 优化的页面标题（${rules.title.min}-${rules.title.max} 字）`,
+    description: rules => `有吸引力的元描述（${rules.description.min}-${rules.description.max} 字，包含行动号召）`,
+    keywords: ['主关键词', '相关关键词1', '相关关键词2', '长尾关键词'],
+    ogTitle: '社交分享用标题（OGP 优化）',
+    ogDescription: '社交分享用描述（OGP 优化）',
+    twitterTitle: 'Twitter Cards 用标题',
+    twitterDescription: 'Twitter Cards 用描述',
+    name: '文章标题',
+    structuredDescription: '文章的详细说明',
+    structuredKeywords: '关键词数组',
+  },
+  'zh-Hant': {
+    title: rules => `經過 SEO 最佳化的頁面標題（${rules.title.min}-${rules.title.max} 字）`,
+    description: rules => `吸引人的中繼描述（${rules.description.min}-${rules.description.max} 字，包含行動呼籲）`,
+    keywords: ['主要關鍵字', '相關關鍵字1', '相關關鍵字2', '長尾關鍵字'],
+    ogTitle: '社群分享用標題（OGP 最佳化）',
+    ogDescription: '社群分享用描述（OGP 最佳化）',
+    twitterTitle: 'Twitter Cards 用標題',
+    twitterDescription: 'Twitter Cards 用描述',
+    name: '文章標題',
+    structuredDescription: '文章的詳細說明',
+    structuredKeywords: '關鍵字陣列',
+  },
+  ko: {
+    title: rules => `SEO 최적화된 페이지 제목(${rules.title.min}~${rules.title.max}자)`,
+    description: rules => `매력적인 메타 디스크립션(${rules.description.min}~${rules.description.max}자, CTA 포함)`,
+    keywords: ['메인 키워드', '관련 키워드1', '관련 키워드2', '롱테일 키워드'],
+    ogTitle: 'SNS 공유용 제목(OGP 최적화)',
+    ogDescription: 'SNS 공유용 설명(OGP 최적화)',
+    twitterTitle: 'Twitter Cards용 제목',
+    twitterDescription: 'Twitter Cards용 설명',
+    name: '글 제목',
+    structuredDescription: '글의 상세 설명',
+    structuredKeywords: '키워드 배열',
+  },
+};
+
+export function buildSEOVariables(locale: Locale, input: SEOPromptInput): PromptVariables {
+  const { title, content, keyword, description, baseUrl, author = DEFAULT_BRAND.organizationName } = input;
+  const rules = SEO_LENGTH_RULES[locale];
+  return {
+    title,
+    keyword,
+    description,
+    content: content?.substring(0, CONTENT_EXCERPT_LENGTH[locale]),
+    baseUrl,
+    author,
+    titleMin: String(rules.title.min),
+    titleMax: String(rules.title.max),
+    descriptionMin: String(rules.description.min),
+    descriptionMax: String(rules.description.max),
+    outputExample: buildOutputExample(SEO_OUTPUT_PLACEHOLDERS[locale], rules, DEFAULT_BRAND.organizationName, baseUrl),
+    authorOutputExample: buildOutputExample(SEO_OUTPUT_PLACEHOLDERS[locale], rules, author, baseUrl),
+  };
+}
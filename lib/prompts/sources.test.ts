@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '@/lib/llm';
+import { appendSourceGrounding } from './sources';
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'あなたはライターです。' },
+  { role: 'user', content: '記事を書いてください。\n' },
+];
+
+describe('appendSourceGrounding', () => {
+  it('参考資料と出典の規則を最後のユーザーメッセージの末尾に加える', () => {
+    const [system, user] = appendSourceGrounding(messages, 'ja', '[S1] 導入事例\n離職率が12%低下');
+    expect(system).toEqual(messages[0]);
+    expect(user.content).toMatch(/^記事を書いてください。\n\n【参考資料】\n\[S1\] 導入事例\n離職率が12%低下\n\n【出典の規則】/);
+  });
+
+  it('テンプレートが {{sources}} を参照している場合は加えない', () => {
+    const template = { system: '', user: '{{#sources}}参考資料: {{sources}}{{/sources}}' };
+    expect(appendSourceGrounding(messages, 'ja', '[S1] 導入事例', template)).toBe(messages);
+  });
+
+  it('参考資料がなければそのまま返す', () => {
+    expect(appendSourceGrounding(messages, 'ja', undefined)).toBe(messages);
+    expect(appendSourceGrounding(messages, 'ja', '  ')).toBe(messages);
+  });
+
+  it('記事の言語の規則を使う', () => {
+    const [, user] = appendSourceGrounding(messages, 'en', '[S1] Case study');
+    expect(user.content).toContain('[Source material]\n[S1] Case study');
+  });
+
+  it('ユーザーメッセージがなければ新しいメッセージとして加える', () => {
+    const result = appendSourceGrounding([messages[0]], 'ja', '[S1] 導入事例');
+    expect(result).toHaveLength(2);
+    expect(result[1].role).toBe('user');
+    expect(result[1].content.startsWith('【参考資料】')).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import type { ChatMessage } from '@/lib/llm';
+import { Locale } from '@/lib/types';
+import { PromptTemplateSource, renderTemplate } from './template';
+
+// 参考資料（{{sources}}）と出典の規則。記事生成の組み込みの版3に含まれ、
+// {{sources}} を参照しないテンプレートにはユーザープロンプトの末尾に付け加える
+export const SOURCE_GROUNDING_BLOCKS: Record<Locale, string> = {
+  ja: `{{#sources}}
+
+【参考資料】
+{{sources}}
+
+【出典の規則】
+- 数値・統計・導入事例・検証結果は上記の参考資料にあるものだけを使い、その文の末尾に出典ID（例: [S1]、複数の場合は [S1, S2]）を付ける
+- 参考資料にない数値・企業名・事例・検証結果は創作しない（必要な場合は一般的な説明にとどめる）{{/sources}}`,
+  en: `{{#sources}}
+
+[Source material]
+{{sources}}
+
+[Citation rules]
+- Use figures, statistics, case studies and trial results only from the source material above, and end each such sentence with its source ID (e.g. [S1], or [S1, S2] for several)
+- Do not invent figures, company names, case studies or trial results that are not in the source material (keep to a general explanation instead){{/sources}}`,
+  'zh-Hans': `{{#sources}}
+
+【参考资料】
+{{sources}}
+
+【引用规则】
+- 数值、统计、导入案例和验证结果只能使用上述参考资料中的内容，并在该句末尾标注出处ID（例如 [S1]，多个时写作 [S1, S2]）
+- 不得编造参考资料中没有的数值、企业名称、案例或验证结果（必要时仅作一般性说明）{{/sources}}`,
+  'zh-Hant': `{{#sources}}
+
+【參考資料】
+{{sources}}
+
+【引用規則】
+- 數值、統計、導入案例與驗證結果只能使用上述參考資料中的內容，並在該句末尾標註出處ID（例如 [S1]，多個時寫作 [S1, S2]）
+- 不得捏造參考資料中沒有的數值、企業名稱、案例或驗證結果（必要時僅作一般性說明）{{/sources}}`,
+  ko: `{{#sources}}
+
+[참고 자료]
+{{sources}}
+
+[출처 규칙]
+- 수치·통계·도입 사례·검증 결과는 위 참고 자료에 있는 것만 사용하고, 해당 문장 끝에 출처 ID(예: [S1], 여러 개면 [S1, S2])를 붙이세요
+- 참고 자료에 없는 수치·기업명·사례·검증 결과는 지어내지 마세요(필요하면 일반적인 설명에 그치세요){{/sources}}`,
+};
+
+function referencesSources(template: PromptTemplateSource): boolean {
+  return /\{\{\s*[#^]?\s*sources\s*\}\}/.test(`${template.system}\n${template.user}`);
+}
+
+/**
+ * テンプレートが参考資料を参照していない場合（組み込みの古い版・独自の版、書き換え・最適化のプロンプト）に、
+ * 参考資料と出典の規則を最後のユーザーメッセージの末尾に加える。参考資料がなければそのまま返す。
+ */
+export function appendSourceGrounding(
+  messages: ChatMessage[],
+  locale: Locale,
+  sources: string | undefined,
+  template?: PromptTemplateSource
+): ChatMessage[] {
+  if (!sources?.trim() || (template && referencesSources(template))) return messages;
+  const block = renderTemplate(SOURCE_GROUNDING_BLOCKS[locale], { sources }).trim();
+  const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+  if (lastUserIndex < 0) return [...messages, { role: 'user', content: block }];
+  return messages.map((message, index) =>
+    index === lastUserIndex ? { ...message, content: `${message.content.trimEnd()}\n\n${block}` } : message
+  );
+}
@@ -0,0 +1,152 @@
+import type { ChatMessage } from '@/lib/llm';
+import { Locale, PromptVariableDefinition } from '@/lib/types';
+
+// システムプロンプトとユーザープロンプトのテンプレート本文
+export interface PromptTemplateSource {
+  system: string;
+  user: string;
+}
+
+// テンプレートに埋め込む変数の値（未指定・空文字は「値なし」として扱う）
+export type PromptVariables = Record<string, string | undefined>;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+// {{name}} / {{#name}}…{{/name}} / {{^name}}…{{/name}}
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * テンプレートを構文木に変換する。
+ * - {{name}}: 変数の値を埋め込む
+ * - {{#name}}…{{/name}}: 変数に値がある場合だけ中身を出力する
+ * - {{^name}}…{{/name}}: 変数に値がない場合だけ中身を出力する
+ */
+function parseTemplate(source: string): { nodes: TemplateNode[]; errors: string[] } {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; modifier: string; children: TemplateNode[] }[] = [];
+  const errors: string[] = [];
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      current.push({ type: 'text', text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [, modifier, name] = match;
+    if (modifier === '#' || modifier === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: modifier === '^', children: [] };
+      current.push(section);
+      stack.push({ name, modifier, children: current });
+      current = section.children;
+    } else if (modifier === '/') {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        errors.push(`{{/${name}}} に対応する開始タグがありません`);
+        if (open) stack.push(open);
+        continue;
+      }
+      current = open.children;
+    } else {
+      current.push({ type: 'variable', name });
+    }
+  }
+  if (lastIndex < source.length) {
+    current.push({ type: 'text', text: source.slice(lastIndex) });
+  }
+  for (const open of stack) {
+    errors.push(`{{${open.modifier}${open.name}}} が閉じられていません`);
+  }
+  return { nodes: root, errors };
+}
+
+function hasValue(value: string | undefined): boolean {
+  return value !== undefined && value.trim() !== '';
+}
+
+function renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable':
+        return variables[node.name] ?? '';
+      case 'section':
+        return hasValue(variables[node.name]) !== node.inverted ? renderNodes(node.children, variables) : '';
+    }
+  }).join('');
+}
+
+export function renderTemplate(source: string, variables: PromptVariables): string {
+  return renderNodes(parseTemplate(source).nodes, variables);
+}
+
+export function renderPromptMessages(template: PromptTemplateSource, variables: PromptVariables): ChatMessage[] {
+  return [
+    { role: 'system', content: renderTemplate(template.system, variables) },
+    { role: 'user', content: renderTemplate(template.user, variables) }
+  ];
+}
+
+// テンプレート中で参照されている変数名（重複なし）
+export function findTemplateVariables(source: string): string[] {
+  return [...new Set([...source.matchAll(TAG_PATTERN)].map(match => match[2]))];
+}
+
+/**
+ * テンプレートの構文と変数を検証し、問題点を返す。
+ * - タグの対応が取れていること
+ * - 定義されていない変数を参照していないこと
+ * - 必須の変数がシステム・ユーザープロンプトのいずれかで使われていること
+ */
+export function validatePromptTemplate(template: PromptTemplateSource, definitions: PromptVariableDefinition[]): string[] {
+  const errors: string[] = [];
+  const known = new Set(definitions.map(definition => definition.name));
+  const used = new Set<string>();
+
+  (['system', 'user'] as const).forEach(part => {
+    const label = part === 'system' ? 'システムプロンプト' : 'ユーザープロンプト';
+    if (!template[part]?.trim()) {
+      errors.push(`${label}が空です`);
+      return;
+    }
+    parseTemplate(template[part]).errors.forEach(error => errors.push(`${label}: ${error}`));
+    findTemplateVariables(template[part]).forEach(name => {
+      used.add(name);
+      if (!known.has(name)) {
+        errors.push(`${label}: 未定義の変数 {{${name}}} が使われています`);
+      }
+    });
+  });
+
+  definitions
+    .filter(definition => definition.required && !used.has(definition.name))
+    .forEach(definition => errors.push(`必須の変数 {{${definition.name}}}（${definition.label}）が使われていません`));
+  return errors;
+}
+
+/**
+ * 既存の版の各言語のテンプレートを変換して、新しい組み込みの版を作る。
+ * 組み込みの版も作成後は変更せず、文面を変えるときは新しい版を追加する。
+ */
+export function deriveTemplates(
+  base: Record<Locale, PromptTemplateSource>,
+  transform: (template: PromptTemplateSource, locale: Locale) => PromptTemplateSource
+): Record<Locale, PromptTemplateSource> {
+  return Object.fromEntries(
+    Object.entries(base).map(([locale, template]) => [locale, transform(template, locale as Locale)])
+  ) as Record<Locale, PromptTemplateSource>;
+}
+
+// source で最初に現れる anchor の直後に text を挿入する（anchor がなければ組み込みの版の定義の誤り）
+export function insertAfter(source: string, anchor: string, text: string): string {
+  const index = source.indexOf(anchor);
+  if (index < 0) {
+    throw new Error(`テンプレートに「${anchor}」が見つかりません`);
+  }
+  return source.slice(0, index + anchor.length) + text + source.slice(index + anchor.length);
+}
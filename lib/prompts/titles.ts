@@ -0,0 +1,349 @@
+import { Locale, PromptVariableDefinition } from '@/lib/types';
+import { deriveTemplates, insertAfter, PromptTemplateSource, PromptVariables } from './template';
+
+export interface TitlesPromptInput {
+  keyword: string;
+  overview?: string;
+  // ブランドプロファイルの文体・トーンの指針
+  toneGuidelines?: string;
+}
+
+export const TITLES_VARIABLES: PromptVariableDefinition[] = [
+  { name: 'keyword', label: 'ターゲットキーワード', required: true },
+  { name: 'overview', label: '記事の概要（コンテキスト情報）', required: false },
+  { name: 'toneGuidelines', label: '文体・トーンの指針（ブランド）', required: false },
+];
+
+// 組み込みのテンプレート（版1）
+const TITLES_TEMPLATES_V1: Record<Locale, PromptTemplateSource> = {
+  ja: {
+    system: `あなたは生成式引擎優化（GEO）とLLMO（Large Language Model Optimization）の専門家です。
+ChatGPT、Claude、Gemini等の大型語言模型に引用される可能性を最大化するブログタイトルを生成してください。
+
+【E-E-A-T原則に基づくタイトル設計】
+以下の4つの要素を必ず反映させてください：
+
+**Experience（経験）**: 第一手経験や実践的知見を示唆
+**Expertise（専門性）**: 専門知識や技術的深度を表現
+**Authoritativeness（権威性）**: 業界標準や規範的情報源としての地位
+**Trustworthiness（可信度）**: 検証可能性と透明性を暗示
+
+【RAG最適化戦略】
+AIシステムが検索・引用する際の技術的要件：
+1. **語義明確性**: 代名詞や曖昧な表現を避け、具体的な名詞を使用
+2. **独立性**: タイトル単体で意味が完結し、文脈に依存しない
+3. **構造化情報**: 数値・手順・分類などの構造化された知識を示唆
+4. **問題解決型**: 具体的なペインポイントと解決策を明示
+
+【生成要件】
+- 8-10個のタイトルを生成
+- 各タイトルに「なぜLLMO最適化されているか」の戦略的説明を付与
+- 長尾キーワードと対話式クエリを意識した自然言語表現
+- AI Agent（自律型AIシステム）による情報収集にも対応`,
+    user: `【ターゲットキーワード】: {{keyword}}
+{{#overview}}【コンテキスト情報】: {{overview}}{{/overview}}
+
+【タスク】
+上記情報に基づき、RAG（検索拡張生成）システムで優先的に検索・引用されるタイトルを生成してください。
+
+【E-E-A-T最適化要件】
+各タイトルは以下を明示的に含むこと：
+- **経験の証明**: 「実践検証」「実装事例」「現場での」などの表現
+- **専門性の表現**: 専門用語、技術的詳細度の適切な使用
+- **権威性の暗示**: 「完全ガイド」「標準手法」「ベストプラクティス」
+- **信頼性の担保**: 具体的数値、期間、成果指標の含有
+
+【機械可読性最適化】
+- 主語・述語を明確にし、代名詞を排除
+- 一つのタイトルで一つの明確なコンセプトを表現
+- AI分析しやすい構造化された情報パターンを採用
+
+【対象クエリタイプ】
+- 対話式質問（「○○するにはどうすれば？」）
+- 比較検索（「○○と△△の違い」）
+- 実装指南（「○○の導入手順」）
+- トラブルシューティング（「○○が失敗する理由」）
+
+【重要】出力は純粋なJSON形式のみで、コードブロック（\`\`\`）や説明文は一切含めないでください：
+
+{
+  "titles": [
+    {
+      "title": "具体的なタイトル（40-60文字推奨）",
+      "description": "このタイトルがE-E-A-T最適化とRAG検索で高評価を得る理由（150-200文字）"
+    }
+  ]
+}`,
+  },
+  en: {
+    system: `You are an expert in Generative Engine Optimization (GEO) and LLMO (Large Language Model Optimization).
+Generate blog titles that maximize the likelihood of being cited by large language models such as ChatGPT, Claude and Gemini.
+
+[Title design based on E-E-A-T]
+Every title must reflect all four elements:
+
+**Experience**: suggests first-hand experience and practical insight
+**Expertise**: expresses specialist knowledge and technical depth
+**Authoritativeness**: positions the article as an industry-standard, reference source
+**Trustworthiness**: implies verifiability and transparency
+
+[RAG optimization strategy]
+Technical requirements for AI systems that retrieve and cite content:
+1. **Semantic clarity**: avoid pronouns and vague wording; use concrete nouns
+2. **Independence**: each title is self-contained and does not depend on context
+3. **Structured information**: hint at structured knowledge such as numbers, steps or classifications
+4. **Problem solving**: state a concrete pain point and its solution
+
+[Requirements]
+- Generate 8-10 titles
+- Give each title a strategic explanation of why it is LLMO-optimized
+- Use natural language that targets long-tail keywords and conversational queries
+- Support information gathering by AI agents (autonomous AI systems)
+
+Write every title and explanation in natural English for an English-speaking audience.`,
+    user: `[Target keyword]: {{keyword}}
+{{#overview}}[Context]: {{overview}}{{/overview}}
+
+[Task]
+Based on the information above, generate titles that RAG (retrieval-augmented generation) systems will preferentially retrieve and cite.
+
+[E-E-A-T requirements]
+Each title must explicitly include:
+- **Proof of experience**: phrases such as "tested in practice", "implementation case study", "from the field"
+- **Expertise**: appropriate use of technical terms and technical detail
+- **Authority**: "complete guide", "standard method", "best practices"
+- **Trust**: concrete numbers, time frames or outcome metrics
+
+[Machine readability]
+- Make the subject and predicate explicit and avoid pronouns
+- Express one clear concept per title
+- Use structured information patterns that are easy for AI to analyze
+
+[Target query types]
+- Conversational questions ("How do I ...?")
+- Comparisons ("... vs ...: what is the difference")
+- Implementation guides ("How to set up ...")
+- Troubleshooting ("Why ... fails")
+
+[IMPORTANT] Output pure JSON only. Do not include code blocks (\`\`\`) or any explanation:
+
+{
+  "titles": [
+    {
+      "title": "A concrete title (50-60 characters recommended)",
+      "description": "Why this title scores well for E-E-A-T and RAG retrieval (2-3 sentences)"
+    }
+  ]
+}`,
+  },
+  'zh-Hans': {
+    system: `你是生成式引擎优化（GEO）与 LLMO（Large Language Model Optimization）专家。
+请生成能最大化被 ChatGPT、Claude、Gemini 等大型语言模型引用概率的博客标题。
+
+【基于 E-E-A-T 原则的标题设计】
+必须体现以下四个要素：
+
+**Experience（经验）**：暗示第一手经验与实践洞察
+**Expertise（专业性）**：体现专业知识与技术深度
+**Authoritativeness（权威性）**：定位为行业标准或规范性信息来源
+**Trustworthiness（可信度）**：暗示可验证性与透明度
+
+【RAG 优化策略】
+AI 系统检索与引用时的技术要求：
+1. **语义明确**：避免代词和模糊表达，使用具体名词
+2. **独立性**：标题本身语义完整，不依赖上下文
+3. **结构化信息**：暗示数字、步骤、分类等结构化知识
+4. **问题解决型**：明确具体痛点与解决方案
+
+【生成要求】
+- 生成 8-10 个标题
+- 为每个标题附上“为何经过 LLMO 优化”的策略说明
+- 使用兼顾长尾关键词与对话式查询的自然表达
+- 适配 AI Agent（自主型 AI 系统）的信息收集
+
+所有标题与说明均使用简体中文撰写。`,
+    user: `【目标关键词】：{{keyword}}
+{{#overview}}【背景信息】：{{overview}}{{/overview}}
+
+【任务】
+请根据以上信息，生成能被 RAG（检索增强生成）系统优先检索和引用的标题。
+
+【E-E-A-T 优化要求】
+每个标题需明确包含：
+- **经验证明**：如“实践验证”“落地案例”“一线经验”等表达
+- **专业性**：恰当使用专业术语与技术细节
+- **权威性**：如“完全指南”“标准方法”“最佳实践”
+- **可信度**：包含具体数字、周期或成果指标
+
+【机器可读性优化】
+- 主谓明确，避免代词
+- 一个标题只表达一个清晰概念
+- 采用便于 AI 分析的结构化信息模式
+
+【目标查询类型】
+- 对话式问题（“如何……？”）
+- 比较检索（“……与……的区别”）
+- 实施指南（“……的导入步骤”）
+- 故障排查（“……失败的原因”）
+
+【重要】仅输出纯 JSON，不要包含代码块（\`\`\`）或任何说明文字：
+
+{
+  "titles": [
+    {
+      "title": "具体的标题（建议 25-35 字）",
+      "description": "该标题在 E-E-A-T 优化与 RAG 检索中获得高评价的理由（80-120 字）"
+    }
+  ]
+}`,
+  },
+  'zh-Hant': {
+    system: `你是生成式引擎最佳化（GEO）與 LLMO（Large Language Model Optimization）專家。
+請產生能最大化被 ChatGPT、Claude、Gemini 等大型語言模型引用機率的部落格標題。
+
+【基於 E-E-A-T 原則的標題設計】
+必須展現以下四個要素：
+
+**Experience（經驗）**：暗示第一手經驗與實務洞察
+**Expertise（專業性）**：展現專業知識與技術深度
+**Authoritativeness（權威性）**：定位為業界標準或規範性資訊來源
+**Trustworthiness（可信度）**：暗示可驗證性與透明度
+
+【RAG 最佳化策略】
+AI 系統檢索與引用時的技術要求：
+1. **語意明確**：避免代名詞與模糊表達，使用具體名詞
+2. **獨立性**：標題本身語意完整，不依賴上下文
+3. **結構化資訊**：暗示數字、步驟、分類等結構化知識
+4. **問題解決型**：明確具體痛點與解決方案
+
+【產生要求】
+- 產生 8-10 個標題
+- 為每個標題附上「為何經過 LLMO 最佳化」的策略說明
+- 使用兼顧長尾關鍵字與對話式查詢的自然表達
+- 適用於 AI Agent（自主型 AI 系統）的資訊蒐集
+
+所有標題與說明皆以台灣慣用的繁體中文撰寫。`,
+    user: `【目標關鍵字】：{{keyword}}
+{{#overview}}【背景資訊】：{{overview}}{{/overview}}
+
+【任務】
+請根據以上資訊，產生能被 RAG（檢索增強生成）系統優先檢索與引用的標題。
+
+【E-E-A-T 最佳化要求】
+每個標題需明確包含：
+- **經驗證明**：如「實務驗證」「導入案例」「第一線經驗」等表達
+- **專業性**：適當使用專業術語與技術細節
+- **權威性**：如「完整指南」「標準方法」「最佳實踐」
+- **可信度**：包含具體數字、期間或成果指標
+
+【機器可讀性最佳化】
+- 主詞述詞明確，避免代名詞
+- 一個標題只表達一個清楚概念
+- 採用便於 AI 分析的結構化資訊模式
+
+【目標查詢類型】
+- 對話式問題（「如何……？」）
+- 比較搜尋（「……與……的差異」）
+- 實作指南（「……的導入步驟」）
+- 疑難排解（「……失敗的原因」）
+
+【重要】僅輸出純 JSON，不要包含程式碼區塊（\`\`\`）或任何說明文字：
+
+{
+  "titles": [
+    {
+      "title": "具體的標題（建議 25-35 字）",
+      "description": "該標題在 E-E-A-T 最佳化與 RAG 檢索中獲得高評價的理由（80-120 字）"
+    }
+  ]
+}`,
+  },
+  ko: {
+    system: `당신은 생성형 엔진 최적화(GEO)와 LLMO(Large Language Model Optimization) 전문가입니다.
+ChatGPT, Claude, Gemini 등 대규모 언어 모델에 인용될 가능성을 최대화하는 블로그 제목을 생성하세요.
+
+[E-E-A-T 원칙에 기반한 제목 설계]
+다음 네 가지 요소를 반드시 반영하세요:
+
+**Experience(경험)**: 직접 경험과 실무적 통찰을 암시
+**Expertise(전문성)**: 전문 지식과 기술적 깊이를 표현
+**Authoritativeness(권위성)**: 업계 표준이자 신뢰할 수 있는 정보원으로서의 위치
+**Trustworthiness(신뢰성)**: 검증 가능성과 투명성을 암시
+
+[RAG 최적화 전략]
+AI 시스템이 검색·인용할 때의 기술적 요건:
+1. **의미 명확성**: 대명사와 모호한 표현을 피하고 구체적인 명사를 사용
+2. **독립성**: 제목만으로 의미가 완결되며 문맥에 의존하지 않음
+3. **구조화된 정보**: 수치·절차·분류 등 구조화된 지식을 암시
+4. **문제 해결형**: 구체적인 페인 포인트와 해결책을 명시
+
+[생성 요건]
+- 제목 8~10개 생성
+- 각 제목에 "왜 LLMO에 최적화되었는지"에 대한 전략적 설명을 첨부
+- 롱테일 키워드와 대화형 쿼리를 고려한 자연스러운 표현
+- AI 에이전트(자율형 AI 시스템)의 정보 수집에도 대응
+
+모든 제목과 설명은 자연스러운 한국어로 작성하세요.`,
+    user: `[타깃 키워드]: {{keyword}}
+{{#overview}}[배경 정보]: {{overview}}{{/overview}}
+
+[작업]
+위 정보를 바탕으로 RAG(검색 증강 생성) 시스템에서 우선적으로 검색·인용되는 제목을 생성하세요.
+
+[E-E-A-T 최적화 요건]
+각 제목은 다음을 명시적으로 포함해야 합니다:
+- **경험의 증명**: "실무 검증", "도입 사례", "현장에서" 등의 표현
+- **전문성**: 전문 용어와 기술적 상세도의 적절한 사용
+- **권위성**: "완벽 가이드", "표준 방법", "베스트 프랙티스"
+- **신뢰성**: 구체적인 수치, 기간, 성과 지표 포함
+
+[기계 가독성 최적화]
+- 주어와 서술어를 명확히 하고 대명사를 배제
+- 하나의 제목에 하나의 명확한 개념만 표현
+- AI가 분석하기 쉬운 구조화된 정보 패턴을 채택
+
+[대상 쿼리 유형]
+- 대화형 질문("~하려면 어떻게 해야 하나요?")
+- 비교 검색("~와 ~의 차이")
+- 구현 가이드("~ 도입 절차")
+- 문제 해결("~가 실패하는 이유")
+
+[중요] 출력은 순수한 JSON 형식만 사용하고, 코드 블록(\`\`\`)이나 설명문은 절대 포함하지 마세요:
+
+{
+  "titles": [
+    {
+      "title": "구체적인 제목(28~40자 권장)",
+      "description": "이 제목이 E-E-A-T 최적화와 RAG 검색에서 높은 평가를 받는 이유(100~150자)"
+    }
+  ]
+}`,
+  },
+};
+
+// 版2で概要の後に加えたブランドの文体・トーンの指針
+const TONE_GUIDELINES_LINES: Record<Locale, string> = {
+  ja: `{{#toneGuidelines}}
+【トーン・文体の指針】: {{toneGuidelines}}{{/toneGuidelines}}`,
+  en: `{{#toneGuidelines}}
+[Tone and style]: {{toneGuidelines}}{{/toneGuidelines}}`,
+  'zh-Hans': `{{#toneGuidelines}}
+【语气与文风】：{{toneGuidelines}}{{/toneGuidelines}}`,
+  'zh-Hant': `{{#toneGuidelines}}
+【語氣與文風】：{{toneGuidelines}}{{/toneGuidelines}}`,
+  ko: `{{#toneGuidelines}}
+[톤·문체]: {{toneGuidelines}}{{/toneGuidelines}}`,
+};
+
+// 組み込みの版（古い順。版1は指針の変数がない当初のテンプレート）
+export const TITLES_TEMPLATES: Record<Locale, PromptTemplateSource>[] = [
+  TITLES_TEMPLATES_V1,
+  deriveTemplates(TITLES_TEMPLATES_V1, (template, locale) => ({
+    ...template,
+    user: insertAfter(template.user, '{{/overview}}', TONE_GUIDELINES_LINES[locale]),
+  })),
+];
+
+export function buildTitlesVariables({ keyword, overview, toneGuidelines }: TitlesPromptInput): PromptVariables {
+  return { keyword, overview, toneGuidelines };
+}
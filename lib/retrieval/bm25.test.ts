@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildBm25Index, inverseDocumentFrequency, scoreBm25, termCoverage, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('日本語は文字バイグラム、英数字は単語にし、全角・大文字を正規化する', () => {
+    expect(tokenize('ＡＩ検索とSEO 2026')).toEqual(['ai', '検索', '索と', 'seo', '2026']);
+  });
+
+  it('1文字だけの漢字はそのまま語にし、ハングルもバイグラムにする', () => {
+    expect(tokenize('字 한국어')).toEqual(['字', '한국', '국어']);
+  });
+});
+
+describe('buildBm25Index', () => {
+  it('文書ごとの語数と、語を含む文書の数を数える', () => {
+    const index = buildBm25Index(['seo seo llmo', 'llmo']);
+    expect(index.lengths).toEqual([3, 1]);
+    expect(index.averageLength).toBe(2);
+    expect(index.documentFrequencies.get('seo')).toBe(1);
+    expect(index.documentFrequencies.get('llmo')).toBe(2);
+  });
+
+  it('文書がなければ平均の長さを0にする', () => {
+    expect(buildBm25Index([]).averageLength).toBe(0);
+  });
+});
+
+describe('inverseDocumentFrequency', () => {
+  it('含む文書が少ない語ほど大きい', () => {
+    const index = buildBm25Index(['seo llmo', 'llmo', 'llmo']);
+    expect(inverseDocumentFrequency(index, 'seo')).toBeGreaterThan(inverseDocumentFrequency(index, 'llmo'));
+    expect(inverseDocumentFrequency(index, 'missing')).toBeGreaterThan(inverseDocumentFrequency(index, 'seo'));
+  });
+});
+
+describe('scoreBm25', () => {
+  const index = buildBm25Index(['AI検索の対策', 'SEOの基本', 'AI検索 AI検索 AI検索 の長い記事 記事 記事']);
+
+  it('クエリの語を含まない文書は0、出現回数が多い文書ほど高くする', () => {
+    const [short, unrelated, repeated] = scoreBm25(index, tokenize('AI検索'), 1.2, 0.75);
+    expect(unrelated).toBe(0);
+    expect(short).toBeGreaterThan(0);
+    expect(repeated).toBeGreaterThan(short);
+  });
+
+  it('クエリで重複する語は1回として数える', () => {
+    expect(scoreBm25(index, tokenize('AI検索 AI検索'), 1.2, 0.75)).toEqual(scoreBm25(index, tokenize('AI検索'), 1.2, 0.75));
+  });
+});
+
+describe('termCoverage', () => {
+  const index = buildBm25Index(['AI検索の対策', 'SEOの基本', 'AI検索 AI検索 AI検索 の長い記事 記事 記事']);
+
+  it('機能語を除いたクエリの語がすべて含まれていれば1にする', () => {
+    expect(termCoverage(index, tokenize('what is AI検索'), 0)).toBe(1);
+  });
+
+  it('文書にない語があるほど低くする', () => {
+    const coverage = termCoverage(index, tokenize('AI検索 価格'), 0);
+    expect(coverage).toBeGreaterThan(0);
+    expect(coverage).toBeLessThan(1);
+    expect(termCoverage(index, tokenize('価格'), 0)).toBe(0);
+  });
+});
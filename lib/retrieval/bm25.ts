@@ -0,0 +1,98 @@
+// 漢字・かな・ハングルの連続（単語の区切りがないため文字バイグラムにする）と、それ以外の文字・数字の連続（単語）
+const CJK_CHAR = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}ー々]';
+const TERM_PATTERN = new RegExp(`${CJK_CHAR}+|(?:(?!${CJK_CHAR})[\\p{L}\\p{N}])+`, 'gu');
+const BIGRAM_SCRIPT = new RegExp(`^${CJK_CHAR}`, 'u');
+
+/**
+ * テキストを検索用の語に分ける。
+ * 全角・半角と大文字・小文字を正規化し、日本語・中国語・韓国語は文字バイグラム、それ以外は単語を語とする。
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [run] of text.normalize('NFKC').toLowerCase().matchAll(TERM_PATTERN)) {
+    if (!BIGRAM_SCRIPT.test(run)) {
+      terms.push(run);
+      continue;
+    }
+    const chars = [...run];
+    if (chars.length === 1) {
+      terms.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return terms;
+}
+
+export interface Bm25Index {
+  // 文書ごとの語の出現回数
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  // 語を含む文書の数
+  documentFrequencies: Map<string, number>;
+}
+
+export function buildBm25Index(documents: string[]): Bm25Index {
+  const documentFrequencies = new Map<string, number>();
+  const termFrequencies = documents.map(document => {
+    const frequencies = new Map<string, number>();
+    tokenize(document).forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+    frequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+    return frequencies;
+  });
+  const lengths = termFrequencies.map(frequencies => [...frequencies.values()].reduce((total, count) => total + count, 0));
+  const averageLength = lengths.length > 0 ? lengths.reduce((total, length) => total + length, 0) / lengths.length : 0;
+  return { termFrequencies, lengths, averageLength, documentFrequencies };
+}
+
+// BM25 の IDF（どの文書にも含まれない語ほど大きい）
+export function inverseDocumentFrequency(index: Bm25Index, term: string): number {
+  const count = index.documentFrequencies.get(term) ?? 0;
+  const total = index.termFrequencies.length;
+  return Math.log(1 + (total - count + 0.5) / (count + 0.5));
+}
+
+// クエリの語（重複を除く）に対する各文書の BM25 スコア
+export function scoreBm25(index: Bm25Index, queryTerms: string[], k1: number, b: number): number[] {
+  const terms = [...new Set(queryTerms)];
+  return index.termFrequencies.map((frequencies, documentIndex) => {
+    const lengthRatio = index.averageLength > 0 ? index.lengths[documentIndex] / index.averageLength : 0;
+    return terms.reduce((score, term) => {
+      const frequency = frequencies.get(term) ?? 0;
+      if (frequency === 0) return score;
+      const saturation = (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+      return score + inverseDocumentFrequency(index, term) * saturation;
+    }, 0);
+  });
+}
+
+// 内容を表さない語（ひらがなを含むバイグラムと英語の機能語）。助詞・活用語尾などの言い回しで割合が下がらないよう、割合の計算から除く
+const HIRAGANA = /\p{Script=Hiragana}/u;
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'can', 'do', 'does', 'for', 'how', 'i', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'which', 'why', 'with',
+]);
+
+function isContentTerm(term: string): boolean {
+  return !HIRAGANA.test(term) && !FUNCTION_WORDS.has(term);
+}
+
+/**
+ * 文書に含まれるクエリの語の割合（IDFで重み付け、0〜1）。
+ * 記事に現れない固有の語が欠けているほど低くなる。機能語は除く（機能語だけのクエリはすべての語で計算する）。
+ */
+export function termCoverage(index: Bm25Index, queryTerms: string[], documentIndex: number): number {
+  const unique = [...new Set(queryTerms)];
+  const contentTerms = unique.filter(isContentTerm);
+  const terms = contentTerms.length > 0 ? contentTerms : unique;
+  let total = 0;
+  let covered = 0;
+  terms.forEach(term => {
+    const weight = inverseDocumentFrequency(index, term);
+    total += weight;
+    if (index.termFrequencies[documentIndex].has(term)) covered += weight;
+  });
+  return total > 0 ? covered / total : 0;
+}
@@ -0,0 +1,124 @@
+import { ArticleChunk, chunkArticle, DEFAULT_CHUNK_TOKENS } from '@/lib/export';
+import { GeneratedArticle } from '@/lib/types';
+import { buildBm25Index, scoreBm25, termCoverage, tokenize } from './bm25';
+import { QueryRetrieval, RetrievalHit, RetrievalOptions, RetrievalQuery, RetrievalReport } from './types';
+
+export { buildBm25Index, inverseDocumentFrequency, scoreBm25, termCoverage, tokenize } from './bm25';
+export type { Bm25Index } from './bm25';
+export { buildTemplateQueries } from './queries';
+export type {
+  EmbeddingFunction,
+  QueryRetrieval,
+  RetrievalHit,
+  RetrievalOptions,
+  RetrievalQuery,
+  RetrievalQueryType,
+  RetrievalReport,
+} from './types';
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  chunkTokens: DEFAULT_CHUNK_TOKENS,
+  topK: 3,
+  k1: 1.2,
+  b: 0.75,
+  minCoverage: 0.5,
+  embeddingWeight: 0.5,
+  minSimilarity: 0.5,
+};
+
+// 見出しも検索対象にする（記事タイトルは全チャンクに共通のため含めない）
+function chunkDocument(chunk: ArticleChunk): string {
+  return [...chunk.headingPath.slice(1), chunk.text].join('\n');
+}
+
+function excerpt(text: string, length = 80): string {
+  const chars = [...text.replace(/\s+/g, ' ')];
+  return chars.length > length ? `${chars.slice(0, length).join('')}…` : chars.join('');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 記事をJSONLエクスポートと同じチャンクに分けて BM25 で索引し、各クエリで検索されるチャンクを予測する（LLMを使わない決定的な解析）。
+ * 1位のチャンクに含まれるクエリの語の割合が minCoverage 未満のクエリは「一致なし」として報告する。
+ * options.embed を指定した場合は、BM25 とコサイン類似度を組み合わせて順位を付ける。
+ */
+export async function simulateRetrieval(
+  article: GeneratedArticle,
+  queries: RetrievalQuery[],
+  options: Partial<RetrievalOptions> = {}
+): Promise<RetrievalReport> {
+  // 値が undefined の項目は既定値を使う
+  const specified = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  const resolved: RetrievalOptions = { ...DEFAULT_RETRIEVAL_OPTIONS, ...specified };
+  const { embed, ...reportOptions } = resolved;
+  const chunks = chunkArticle(article, { maxTokens: resolved.chunkTokens });
+  const documents = chunks.map(chunkDocument);
+  const index = buildBm25Index(documents);
+
+  let chunkVectors: number[][] = [];
+  let queryVectors: number[][] = [];
+  if (embed && chunks.length > 0 && queries.length > 0) {
+    const vectors = await embed([...documents, ...queries.map(query => query.text)]);
+    chunkVectors = vectors.slice(0, documents.length);
+    queryVectors = vectors.slice(documents.length);
+  }
+  const usedEmbedding = queryVectors.length > 0;
+
+  const results: QueryRetrieval[] = queries.map((query, queryIndex) => {
+    const terms = tokenize(query.text);
+    const bm25Scores = scoreBm25(index, terms, resolved.k1, resolved.b);
+    const maxBm25 = Math.max(0, ...bm25Scores);
+    const embeddingScores = usedEmbedding
+      ? chunkVectors.map(vector => cosineSimilarity(queryVectors[queryIndex], vector))
+      : undefined;
+
+    const hits: RetrievalHit[] = chunks
+      .map((chunk, chunkIndex) => {
+        const bm25Score = bm25Scores[chunkIndex];
+        const embeddingScore = embeddingScores?.[chunkIndex];
+        const score = embeddingScore === undefined
+          ? bm25Score
+          : (1 - resolved.embeddingWeight) * (maxBm25 > 0 ? bm25Score / maxBm25 : 0) + resolved.embeddingWeight * embeddingScore;
+        return {
+          chunkId: chunk.id,
+          headingPath: chunk.headingPath,
+          anchor: chunk.anchor,
+          url: chunk.url,
+          score,
+          bm25Score,
+          embeddingScore,
+          coverage: termCoverage(index, terms, chunkIndex),
+          excerpt: excerpt(chunk.text),
+        };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, Math.floor(resolved.topK));
+
+    const top = hits[0];
+    const matched = !!top && (
+      top.coverage >= resolved.minCoverage
+      || (top.embeddingScore !== undefined && top.embeddingScore >= resolved.minSimilarity)
+    );
+    return { query, hits, matched };
+  });
+
+  return {
+    chunkCount: chunks.length,
+    results,
+    unmatched: results.filter(result => !result.matched).map(result => result.query),
+    usedEmbedding,
+    options: reportOptions,
+  };
+}
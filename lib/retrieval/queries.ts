@@ -0,0 +1,73 @@
+import { Locale } from '@/lib/types';
+import { RetrievalQuery, RetrievalQueryType } from './types';
+
+type TemplateQueryType = Exclude<RetrievalQueryType, 'custom'>;
+
+interface QueryTemplates {
+  // 比較の相手が決まらない場合の表現
+  defaultComparisonTarget: string;
+  build: Record<TemplateQueryType, (keyword: string, target: string) => string>;
+}
+
+// タイトル生成プロンプトの【対象クエリタイプ】を、キーワードから作る会話的なクエリにしたもの
+const QUERY_TEMPLATES: Record<Locale, QueryTemplates> = {
+  ja: {
+    defaultComparisonTarget: '他の方法',
+    build: {
+      conversational: keyword => `${keyword}を始めるにはどうすればいい？`,
+      comparison: (keyword, target) => `${keyword}と${target}の違いは？`,
+      implementation: keyword => `${keyword}の導入手順は？`,
+      troubleshooting: keyword => `${keyword}が失敗する理由は？`,
+    },
+  },
+  en: {
+    defaultComparisonTarget: 'other approaches',
+    build: {
+      conversational: keyword => `How do I get started with ${keyword}?`,
+      comparison: (keyword, target) => `What is the difference between ${keyword} and ${target}?`,
+      implementation: keyword => `What are the steps to implement ${keyword}?`,
+      troubleshooting: keyword => `Why does ${keyword} fail?`,
+    },
+  },
+  'zh-Hans': {
+    defaultComparisonTarget: '其他方法',
+    build: {
+      conversational: keyword => `如何开始${keyword}？`,
+      comparison: (keyword, target) => `${keyword}和${target}有什么区别？`,
+      implementation: keyword => `${keyword}的实施步骤是什么？`,
+      troubleshooting: keyword => `${keyword}失败的原因是什么？`,
+    },
+  },
+  'zh-Hant': {
+    defaultComparisonTarget: '其他方法',
+    build: {
+      conversational: keyword => `如何開始${keyword}？`,
+      comparison: (keyword, target) => `${keyword}和${target}有什麼區別？`,
+      implementation: keyword => `${keyword}的導入步驟是什麼？`,
+      troubleshooting: keyword => `${keyword}失敗的原因是什麼？`,
+    },
+  },
+  // 助詞がキーワードの最後の文字（パッチムの有無）で変わるため、助詞を使わない表現にする
+  ko: {
+    defaultComparisonTarget: '다른 방법',
+    build: {
+      conversational: keyword => `${keyword}, 어떻게 시작하나요?`,
+      comparison: (keyword, target) => `${keyword} vs ${target}: 차이점은 무엇인가요?`,
+      implementation: keyword => `${keyword} 도입 절차는 무엇인가요?`,
+      troubleshooting: keyword => `${keyword} 실패 원인은 무엇인가요?`,
+    },
+  },
+};
+
+/**
+ * キーワードから、対話式・比較・実装・トラブルシューティングの定型クエリを作る。
+ * 比較の相手（comparisonTarget）を省略した場合は「他の方法」と比べるクエリにする。
+ */
+export function buildTemplateQueries(keyword: string, locale: Locale, comparisonTarget?: string): RetrievalQuery[] {
+  const templates = QUERY_TEMPLATES[locale];
+  const target = comparisonTarget?.trim() || templates.defaultComparisonTarget;
+  return (Object.keys(templates.build) as TemplateQueryType[]).map(type => ({
+    text: templates.build[type](keyword.trim(), target),
+    type,
+  }));
+}
@@ -0,0 +1,66 @@
+// 定型クエリの型（タイトル生成プロンプトの【対象クエリタイプ】と対応する）と、ユーザーが入力したクエリ
+// - conversational: 対話式質問（「○○するにはどうすれば？」）
+// - comparison: 比較検索（「○○と△△の違い」）
+// - implementation: 実装指南（「○○の導入手順」）
+// - troubleshooting: トラブルシューティング（「○○が失敗する理由」）
+// - custom: ユーザーが入力したクエリ
+export type RetrievalQueryType = 'conversational' | 'comparison' | 'implementation' | 'troubleshooting' | 'custom';
+
+export interface RetrievalQuery {
+  text: string;
+  type: RetrievalQueryType;
+}
+
+/**
+ * ローカルの埋め込み関数（テキストごとのベクトルを同じ順で返す）。
+ * 指定すると BM25 とベクトルのコサイン類似度を組み合わせて順位を付ける。
+ */
+export type EmbeddingFunction = (texts: string[]) => number[][] | Promise<number[][]>;
+
+export interface RetrievalOptions {
+  // チャンクあたりのトークン数の上限（JSONLエクスポートと同じ分割）
+  chunkTokens: number;
+  // クエリごとに報告する上位チャンクの数
+  topK: number;
+  // BM25 のパラメータ
+  k1: number;
+  b: number;
+  // 1位のチャンクに含まれるクエリの語の割合（IDFで重み付け、0〜1）がこの値未満の場合は「一致なし」とする
+  minCoverage: number;
+  embed?: EmbeddingFunction;
+  // 埋め込みを使う場合のコサイン類似度の重み（0〜1、残りは最大値で正規化した BM25 スコア）
+  embeddingWeight: number;
+  // 埋め込みを使う場合、語の割合が足りなくてもこの類似度以上なら一致とみなす
+  minSimilarity: number;
+}
+
+export interface RetrievalHit {
+  chunkId: string;
+  headingPath: string[];
+  anchor: string;
+  url?: string;
+  // 順位付けに使ったスコア（埋め込みを使わない場合は BM25 スコア）
+  score: number;
+  bm25Score: number;
+  embeddingScore?: number;
+  // チャンクに含まれるクエリの語の割合（IDFで重み付け、0〜1）
+  coverage: number;
+  excerpt: string;
+}
+
+export interface QueryRetrieval {
+  query: RetrievalQuery;
+  // スコアの高い順（スコアが0のチャンクは含めない）
+  hits: RetrievalHit[];
+  matched: boolean;
+}
+
+export interface RetrievalReport {
+  chunkCount: number;
+  results: QueryRetrieval[];
+  // 十分に一致するチャンクがなかったクエリ
+  unmatched: RetrievalQuery[];
+  // 埋め込み関数を使ったか
+  usedEmbedding: boolean;
+  options: Omit<RetrievalOptions, 'embed'>;
+}
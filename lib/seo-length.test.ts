@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SEO_LENGTH_RULES } from './locale';
+import {
+  countSEOLength,
+  fitSEOLengths,
+  measureDisplayWidth,
+  truncateToLength,
+  truncateToPixelWidth,
+  validateSEOLengths,
+} from './seo-length';
+import { SEOMetadata } from './types';
+
+function seo(fields: Partial<SEOMetadata>): SEOMetadata {
+  return {
+    title: '',
+    description: '',
+    keywords: [],
+    ogTitle: '',
+    ogDescription: '',
+    twitterTitle: '',
+    twitterDescription: '',
+    metaRobots: 'index, follow',
+    ...fields,
+  };
+}
+
+const LONG_TITLE = 'AI検索に引用される記事の書き方と構造化データの実践ガイド完全版2026年最新';
+const LONG_DESCRIPTION = 'AI検索で引用されるための記事構成を解説します。見出しの付け方、結論を先に書く方法、構造化データの設定、FAQの書き方を具体例とともに紹介します。さらに計測方法と改善のサイクルについても詳しく説明し、チーム全体で運用するための手順もまとめています。';
+
+describe('countSEOLength', () => {
+  it('全角を2、半角を1とした表示幅を、全角で数える言語では全角換算にする', () => {
+    expect(measureDisplayWidth('SEO対策')).toBe(7);
+    expect(countSEOLength('SEO対策', SEO_LENGTH_RULES.ja)).toBe(3.5);
+    expect(countSEOLength('SEO対策', SEO_LENGTH_RULES.en)).toBe(7);
+  });
+});
+
+describe('validateSEOLengths', () => {
+  it('上限超過を error、検索結果での省略と下限未満を warning にする', () => {
+    const issues = validateSEOLengths(seo({ title: LONG_TITLE, description: LONG_DESCRIPTION }), 'ja');
+    expect(issues.filter(issue => issue.severity === 'error').map(issue => issue.message)).toEqual([
+      'タイトルが長すぎます（36文字（全角換算）、上限 35）',
+      'メタディスクリプションが長すぎます（121.5文字（全角換算）、上限 120）',
+    ]);
+    expect(issues.some(issue => issue.field === 'title' && issue.message.includes('検索結果で省略'))).toBe(true);
+    expect(issues.some(issue => issue.field === 'ogTitle' && issue.message.includes('短すぎます'))).toBe(true);
+  });
+});
+
+describe('fitSEOLengths', () => {
+  it('タイトルは上限に収まる区切りのよい位置で切り詰める', () => {
+    const fitted = fitSEOLengths(seo({ title: LONG_TITLE }), 'ja');
+    expect(fitted.title).toBe('AI検索に引用される記事の書き方と構造化データの実践ガイド完全版');
+  });
+
+  it('英語のタイトルは単語の途中で切らない', () => {
+    const fitted = fitSEOLengths(seo({ title: 'How to Write Articles That AI Search Engines Cite: A Complete Practical Guide' }), 'en');
+    expect(fitted.title).toBe('How to Write Articles That AI Search Engines Cite: A');
+  });
+
+  it('ディスクリプションは省略記号を付けて切り詰め、上限超過の error をなくす', () => {
+    const fitted = fitSEOLengths(seo({ title: LONG_TITLE, description: LONG_DESCRIPTION }), 'ja');
+    expect(fitted.description.endsWith('…')).toBe(true);
+    expect(validateSEOLengths(fitted, 'ja').filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('上限以内のフィールドと下限未満のフィールドは変えない', () => {
+    const original = seo({ title: 'AI検索対策', ogTitle: '短い' });
+    expect(fitSEOLengths(original, 'ja')).toEqual(original);
+  });
+});
+
+describe('truncateToPixelWidth / truncateToLength', () => {
+  it('表示幅・文字数を超える場合だけ省略記号を付ける', () => {
+    expect(truncateToPixelWidth('AI検索', 600, 20)).toEqual({ text: 'AI検索', truncated: false });
+    expect(truncateToPixelWidth('A'.repeat(100), 600, 20)).toEqual({ text: `${'A'.repeat(43)}...`, truncated: true });
+    expect(truncateToLength('あいうえおかきくけこ', 4, SEO_LENGTH_RULES.ja)).toEqual({ text: 'あいう…', truncated: true });
+  });
+});
@@ -0,0 +1,251 @@
+import { LengthRange, SEO_LENGTH_RULES, SEOLengthRules } from './locale';
+import { Locale, SEOMetadata } from './types';
+
+// 文字数を検証するSEOメタデータのフィールド
+export type SEOLengthField = 'title' | 'description' | 'ogTitle' | 'ogDescription' | 'twitterTitle' | 'twitterDescription';
+
+export const SEO_LENGTH_FIELDS: SEOLengthField[] = ['title', 'description', 'ogTitle', 'ogDescription', 'twitterTitle', 'twitterDescription'];
+
+export const SEO_FIELD_LABELS: Record<SEOLengthField, string> = {
+  title: 'タイトル',
+  description: 'メタディスクリプション',
+  ogTitle: 'OGタイトル',
+  ogDescription: 'OGディスクリプション',
+  twitterTitle: 'Twitterタイトル',
+  twitterDescription: 'Twitterディスクリプション',
+};
+
+// 検索結果（PC）の表示領域の目安。この幅を超えると末尾が「...」で省略される
+// （ディスクリプションは1行約600pxで2行まで表示される）
+export const SERP_DISPLAY = {
+  title: { fontSize: 20, maxWidth: 600 },
+  description: { fontSize: 14, maxWidth: 1200 },
+} as const;
+
+export type SEOLengthSeverity = 'error' | 'warning';
+
+export interface SEOFieldLength {
+  field: SEOLengthField;
+  // 言語の数え方（SEOLengthRules.unit）で数えた文字数
+  length: number;
+  range: LengthRange;
+  // 検索結果での推定表示幅（px、title・description のみ）
+  pixelWidth?: number;
+  maxPixelWidth?: number;
+}
+
+export interface SEOLengthIssue {
+  field: SEOLengthField;
+  // error: 上限超過（自動で切り詰める） / warning: 下限未満・検索結果での省略
+  severity: SEOLengthSeverity;
+  message: string;
+}
+
+// 全角（表示幅が半角の2倍）として扱う文字
+// CJK統合漢字・かな・ハングル・全角英数記号・CJK記号、および絵文字などの補助面の文字
+const FULL_WIDTH_PATTERN = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF01-\uFF60\uFFE0-\uFFE6]|[\u{1F000}-\u{1FAFF}\u{20000}-\u{3FFFD}]/u;
+
+export function isFullWidth(char: string): boolean {
+  return FULL_WIDTH_PATTERN.test(char);
+}
+
+// 半角1文字を1、全角1文字を2とした表示幅
+export function measureDisplayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += isFullWidth(char) ? 2 : 1;
+  }
+  return width;
+}
+
+// 言語の数え方に従った文字数（全角で数える言語は小数点以下1桁に丸める）
+export function countSEOLength(text: string, rules: SEOLengthRules): number {
+  const width = measureDisplayWidth(text);
+  return rules.unit === 'full' ? Math.round(width * 5) / 10 : width;
+}
+
+// 半角文字の字幅（フォントサイズに対する比率、検索結果の Arial 系フォントを想定）
+function characterEm(char: string): number {
+  if (isFullWidth(char)) return 1;
+  if (char === ' ') return 0.28;
+  if (/[iljtfI.,:;!|'`()[\]]/.test(char)) return 0.3;
+  if (/[mwMW]/.test(char)) return 0.85;
+  if (/[A-Z]/.test(char)) return 0.67;
+  if (/[0-9]/.test(char)) return 0.56;
+  if (/[a-z]/.test(char)) return 0.52;
+  return 0.56;
+}
+
+// 指定したフォントサイズでの推定表示幅（px）
+export function estimatePixelWidth(text: string, fontSize: number): number {
+  let em = 0;
+  for (const char of text) {
+    em += characterEm(char);
+  }
+  return Math.round(em * fontSize);
+}
+
+/**
+ * 表示幅（px）に収まるように末尾を「...」で省略する（検索結果のプレビュー用）。
+ */
+export function truncateToPixelWidth(text: string, maxWidth: number, fontSize: number): { text: string; truncated: boolean } {
+  if (estimatePixelWidth(text, fontSize) <= maxWidth) {
+    return { text, truncated: false };
+  }
+  const available = maxWidth - estimatePixelWidth('...', fontSize);
+  let result = '';
+  let em = 0;
+  for (const char of text) {
+    em += characterEm(char);
+    if (em * fontSize > available) break;
+    result += char;
+  }
+  return { text: `${result.trimEnd()}...`, truncated: true };
+}
+
+/**
+ * 言語の数え方で max 文字以内に収まるように末尾を省略する（SNSカードのプレビュー用）。
+ */
+export function truncateToLength(text: string, max: number, rules: SEOLengthRules): { text: string; truncated: boolean } {
+  if (countSEOLength(text, rules) <= max) {
+    return { text, truncated: false };
+  }
+  const ellipsis = '…';
+  const prefix = takePrefix(text, max - countSEOLength(ellipsis, rules), rules);
+  return { text: `${prefix.trimEnd()}${ellipsis}`, truncated: true };
+}
+
+// max 文字以内に収まる最長の先頭部分
+function takePrefix(text: string, max: number, rules: SEOLengthRules): string {
+  let result = '';
+  for (const char of text) {
+    if (countSEOLength(result + char, rules) > max) break;
+    result += char;
+  }
+  return result;
+}
+
+function isDescriptionField(field: SEOLengthField): boolean {
+  return field === 'description' || field === 'ogDescription' || field === 'twitterDescription';
+}
+
+export function measureSEOLengths(seo: SEOMetadata, locale: Locale): SEOFieldLength[] {
+  const rules = SEO_LENGTH_RULES[locale];
+  return SEO_LENGTH_FIELDS.map(field => {
+    const text = seo[field] ?? '';
+    const display = field === 'title' || field === 'description' ? SERP_DISPLAY[field] : undefined;
+    return {
+      field,
+      length: countSEOLength(text, rules),
+      range: rules[field],
+      ...(display && {
+        pixelWidth: estimatePixelWidth(text, display.fontSize),
+        maxPixelWidth: display.maxWidth,
+      }),
+    };
+  });
+}
+
+/**
+ * SEOメタデータの各フィールドの文字数を、言語ごとの目安（SEO_LENGTH_RULES）と検索結果の表示幅で検証する。
+ * 上限超過は error、下限未満と検索結果での省略は warning とする。
+ */
+export function validateSEOLengths(seo: SEOMetadata, locale: Locale): SEOLengthIssue[] {
+  const unitLabel = SEO_LENGTH_RULES[locale].unit === 'full' ? '文字（全角換算）' : '文字';
+  const issues: SEOLengthIssue[] = [];
+
+  for (const { field, length, range, pixelWidth, maxPixelWidth } of measureSEOLengths(seo, locale)) {
+    const label = SEO_FIELD_LABELS[field];
+    if (length > range.max) {
+      issues.push({
+        field,
+        severity: 'error',
+        message: `${label}が長すぎます（${length}${unitLabel}、上限 ${range.max}）`,
+      });
+    } else if (length < range.min) {
+      issues.push({
+        field,
+        severity: 'warning',
+        message: `${label}が短すぎます（${length}${unitLabel}、目安 ${range.min}〜${range.max}）`,
+      });
+    }
+    if (pixelWidth !== undefined && maxPixelWidth !== undefined && pixelWidth > maxPixelWidth) {
+      issues.push({
+        field,
+        severity: 'warning',
+        message: `${label}は検索結果で省略される可能性があります（推定 ${pixelWidth}px / ${maxPixelWidth}px）`,
+      });
+    }
+  }
+  return issues;
+}
+
+// 切り詰める位置として優先する区切り
+const SENTENCE_END_PATTERN = /[。．.!?！？]/;
+const CLAUSE_BOUNDARY_PATTERN = /[\s、，,：:｜|・\-–—/]/;
+// 区切りで切ると短くなりすぎる場合は文字単位で切る（上限に対する比率）
+const MIN_BOUNDARY_RATIO = 0.6;
+
+// 空白のない日本語で単語の途中を避けるため、カタカナ語・英単語の直前と、ひらがなから漢字に変わる位置も区切りとみなす
+function isScriptBoundary(previous: string, next: string | undefined): boolean {
+  if (!next) return false;
+  const katakana = /[\u30A0-\u30FF]/;
+  const latin = /[A-Za-z0-9]/;
+  return (katakana.test(next) && !katakana.test(previous))
+    || (latin.test(next) && !latin.test(previous))
+    || (/[\u3040-\u309F]/.test(previous) && /[\u4E00-\u9FFF]/.test(next));
+}
+
+// 上限を超えたフィールドを区切りのよい位置で切り詰める
+function trimFieldToLength(text: string, field: SEOLengthField, max: number, rules: SEOLengthRules): string {
+  if (countSEOLength(text, rules) <= max) {
+    return text;
+  }
+
+  const isDescription = isDescriptionField(field);
+  const ellipsis = '…';
+  const chars = [...takePrefix(text, isDescription ? max - countSEOLength(ellipsis, rules) : max, rules)];
+  const minLength = Math.ceil(chars.length * MIN_BOUNDARY_RATIO);
+
+  // ディスクリプションは文末で切れれば省略記号を付けない
+  if (isDescription) {
+    const fullPrefix = [...takePrefix(text, max, rules)];
+    for (let index = fullPrefix.length - 1; index >= minLength; index--) {
+      if (SENTENCE_END_PATTERN.test(fullPrefix[index])) {
+        return fullPrefix.slice(0, index + 1).join('');
+      }
+    }
+  }
+
+  // 切った位置の直後（元の文字列の次の文字）が区切りなら、単語の途中ではない
+  const textChars = [...text];
+  let cut = chars.length;
+  for (let index = chars.length; index > minLength; index--) {
+    const next = textChars[index];
+    if (
+      CLAUSE_BOUNDARY_PATTERN.test(next ?? '')
+      || CLAUSE_BOUNDARY_PATTERN.test(chars[index - 1])
+      || (rules.unit === 'full' && isScriptBoundary(chars[index - 1], next))
+    ) {
+      cut = index;
+      break;
+    }
+  }
+  const trimmed = chars.slice(0, cut).join('').replace(/[\s、，,：:｜|・\-–—/]+$/u, '');
+  return isDescription ? `${trimmed}${ellipsis}` : trimmed;
+}
+
+/**
+ * 上限を超えたフィールドを決定的に切り詰めたSEOメタデータを返す（LLMの再生成でも収まらなかった場合の最終手段）。
+ * 下限未満のフィールドはそのまま残す。
+ */
+export function fitSEOLengths(seo: SEOMetadata, locale: Locale): SEOMetadata {
+  const rules = SEO_LENGTH_RULES[locale];
+  const fitted: SEOMetadata = { ...seo };
+  for (const field of SEO_LENGTH_FIELDS) {
+    if (typeof fitted[field] === 'string') {
+      fitted[field] = trimFieldToLength(fitted[field], field, rules[field].max, rules);
+    }
+  }
+  return fitted;
+}
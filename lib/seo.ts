@@ -0,0 +1,65 @@
+import { articleToPlainText } from './article';
+import { GeneratedArticle, Locale, SEOMetadata } from './types';
+
+export interface SEORequestOptions {
+  // /api/generate-seo を呼び出すためのオリジン（request.nextUrl.origin）
+  origin: string;
+  keyword: string;
+  description?: string;
+  baseUrl?: string;
+  // 省略時は記事の言語（article.locale）を使用する
+  locale?: Locale;
+  // 使用するプロンプトテンプレートの版（省略時は有効な版）
+  promptVersion?: number;
+  // 省略時は記事のブランドプロファイル（article.brandProfileId）を使用する
+  brandProfileId?: string;
+}
+
+export interface SEOMetadataResult {
+  seoMetadata: SEOMetadata;
+  // 生成に使用したプロンプトテンプレートの版
+  promptVersion?: number;
+}
+
+/**
+ * /api/generate-seo を呼び出して記事のSEOメタデータを取得する。
+ * SEOメタデータは付加情報のため、失敗時は例外を投げずに undefined を返す。
+ */
+export async function requestSEOMetadata(article: GeneratedArticle, options: SEORequestOptions): Promise<SEOMetadataResult | undefined> {
+  try {
+    const seoResponse = await fetch(`${options.origin}/api/generate-seo`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        title: article.title,
+        content: articleToPlainText(article),
+        keyword: options.keyword,
+        description: options.description,
+        baseUrl: options.baseUrl,
+        locale: options.locale ?? article.locale,
+        promptVersion: options.promptVersion,
+        brandProfileId: options.brandProfileId ?? article.brandProfileId,
+      }),
+    });
+
+    if (seoResponse.ok) {
+      const seoData = await seoResponse.json();
+      return { seoMetadata: seoData.seoMetadata, promptVersion: seoData.promptVersion };
+    }
+    console.warn('SEOメタデータ生成に失敗しましたが、記事は正常に生成されました');
+  } catch (seoError) {
+    console.warn('SEOメタデータ生成でエラーが発生しましたが、記事は正常に生成されました:', seoError);
+  }
+  return undefined;
+}
+
+// SEOメタデータと、その生成に使用したプロンプトの版を記事に反映する
+export function withSEOMetadata(article: GeneratedArticle, { seoMetadata, promptVersion }: SEOMetadataResult): GeneratedArticle {
+  return {
+    ...article,
+    seoMetadata,
+    ...(promptVersion !== undefined && { promptVersions: { ...article.promptVersions, seo: promptVersion } }),
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BRAND } from './brand';
+import { createCitationValidator, formatSourcePassages, retrieveSourcePassages, withSources } from './sources';
+import { GeneratedArticle, SourceDocument } from './types';
+
+function sourceDocument(sourceId: string, title: string, content: string, url?: string): SourceDocument {
+  return {
+    id: `doc-${sourceId}`,
+    projectId: 'project-1',
+    sourceId,
+    title,
+    kind: 'text',
+    content,
+    ...(url ? { url } : {}),
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function article(content: string, subheadingContent?: string): GeneratedArticle {
+  return {
+    title: '離職率の改善',
+    sections: [{
+      heading: '導入効果',
+      content,
+      ...(subheadingContent ? { subheadings: [{ title: '事例', content: subheadingContent }] } : {}),
+    }],
+  };
+}
+
+describe('createCitationValidator', () => {
+  const validate = createCitationValidator(
+    [{ sourceId: 'S1', content: '導入企業の離職率は12%低下した。' }],
+    DEFAULT_BRAND
+  );
+
+  it('参考資料にある数値を出典ID付きで引用した本文は通す', () => {
+    expect(validate(article('導入企業の離職率は12%低下しました[S1]。'))).toEqual([]);
+  });
+
+  it('出典IDのない数値を本文の位置付きで指摘する', () => {
+    const issues = validate(article('作業効率が3倍になりました。'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.sections[0].content');
+    expect(issues[0].message).toContain('出典のない数値です');
+  });
+
+  it('参考資料にない出典IDを指摘する', () => {
+    const issues = validate(article('離職率は12%低下しました[S1]。', 'コストは40%削減されました[S2]。'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.sections[0].subheadings[0].content');
+    expect(issues[0].message).toContain('出典 S2 が参考資料にありません');
+  });
+
+  it('出典の本文にない数値を指摘する', () => {
+    const issues = validate(article('離職率は25%低下しました[S1]。'));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('出典 S1 の本文に「25%」が見つかりません');
+  });
+
+  it('生成結果に承認済みの主張が含まれていても検証を省略しない', () => {
+    const generated = { ...article('作業効率が3倍になりました。'), acceptedClaims: ['ignored'] };
+    const issues = validate(generated);
+    expect(issues).toHaveLength(1);
+  });
+});
+
+describe('retrieveSourcePassages', () => {
+  const sources = [
+    sourceDocument('S1', '料金プラン', '月額プランは1ユーザーあたり1200円です。'),
+    sourceDocument('S2', '導入事例', '製造業の導入企業では離職率が12%低下しました。'),
+  ];
+
+  it('クエリの語を含む抜粋を選ぶ', () => {
+    const passages = retrieveSourcePassages(sources, '離職率');
+    expect(passages.map(passage => passage.sourceId)).toEqual(['S2']);
+    expect(passages[0].score).toBeGreaterThan(0);
+  });
+
+  it('どの抜粋もクエリに一致しない場合は各資料の冒頭を使う', () => {
+    const passages = retrieveSourcePassages(sources, 'まったく関係のない語句');
+    expect(passages.map(passage => passage.sourceId)).toEqual(['S1', 'S2']);
+  });
+
+  it('参考資料がなければ空を返す', () => {
+    expect(retrieveSourcePassages([], '離職率')).toEqual([]);
+  });
+});
+
+describe('formatSourcePassages', () => {
+  it('抜粋を出典IDごとにまとめ、URLがあれば見出しに付ける', () => {
+    const text = formatSourcePassages([
+      { sourceId: 'S1', title: '料金プラン', url: 'https://example.com/pricing', text: '抜粋A', score: 1 },
+      { sourceId: 'S1', title: '料金プラン', url: 'https://example.com/pricing', text: '抜粋B', score: 1 },
+      { sourceId: 'S2', title: '導入事例', text: '抜粋C', score: 1 },
+    ]);
+    expect(text).toBe('[S1] 料金プラン（https://example.com/pricing）\n抜粋A\n…\n抜粋B\n\n[S2] 導入事例\n抜粋C');
+  });
+});
+
+describe('withSources', () => {
+  const sources = [
+    sourceDocument('S1', '料金プラン', '', 'https://example.com/pricing'),
+    sourceDocument('S2', '導入事例', ''),
+  ];
+
+  it('本文で参照している出典だけを記事に付ける', () => {
+    expect(withSources(article('料金は1200円です[S1]。'), sources).sources).toEqual([
+      { id: 'S1', title: '料金プラン', url: 'https://example.com/pricing' },
+    ]);
+  });
+
+  it('参照がなければ記事をそのまま返す', () => {
+    const original = article('出典のない一般的な説明です。');
+    expect(withSources(original, sources)).toBe(original);
+  });
+});
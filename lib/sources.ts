@@ -0,0 +1,212 @@
+import { articleToPlainText, countCharacters, estimateTokens, extractCitations } from './article';
+import { BrandSettings } from './brand';
+import { ClaimLocation, ClaimReport, verifyClaims } from './claims';
+import { parseCsv } from './csv';
+import { splitTextByTokens } from './export';
+import { buildBm25Index, DEFAULT_RETRIEVAL_OPTIONS, scoreBm25, tokenize } from './retrieval';
+import { listSourcesByProject } from './storage';
+import type { ValidationIssue } from './structured-output';
+import { ArticleSource, GeneratedArticle, SourceDocument, SourceDocumentKind, SourceDocumentSummary } from './types';
+
+export const SOURCE_DOCUMENT_KINDS: SourceDocumentKind[] = ['pdf', 'markdown', 'csv', 'text'];
+
+// 1件の参考資料の上限（文字数）
+export const MAX_SOURCE_CHARACTERS = 200000;
+
+export function isSourceDocumentKind(value: unknown): value is SourceDocumentKind {
+  return typeof value === 'string' && (SOURCE_DOCUMENT_KINDS as string[]).includes(value);
+}
+
+// ファイル名の拡張子から参考資料の種類を判定する（PDFはテキストを抽出したファイルを想定）
+export function detectSourceKind(filename: string): SourceDocumentKind {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'pdf') return 'pdf';
+  return 'text';
+}
+
+const CJK_END = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}、。）」]$/u;
+const CJK_START = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}、。（「]/u;
+
+// PDFから抽出したテキストの、段落内の折り返しの改行をつなげる（空行を段落の区切りとみなす）
+function joinWrappedLines(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .reduce((joined, line) => {
+        if (!joined) return line;
+        // 行末のハイフンで分割された英単語はつなげる
+        if (/[A-Za-z]-$/.test(joined) && /^[a-z]/.test(line)) return `${joined.slice(0, -1)}${line}`;
+        return CJK_END.test(joined) && CJK_START.test(line) ? `${joined}${line}` : `${joined} ${line}`;
+      }, ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+// CSVの各行を「列名: 値」の1行にする（数値を列名と一緒に検索・引用できるようにする）
+function csvToLines(text: string): string {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return '';
+  if (rows.length === 0) return header.join(' / ');
+  return rows
+    .map(row => row
+      .map((value, index) => value.trim() ? `${header[index]?.trim() || `列${index + 1}`}: ${value.trim()}` : '')
+      .filter(Boolean)
+      .join(' / '))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * 参考資料の本文を、抜粋・検索しやすいテキストに整える。
+ * PDFのテキストは折り返しの改行をつなげ、CSVは行ごとに「列名: 値」の形式にする。
+ */
+export function normalizeSourceContent(kind: SourceDocumentKind, content: string): string {
+  const text = content.replace(/\r\n?/g, '\n').replace(/\f/g, '\n\n');
+  switch (kind) {
+    case 'pdf':
+      return joinWrappedLines(text);
+    case 'csv':
+      return csvToLines(text);
+    default:
+      return text.trim();
+  }
+}
+
+// プロジェクト内の次の出典ID（S1, S2, ...。削除された番号は再利用しない）
+export function nextSourceId(sources: Pick<SourceDocument, 'sourceId'>[]): string {
+  const max = sources.reduce((current, source) => Math.max(current, Number(source.sourceId.slice(1)) || 0), 0);
+  return `S${max + 1}`;
+}
+
+export function toSourceSummary(source: SourceDocument): SourceDocumentSummary {
+  const { content, ...summary } = source;
+  return { ...summary, characters: countCharacters(content) };
+}
+
+export interface SourcePassage {
+  sourceId: string;
+  title: string;
+  url?: string;
+  text: string;
+  score: number;
+}
+
+export interface SourcePassageOptions {
+  // プロンプトに入れる抜粋の合計の上限（トークン数の目安）
+  maxTokens?: number;
+  // 1つの抜粋の上限（トークン数の目安）
+  passageTokens?: number;
+}
+
+/**
+ * 参考資料を抜粋に分けて BM25 で検索し、クエリ（記事のタイトル・キーワードなど）に関係する抜粋を上限まで選ぶ。
+ * どの抜粋もクエリの語を含まない場合は、各資料の冒頭の抜粋を使う。選んだ抜粋は資料・本文の順に並べる。
+ */
+export function retrieveSourcePassages(
+  sources: SourceDocument[],
+  query: string,
+  options: SourcePassageOptions = {}
+): SourcePassage[] {
+  const { maxTokens = 2500, passageTokens = 300 } = options;
+  const candidates = sources.flatMap((source, sourceIndex) =>
+    splitTextByTokens(source.content, passageTokens).map((text, passageIndex) => ({
+      source,
+      text,
+      order: [sourceIndex, passageIndex],
+    }))
+  );
+  if (candidates.length === 0) return [];
+
+  const index = buildBm25Index(candidates.map(candidate => `${candidate.source.title}\n${candidate.text}`));
+  const scores = scoreBm25(index, tokenize(query), DEFAULT_RETRIEVAL_OPTIONS.k1, DEFAULT_RETRIEVAL_OPTIONS.b);
+  let ranked = candidates
+    .map((candidate, candidateIndex) => ({ ...candidate, score: scores[candidateIndex] }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) {
+    ranked = candidates.filter(candidate => candidate.order[1] === 0).map(candidate => ({ ...candidate, score: 0 }));
+  }
+
+  const selected: typeof ranked = [];
+  let total = 0;
+  ranked.forEach(candidate => {
+    const tokens = estimateTokens(candidate.text);
+    if (total + tokens > maxTokens) return;
+    selected.push(candidate);
+    total += tokens;
+  });
+
+  return selected
+    .sort((a, b) => a.order[0] - b.order[0] || a.order[1] - b.order[1])
+    .map(({ source, text, score }) => ({ sourceId: source.sourceId, title: source.title, url: source.url, text, score }));
+}
+
+// 抜粋を出典IDごとにまとめ、プロンプトに入れるテキストにする
+export function formatSourcePassages(passages: SourcePassage[]): string {
+  const groups = new Map<string, SourcePassage[]>();
+  passages.forEach(passage => groups.set(passage.sourceId, [...(groups.get(passage.sourceId) ?? []), passage]));
+  return [...groups.values()]
+    .map(group => {
+      const { sourceId, title, url } = group[0];
+      const header = url ? `[${sourceId}] ${title}（${url}）` : `[${sourceId}] ${title}`;
+      return `${header}\n${group.map(passage => passage.text).join('\n…\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * 生成した記事に出典の一覧を付ける（本文・FAQで参照されている出典のみ、出典ID順）。
+ * 参照がない場合は一覧を付けない。
+ */
+export function withSources(article: GeneratedArticle, sources: Pick<SourceDocument, 'sourceId' | 'title' | 'url'>[]): GeneratedArticle {
+  const cited = new Set(extractCitations(articleToPlainText(article)));
+  const articleSources: ArticleSource[] = sources
+    .filter(source => cited.has(source.sourceId))
+    .map(source => ({ id: source.sourceId, title: source.title, ...(source.url ? { url: source.url } : {}) }));
+  return articleSources.length > 0 ? { ...article, sources: articleSources } : article;
+}
+
+/**
+ * 記事の主張を検証する（エクスポート・投稿の前の確認に使用）。
+ * projectId を指定するとプロジェクトの参考資料の本文と照合し、省略時は記事の出典IDの有無だけを確認する。
+ * ブランドの組織名は自社として一般的な記述とみなす。
+ */
+export async function verifyArticleClaims(article: GeneratedArticle, brand: BrandSettings, projectId?: string): Promise<ClaimReport> {
+  const sources = projectId
+    ? (await listSourcesByProject(projectId)).map(source => ({ sourceId: source.sourceId, content: source.content }))
+    : undefined;
+  return verifyClaims(article, { sources, knownOrganizations: [brand.organizationName] });
+}
+
+function claimPath({ sectionIndex, subheadingIndex, faqIndex }: ClaimLocation): string {
+  if (faqIndex !== undefined) return `$.faq[${faqIndex}].answer`;
+  return subheadingIndex === undefined
+    ? `$.sections[${sectionIndex}].content`
+    : `$.sections[${sectionIndex}].subheadings[${subheadingIndex}].content`;
+}
+
+/**
+ * 参考資料を渡した記事生成の出力の検証（generateStructured の validate に渡す）。
+ * エクスポート前の確認と同じ基準で本文の主張を判定し、出典IDのない数値・組織名・事例や、
+ * 参考資料で確認できない引用を修復リトライで直させる。
+ */
+export function createCitationValidator(sources: Pick<SourceDocument, 'sourceId' | 'content'>[], brand: BrandSettings) {
+  const claimSources = sources.map(({ sourceId, content }) => ({ sourceId, content }));
+
+  return (value: unknown): ValidationIssue[] => {
+    const article = value as GeneratedArticle;
+    const report = verifyClaims(
+      { ...article, acceptedClaims: undefined },
+      { sources: claimSources, knownOrganizations: [brand.organizationName] }
+    );
+    return report.unresolved.map(claim => ({
+      path: claimPath(claim.location),
+      message: `「${claim.text}」: ${claim.reason}。参考資料にある数値・事例だけを使って文末に出典ID（例: [S1]）を付けるか、出典の不要な一般的な説明に書き換えてください`,
+    }));
+  };
+}
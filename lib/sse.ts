@@ -0,0 +1,105 @@
+// Server-Sent Events（SSE）の送受信ヘルパー
+// サーバー（APIルート、LLMプロバイダー）とクライアント（page.tsx）の双方から利用する
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// 1イベント分のSSEフレームを組み立てる
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  // リバースプロキシでのバッファリングを無効化
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * イベント送信関数を受け取るハンドラーからSSEのReadableStreamを作成する。
+ * ハンドラーが完了（または例外で終了）した時点でストリームを閉じる。
+ * クライアントが切断した後の送信は無視する（閉じたストリームへの書き込みは例外になるため）。
+ */
+export function createSSEStream(
+  handler: (send: (event: string, data: unknown) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        }
+      };
+      try {
+        await handler(send);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) {
+      continue; // コメント行
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+}
+
+/**
+ * SSEのバイトストリームを読み取り、イベント単位で返す。
+ */
+export async function* readServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      // チャンクの境界で \r\n が分かれることがあるため、末尾の \r は次のチャンクを待ってから改行にする
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n|\r(?!$)/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) {
+          yield parsed;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    const rest = parseEventBlock(buffer.replace(/\r/g, '\n').trim());
+    if (rest) {
+      yield rest;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
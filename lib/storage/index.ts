@@ -0,0 +1,136 @@
+import { DEFAULT_BRAND, ResolvedBrand } from '@/lib/brand';
+import {
+  ArticleRevision,
+  ArticleRevisionSummary,
+  BrandProfile,
+  BulkJob,
+  GeneratedArticle,
+  Project,
+  PromptTemplate,
+  RevisionReason,
+  SourceDocument,
+  StoredArticle,
+  WordPressSite,
+} from '@/lib/types';
+import { createJsonStore } from './json-store';
+
+export { getDataDir } from './json-store';
+export type { JsonStore } from './json-store';
+
+export const projectStore = createJsonStore<Project>('projects');
+export const articleStore = createJsonStore<StoredArticle>('articles');
+export const revisionStore = createJsonStore<ArticleRevision>('revisions');
+export const jobStore = createJsonStore<BulkJob>('jobs');
+export const promptTemplateStore = createJsonStore<PromptTemplate>('prompt-templates');
+export const brandProfileStore = createJsonStore<BrandProfile>('brand-profiles');
+export const wordpressSiteStore = createJsonStore<WordPressSite>('wordpress-sites');
+export const sourceDocumentStore = createJsonStore<SourceDocument>('sources');
+
+export async function listArticlesByProject(projectId: string): Promise<StoredArticle[]> {
+  const articles = await articleStore.list();
+  return articles.filter(article => article.projectId === projectId);
+}
+
+// プロジェクトの参考資料を出典IDの順に返す
+export async function listSourcesByProject(projectId: string): Promise<SourceDocument[]> {
+  const sources = await sourceDocumentStore.list();
+  return sources
+    .filter(source => source.projectId === projectId)
+    .sort((a, b) => Number(a.sourceId.slice(1)) - Number(b.sourceId.slice(1)));
+}
+
+// 記事の版を新しい順に返す
+export async function listRevisions(articleId: string): Promise<ArticleRevision[]> {
+  const revisions = await revisionStore.list();
+  return revisions
+    .filter(revision => revision.articleId === articleId)
+    .sort((a, b) => b.revisionNumber - a.revisionNumber);
+}
+
+export function toRevisionSummary(revision: ArticleRevision): ArticleRevisionSummary {
+  const { id, articleId, revisionNumber, reason, note, createdAt, updatedAt } = revision;
+  return { id, articleId, revisionNumber, reason, note, createdAt, updatedAt };
+}
+
+// キーごとの処理を直列化するためのキュー
+const keyedQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * 同じキーの処理を順番に実行する。
+ * 読み込みから書き込みまでを1つの処理にまとめることで、同時に更新しても他の処理の変更を上書きしないようにする。
+ */
+export function serializeByKey<R>(key: string, operation: () => Promise<R>): Promise<R> {
+  const result = (keyedQueues.get(key) ?? Promise.resolve()).then(operation, operation);
+  const settled = result.catch(() => undefined);
+  keyedQueues.set(key, settled);
+  // 後続の処理がなければキューを片付ける
+  settled.then(() => {
+    if (keyedQueues.get(key) === settled) {
+      keyedQueues.delete(key);
+    }
+  });
+  return result;
+}
+
+// 記事の現在の内容を新しい版として記録する（記事ごとに直列化し、同時に記録しても版番号が重複しないようにする）
+export function recordRevision(
+  articleId: string,
+  article: GeneratedArticle,
+  reason: RevisionReason,
+  note?: string
+): Promise<ArticleRevision> {
+  return serializeByKey(`revisions:${articleId}`, async () => {
+    const [latest] = await listRevisions(articleId);
+    return revisionStore.create({
+      articleId,
+      revisionNumber: (latest?.revisionNumber || 0) + 1,
+      reason,
+      note,
+      article,
+    });
+  });
+}
+
+// 記事と、その記事のすべての版をまとめて削除する
+export async function deleteArticleWithRevisions(articleId: string): Promise<boolean> {
+  const revisions = await listRevisions(articleId);
+  await Promise.all(revisions.map(revision => revisionStore.delete(revision.id)));
+  return articleStore.delete(articleId);
+}
+
+// プロジェクトと、そのプロジェクトに属する記事・参考資料をまとめて削除する
+export async function deleteProjectWithArticles(projectId: string): Promise<boolean> {
+  const [articles, sources] = await Promise.all([listArticlesByProject(projectId), listSourcesByProject(projectId)]);
+  await Promise.all(articles.map(article => deleteArticleWithRevisions(article.id)));
+  await Promise.all(sources.map(source => sourceDocumentStore.delete(source.id)));
+  return projectStore.delete(projectId);
+}
+
+/**
+ * 生成・エクスポートに使用するブランドを返す。
+ * ID の指定がなければ既定のプロファイル、それもなければ組み込みの既定ブランドを返す。
+ * 指定されたプロファイルが存在しない場合は null を返す。
+ */
+export async function resolveBrandProfile(id?: string): Promise<ResolvedBrand | null> {
+  if (id) {
+    return brandProfileStore.get(id);
+  }
+  const profiles = await brandProfileStore.list();
+  return profiles.find(profile => profile.isDefault) ?? DEFAULT_BRAND;
+}
+
+// 記事のブランドを返す（記事のプロファイルが削除されている場合は既定のブランド）
+export async function resolveArticleBrand(article: GeneratedArticle): Promise<ResolvedBrand> {
+  return (article.brandProfileId && await resolveBrandProfile(article.brandProfileId))
+    || await resolveBrandProfile()
+    || DEFAULT_BRAND;
+}
+
+// 指定したプロファイルを既定にし、他のプロファイルの既定を解除する
+export async function setDefaultBrandProfile(id: string): Promise<void> {
+  const profiles = await brandProfileStore.list();
+  await Promise.all(profiles
+    .filter(profile => profile.isDefault && profile.id !== id)
+    .map(profile => brandProfileStore.update(profile.id, { isDefault: false })));
+  await brandProfileStore.update(id, { isDefault: true });
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// 保存先ディレクトリ（LLMO_DATA_DIR で変更可能）
+export function getDataDir(): string {
+  return process.env.LLMO_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 作成・更新時にストアが付与するフィールド
+type SystemFields = keyof StoredRecord;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface JsonStore<T extends StoredRecord> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  create(data: Omit<T, SystemFields>): Promise<T>;
+  update(id: string, changes: Partial<Omit<T, SystemFields>>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * 1レコード1ファイルのJSONファイルストアを作成する。
+ * data/<collection>/<id>.json に保存し、書き込みは一時ファイル経由のリネームで原子的に行う。
+ */
+export function createJsonStore<T extends StoredRecord>(collection: string): JsonStore<T> {
+  // 同一コレクションへの書き込みを直列化するためのキュー
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const getDir = () => path.join(getDataDir(), collection);
+
+  const filePath = (id: string) => {
+    // パストラバーサルを防ぐため、IDの形式を検証する
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`不正なIDです: ${id}`);
+    }
+    return path.join(getDir(), `${id}.json`);
+  };
+
+  function serialize<R>(operation: () => Promise<R>): Promise<R> {
+    const result = writeQueue.then(operation, operation);
+    writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async function writeRecord(record: T): Promise<void> {
+    await fs.mkdir(getDir(), { recursive: true });
+    const target = filePath(record.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async function get(id: string): Promise<T | null> {
+    if (!ID_PATTERN.test(id)) {
+      return null;
+    }
+    try {
+      const content = await fs.readFile(filePath(id), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    get,
+
+    async list(): Promise<T[]> {
+      let files: string[];
+      try {
+        files = await fs.readdir(getDir());
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+
+      const records: (T | null)[] = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(file => get(file.slice(0, -'.json'.length)))
+      );
+      return records
+        .filter((record): record is T => record !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    create(data: Omit<T, SystemFields>): Promise<T> {
+      return serialize(async () => {
+        const now = new Date().toISOString();
+        const record = { ...data, id: randomUUID(), createdAt: now, updatedAt: now } as T;
+        await writeRecord(record);
+        return record;
+      });
+    },
+
+    update(id: string, changes: Partial<Omit<T, SystemFields>>): Promise<T | null> {
+      return serialize(async () => {
+        const current = await get(id);
+        if (!current) {
+          return null;
+        }
+        const record = { ...current, ...changes, id, createdAt: current.createdAt, updatedAt: new Date().toISOString() } as T;
+        await writeRecord(record);
+        return record;
+      });
+    },
+
+    delete(id: string): Promise<boolean> {
+      return serialize(async () => {
+        try {
+          await fs.unlink(filePath(id));
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return false;
+          }
+          throw error;
+        }
+      });
+    },
+  };
+}
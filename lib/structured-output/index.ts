@@ -0,0 +1,144 @@
+import { ChatMessage, generateCompletion, LLMStage, ResponseSchema } from '@/lib/llm';
+import { formatValidationIssues, validateAgainstSchema, ValidationIssue } from './validate';
+
+export {
+  titlesSchema,
+  subheadingSchema,
+  sectionSchema,
+  articleSchema,
+  sectionRewriteSchema,
+  subheadingRewriteSchema,
+  seoMetadataSchema,
+  optimizedArticleSchema,
+  faqSchema,
+} from './schemas';
+export { validateAgainstSchema, formatValidationIssues } from './validate';
+export { parsePartialJson } from './partial';
+export type { ValidationIssue } from './validate';
+
+// 検証失敗時に再プロンプトする回数のデフォルト
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// 修復リトライを含めても妥当な出力が得られなかったことを表すエラー
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[], public readonly lastResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// LLMの応答からJSONを抽出するヘルパー関数
+export function extractJsonFromResponse(response: string): string {
+  try {
+    // まずそのままJSONとしてパースを試行
+    JSON.parse(response.trim());
+    return response.trim();
+  } catch {
+    // 失敗した場合、各種パターンを試行
+  }
+
+  // ```json と ``` で囲まれたJSONを抽出
+  const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
+  if (jsonMatch) {
+    return jsonMatch[1].trim();
+  }
+
+  // ``` で囲まれたJSONを抽出（言語指定なし）
+  const codeBlockMatch = response.match(/```\s*([\s\S]*?)\s*```/);
+  if (codeBlockMatch) {
+    const content = codeBlockMatch[1].trim();
+    if (content.startsWith('{') && content.endsWith('}')) {
+      return content;
+    }
+  }
+
+  // { で始まり } で終わるJSONを抽出
+  const jsonStart = response.indexOf('{');
+  const jsonEnd = response.lastIndexOf('}');
+  if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
+    return response.substring(jsonStart, jsonEnd + 1);
+  }
+
+  // 最後の手段：そのまま返す
+  return response.trim();
+}
+
+// 応答文字列をパースしてスキーマ検証する
+function parseAndValidate(response: string, responseSchema: ResponseSchema): { value?: unknown; issues: ValidationIssue[] } {
+  const cleanJsonString = extractJsonFromResponse(response);
+  let value: unknown;
+  try {
+    value = JSON.parse(cleanJsonString);
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : 'Unknown error';
+    return { issues: [{ path: '$', message: `JSONとして解析できません: ${message}` }] };
+  }
+  return { value, issues: validateAgainstSchema(value, responseSchema.schema) };
+}
+
+function buildRepairPrompt(issues: ValidationIssue[]): string {
+  return `直前の出力は指定されたJSONスキーマまたは出力要件を満たしていません。以下の検証エラーをすべて修正し、修正後のJSON全体のみを出力してください（コードブロックや説明文は不要です）：
+
+${formatValidationIssues(issues)}`;
+}
+
+function getMaxRepairAttempts(): number {
+  const value = Number(process.env.LLM_MAX_REPAIR_ATTEMPTS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+export interface StructuredCompletionOptions {
+  messages: ChatMessage[];
+  schema: ResponseSchema;
+  temperature?: number;
+  maxTokens?: number;
+  maxRepairAttempts?: number;
+  // ストリーミング等で取得済みの初回応答（指定時は初回の呼び出しを省略して検証から始める）
+  initialResponse?: string;
+  // スキーマ検証を通過した値に対する追加の検証（違反があればスキーマ違反と同様に修復リトライする）
+  validate?: (value: unknown) => ValidationIssue[];
+}
+
+/**
+ * スキーマで検証された構造化出力を生成する。
+ *
+ * プロバイダーが対応していればネイティブの構造化出力機能でスキーマを強制し、
+ * 検証に失敗した場合は検証エラーを添えて再プロンプトする（最大 maxRepairAttempts 回）。
+ * validate を指定すると、スキーマでは表現できない内容上の要件も同じ仕組みで検証・修復する。
+ */
+export async function generateStructured<T>(stage: LLMStage, options: StructuredCompletionOptions): Promise<T> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? getMaxRepairAttempts();
+  const messages: ChatMessage[] = [...options.messages];
+  let lastIssues: ValidationIssue[] = [];
+  let lastResponse = '';
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    lastResponse = attempt === 0 && options.initialResponse !== undefined
+      ? options.initialResponse
+      : await generateCompletion(stage, {
+          messages,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          responseSchema: options.schema,
+        });
+
+    const { value, issues: schemaIssues } = parseAndValidate(lastResponse, options.schema);
+    const issues = schemaIssues.length === 0 && options.validate ? options.validate(value) : schemaIssues;
+    if (issues.length === 0) {
+      return value as T;
+    }
+
+    lastIssues = issues;
+    console.warn(`構造化出力の検証に失敗しました（${options.schema.name}, 試行 ${attempt + 1}/${maxRepairAttempts + 1}）:\n${formatValidationIssues(issues)}`);
+    messages.push(
+      { role: 'assistant', content: lastResponse },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `${options.schema.name} の出力がスキーマ検証を通過しませんでした`,
+    lastIssues,
+    lastResponse
+  );
+}
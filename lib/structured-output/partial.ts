@@ -0,0 +1,96 @@
+interface Frame {
+  type: '{' | '[';
+  // オブジェクト内で次に来るのがキーかどうか
+  expectKey: boolean;
+}
+
+/**
+ * ストリーミング途中の不完全なJSON文字列を、現時点で確定している範囲でパースする。
+ *
+ * 未完了の文字列は閉じ、値が始まっていないキーは取り除き、開いている括弧を補完する。
+ * パースできない場合は undefined を返す。
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  // 値がまだ始まっていないキーを取り除く際の切り詰め位置
+  let keyCutPosition = -1;
+  let pendingKeyCut = -1;
+  let end = text.length;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        pendingKeyCut = stringIsKey ? keyCutPosition : -1;
+      }
+      continue;
+    }
+
+    const frame = stack[stack.length - 1];
+    if (char === '"') {
+      inString = true;
+      stringIsKey = !!frame && frame.type === '{' && frame.expectKey;
+      if (stringIsKey) {
+        // 直前のカンマごと取り除けるよう、カンマの位置を切り詰め位置とする
+        const before = text.slice(start, i).trimEnd();
+        keyCutPosition = before.endsWith(',') ? start + before.length - 1 : i;
+      } else {
+        pendingKeyCut = -1;
+      }
+    } else if (char === '{' || char === '[') {
+      stack.push({ type: char, expectKey: char === '{' });
+      pendingKeyCut = -1;
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      pendingKeyCut = -1;
+      if (stack.length === 0) {
+        end = i + 1;
+        break;
+      }
+    } else if (char === ':') {
+      if (frame) frame.expectKey = false;
+    } else if (char === ',') {
+      if (frame && frame.type === '{') frame.expectKey = true;
+    } else if (!/\s/.test(char)) {
+      pendingKeyCut = -1;
+    }
+  }
+
+  let candidate: string;
+  if (stack.length === 0) {
+    candidate = text.slice(start, end);
+  } else if (inString && stringIsKey) {
+    candidate = text.slice(start, keyCutPosition);
+  } else if (inString) {
+    candidate = text.slice(start, escaped ? end - 1 : end) + '"';
+  } else if (pendingKeyCut !== -1) {
+    candidate = text.slice(start, pendingKeyCut);
+  } else {
+    candidate = text.slice(start, end);
+  }
+
+  candidate = candidate.replace(/[\s,]+$/, '');
+  for (let i = stack.length - 1; i >= 0; i--) {
+    candidate += stack[i].type === '{' ? '}' : ']';
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,189 @@
+import type { JsonSchema, ResponseSchema } from '@/lib/llm';
+
+// LLMに出力させるJSONのスキーマ定義
+// OpenAIのstrictモードに合わせ、全オブジェクトで全プロパティを required とし
+// additionalProperties: false を指定している。
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+
+export const titlesSchema: ResponseSchema = {
+  name: 'generated_titles',
+  schema: {
+    type: 'object',
+    properties: {
+      titles: {
+        type: 'array',
+        minItems: 5,
+        maxItems: 10,
+        items: {
+          type: 'object',
+          properties: {
+            title: nonEmptyString,
+            description: nonEmptyString,
+          },
+          required: ['title', 'description'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['titles'],
+    additionalProperties: false,
+  },
+};
+
+export const subheadingSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: nonEmptyString,
+    content: nonEmptyString,
+  },
+  required: ['title', 'content'],
+  additionalProperties: false,
+};
+
+export const sectionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    heading: nonEmptyString,
+    content: nonEmptyString,
+    subheadings: {
+      type: 'array',
+      items: subheadingSchema,
+    },
+  },
+  required: ['heading', 'content', 'subheadings'],
+  additionalProperties: false,
+};
+
+export const articleSchema: ResponseSchema = {
+  name: 'generated_article',
+  schema: {
+    type: 'object',
+    properties: {
+      title: nonEmptyString,
+      sections: {
+        type: 'array',
+        minItems: 1,
+        items: sectionSchema,
+      },
+    },
+    required: ['title', 'sections'],
+    additionalProperties: false,
+  },
+};
+
+const stringArray: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: nonEmptyString,
+};
+
+// 単一セクション・サブセクションの書き換え用
+export const sectionRewriteSchema: ResponseSchema = {
+  name: 'article_section',
+  schema: sectionSchema,
+};
+
+export const subheadingRewriteSchema: ResponseSchema = {
+  name: 'article_subheading',
+  schema: subheadingSchema,
+};
+
+export const faqSchema: ResponseSchema = {
+  name: 'article_faq',
+  schema: {
+    type: 'object',
+    properties: {
+      faq: {
+        type: 'array',
+        minItems: 5,
+        maxItems: 10,
+        items: {
+          type: 'object',
+          properties: {
+            question: nonEmptyString,
+            answer: nonEmptyString,
+          },
+          required: ['question', 'answer'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['faq'],
+    additionalProperties: false,
+  },
+};
+
+export const seoMetadataSchema: ResponseSchema = {
+  name: 'seo_metadata',
+  schema: {
+    type: 'object',
+    properties: {
+      title: nonEmptyString,
+      description: nonEmptyString,
+      keywords: stringArray,
+      ogTitle: nonEmptyString,
+      ogDescription: nonEmptyString,
+      twitterTitle: nonEmptyString,
+      twitterDescription: nonEmptyString,
+      metaRobots: nonEmptyString,
+      canonicalUrl: { type: 'string' },
+      structuredData: {
+        type: 'object',
+        properties: {
+          type: nonEmptyString,
+          name: nonEmptyString,
+          description: nonEmptyString,
+          author: nonEmptyString,
+          datePublished: nonEmptyString,
+          dateModified: nonEmptyString,
+          keywords: stringArray,
+        },
+        required: ['type', 'name', 'description', 'author', 'datePublished', 'dateModified', 'keywords'],
+        additionalProperties: false,
+      },
+    },
+    required: [
+      'title',
+      'description',
+      'keywords',
+      'ogTitle',
+      'ogDescription',
+      'twitterTitle',
+      'twitterDescription',
+      'metaRobots',
+      'canonicalUrl',
+      'structuredData',
+    ],
+    additionalProperties: false,
+  },
+};
+
+// 既存記事の最適化用（セクションごとに変更点の要約を併せて出力させる）
+export const optimizedArticleSchema: ResponseSchema = {
+  name: 'optimized_article',
+  schema: {
+    type: 'object',
+    properties: {
+      title: nonEmptyString,
+      sections: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            ...sectionSchema.properties,
+            changes: {
+              type: 'array',
+              items: nonEmptyString,
+            },
+          },
+          required: ['heading', 'content', 'subheadings', 'changes'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['title', 'sections'],
+    additionalProperties: false,
+  },
+};
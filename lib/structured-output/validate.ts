@@ -0,0 +1,85 @@
+import type { JsonSchema } from '@/lib/llm';
+
+export interface ValidationIssue {
+  // $.sections[2].content のようなJSONパス
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string, issues: ValidationIssue[]): void {
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path, message: `${schema.type} 型である必要があります（実際: ${typeOf(value)}）` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `次のいずれかである必要があります: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      issues.push({
+        path,
+        message: schema.minLength === 1 ? '空文字列は許可されていません' : `${schema.minLength}文字以上である必要があります`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `${schema.maxLength}文字以下である必要があります（実際: ${value.length}文字）` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `${schema.minItems}件以上の要素が必要です（実際: ${value.length}件）` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `${schema.maxItems}件以下である必要があります（実際: ${value.length}件）` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, `${path}[${index}]`, issues));
+    }
+  }
+
+  if (schema.type === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: '必須プロパティがありません' });
+      }
+    }
+    // 余分なプロパティは害がないため許容する（additionalProperties はプロバイダー向けの指定）
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        validateNode(record[key], propertySchema, `${path}.${key}`, issues);
+      }
+    }
+  }
+}
+
+/**
+ * JSON Schemaのサブセットで値を検証し、違反内容の一覧を返す（空配列なら妥当）。
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateNode(value, schema, '$', issues);
+  return issues;
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,393 @@
+// アプリケーション全体で共有するコンテンツの型定義
+// （APIルートとクライアントコンポーネントの双方から参照する）
+
+// 生成・エクスポートの対象言語
+// ja: 日本語 / en: 英語 / zh-Hans: 簡体字中国語 / zh-Hant: 繁体字中国語 / ko: 韓国語
+export type Locale = 'ja' | 'en' | 'zh-Hans' | 'zh-Hant' | 'ko';
+
+export interface GeneratedTitle {
+  id: string;
+  title: string;
+  description: string;
+}
+
+export interface ArticleSubheading {
+  title: string;
+  content: string;
+}
+
+export interface ArticleSection {
+  heading: string;
+  content: string;
+  subheadings?: ArticleSubheading[];
+}
+
+export interface SEOMetadata {
+  title: string;
+  description: string;
+  keywords: string[];
+  ogTitle: string;
+  ogDescription: string;
+  twitterTitle: string;
+  twitterDescription: string;
+  metaRobots: string;
+  canonicalUrl?: string;
+  structuredData?: {
+    type: string;
+    name: string;
+    description: string;
+    author: string;
+    datePublished: string;
+    dateModified: string;
+    keywords: string[];
+    // ブランドプロファイルから設定する（LLMの出力には含まれない）
+    authorDetails?: {
+      jobTitle?: string;
+      url?: string;
+      credentials?: string;
+    };
+    publisher?: {
+      name: string;
+      url?: string;
+      logo?: string;
+    };
+  };
+}
+
+// 記事末尾の「よくある質問」の1項目
+export interface FAQItem {
+  question: string;
+  answer: string;
+}
+
+export interface GeneratedArticle {
+  title: string;
+  sections: ArticleSection[];
+  // よくある質問（FAQPage の構造化データにも使用）
+  faq?: FAQItem[];
+  seoMetadata?: SEOMetadata;
+  // 記事の言語（未指定は日本語）
+  locale?: Locale;
+  // 生成に使用したプロンプトテンプレートの版
+  promptVersions?: PromptVersions;
+  // 生成・エクスポートに使用するブランドプロファイル（未指定は既定のプロファイル）
+  brandProfileId?: string;
+  // 本文で [S1] の形式で参照している出典（エクスポートの参考文献に使用）
+  sources?: ArticleSource[];
+  // 編集者が確認して承認した、根拠のない主張のID（承認されていない主張があるとエクスポートできない）
+  acceptedClaims?: string[];
+}
+
+// 記事に記録する出典（参考資料の本文は含めない）
+export interface ArticleSource {
+  // プロジェクト内の出典ID（例: S1）
+  id: string;
+  title: string;
+  url?: string;
+}
+
+// 記事生成ストリーミング（SSE）で送信されるイベント
+export type ArticleStreamEvent =
+  | { event: 'title'; data: { title: string } }
+  | { event: 'section_started'; data: { index: number; heading: string } }
+  | { event: 'section_content'; data: { index: number; content: string } }
+  | { event: 'subheadings'; data: { index: number; subheadings: ArticleSubheading[] } }
+  | { event: 'faq_started'; data: Record<string, never> }
+  | { event: 'faq_ready'; data: { faq: FAQItem[] } }
+  | { event: 'seo_started'; data: Record<string, never> }
+  | { event: 'seo_ready'; data: { seoMetadata: SEOMetadata } }
+  | { event: 'done'; data: { article: GeneratedArticle } }
+  | { event: 'error'; data: { error: string } };
+
+// 単一セクション・サブセクションの書き換え操作
+// - regenerate: 同じ見出しの役割で内容を作り直す
+// - expand: 情報を補強して詳しくする
+// - shorten: 要点を保って簡潔にする
+// - rewrite: 指示に従って書き直す
+export type RewriteAction = 'regenerate' | 'expand' | 'shorten' | 'rewrite';
+
+export interface RewriteTarget {
+  sectionIndex: number;
+  // 指定時は sections[sectionIndex].subheadings[subheadingIndex] を対象とする
+  subheadingIndex?: number;
+}
+
+// 既存記事の最適化（/api/optimize-article）で返すセクションごとの変更点
+export interface SectionChangeSummary {
+  sectionIndex: number;
+  // 最適化前の見出し
+  originalHeading: string;
+  heading: string;
+  // LLMが報告した変更点の要約
+  changes: string[];
+  // 最適化前との文字バイグラム類似度（0〜1）
+  similarity: number;
+}
+
+// 保存済みプロジェクト（キーワード単位の作業単位）
+export interface Project {
+  id: string;
+  keyword: string;
+  overview: string;
+  baseUrl?: string;
+  // 生成言語（未指定は日本語）
+  locale?: Locale;
+  brandProfileId?: string;
+  // 生成されたタイトル候補
+  titles: GeneratedTitle[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 参考資料の形式
+// - pdf: PDFから抽出したテキスト / markdown: Markdown / csv: 指標などのCSV / text: 社内の事例メモなどのテキスト
+export type SourceDocumentKind = 'pdf' | 'markdown' | 'csv' | 'text';
+
+// プロジェクトにアップロードした参考資料（記事生成で数値・事例の根拠として使う）
+export interface SourceDocument {
+  id: string;
+  projectId: string;
+  // 記事中で [S1] の形式で参照する出典ID（プロジェクト内の通し番号）
+  sourceId: string;
+  title: string;
+  kind: SourceDocumentKind;
+  content: string;
+  // 出典のURL（参考文献にリンクとして表示する）
+  url?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 一覧表示用（本文を含まない）
+export type SourceDocumentSummary = Omit<SourceDocument, 'content'> & { characters: number };
+
+// 保存済み記事
+export interface StoredArticle {
+  id: string;
+  projectId: string;
+  // 記事生成に使用したタイトル候補
+  selectedTitle: GeneratedTitle;
+  // SEOメタデータは article.seoMetadata に含まれる
+  article: GeneratedArticle;
+  // WordPressサイトへの投稿状況（サイトごとに1件）
+  wordpress?: WordPressPublication[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 版が作成された理由
+// - generated: 初回生成
+// - regenerated: 同じタイトルから記事全体を再生成
+// - rewrite: セクション・サブセクション単位の書き換え
+// - manual_edit: 手動編集
+// - seo_refresh: SEOメタデータの再生成
+// - faq_refresh: よくある質問の生成・再生成
+// - restore: 過去の版の復元
+// - imported: 既存コンテンツ（HTML・Markdown・URL）の取り込み
+// - optimized: 既存記事のLLMO最適化（記事全体の書き換え）
+export type RevisionReason =
+  | 'generated'
+  | 'regenerated'
+  | 'rewrite'
+  | 'manual_edit'
+  | 'seo_refresh'
+  | 'faq_refresh'
+  | 'restore'
+  | 'imported'
+  | 'optimized'
+  | 'claim_review';
+
+// 記事の版（変更のたびに記事全体のスナップショットを保存）
+export interface ArticleRevision {
+  id: string;
+  articleId: string;
+  // 記事ごとの通し番号（1から開始）
+  revisionNumber: number;
+  reason: RevisionReason;
+  note?: string;
+  article: GeneratedArticle;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 一覧表示用（スナップショット本体を含まない）
+export type ArticleRevisionSummary = Omit<ArticleRevision, 'article'>;
+
+// 一括生成ジョブ
+// - top: タイトル候補をスコアリングして最上位を採用 / first: 最初の候補を採用
+export type TitleSelectionStrategy = 'top' | 'first';
+
+export type BulkJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type BulkJobRowStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BulkJobOptions {
+  titleStrategy: TitleSelectionStrategy;
+  generateSEO: boolean;
+  // よくある質問も生成する（この項目の追加前に作成されたジョブでは未設定＝生成しない）
+  generateFAQ?: boolean;
+  // 同時に処理する行数
+  concurrency: number;
+  // 1行あたりの再試行回数（初回を含まない）
+  maxRetries: number;
+  // 生成言語（この項目の追加前に作成されたジョブでは未設定＝日本語）
+  locale?: Locale;
+  // 使用するプロンプトテンプレートの版（未指定は有効な版）
+  promptVersions?: PromptVersions;
+  brandProfileId?: string;
+}
+
+// CSVの1行分の入力と処理結果
+export interface BulkJobRow {
+  index: number;
+  keyword: string;
+  overview: string;
+  baseUrl?: string;
+  status: BulkJobRowStatus;
+  attempts: number;
+  error?: string;
+  selectedTitle?: GeneratedTitle;
+  // 生成結果はライブラリに保存される
+  projectId?: string;
+  articleId?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface BulkJob {
+  id: string;
+  name: string;
+  status: BulkJobStatus;
+  options: BulkJobOptions;
+  rows: BulkJobRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 行の状態ごとの件数（/api/jobs のレスポンスに付与）
+export type BulkJobProgress = Record<BulkJobRowStatus, number> & { total: number };
+
+// プロンプトテンプレート
+// - titles: タイトル生成 / article: 記事生成 / faq: よくある質問生成 / seo: SEOメタデータ生成 / rewrite: セクションの書き換え
+export type PromptTemplateName = 'titles' | 'article' | 'faq' | 'seo' | 'rewrite';
+
+// テンプレート名ごとの版番号
+export type PromptVersions = Partial<Record<PromptTemplateName, number>>;
+
+// テンプレートで使用できる変数
+export interface PromptVariableDefinition {
+  name: string;
+  label: string;
+  // テンプレートのどこかで必ず参照する必要がある
+  required: boolean;
+  // 入力値ではなく、言語設定などからシステムが計算する値
+  computed?: boolean;
+}
+
+// テンプレートの版（作成後は変更しない）
+export interface PromptTemplateVersion {
+  // 組み込みの版（1から順に）の次の番号から、管理画面で作成した版
+  version: number;
+  system: string;
+  user: string;
+  note?: string;
+  builtin?: boolean;
+  // 組み込みの版では未設定
+  createdAt?: string;
+}
+
+// 保存済みのプロンプトテンプレート（テンプレート名×言語ごとに1件）
+export interface PromptTemplate {
+  id: string;
+  name: PromptTemplateName;
+  locale: Locale;
+  // 版の指定がない生成で使用する版
+  activeVersion: number;
+  // 管理画面で作成した版（組み込みの版は含まない）
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// テンプレート一覧（/api/prompts）の1件
+export interface PromptTemplateSummary {
+  name: PromptTemplateName;
+  locale: Locale;
+  label: string;
+  activeVersion: number;
+  latestVersion: number;
+  updatedAt?: string;
+}
+
+// ブランドプロファイルの著者
+export interface BrandAuthor {
+  name: string;
+  // 肩書き（例: 「マーケティング部 部長」）
+  jobTitle?: string;
+  // 資格・経歴・実績（記事の経験・専門性の根拠としてプロンプトに渡す）
+  credentials?: string;
+  // 著者紹介ページのURL
+  url?: string;
+}
+
+// フッター・クレジットの表記方針
+// - full: 生成システム名・ブランド名・生成日時 / brand: ブランド名のみ / none: 表記しない
+export type AttributionPolicy = 'full' | 'brand' | 'none';
+
+// ブランドプロファイル（クライアント・媒体ごとの発信者情報）
+export interface BrandProfile {
+  id: string;
+  // 発信元の組織名（構造化データの publisher）
+  organizationName: string;
+  siteUrl?: string;
+  logoUrl?: string;
+  // サイトの説明（llms.txt の概要に使用）
+  siteDescription?: string;
+  // 先頭の著者を記事の著者として扱う
+  authors: BrandAuthor[];
+  // 文体・トーンの指針（タイトル・記事生成のプロンプトに渡す）
+  toneGuidelines?: string;
+  attribution: AttributionPolicy;
+  // フッターに追加する文言（著作権表示など）
+  footerText?: string;
+  // フッターの生成システム名のリンク先（省略時はリンクなし）
+  attributionUrl?: string;
+  // プロファイルの指定がない生成・エクスポートで使用する
+  isDefault?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// WordPressに送信するSEOメタデータの形式
+// - yoast: Yoast SEO / rankmath: Rank Math SEO / none: SEOメタデータを送信しない
+export type WordPressSEOPlugin = 'yoast' | 'rankmath' | 'none';
+
+// 記事の投稿先のWordPressサイト（REST API にアプリケーションパスワードで接続する）
+export interface WordPressSite {
+  id: string;
+  name: string;
+  // サイトのURL（REST API は <siteUrl>/wp-json/ 以下）
+  siteUrl: string;
+  username: string;
+  // ユーザープロフィール画面で発行したアプリケーションパスワード（APIの応答には含めない）
+  applicationPassword: string;
+  seoPlugin: WordPressSEOPlugin;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 一覧・取得APIで返すサイト情報
+export type WordPressSiteSummary = Omit<WordPressSite, 'applicationPassword'> & { hasApplicationPassword: boolean };
+
+// WordPressに投稿した記事の投稿ID（再投稿時は同じ投稿を更新する）
+export interface WordPressPublication {
+  siteId: string;
+  postId: number;
+  // WordPress側の投稿ステータス（draft / pending / publish など）
+  status: string;
+  link?: string;
+  // 管理画面の編集URL
+  editUrl: string;
+  // 最後に投稿・更新した日時
+  syncedAt: string;
+}
@@ -0,0 +1,91 @@
+import { citedSources } from '@/lib/article';
+import { BrandSettings } from '@/lib/brand';
+import { buildArticleAnchors, escapeHtml, linkCitations, sourceAnchor } from '@/lib/export';
+import { EXPORT_MESSAGES, ExportMessages, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle } from '@/lib/types';
+
+// ブロックのコメント区切り（属性はJSONで渡す）
+function block(name: string, html: string, attributes?: Record<string, unknown>): string {
+  const attributeJson = attributes ? ` ${JSON.stringify(attributes)}` : '';
+  return `<!-- wp:${name}${attributeJson} -->\n${html}\n<!-- /wp:${name} -->`;
+}
+
+// 見出しブロック（レベル2は既定値のため属性を省略する。アンカーは id 属性から読み取られる）
+function heading(text: string, level: 2 | 3, anchor: string): string {
+  return block('heading', `<h${level} class="wp-block-heading" id="${escapeHtml(anchor)}">${escapeHtml(text)}</h${level}>`, level === 2 ? undefined : { level });
+}
+
+function paragraph(html: string, small = false): string {
+  return small
+    ? block('paragraph', `<p class="has-small-font-size">${html}</p>`, { fontSize: 'small' })
+    : block('paragraph', `<p>${html}</p>`);
+}
+
+// 改行ごとに段落ブロックを分ける（HTMLエクスポートの <p> と同じ扱い。出典IDは参考文献へのリンクにする）
+function textParagraphs(text: string, sourceIds: Set<string>): string[] {
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => paragraph(linkCitations(escapeHtml(line), sourceIds)));
+}
+
+function linkHtml(text: string, url?: string): string {
+  return url ? `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>` : escapeHtml(text);
+}
+
+// ブランドのクレジット表記方針に沿ったフッターの各行（HTML）
+function footerLines(brand: BrandSettings, messages: ExportMessages): string[] {
+  const lines: string[] = [];
+  if (brand.attribution === 'full') {
+    lines.push(`<em>${messages.generatedBy(linkHtml(messages.systemName, brand.attributionUrl))}</em>`);
+  } else if (brand.attribution === 'brand') {
+    lines.push(linkHtml(brand.organizationName, brand.siteUrl));
+  }
+  if (brand.footerText) {
+    lines.push(escapeHtml(brand.footerText).replace(/\n/g, '<br>'));
+  }
+  return lines;
+}
+
+/**
+ * 記事本文をブロックエディター（Gutenberg）のブロックマークアップに変換する。
+ * 記事タイトルは投稿のタイトルになるため本文には含めず、セクションを見出し2、サブセクション・FAQの質問を見出し3にする。
+ */
+export function generateGutenbergBlocks(article: GeneratedArticle, brand: BrandSettings): string {
+  const messages = EXPORT_MESSAGES[resolveLocale(article.locale)];
+  const anchors = buildArticleAnchors(article, messages.faq, messages.references);
+  const sources = citedSources(article);
+  const sourceIds = new Set(sources.map(source => source.id));
+  const blocks: string[] = [];
+
+  article.sections.forEach((section, index) => {
+    blocks.push(heading(section.heading, 2, anchors.sections[index].id), ...textParagraphs(section.content, sourceIds));
+    section.subheadings?.forEach((sub, subIndex) => {
+      blocks.push(heading(sub.title, 3, anchors.sections[index].subheadings[subIndex]), ...textParagraphs(sub.content, sourceIds));
+    });
+  });
+
+  if (article.faq?.length && anchors.faq) {
+    const faqAnchors = anchors.faq;
+    blocks.push(heading(messages.faq, 2, faqAnchors.id));
+    article.faq.forEach((item, index) => {
+      blocks.push(heading(item.question, 3, faqAnchors.questions[index]), ...textParagraphs(item.answer, sourceIds));
+    });
+  }
+
+  // 参考文献（段落ブロックのアンカーは id 属性から読み取られる）
+  if (sources.length > 0 && anchors.references) {
+    blocks.push(heading(messages.references, 2, anchors.references));
+    sources.forEach((source) => {
+      blocks.push(block('paragraph', `<p id="${sourceAnchor(source.id)}">[${escapeHtml(source.id)}] ${linkHtml(source.title, source.url)}</p>`));
+    });
+  }
+
+  const footer = footerLines(brand, messages);
+  if (footer.length > 0) {
+    blocks.push(block('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>'));
+    blocks.push(...footer.map(line => paragraph(line, true)));
+  }
+
+  return blocks.join('\n\n');
+}
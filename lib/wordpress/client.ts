@@ -0,0 +1,130 @@
+import { WordPressPostMeta } from './meta';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+export class WordPressError extends Error {
+  // WordPressが返したHTTPステータス（接続できなかった場合は undefined）
+  readonly status?: number;
+  // WordPressのエラーコード（例: rest_cannot_create, rest_post_invalid_id）
+  readonly code?: string;
+
+  constructor(message: string, status?: number, code?: string) {
+    super(message);
+    this.name = 'WordPressError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface WordPressClientOptions {
+  // サイトのURL（テストではローカルのスタブサーバーのURLを指定する）
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+  // 省略時はグローバルの fetch
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+export type WordPressPostStatus = 'draft' | 'pending' | 'publish' | 'private' | 'future';
+
+// 投稿の作成・更新で送信する項目（/wp/v2/posts）
+export interface WordPressPostPayload {
+  title: string;
+  content: string;
+  excerpt?: string;
+  slug?: string;
+  // 更新時に省略すると、WordPress側のステータスを変更しない
+  status?: WordPressPostStatus;
+  meta?: WordPressPostMeta;
+}
+
+// REST API の応答のうち使用する項目
+export interface WordPressPost {
+  id: number;
+  status: string;
+  link: string;
+}
+
+export interface WordPressUser {
+  id: number;
+  name: string;
+}
+
+export interface WordPressClient {
+  // REST API のルート（<siteUrl>/wp-json/wp/v2）
+  apiBase: string;
+  getCurrentUser(): Promise<WordPressUser>;
+  createPost(payload: WordPressPostPayload): Promise<WordPressPost>;
+  updatePost(id: number, payload: WordPressPostPayload): Promise<WordPressPost>;
+  // 管理画面で投稿を編集するURL
+  editUrl(id: number): string;
+}
+
+/**
+ * WordPress REST API のクライアントを作成する。
+ * 認証はアプリケーションパスワードによるBasic認証（WordPress 5.6以降の標準機能）。
+ */
+export function createWordPressClient(options: WordPressClientOptions): WordPressClient {
+  const siteUrl = options.siteUrl.replace(/\/+$/, '');
+  const apiBase = `${siteUrl}/wp-json/wp/v2`;
+  const fetchImpl = options.fetch ?? fetch;
+  // アプリケーションパスワードは表示時の空白を含んでいても認証できるが、除いて送信する
+  const credentials = Buffer.from(`${options.username}:${options.applicationPassword.replace(/\s+/g, '')}`).toString('base64');
+
+  async function request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await fetchImpl(`${apiBase}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Accept': 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(options.timeoutMs ?? REQUEST_TIMEOUT_MS),
+    }).catch(error => {
+      throw new WordPressError(`WordPressに接続できませんでした: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      data = null;
+    }
+
+    if (!response.ok) {
+      // WordPressのエラー応答は { code, message, data: { status } }
+      const { code, message } = (data ?? {}) as { code?: string; message?: string };
+      throw new WordPressError(message || `WordPressがエラーを返しました (HTTP ${response.status})`, response.status, code);
+    }
+    if (data === null || typeof data !== 'object') {
+      throw new WordPressError('WordPressの応答がJSONではありません（REST API のURLを確認してください）', response.status);
+    }
+    return data as T;
+  }
+
+  const toPost = ({ id, status, link }: WordPressPost): WordPressPost => ({ id, status, link });
+
+  return {
+    apiBase,
+
+    async getCurrentUser() {
+      const { id, name } = await request<WordPressUser>('GET', '/users/me?context=edit');
+      return { id, name };
+    },
+
+    async createPost(payload) {
+      return toPost(await request<WordPressPost>('POST', '/posts', payload));
+    },
+
+    async updatePost(id, payload) {
+      return toPost(await request<WordPressPost>('POST', `/posts/${id}`, payload));
+    },
+
+    editUrl(id) {
+      return `${siteUrl}/wp-admin/post.php?post=${id}&action=edit`;
+    },
+  };
+}
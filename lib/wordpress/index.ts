@@ -0,0 +1,12 @@
+export { generateGutenbergBlocks } from './blocks';
+export { createWordPressClient, WordPressError } from './client';
+export type { WordPressClient, WordPressClientOptions, WordPressPost, WordPressPostPayload, WordPressPostStatus, WordPressUser } from './client';
+export { buildSEOPostMeta, isWordPressSEOPlugin, SEO_PLUGINS } from './meta';
+export type { WordPressPostMeta } from './meta';
+export { buildWordPressPost } from './post';
+export { findPublication, publishToWordPress, upsertPublication } from './publish';
+export type { PublishOptions } from './publish';
+export { normalizeWordPressSite, toWordPressSiteSummary } from './sites';
+export type { WordPressSiteSettings } from './sites';
+export { generateWXR } from './wxr';
+export type { WXRItem, WXROptions } from './wxr';
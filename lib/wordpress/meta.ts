@@ -0,0 +1,66 @@
+import { SEOMetadata, WordPressSEOPlugin } from '@/lib/types';
+
+// 投稿のカスタムフィールド（Rank Math の robots のように配列を値に持つものがある）
+export type WordPressPostMeta = Record<string, string | string[]>;
+
+export const SEO_PLUGINS: WordPressSEOPlugin[] = ['yoast', 'rankmath', 'none'];
+
+export function isWordPressSEOPlugin(value: unknown): value is WordPressSEOPlugin {
+  return typeof value === 'string' && (SEO_PLUGINS as string[]).includes(value);
+}
+
+// meta robots（例: "noindex, follow"）の指定
+function parseRobots(metaRobots: string): { noindex: boolean; nofollow: boolean } {
+  const directives = metaRobots.toLowerCase().split(',').map(directive => directive.trim());
+  return { noindex: directives.includes('noindex'), nofollow: directives.includes('nofollow') };
+}
+
+function yoastMeta(seo: SEOMetadata): WordPressPostMeta {
+  const robots = parseRobots(seo.metaRobots);
+  return {
+    _yoast_wpseo_title: seo.title,
+    _yoast_wpseo_metadesc: seo.description,
+    // Yoast SEO（無料版）のフォーカスキーフレーズは1つのみ
+    ...(seo.keywords[0] && { _yoast_wpseo_focuskw: seo.keywords[0] }),
+    ...(seo.canonicalUrl && { _yoast_wpseo_canonical: seo.canonicalUrl }),
+    '_yoast_wpseo_opengraph-title': seo.ogTitle,
+    '_yoast_wpseo_opengraph-description': seo.ogDescription,
+    '_yoast_wpseo_twitter-title': seo.twitterTitle,
+    '_yoast_wpseo_twitter-description': seo.twitterDescription,
+    // 未設定（サイトの既定）のままにする場合は送信しない
+    ...(robots.noindex && { '_yoast_wpseo_meta-robots-noindex': '1' }),
+    ...(robots.nofollow && { '_yoast_wpseo_meta-robots-nofollow': '1' }),
+  };
+}
+
+function rankMathMeta(seo: SEOMetadata): WordPressPostMeta {
+  const robots = parseRobots(seo.metaRobots);
+  return {
+    rank_math_title: seo.title,
+    rank_math_description: seo.description,
+    // 複数のフォーカスキーワードはカンマ区切り（先頭が主キーワード）
+    ...(seo.keywords.length > 0 && { rank_math_focus_keyword: seo.keywords.join(',') }),
+    ...(seo.canonicalUrl && { rank_math_canonical_url: seo.canonicalUrl }),
+    rank_math_facebook_title: seo.ogTitle,
+    rank_math_facebook_description: seo.ogDescription,
+    // OGPと異なるTwitterの値を使用する
+    rank_math_twitter_use_facebook: 'off',
+    rank_math_twitter_title: seo.twitterTitle,
+    rank_math_twitter_description: seo.twitterDescription,
+    rank_math_robots: [robots.noindex ? 'noindex' : 'index', ...(robots.nofollow ? ['nofollow'] : [])],
+  };
+}
+
+/**
+ * SEOメタデータをSEOプラグインのカスタムフィールド（投稿メタ）に対応付ける。
+ */
+export function buildSEOPostMeta(seo: SEOMetadata, plugin: WordPressSEOPlugin): WordPressPostMeta {
+  switch (plugin) {
+    case 'yoast':
+      return yoastMeta(seo);
+    case 'rankmath':
+      return rankMathMeta(seo);
+    case 'none':
+      return {};
+  }
+}
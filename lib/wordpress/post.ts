@@ -0,0 +1,22 @@
+import { BrandSettings } from '@/lib/brand';
+import { slugFromCanonicalUrl } from '@/lib/export';
+import { GeneratedArticle, WordPressSEOPlugin } from '@/lib/types';
+import { generateGutenbergBlocks } from './blocks';
+import { WordPressPostPayload } from './client';
+import { buildSEOPostMeta } from './meta';
+
+/**
+ * 記事をWordPressの投稿の内容（タイトル・ブロック本文・抜粋・スラッグ・SEOメタ）に変換する。
+ * ステータスは含めない（新規作成時と更新時で扱いが異なるため、呼び出し側で指定する）。
+ */
+export function buildWordPressPost(article: GeneratedArticle, brand: BrandSettings, seoPlugin: WordPressSEOPlugin): WordPressPostPayload {
+  const seo = article.seoMetadata;
+  const slug = slugFromCanonicalUrl(seo?.canonicalUrl);
+  return {
+    title: article.title,
+    content: generateGutenbergBlocks(article, brand),
+    ...(seo && { excerpt: seo.description }),
+    ...(slug && { slug }),
+    ...(seo && seoPlugin !== 'none' && { meta: buildSEOPostMeta(seo, seoPlugin) }),
+  };
+}
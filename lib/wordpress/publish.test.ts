@@ -0,0 +1,262 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_BRAND } from '@/lib/brand';
+import { SEOMetadata, StoredArticle, WordPressSEOPlugin, WordPressSite } from '@/lib/types';
+import { createWordPressClient, WordPressError } from './client';
+import { publishToWordPress } from './publish';
+
+const USERNAME = 'editor';
+const APPLICATION_PASSWORD = 'abcd efgh ijkl mnop';
+const AUTHORIZATION = `Basic ${Buffer.from(`${USERNAME}:abcdefghijklmnop`).toString('base64')}`;
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  body: Record<string, unknown> | null;
+}
+
+// WordPress REST API（/wp-json/wp/v2）のスタブ。投稿はメモリ上に保存する
+let server: Server;
+let siteUrl: string;
+let requests: RecordedRequest[];
+let posts: Map<number, Record<string, unknown>>;
+let nextId: number;
+
+function readBody(request: IncomingMessage): Promise<Record<string, unknown> | null> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    request.setEncoding('utf-8');
+    request.on('data', chunk => { text += chunk; });
+    request.on('end', () => resolve(text ? JSON.parse(text) : null));
+    request.on('error', reject);
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const path = request.url ?? '';
+    const body = await readBody(request);
+    requests.push({ method: request.method ?? '', path, body });
+    const send = (status: number, data: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(data));
+    };
+
+    if (request.headers.authorization !== AUTHORIZATION) {
+      send(401, { code: 'incorrect_password', message: 'パスワードが正しくありません。', data: { status: 401 } });
+      return;
+    }
+    if (request.method === 'GET' && path === '/wp-json/wp/v2/users/me?context=edit') {
+      send(200, { id: 1, name: '編集者', capabilities: {} });
+      return;
+    }
+    if (request.method === 'POST' && path === '/wp-json/wp/v2/posts') {
+      const id = nextId++;
+      const post = { ...body, id, link: `${siteUrl}/?p=${id}` };
+      posts.set(id, post);
+      send(201, post);
+      return;
+    }
+    const update = /^\/wp-json\/wp\/v2\/posts\/(\d+)$/.exec(path);
+    if (request.method === 'POST' && update) {
+      const existing = posts.get(Number(update[1]));
+      if (!existing) {
+        send(404, { code: 'rest_post_invalid_id', message: '無効な投稿 ID。', data: { status: 404 } });
+        return;
+      }
+      const post = { ...existing, ...body };
+      posts.set(Number(update[1]), post);
+      send(200, post);
+      return;
+    }
+    send(404, { code: 'rest_no_route', message: 'URL とリクエストメソッドに一致するルートがありません。', data: { status: 404 } });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  siteUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  posts = new Map();
+  nextId = 100;
+});
+
+const SEO: SEOMetadata = {
+  title: 'AI検索対策の基本 | サンプル',
+  description: 'AI検索に引用される記事の書き方を解説します。',
+  keywords: ['AI検索', 'LLMO'],
+  ogTitle: 'AI検索対策の基本',
+  ogDescription: 'AI検索に引用される記事の書き方',
+  twitterTitle: 'AI検索対策の基本（Twitter）',
+  twitterDescription: '記事の書き方を解説',
+  metaRobots: 'noindex, follow',
+  canonicalUrl: 'https://example.com/blog/ai-search',
+};
+
+function site(seoPlugin: WordPressSEOPlugin = 'yoast', overrides: Partial<WordPressSite> = {}): WordPressSite {
+  return {
+    id: 'site-1',
+    name: 'テストサイト',
+    siteUrl: `${siteUrl}/`,
+    username: USERNAME,
+    applicationPassword: APPLICATION_PASSWORD,
+    seoPlugin,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function stored(wordpress?: StoredArticle['wordpress']): StoredArticle {
+  return {
+    id: 'article-1',
+    projectId: 'project-1',
+    selectedTitle: { id: 'title-1', title: 'AI検索対策の基本', description: '' },
+    article: {
+      title: 'AI検索対策の基本',
+      sections: [{ heading: '結論を先に書く', content: '各セクションの冒頭で結論を述べます。' }],
+      seoMetadata: SEO,
+    },
+    wordpress,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('publishToWordPress', () => {
+  it('未投稿の記事は下書きとして新しく作成する', async () => {
+    const publication = await publishToWordPress(stored(), site(), { brand: DEFAULT_BRAND });
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST /wp-json/wp/v2/posts']);
+    const { body } = requests[0];
+    expect(body).toMatchObject({ title: 'AI検索対策の基本', status: 'draft', slug: 'ai-search', excerpt: SEO.description });
+    expect(body?.content).toContain('<!-- wp:heading -->');
+    expect(publication).toMatchObject({
+      siteId: 'site-1',
+      postId: 100,
+      status: 'draft',
+      link: `${siteUrl}/?p=100`,
+      editUrl: `${siteUrl}/wp-admin/post.php?post=100&action=edit`,
+    });
+  });
+
+  it('投稿済みの記事は記録した投稿を更新し、指定がなければステータスを変えない', async () => {
+    posts.set(42, { id: 42, status: 'publish', link: `${siteUrl}/?p=42` });
+    const publication = await publishToWordPress(
+      stored([{ siteId: 'site-1', postId: 42, status: 'publish', editUrl: '', syncedAt: '2026-01-01T00:00:00.000Z' }]),
+      site(),
+      { brand: DEFAULT_BRAND }
+    );
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual(['POST /wp-json/wp/v2/posts/42']);
+    expect(requests[0].body).not.toHaveProperty('status');
+    expect(publication).toMatchObject({ postId: 42, status: 'publish' });
+  });
+
+  it('更新時に指定したステータスは送信する', async () => {
+    posts.set(42, { id: 42, status: 'draft', link: '' });
+    const publication = await publishToWordPress(
+      stored([{ siteId: 'site-1', postId: 42, status: 'draft', editUrl: '', syncedAt: '2026-01-01T00:00:00.000Z' }]),
+      site(),
+      { brand: DEFAULT_BRAND, status: 'publish' }
+    );
+    expect(requests[0].body).toMatchObject({ status: 'publish' });
+    expect(publication.status).toBe('publish');
+    expect(publication.link).toBeUndefined();
+  });
+
+  it('WordPress側で削除された投稿（404）は新しく作成する', async () => {
+    const publication = await publishToWordPress(
+      stored([{ siteId: 'site-1', postId: 42, status: 'publish', editUrl: '', syncedAt: '2026-01-01T00:00:00.000Z' }]),
+      site(),
+      { brand: DEFAULT_BRAND }
+    );
+
+    expect(requests.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'POST /wp-json/wp/v2/posts/42',
+      'POST /wp-json/wp/v2/posts',
+    ]);
+    expect(requests[1].body).toMatchObject({ status: 'draft' });
+    expect(publication.postId).toBe(100);
+  });
+
+  it('別のサイトへの投稿記録は使わない', async () => {
+    await publishToWordPress(
+      stored([{ siteId: 'site-2', postId: 42, status: 'publish', editUrl: '', syncedAt: '2026-01-01T00:00:00.000Z' }]),
+      site(),
+      { brand: DEFAULT_BRAND }
+    );
+    expect(requests.map(({ path }) => path)).toEqual(['/wp-json/wp/v2/posts']);
+  });
+
+  it('認証に失敗した場合はステータスとエラーコード付きの WordPressError にし、作成にフォールバックしない', async () => {
+    const error = await publishToWordPress(
+      stored([{ siteId: 'site-1', postId: 42, status: 'publish', editUrl: '', syncedAt: '2026-01-01T00:00:00.000Z' }]),
+      site('yoast', { applicationPassword: 'wrong' }),
+      { brand: DEFAULT_BRAND }
+    ).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(WordPressError);
+    expect(error).toMatchObject({ status: 401, code: 'incorrect_password', message: 'パスワードが正しくありません。' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('Yoast SEO のカスタムフィールドを送信する', async () => {
+    await publishToWordPress(stored(), site('yoast'), { brand: DEFAULT_BRAND });
+    expect(requests[0].body?.meta).toEqual({
+      _yoast_wpseo_title: SEO.title,
+      _yoast_wpseo_metadesc: SEO.description,
+      _yoast_wpseo_focuskw: 'AI検索',
+      _yoast_wpseo_canonical: SEO.canonicalUrl,
+      '_yoast_wpseo_opengraph-title': SEO.ogTitle,
+      '_yoast_wpseo_opengraph-description': SEO.ogDescription,
+      '_yoast_wpseo_twitter-title': SEO.twitterTitle,
+      '_yoast_wpseo_twitter-description': SEO.twitterDescription,
+      '_yoast_wpseo_meta-robots-noindex': '1',
+    });
+  });
+
+  it('Rank Math のカスタムフィールドを送信する', async () => {
+    await publishToWordPress(stored(), site('rankmath'), { brand: DEFAULT_BRAND });
+    expect(requests[0].body?.meta).toEqual({
+      rank_math_title: SEO.title,
+      rank_math_description: SEO.description,
+      rank_math_focus_keyword: 'AI検索,LLMO',
+      rank_math_canonical_url: SEO.canonicalUrl,
+      rank_math_facebook_title: SEO.ogTitle,
+      rank_math_facebook_description: SEO.ogDescription,
+      rank_math_twitter_use_facebook: 'off',
+      rank_math_twitter_title: SEO.twitterTitle,
+      rank_math_twitter_description: SEO.twitterDescription,
+      rank_math_robots: ['noindex'],
+    });
+  });
+
+  it('SEOプラグインを使わないサイトにはカスタムフィールドを送信しない', async () => {
+    await publishToWordPress(stored(), site('none'), { brand: DEFAULT_BRAND });
+    expect(requests[0].body).not.toHaveProperty('meta');
+  });
+});
+
+describe('createWordPressClient', () => {
+  it('アプリケーションパスワードの空白を除いてBasic認証し、ユーザーを取得する', async () => {
+    const client = createWordPressClient({ siteUrl, username: USERNAME, applicationPassword: APPLICATION_PASSWORD });
+    expect(await client.getCurrentUser()).toEqual({ id: 1, name: '編集者' });
+  });
+
+  it('接続できない場合はステータスのない WordPressError にする', async () => {
+    const client = createWordPressClient({
+      siteUrl: 'http://127.0.0.1:1',
+      username: USERNAME,
+      applicationPassword: APPLICATION_PASSWORD,
+    });
+    const error = await client.getCurrentUser().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(WordPressError);
+    expect((error as WordPressError).status).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { BrandSettings } from '@/lib/brand';
+import { StoredArticle, WordPressPublication, WordPressSite } from '@/lib/types';
+import { createWordPressClient, WordPressError, WordPressPostStatus } from './client';
+import { buildWordPressPost } from './post';
+
+export interface PublishOptions {
+  brand: BrandSettings;
+  // 新規作成時のステータス（既定は下書き）。更新時に指定した場合はステータスも変更する
+  status?: WordPressPostStatus;
+  // テストでスタブのHTTPサーバーに接続する場合などに差し替える
+  fetch?: typeof fetch;
+}
+
+// 記事に記録済みの、指定したサイトへの投稿
+export function findPublication(stored: StoredArticle, siteId: string): WordPressPublication | undefined {
+  return stored.wordpress?.find(publication => publication.siteId === siteId);
+}
+
+// サイトごとに1件になるよう、投稿状況を置き換える
+export function upsertPublication(publications: WordPressPublication[] = [], publication: WordPressPublication): WordPressPublication[] {
+  return [...publications.filter(existing => existing.siteId !== publication.siteId), publication];
+}
+
+/**
+ * 保存済み記事をWordPressに投稿する。
+ * 同じサイトに投稿済みなら記録した投稿IDの投稿を更新し、WordPress側で削除されていた場合は新しく作成する。
+ */
+export async function publishToWordPress(stored: StoredArticle, site: WordPressSite, options: PublishOptions): Promise<WordPressPublication> {
+  const client = createWordPressClient({
+    siteUrl: site.siteUrl,
+    username: site.username,
+    applicationPassword: site.applicationPassword,
+    fetch: options.fetch,
+  });
+  const payload = buildWordPressPost(stored.article, options.brand, site.seoPlugin);
+  const existing = findPublication(stored, site.id);
+
+  let post = null;
+  if (existing) {
+    post = await client.updatePost(existing.postId, { ...payload, ...(options.status && { status: options.status }) })
+      .catch((error: unknown) => {
+        if (error instanceof WordPressError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      });
+  }
+  if (!post) {
+    post = await client.createPost({ ...payload, status: options.status ?? 'draft' });
+  }
+
+  return {
+    siteId: site.id,
+    postId: post.id,
+    status: post.status,
+    link: post.link || undefined,
+    editUrl: client.editUrl(post.id),
+    syncedAt: new Date().toISOString(),
+  };
+}
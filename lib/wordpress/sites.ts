@@ -0,0 +1,58 @@
+import { WordPressSite, WordPressSiteSummary } from '@/lib/types';
+import { isWordPressSEOPlugin } from './meta';
+
+// 保存・更新で受け付ける項目
+export type WordPressSiteSettings = Omit<WordPressSite, 'id' | 'createdAt' | 'updatedAt'>;
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * APIで受け取ったWordPressサイトの設定を検証する。
+ * 問題がある場合は errors に理由を入れて返す。
+ */
+export function normalizeWordPressSite(input: Partial<WordPressSiteSettings>): { site: WordPressSiteSettings; errors: string[] } {
+  const errors: string[] = [];
+  const siteUrl = optionalText(input.siteUrl)?.replace(/\/+$/, '') ?? '';
+  const username = optionalText(input.username) ?? '';
+  const applicationPassword = optionalText(input.applicationPassword) ?? '';
+
+  if (!siteUrl) {
+    errors.push('サイトURLは必須です');
+  } else if (!isHttpUrl(siteUrl)) {
+    errors.push('サイトURLは http:// または https:// で始まるURLを入力してください');
+  }
+  if (!username) {
+    errors.push('ユーザー名は必須です');
+  }
+  if (!applicationPassword) {
+    errors.push('アプリケーションパスワードは必須です');
+  }
+
+  return {
+    site: {
+      name: optionalText(input.name) ?? siteUrl,
+      siteUrl,
+      username,
+      applicationPassword,
+      seoPlugin: isWordPressSEOPlugin(input.seoPlugin) ? input.seoPlugin : 'yoast',
+    },
+    errors,
+  };
+}
+
+// アプリケーションパスワードを除いたサイト情報
+export function toWordPressSiteSummary(site: WordPressSite): WordPressSiteSummary {
+  const { applicationPassword, ...summary } = site;
+  return { ...summary, hasApplicationPassword: !!applicationPassword };
+}
@@ -0,0 +1,109 @@
+import { authorDisplayName, BrandSettings } from '@/lib/brand';
+import { escapeXml } from '@/lib/export/docx';
+import { LOCALE_CONFIG, resolveLocale } from '@/lib/locale';
+import { GeneratedArticle } from '@/lib/types';
+import { buildSEOPostMeta, WordPressPostMeta } from './meta';
+import { buildWordPressPost } from './post';
+
+export interface WXRItem {
+  // 保存済み記事のID（GUIDに使用し、同じ記事の再インポートを重複として扱えるようにする）
+  id: string;
+  article: GeneratedArticle;
+  brand: BrandSettings;
+  date: Date;
+}
+
+export interface WXROptions {
+  // インポート先のサイトURL（省略時は空）
+  siteUrl?: string;
+  title: string;
+}
+
+// CDATAセクション（本文中の "]]>" はセクションを分けて出力する）
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// 配列の投稿メタはWordPressと同じくPHPのシリアライズ形式で保存する（文字列長はバイト数）
+function serializeMetaValue(value: string | string[]): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const items = value.map((item, index) => `i:${index};s:${Buffer.byteLength(item, 'utf8')}:"${item}";`).join('');
+  return `a:${value.length}:{${items}}`;
+}
+
+function postMeta(meta: WordPressPostMeta): string {
+  return Object.entries(meta)
+    .map(([key, value]) => `      <wp:postmeta>\n        <wp:meta_key>${cdata(key)}</wp:meta_key>\n        <wp:meta_value>${cdata(serializeMetaValue(value))}</wp:meta_value>\n      </wp:postmeta>\n`)
+    .join('');
+}
+
+// WordPressの日付形式（YYYY-MM-DD HH:MM:SS、UTC）
+function wordpressDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * 記事をWordPressのインポートツール（ツール → インポート → WordPress）で読み込めるWXR形式にする。
+ * 記事はすべて下書きとして取り込まれる。インポート先のSEOプラグインが分からないため、
+ * SEOメタデータは Yoast SEO と Rank Math の両方の投稿メタとして出力する。
+ */
+export function generateWXR(items: WXRItem[], options: WXROptions): string {
+  const siteUrl = options.siteUrl?.replace(/\/+$/, '') ?? '';
+  const language = items[0] ? LOCALE_CONFIG[resolveLocale(items[0].article.locale)].htmlLang : 'ja';
+  const authors = [...new Set(items.map(item => authorDisplayName(item.brand)))];
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += '<rss version="2.0" xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:wfw="http://wellformedweb.org/CommentAPI/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/">\n';
+  xml += '  <channel>\n';
+  xml += `    <title>${escapeXml(options.title)}</title>\n`;
+  xml += `    <link>${escapeXml(siteUrl)}</link>\n`;
+  xml += '    <description></description>\n';
+  xml += `    <pubDate>${new Date().toUTCString()}</pubDate>\n`;
+  xml += `    <language>${language}</language>\n`;
+  xml += '    <wp:wxr_version>1.2</wp:wxr_version>\n';
+  xml += `    <wp:base_site_url>${escapeXml(siteUrl)}</wp:base_site_url>\n`;
+  xml += `    <wp:base_blog_url>${escapeXml(siteUrl)}</wp:base_blog_url>\n`;
+
+  // インポート時に既存のユーザーへ割り当てられるよう、著者を列挙する
+  authors.forEach((author, index) => {
+    xml += '    <wp:author>\n';
+    xml += `      <wp:author_id>${index + 1}</wp:author_id>\n`;
+    xml += `      <wp:author_login>${cdata(author)}</wp:author_login>\n`;
+    xml += `      <wp:author_display_name>${cdata(author)}</wp:author_display_name>\n`;
+    xml += '    </wp:author>\n';
+  });
+
+  items.forEach(({ id, article, brand, date }) => {
+    const post = buildWordPressPost(article, brand, 'none');
+    const seo = article.seoMetadata;
+    const meta = seo ? { ...buildSEOPostMeta(seo, 'yoast'), ...buildSEOPostMeta(seo, 'rankmath') } : {};
+
+    xml += '    <item>\n';
+    xml += `      <title>${cdata(post.title)}</title>\n`;
+    xml += `      <pubDate>${date.toUTCString()}</pubDate>\n`;
+    xml += `      <dc:creator>${cdata(authorDisplayName(brand))}</dc:creator>\n`;
+    xml += `      <guid isPermaLink="false">llmo-content:${escapeXml(id)}</guid>\n`;
+    xml += '      <description></description>\n';
+    xml += `      <content:encoded>${cdata(post.content)}</content:encoded>\n`;
+    xml += `      <excerpt:encoded>${cdata(post.excerpt ?? '')}</excerpt:encoded>\n`;
+    xml += `      <wp:post_date>${cdata(wordpressDate(date))}</wp:post_date>\n`;
+    xml += `      <wp:post_date_gmt>${cdata(wordpressDate(date))}</wp:post_date_gmt>\n`;
+    xml += `      <wp:comment_status>${cdata('closed')}</wp:comment_status>\n`;
+    xml += `      <wp:ping_status>${cdata('closed')}</wp:ping_status>\n`;
+    xml += `      <wp:post_name>${cdata(post.slug ?? '')}</wp:post_name>\n`;
+    xml += `      <wp:status>${cdata('draft')}</wp:status>\n`;
+    xml += '      <wp:post_parent>0</wp:post_parent>\n';
+    xml += '      <wp:menu_order>0</wp:menu_order>\n';
+    xml += `      <wp:post_type>${cdata('post')}</wp:post_type>\n`;
+    xml += `      <wp:post_password>${cdata('')}</wp:post_password>\n`;
+    xml += '      <wp:is_sticky>0</wp:is_sticky>\n';
+    xml += postMeta(meta);
+    xml += '    </item>\n';
+  });
+
+  xml += '  </channel>\n';
+  xml += '</rss>\n';
+  return xml;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { toYaml } from './yaml';
+
+describe('toYaml', () => {
+  it('安全な文字列は引用符なし、数値・真偽値・予約語に見える文字列は引用符付きで出力する', () => {
+    expect(toYaml({
+      title: 'AI検索に引用される記事の書き方',
+      version: '1.0',
+      draft: 'false',
+      answer: 'no',
+      count: 3,
+      published: true,
+    })).toBe([
+      'title: AI検索に引用される記事の書き方',
+      'version: "1.0"',
+      'draft: "false"',
+      'answer: "no"',
+      'count: 3',
+      'published: true',
+      '',
+    ].join('\n'));
+  });
+
+  it('記号で始まる文字列・「: 」や「 #」を含む文字列・改行をエスケープする', () => {
+    expect(toYaml({
+      a: '- list',
+      b: 'キー: 値',
+      c: 'タグ #seo',
+      d: '1行目\n2行目',
+      e: '',
+      f: ' 前後の空白 ',
+    })).toBe([
+      'a: "- list"',
+      'b: "キー: 値"',
+      'c: "タグ #seo"',
+      'd: "1行目\\n2行目"',
+      'e: ""',
+      'f: " 前後の空白 "',
+      '',
+    ].join('\n'));
+  });
+
+  it('配列・入れ子のオブジェクトをブロック形式で、空のものはフロー形式で出力する', () => {
+    expect(toYaml({
+      tags: ['SEO', 'LLMO'],
+      authors: [{ name: '山田 太郎', url: 'https://example.com' }],
+      empty: [],
+      meta: { og: { image: '/og.png' }, none: {} },
+    })).toBe([
+      'tags:',
+      '  - SEO',
+      '  - LLMO',
+      'authors:',
+      '  - name: 山田 太郎',
+      '    url: https://example.com',
+      'empty: []',
+      'meta:',
+      '  og:',
+      '    image: /og.png',
+      '  none: {}',
+      '',
+    ].join('\n'));
+  });
+
+  it('undefined の項目を除き、日付は指定した書式で引用符なしに出力する', () => {
+    const date = new Date('2026-03-01T09:30:00.000Z');
+    expect(toYaml({ date, slug: undefined })).toBe('date: 2026-03-01T09:30:00.000Z\n');
+    expect(toYaml({ date }, { formatDate: value => value.toISOString().slice(0, 10) })).toBe('date: 2026-03-01\n');
+  });
+
+  it('特殊な数値をYAMLの表記にする', () => {
+    expect(toYaml({ a: Number.NaN, b: Infinity, c: -Infinity })).toBe('a: .nan\nb: .inf\nc: -.inf\n');
+  });
+});
@@ -0,0 +1,98 @@
+export type YamlScalar = string | number | boolean | Date;
+export type YamlValue = YamlScalar | YamlValue[] | YamlMapping;
+// 値が undefined の項目は出力しない
+export interface YamlMapping {
+  [key: string]: YamlValue | undefined;
+}
+
+export interface YamlOptions {
+  // 日付の書式（出力はタイムスタンプとして解釈されるよう、引用符で囲まない）。省略時は ISO 8601
+  formatDate?: (date: Date) => string;
+}
+
+// 引用符なしでは文字列以外（真偽値・null・数値・日付）として解釈される値
+const RESERVED_WORDS = /^(?:~|null|true|false|yes|no|on|off|y|n)$/i;
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`]/;
+const NUMBER_LIKE_START = /^[-+.]?\d/;
+
+// 引用符なしの文字列（plain scalar）として出力しても、同じ文字列として読み戻せるか
+function isPlainSafe(text: string): boolean {
+  return text !== ''
+    && text === text.trim()
+    && !INDICATOR_START.test(text)
+    && !NUMBER_LIKE_START.test(text)
+    && !RESERVED_WORDS.test(text)
+    && !/^\.(?:inf|nan)$/i.test(text)
+    && !/:\s|\s#|:$/.test(text)
+    // 改行・タブ・制御文字を含む場合はエスケープが必要
+    && !/[\x00-\x1f\x7f-\x9f\u2028\u2029\ufeff]/.test(text);
+}
+
+/**
+ * 文字列をYAMLのスカラーにする。安全な場合は引用符なし、それ以外はダブルクォートで囲んでエスケープする。
+ * JSONの文字列表記はYAMLのダブルクォート形式としても有効なため、JSON.stringify の結果を基にする。
+ */
+function quoteString(text: string): string {
+  if (isPlainSafe(text)) return text;
+  return JSON.stringify(text)
+    .replace(/[\x7f-\x9f\u2028\u2029\ufeff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+function formatScalar(value: YamlScalar, options: YamlOptions): string {
+  if (value instanceof Date) {
+    return options.formatDate ? options.formatDate(value) : value.toISOString();
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return quoteString(value);
+}
+
+function isScalar(value: YamlValue): value is YamlScalar {
+  return typeof value !== 'object' || value instanceof Date;
+}
+
+function definedEntries(mapping: YamlMapping): [string, YamlValue][] {
+  return Object.entries(mapping).filter((entry): entry is [string, YamlValue] => entry[1] !== undefined);
+}
+
+// ブロック形式の行を作る（空の配列・オブジェクトはフロー形式の [] / {}）
+function mappingLines(mapping: YamlMapping, indent: string, options: YamlOptions): string[] {
+  return definedEntries(mapping).flatMap(([key, value]) => {
+    const prefix = `${indent}${quoteString(key)}:`;
+    if (isScalar(value)) {
+      return [`${prefix} ${formatScalar(value, options)}`];
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0 ? [`${prefix} []`] : [prefix, ...sequenceLines(value, `${indent}  `, options)];
+    }
+    return definedEntries(value).length === 0 ? [`${prefix} {}`] : [prefix, ...mappingLines(value, `${indent}  `, options)];
+  });
+}
+
+function sequenceLines(items: YamlValue[], indent: string, options: YamlOptions): string[] {
+  return items.flatMap(item => {
+    if (isScalar(item)) {
+      return [`${indent}- ${formatScalar(item, options)}`];
+    }
+    // 要素が配列・オブジェクトの場合は、1行目を「- 」の後に続け、残りの行を揃える
+    const nested = Array.isArray(item) ? sequenceLines(item, `${indent}  `, options) : mappingLines(item, `${indent}  `, options);
+    if (nested.length === 0) {
+      return [`${indent}- ${Array.isArray(item) ? '[]' : '{}'}`];
+    }
+    return [`${indent}- ${nested[0].slice(indent.length + 2)}`, ...nested.slice(1)];
+  });
+}
+
+/**
+ * オブジェクトをYAMLのブロック形式に変換する（フロントマター用）。
+ * 文字列は必要な場合のみ引用符で囲み、Date は options.formatDate の書式で出力する。
+ */
+export function toYaml(mapping: YamlMapping, options: YamlOptions = {}): string {
+  return mappingLines(mapping, '', options).map(line => `${line}\n`).join('');
+}
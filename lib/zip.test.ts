@@ -0,0 +1,53 @@
+import { inflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+// ローカルファイルヘッダーを順に読み、名前と展開後のデータを返す
+function readEntries(zip: Buffer): { name: string; data: string; flags: number }[] {
+  const entries: { name: string; data: string; flags: number }[] = [];
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const flags = zip.readUInt16LE(offset + 6);
+    const method = zip.readUInt16LE(offset + 8);
+    const checksum = zip.readUInt32LE(offset + 14);
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf-8');
+    const body = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + compressedSize);
+    const raw = method === 8 ? inflateRawSync(body) : body;
+    expect(crc32(raw)).toBe(checksum);
+    entries.push({ name, data: raw.toString('utf-8'), flags });
+    offset += 30 + nameLength + compressedSize;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('CRC-32 の標準のチェック値を返す', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('UTF-8のファイル名と本文を格納し、展開すると元に戻る', () => {
+    const long = '記事の本文です。'.repeat(100);
+    const zip = createZip([
+      { name: '記事/01-ai-search.md', data: long },
+      { name: 'manifest.json', data: '{}' },
+    ]);
+    expect(readEntries(zip)).toEqual([
+      { name: '記事/01-ai-search.md', data: long, flags: 0x0800 },
+      { name: 'manifest.json', data: '{}', flags: 0x0800 },
+    ]);
+  });
+
+  it('終端レコードにエントリ数と中央ディレクトリの位置を記録する', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: 'b' }]);
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+    const centralOffset = end.readUInt32LE(16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(centralOffset + end.readUInt32LE(12)).toBe(zip.length - 22);
+  });
+});